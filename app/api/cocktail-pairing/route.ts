@@ -0,0 +1,145 @@
+/**
+ * 配餐调酒推荐 API
+ *
+ * POST /api/cocktail-pairing - 根据菜系和/或菜品原料推荐搭配的鸡尾酒
+ * GET /api/cocktail-pairing - 健康检查
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCocktailPairingService } from '../../services/cocktailPairingService';
+
+/**
+ * POST 方法：获取配餐调酒推荐
+ *
+ * 请求体：
+ * {
+ *   cuisine?: string,        // 菜系类型（与 ingredients 至少提供一项）
+ *   ingredients?: string[]   // 菜品原料列表
+ * }
+ *
+ * 响应：
+ * {
+ *   success: boolean,
+ *   data?: {
+ *     recommendations: BeverageRecommendation[],
+ *     pairingReasons: PairingReason[],
+ *     flavorProfile: CuisineFlavorProfile,
+ *     overallSuggestion: string,
+ *     metadata: {...}
+ *   },
+ *   error?: string
+ * }
+ */
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('请求体解析失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '请求体格式错误，请确保 Content-Type 为 application/json',
+      },
+      { status: 400 }
+    );
+  }
+
+  const { cuisine, ingredients } = body || {};
+
+  if (ingredients !== undefined && !Array.isArray(ingredients)) {
+    return NextResponse.json(
+      { success: false, error: '菜品原料列表（ingredients）必须是一个数组' },
+      { status: 400 }
+    );
+  }
+  if (cuisine !== undefined && cuisine !== null && typeof cuisine !== 'string') {
+    return NextResponse.json(
+      { success: false, error: '菜系（cuisine）必须是字符串' },
+      { status: 400 }
+    );
+  }
+  if (!cuisine?.trim() && (!ingredients || ingredients.length === 0)) {
+    return NextResponse.json(
+      { success: false, error: '请至少提供菜系（cuisine）或菜品原料（ingredients）' },
+      { status: 400 }
+    );
+  }
+
+  console.log('🍸 收到配餐调酒推荐请求:', { cuisine: cuisine || '未指定', ingredients: ingredients || [] });
+
+  const startTime = Date.now();
+  try {
+    const result = await getCocktailPairingService().execute({
+      cuisine: cuisine || null,
+      ingredients: ingredients || [],
+    });
+
+    const executionTime = Date.now() - startTime;
+    console.log(`✅ 配餐调酒推荐完成，耗时 ${executionTime}ms`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        recommendations: result.recommendations,
+        pairingReasons: result.pairingReasons,
+        flavorProfile: result.flavorProfile,
+        overallSuggestion: result.overallSuggestion,
+        metadata: {
+          ...result.metadata,
+          cuisine: cuisine || null,
+          ingredients: ingredients || [],
+          executionTime,
+        },
+      },
+    });
+  } catch (error) {
+    const message = (error as Error)?.message || '配餐推荐服务执行失败，请稍后重试';
+    console.error(`❌ 配餐调酒推荐失败，耗时 ${Date.now() - startTime}ms:`, error);
+
+    if (message.includes('输入验证失败')) {
+      return NextResponse.json({ success: false, error: message }, { status: 400 });
+    }
+
+    if (message.includes('timeout') || message.includes('Timeout')) {
+      return NextResponse.json(
+        { success: false, error: '请求超时，请稍后重试' },
+        { status: 504 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: message,
+        details: process.env.NODE_ENV === 'development' ? (error as Error)?.stack : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET 方法：健康检查
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({
+      status: 'healthy',
+      services: {
+        langgraph: getCocktailPairingService().getStatus(),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('健康检查失败:', error);
+    return NextResponse.json(
+      {
+        status: 'unhealthy',
+        error: (error as Error).message,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
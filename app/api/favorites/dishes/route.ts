@@ -0,0 +1,274 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDatabase } from '../../../lib/database';
+import { getSessionIdFromRequest, setSessionCookie } from '../../../lib/session';
+import { getFoodPairingDatabaseService } from '../../../services/foodPairingDatabaseService';
+import type { DishRecommendation } from '../../../types/foodPairing';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * 解析并验证 dishId
+ */
+function validateDishId(dishId: unknown): NextResponse | null {
+  if (!dishId || typeof dishId !== 'string') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: '菜品ID不能为空',
+        details: '请确保请求体包含有效的 dishId 字段（字符串类型）'
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!UUID_PATTERN.test(dishId)) {
+    return NextResponse.json(
+      { success: false, error: '菜品ID格式无效，必须是 UUID' },
+      { status: 400 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * 收藏菜品
+ * POST /api/favorites/dishes
+ *
+ * 请求体：{ dishId: string, dishData?: DishRecommendation }
+ * 菜品不存在时，使用 dishData（dishRecommenderNode 的输出）创建 Dish 记录
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. 从请求体中提取 dishId 和 dishData
+    let body;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error('请求体解析失败:', error);
+      return NextResponse.json(
+        { success: false, error: '请求体格式错误，请确保 Content-Type 为 application/json' },
+        { status: 400 }
+      );
+    }
+
+    const { dishId, dishData } = (body || {}) as { dishId?: unknown; dishData?: DishRecommendation };
+    const invalid = validateDishId(dishId);
+    if (invalid) {
+      return invalid;
+    }
+    const id = dishId as string;
+
+    console.log(`❤️ 收到菜品收藏请求，dishId: ${id}`);
+
+    // 2. 获取或生成 sessionId
+    const sessionId = getSessionIdFromRequest(request);
+    const hasExistingCookie = request.cookies.has('session_id');
+
+    // 3. 初始化数据库连接
+    await initializeDatabase();
+    const service = getFoodPairingDatabaseService();
+
+    // 4. 如果 Dish 不存在，但提供了 dishData，则创建 Dish 记录
+    let dish = await service.getDish(id);
+    if (!dish && dishData) {
+      console.log(`📝 菜品不存在，使用传入的菜品数据创建新菜品，dishId: ${id}`);
+      dish = await service.saveDish({ ...dishData, id });
+    }
+
+    if (!dish) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '菜品不存在',
+          details: '如果菜品不存在，请提供完整的菜品数据（dishData字段）以自动创建菜品'
+        },
+        { status: 404 }
+      );
+    }
+
+    // 5. 创建收藏记录（防止重复收藏）
+    const favorite = await service.addDishFavorite(sessionId, id);
+    if (!favorite) {
+      console.log(`⚠️ 菜品已收藏，dishId: ${id}`);
+      return NextResponse.json(
+        { success: false, error: '该菜品已收藏' },
+        { status: 409 }
+      );
+    }
+    console.log(`✅ 菜品收藏成功，favoriteId: ${favorite.id}`);
+
+    // 6. 创建响应并设置 cookie
+    const response = NextResponse.json({
+      success: true,
+      favorite: {
+        id: favorite.id,
+        sessionId: favorite.sessionId,
+        dishId: favorite.dishId,
+        createdAt: favorite.createdAt
+      },
+      dish: {
+        id: dish.id,
+        name: dish.name,
+        description: dish.description
+      }
+    });
+
+    if (!hasExistingCookie) {
+      setSessionCookie(response, sessionId);
+    }
+
+    return response;
+  } catch (error) {
+    console.error('菜品收藏API错误:', error);
+
+    if (error instanceof Error && (error.message.includes('duplicate key') || error.message.includes('Unique constraint'))) {
+      return NextResponse.json(
+        { success: false, error: '该菜品已收藏' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '收藏菜品失败，请稍后重试',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 获取收藏的菜品列表
+ * GET /api/favorites/dishes?page=1&limit=10
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = getSessionIdFromRequest(request);
+    const hasExistingCookie = request.cookies.has('session_id');
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    let limit = parseInt(searchParams.get('limit') || '10', 10);
+
+    // 验证 limit 范围（最大50）
+    if (limit > 50) {
+      limit = 50;
+    }
+    if (Number.isNaN(limit) || limit < 1) {
+      limit = 10;
+    }
+
+    if (Number.isNaN(page) || page < 1) {
+      return NextResponse.json(
+        { success: false, error: '页码必须大于0' },
+        { status: 400 }
+      );
+    }
+
+    await initializeDatabase();
+    const { items, total } = await getFoodPairingDatabaseService().getDishFavorites(sessionId, page, limit);
+
+    console.log(`✅ 查询完成，找到 ${total} 条菜品收藏记录，当前页 ${items.length} 条`);
+
+    const response = NextResponse.json({
+      success: true,
+      favorites: items,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+
+    if (!hasExistingCookie) {
+      setSessionCookie(response, sessionId);
+    }
+
+    return response;
+  } catch (error) {
+    console.error('获取菜品收藏列表API错误:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取菜品收藏列表失败，请稍后重试',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 取消收藏菜品
+ * DELETE /api/favorites/dishes
+ *
+ * 请求体：{ dishId: string }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: '请求体格式错误，请确保 Content-Type 为 application/json' },
+        { status: 400 }
+      );
+    }
+
+    const { dishId } = (body || {}) as { dishId?: unknown };
+    const invalid = validateDishId(dishId);
+    if (invalid) {
+      return invalid;
+    }
+    const id = dishId as string;
+
+    console.log(`🗑️ 收到取消菜品收藏请求，dishId: ${id}`);
+
+    const sessionId = getSessionIdFromRequest(request);
+    const hasExistingCookie = request.cookies.has('session_id');
+
+    // 安全考虑：只能删除自己的收藏（通过sessionId验证）
+    await initializeDatabase();
+    const favorite = await getFoodPairingDatabaseService().removeDishFavorite(sessionId, id);
+
+    if (!favorite) {
+      return NextResponse.json(
+        { success: false, error: '收藏记录不存在或已被删除' },
+        { status: 404 }
+      );
+    }
+    console.log(`✅ 取消菜品收藏成功，favoriteId: ${favorite.id}`);
+
+    const response = NextResponse.json({
+      success: true,
+      message: '取消收藏成功',
+      deletedFavorite: {
+        id: favorite.id,
+        dishId: favorite.dishId
+      }
+    });
+
+    if (!hasExistingCookie) {
+      setSessionCookie(response, sessionId);
+    }
+
+    return response;
+  } catch (error) {
+    console.error('取消菜品收藏API错误:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '取消收藏失败，请稍后重试',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * 单条菜品与酒品搭配推荐历史 API
+ *
+ * GET /api/food-pairing/history/:id - 获取某次搭配推荐的完整内容
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDatabase } from '../../../../lib/database';
+import { getSessionIdFromRequest } from '../../../../lib/session';
+import { getFoodPairingDatabaseService } from '../../../../services/foodPairingDatabaseService';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return NextResponse.json(
+        { success: false, error: '历史记录ID格式无效' },
+        { status: 400 }
+      );
+    }
+
+    // 没有会话 cookie 时不可能存在属于该会话的历史
+    if (!request.cookies.has('session_id')) {
+      return NextResponse.json(
+        { success: false, error: '历史记录不存在' },
+        { status: 404 }
+      );
+    }
+
+    const sessionId = getSessionIdFromRequest(request);
+
+    await initializeDatabase();
+    const entry = await getFoodPairingDatabaseService().getPairingHistoryById(sessionId, id);
+
+    if (!entry) {
+      return NextResponse.json(
+        { success: false, error: '历史记录不存在' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: entry,
+    });
+  } catch (error) {
+    console.error('获取搭配历史详情API错误:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取搭配历史详情失败，请稍后重试',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * 菜品与酒品搭配推荐历史 API
+ *
+ * GET /api/food-pairing/history?page=1&limit=10&cuisine=川菜&from=2025-01-01&to=2025-12-31
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDatabase } from '../../../lib/database';
+import { getSessionIdFromRequest, setSessionCookie } from '../../../lib/session';
+import { getFoodPairingDatabaseService } from '../../../services/foodPairingDatabaseService';
+
+/**
+ * 解析日期查询参数
+ * 只有日期（YYYY-MM-DD）的结束时间按当天结束计算，便于按天过滤
+ */
+function parseDateParam(value: string | null, endOfDay = false): Date | null | 'invalid' {
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return 'invalid';
+  }
+
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+/**
+ * 获取当前会话的搭配推荐历史（分页）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 1. 获取或生成 sessionId
+    const sessionId = getSessionIdFromRequest(request);
+    const hasExistingCookie = request.cookies.has('session_id');
+
+    // 2. 解析分页和过滤参数
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    let limit = parseInt(searchParams.get('limit') || '10', 10);
+
+    if (Number.isNaN(page) || page < 1) {
+      return NextResponse.json(
+        { success: false, error: '页码必须大于0' },
+        { status: 400 }
+      );
+    }
+
+    // 验证 limit 范围（最大50）
+    if (Number.isNaN(limit) || limit < 1) {
+      limit = 10;
+    }
+    if (limit > 50) {
+      limit = 50;
+    }
+
+    const cuisine = searchParams.get('cuisine')?.trim() || null;
+    const from = parseDateParam(searchParams.get('from'));
+    const to = parseDateParam(searchParams.get('to'), true);
+
+    if (from === 'invalid' || to === 'invalid') {
+      return NextResponse.json(
+        { success: false, error: '日期格式无效，请使用 ISO 格式，如 2025-01-01' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`📋 获取搭配历史，sessionId: ${sessionId}, page: ${page}, limit: ${limit}`, {
+      cuisine,
+      from,
+      to,
+    });
+
+    // 3. 查询历史记录
+    await initializeDatabase();
+    const { items, total } = await getFoodPairingDatabaseService().getPairingHistory(sessionId, {
+      page,
+      limit,
+      cuisine,
+      from,
+      to,
+    });
+
+    // 4. 创建响应
+    const response = NextResponse.json({
+      success: true,
+      history: items,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+
+    // 5. 如果 sessionId 是新生成的，设置到 cookie 中
+    if (!hasExistingCookie) {
+      setSessionCookie(response, sessionId);
+    }
+
+    return response;
+  } catch (error) {
+    console.error('获取搭配历史API错误:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取搭配历史失败，请稍后重试',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,10 +3,17 @@
  * 
  * POST /api/food-pairing - 获取菜品和酒品搭配推荐
  * GET /api/food-pairing - 健康检查
+ * GET /api/food-pairing/history - 搭配推荐历史（见 history/route.ts）
+ * POST /api/food-pairing/stream - 流式搭配推荐（见 stream/route.ts）
+ * GET/POST /api/food-pairing/runs/:threadId - 查询执行、恢复执行或提交菜品确认结果（见 runs/[id]/route.ts）
  */
 
+import { randomUUID } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { getFoodPairingService } from '../../services/langgraphService';
+import { getFoodPairingDatabaseService } from '../../services/foodPairingDatabaseService';
+import { initializeDatabase } from '../../lib/database';
+import { getSessionIdFromRequest, setSessionCookie } from '../../lib/session';
 import type { CompletePairingRecommendation } from '../../types/foodPairing';
 
 /**
@@ -16,13 +23,21 @@ import type { CompletePairingRecommendation } from '../../types/foodPairing';
  * {
  *   cuisine?: string,           // 菜系类型（可选）
  *   foodIngredients: string[],   // 食品原料列表（必需）
- *   drinkIngredients?: string[]  // 酒原料列表（可选）
+ *   drinkIngredients?: string[], // 酒原料列表（可选）
+ *   reviewDishes?: boolean,      // 是否在酒品搭配前确认菜品（可选），为 true 时生成菜品后暂停，返回 awaiting_input
+ *   dietaryRestrictions?: ('vegetarian' | 'vegan' | 'halal' | 'gluten_free')[], // 饮食限制（可选），halal 同时要求饮品不含酒精
+ *   allergens?: ('nuts' | 'shellfish' | 'dairy')[],  // 需要排除的过敏原（可选）
+ *   nonAlcoholic?: boolean       // 只推荐无酒精饮品（可选）
  * }
  * 
  * 响应：
  * {
  *   success: boolean,
- *   data?: CompletePairingRecommendation,
+ *   status?: 'completed' | 'awaiting_input',
+ *   data?: CompletePairingRecommendation | null,  // 等待确认菜品时为 null
+ *   dishes?: DishRecommendation[],  // 等待确认的菜品，通过 POST /api/food-pairing/runs/:threadId（action 为 select_dishes）提交确认结果
+ *   threadId?: string,           // 执行线程 ID，执行失败时可通过 POST /api/food-pairing/runs/:threadId 恢复执行
+ *   historyId?: string | null,   // 保存到 FoodPairingHistory 的记录 ID，保存失败时为 null
  *   error?: string,
  *   details?: any
  * }
@@ -44,7 +59,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { cuisine, foodIngredients, drinkIngredients } = body || {};
+    const { cuisine, foodIngredients, drinkIngredients, reviewDishes, dietaryRestrictions, allergens, nonAlcoholic } = body || {};
+    // 饮食限制的格式由服务验证，验证失败时返回 400
+    const dietary = { dietaryRestrictions, allergens, nonAlcoholic };
 
     // 2. 验证输入参数
     if (!foodIngredients || !Array.isArray(foodIngredients) || foodIngredients.length === 0) {
@@ -69,26 +86,80 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (reviewDishes !== undefined && typeof reviewDishes !== 'boolean') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'reviewDishes 必须是布尔值',
+        },
+        { status: 400 }
+      );
+    }
+
     console.log('🍽️ 收到菜品与酒品搭配推荐请求');
     console.log('📥 输入参数:', {
       cuisine: cuisine || '未指定',
       foodIngredients,
       drinkIngredients: drinkIngredients || [],
+      dietaryRestrictions: dietaryRestrictions || [],
+      allergens: allergens || [],
+      nonAlcoholic: Boolean(nonAlcoholic),
     });
 
     // 3. 获取服务实例
     const service = getFoodPairingService();
 
-    // 4. 执行 LangGraph 推荐流程
+    // 4. 执行 LangGraph 推荐流程，每个节点的状态按 threadId 保存；
+    //    线程属于当前会话，返回 threadId 的响应都需要带上会话 cookie，之后才能查询或恢复执行
+    const sessionId = getSessionIdFromRequest(request);
+    const hasExistingCookie = request.cookies.has('session_id');
+    const withSession = (response: NextResponse) => {
+      if (!hasExistingCookie) {
+        setSessionCookie(response, sessionId);
+      }
+      return response;
+    };
     const startTime = Date.now();
+    const threadId = randomUUID();
     let pairingResult: CompletePairingRecommendation;
 
     try {
-      pairingResult = await service.execute({
-        cuisine: cuisine || null,
-        foodIngredients,
-        drinkIngredients: drinkIngredients || [],
-      });
+      if (reviewDishes) {
+        // 需要用户确认菜品：生成菜品后暂停，确认后再继续酒品搭配
+        const run = await service.start({
+          cuisine: cuisine || null,
+          foodIngredients,
+          drinkIngredients: drinkIngredients || [],
+          reviewDishes: true,
+          ...dietary,
+        }, { threadId, sessionId });
+
+        if (run.status === 'awaiting_input') {
+          console.log(`⏸️ 已生成 ${run.dishes.length} 个菜品，等待用户确认（线程 ${threadId}）`);
+          return withSession(NextResponse.json({
+            success: true,
+            status: run.status,
+            data: null,
+            dishes: run.dishes,
+            threadId,
+            metadata: {
+              executionTime: Date.now() - startTime,
+              timestamp: new Date().toISOString(),
+            },
+          }));
+        }
+        if (!run.result) {
+          throw new Error('未能生成有效的推荐结果');
+        }
+        pairingResult = run.result;
+      } else {
+        pairingResult = await service.execute({
+          cuisine: cuisine || null,
+          foodIngredients,
+          drinkIngredients: drinkIngredients || [],
+          ...dietary,
+        }, { threadId, sessionId });
+      }
     } catch (error: any) {
       const executionTime = Date.now() - startTime;
 
@@ -103,14 +174,15 @@ export async function POST(request: NextRequest) {
 
       // 处理超时错误
       if (error?.message?.includes('timeout') || error?.message?.includes('Timeout')) {
-        return NextResponse.json(
+        return withSession(NextResponse.json(
           {
             success: false,
             error: '请求超时，请稍后重试',
+            threadId,
             details: process.env.NODE_ENV === 'development' ? error.message : undefined,
           },
           { status: 504 } // Gateway Timeout
-        );
+        ));
       }
 
       // 处理输入验证错误
@@ -127,10 +199,11 @@ export async function POST(request: NextRequest) {
 
       // 处理其他执行错误
       const userFriendlyMessage = error?.message || '推荐服务执行失败，请稍后重试';
-      return NextResponse.json(
+      return withSession(NextResponse.json(
         {
           success: false,
           error: userFriendlyMessage,
+          threadId,
           details: process.env.NODE_ENV === 'development'
             ? {
               message: error?.message,
@@ -140,25 +213,49 @@ export async function POST(request: NextRequest) {
             : undefined,
         },
         { status: 500 }
-      );
+      ));
     }
 
     const executionTime = Date.now() - startTime;
 
-    // 5. 构建响应
-    const response = {
+    // 5. 保存搭配历史（保存失败不影响本次推荐结果的返回）
+    let historyId: string | null = null;
+
+    try {
+      await initializeDatabase();
+      const history = await getFoodPairingDatabaseService().savePairingHistory(
+        sessionId,
+        {
+          cuisine: cuisine || null,
+          foodIngredients,
+          drinkIngredients: drinkIngredients || [],
+          ...dietary,
+        },
+        pairingResult
+      );
+      historyId = history.id;
+    } catch (error) {
+      console.error('⚠️ 保存搭配历史失败:', error);
+    }
+
+    // 6. 构建响应
+    const response = NextResponse.json({
       success: true,
+      status: 'completed',
       data: pairingResult,
+      threadId,
+      historyId,
       metadata: {
         executionTime,
         timestamp: new Date().toISOString(),
       },
-    };
+    });
 
     console.log(`✅ 推荐完成，耗时 ${executionTime}ms`);
     console.log(`📊 结果: ${pairingResult.dishes.length} 个菜品, ${pairingResult.beverages.length} 个酒品, ${pairingResult.pairingReasons.length} 个搭配理由`);
 
-    return NextResponse.json(response);
+    // 7. 如果 sessionId 是新生成的，设置到 cookie 中，便于之后查询历史
+    return withSession(response);
   } catch (error: any) {
     // 记录未预期错误的详细日志（包含堆栈跟踪）
     console.error('❌ API 处理失败 - 未预期的错误');
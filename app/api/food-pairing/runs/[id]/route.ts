@@ -0,0 +1,200 @@
+/**
+ * 菜品与酒品搭配推荐执行记录 API
+ *
+ * GET  /api/food-pairing/runs/:threadId - 查询执行状态（completed / awaiting_input / failed / interrupted）和已保存的节点输出
+ * POST /api/food-pairing/runs/:threadId - 恢复执行（{"action": "resume"}）：
+ *      从保存的状态继续，只重新执行失败或中断的节点，已生成的菜品推荐直接复用
+ * POST /api/food-pairing/runs/:threadId - 提交菜品确认结果（状态为 awaiting_input 时）：
+ *      {"action": "select_dishes", "decisions": [{"dishId": "...", "action": "accept" | "reject" | "edit", "changes": {...}}],
+ *       "replacements": {"count": 2, "hint": "清淡一些"}}
+ *      未出现在 decisions 中的菜品视为保留；提供 replacements 时生成替换菜品后再次返回 awaiting_input，
+ *      否则只用保留的菜品完成酒品搭配
+ *
+ * 只有发起执行的会话（session_id cookie）可以查询和操作执行记录，其他会话视为不存在
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDatabase } from '../../../../lib/database';
+import { getSessionIdFromRequest } from '../../../../lib/session';
+import { getFoodPairingDatabaseService } from '../../../../services/foodPairingDatabaseService';
+import { FoodPairingRunConflictError, getFoodPairingService } from '../../../../services/langgraphService';
+import type { CompletePairingRecommendation, FoodPairingRun } from '../../../../types/foodPairing';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return NextResponse.json(
+        { success: false, error: '线程ID格式无效' },
+        { status: 400 }
+      );
+    }
+
+    // 没有会话 cookie 时不可能存在属于该会话的执行记录
+    if (!request.cookies.has('session_id')) {
+      return NextResponse.json(
+        { success: false, error: '执行记录不存在' },
+        { status: 404 }
+      );
+    }
+
+    const run = await getFoodPairingService().getRun(id, getSessionIdFromRequest(request));
+
+    if (!run) {
+      return NextResponse.json(
+        { success: false, error: '执行记录不存在' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: run,
+    });
+  } catch (error) {
+    console.error('获取搭配推荐执行记录API错误:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取执行记录失败，请稍后重试',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return NextResponse.json(
+        { success: false, error: '线程ID格式无效' },
+        { status: 400 }
+      );
+    }
+
+    if (!request.cookies.has('session_id')) {
+      return NextResponse.json(
+        { success: false, error: '执行记录不存在' },
+        { status: 404 }
+      );
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: '请求体格式错误，请确保 Content-Type 为 application/json' },
+        { status: 400 }
+      );
+    }
+
+    if (body?.action !== 'resume' && body?.action !== 'select_dishes') {
+      return NextResponse.json(
+        { success: false, error: '无效的操作', details: '支持的操作: resume, select_dishes' },
+        { status: 400 }
+      );
+    }
+
+    const startTime = Date.now();
+    const sessionId = getSessionIdFromRequest(request);
+    let outcome: {
+      status: FoodPairingRun['status'];
+      result: CompletePairingRecommendation | null;
+      dishes: FoodPairingRun['dishes'];
+      input: FoodPairingRun['input'];
+      resumedNode?: string | null;
+      /** 是否需要保存搭配历史（已完成的线程在第一次完成时已保存） */
+      newlyCompleted: boolean;
+    };
+
+    if (body.action === 'select_dishes') {
+      console.log(`✅ 提交菜品确认结果: ${id}`);
+      const run = await getFoodPairingService().selectDishes(id, sessionId, {
+        decisions: body.decisions ?? [],
+        replacements: body.replacements,
+      });
+      if (!run) {
+        return NextResponse.json(
+          { success: false, error: '执行记录不存在' },
+          { status: 404 }
+        );
+      }
+      outcome = { ...run, newlyCompleted: run.status === 'completed' && run.result !== null };
+    } else {
+      console.log(`🔁 恢复搭配推荐执行: ${id}`);
+      const resumed = await getFoodPairingService().resume(id, sessionId);
+      if (!resumed) {
+        return NextResponse.json(
+          { success: false, error: '执行记录不存在' },
+          { status: 404 }
+        );
+      }
+      outcome = { ...resumed, newlyCompleted: resumed.resumedNode !== null && resumed.result !== null };
+    }
+
+    // 执行完成后保存搭配历史，保存失败不影响结果的返回
+    let historyId: string | null = null;
+    if (outcome.newlyCompleted && outcome.result) {
+      try {
+        await initializeDatabase();
+        const history = await getFoodPairingDatabaseService().savePairingHistory(sessionId, outcome.input, outcome.result);
+        historyId = history.id;
+      } catch (error) {
+        console.error('⚠️ 保存搭配历史失败:', error);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: outcome.status,
+      data: outcome.result,
+      dishes: outcome.dishes,
+      threadId: id,
+      ...(outcome.resumedNode !== undefined ? { resumedNode: outcome.resumedNode } : {}),
+      historyId,
+      metadata: {
+        executionTime: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof FoodPairingRunConflictError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if ((error as Error)?.message?.includes('输入验证失败')) {
+      return NextResponse.json(
+        { success: false, error: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
+    console.error('恢复搭配推荐执行API错误:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: (error as Error)?.message || '恢复执行失败，请稍后重试',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
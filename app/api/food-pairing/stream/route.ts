@@ -0,0 +1,129 @@
+/**
+ * 菜品与酒品搭配推荐流式 API
+ *
+ * POST /api/food-pairing/stream - 以 Server-Sent Events 推送节点级执行事件
+ *
+ * 请求体与 POST /api/food-pairing 相同，事件类型见 FoodPairingStreamEvent：
+ * node_start / node_end / partial / awaiting_input / result / error
+ * reviewDishes 为 true 时生成菜品后以 awaiting_input 事件结束，确认菜品通过 POST /api/food-pairing/runs/:threadId 提交
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFoodPairingService } from '../../../services/langgraphService';
+import { getFoodPairingDatabaseService } from '../../../services/foodPairingDatabaseService';
+import { initializeDatabase } from '../../../lib/database';
+import { getSessionIdFromRequest, setSessionCookie } from '../../../lib/session';
+import type { FoodPairingStreamEvent } from '../../../types/foodPairing';
+
+/**
+ * 将事件编码为 SSE 格式
+ */
+function encodeEvent(encoder: TextEncoder, event: FoodPairingStreamEvent): Uint8Array {
+  return encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+export async function POST(request: NextRequest) {
+  // 1. 解析请求体
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('请求体解析失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '请求体格式错误，请确保 Content-Type 为 application/json',
+      },
+      { status: 400 }
+    );
+  }
+
+  const { cuisine, foodIngredients, drinkIngredients, reviewDishes, dietaryRestrictions, allergens, nonAlcoholic } = body || {};
+  const input = {
+    cuisine: cuisine || null,
+    foodIngredients,
+    drinkIngredients: drinkIngredients || [],
+    reviewDishes,
+    dietaryRestrictions,
+    allergens,
+    nonAlcoholic,
+  };
+
+  // 2. 在开始推送之前验证输入，验证失败时返回普通 JSON 错误
+  const service = getFoodPairingService();
+  try {
+    service.validateInput(input);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: (error as Error).message || '输入参数验证失败',
+      },
+      { status: 400 }
+    );
+  }
+
+  console.log('🍽️ 收到流式菜品与酒品搭配推荐请求');
+
+  const sessionId = getSessionIdFromRequest(request);
+  const hasExistingCookie = request.cookies.has('session_id');
+  const encoder = new TextEncoder();
+
+  // 3. 逐个推送图执行事件，得到最终结果后保存历史
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const event of service.stream(input, { sessionId })) {
+          if (request.signal.aborted) {
+            console.log('⚠️ 客户端已断开连接，停止推送');
+            break;
+          }
+
+          if (event.type === 'result') {
+            // 保存失败不影响本次推荐结果的返回
+            let historyId: string | null = null;
+            try {
+              await initializeDatabase();
+              const history = await getFoodPairingDatabaseService().savePairingHistory(
+                sessionId,
+                input,
+                event.data
+              );
+              historyId = history.id;
+            } catch (error) {
+              console.error('⚠️ 保存搭配历史失败:', error);
+            }
+            controller.enqueue(encodeEvent(encoder, { ...event, historyId }));
+          } else {
+            controller.enqueue(encodeEvent(encoder, event));
+          }
+        }
+      } catch (error) {
+        console.error('❌ 流式推送失败:', error);
+        controller.enqueue(
+          encodeEvent(encoder, {
+            type: 'error',
+            error: '服务器内部错误，请稍后重试',
+          })
+        );
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  const response = new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+
+  // 4. 如果 sessionId 是新生成的，设置到 cookie 中，便于之后查询历史
+  if (!hasExistingCookie) {
+    setSessionCookie(response, sessionId);
+  }
+
+  return response;
+}
@@ -0,0 +1,140 @@
+/**
+ * 单个知识库文档 API
+ *
+ * POST   /api/rag/documents/:id - 文档操作，目前支持 { "action": "reindex" }：重新切分并向量化
+ * DELETE /api/rag/documents/:id - 删除文档：pdfs 目录中的文件、向量库中的向量和 knowledge_documents 记录
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDatabase } from '../../../../lib/database';
+import {
+  KnowledgeSyncInProgressError,
+  deleteKnowledgeDocument,
+  reindexKnowledgeDocument,
+} from '../../../../services/ragService';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return NextResponse.json(
+        { success: false, error: '文档ID格式无效' },
+        { status: 400 }
+      );
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error('请求体解析失败:', error);
+      return NextResponse.json(
+        { success: false, error: '请求体格式错误，请确保 Content-Type 为 application/json' },
+        { status: 400 }
+      );
+    }
+
+    if (body?.action !== 'reindex') {
+      return NextResponse.json(
+        { success: false, error: '无效的操作', details: '支持的操作: reindex' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`🔄 重新索引知识库文档: ${id}`);
+
+    await initializeDatabase();
+    const record = await reindexKnowledgeDocument(id);
+
+    if (!record) {
+      return NextResponse.json(
+        { success: false, error: '文档不存在' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: '文档重新索引完成',
+      data: record,
+    });
+  } catch (error) {
+    if (error instanceof KnowledgeSyncInProgressError) {
+      return NextResponse.json(
+        { success: false, error: '知识库正在同步，请稍后再试' },
+        { status: 409 }
+      );
+    }
+
+    console.error('重新索引知识库文档API错误:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '重新索引文档失败，请稍后重试',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return NextResponse.json(
+        { success: false, error: '文档ID格式无效' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`🗑️ 删除知识库文档: ${id}`);
+
+    await initializeDatabase();
+    const record = await deleteKnowledgeDocument(id);
+
+    if (!record) {
+      return NextResponse.json(
+        { success: false, error: '文档不存在' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: '文档已删除',
+      data: record,
+    });
+  } catch (error) {
+    if (error instanceof KnowledgeSyncInProgressError) {
+      return NextResponse.json(
+        { success: false, error: '知识库正在同步，请稍后再试' },
+        { status: 409 }
+      );
+    }
+
+    console.error('删除知识库文档API错误:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '删除文档失败，请稍后重试',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
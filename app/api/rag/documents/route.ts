@@ -0,0 +1,142 @@
+/**
+ * 知识库文档管理 API
+ *
+ * GET  /api/rag/documents - 获取知识库文档列表（knowledge_documents 表）
+ * POST /api/rag/documents - 上传文档（multipart/form-data，字段名 file），保存到 pdfs 目录并立即向量化
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDatabase } from '../../../lib/database';
+import { SUPPORTED_EXTENSIONS, getDocumentType, isKnowledgeFileName } from '../../../services/documentLoaders';
+import { getKnowledgeDocumentService } from '../../../services/knowledgeDocumentService';
+import { KnowledgeSyncInProgressError, saveKnowledgeFile } from '../../../services/ragService';
+
+/**
+ * 上传文件大小上限（10MB）
+ */
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * 获取知识库文档列表
+ * 可选 type 参数按文档类型过滤，多个类型用逗号分隔，如 ?type=pdf,markdown
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const types = searchParams.get('type')?.split(',').map((type) => type.trim()).filter(Boolean);
+
+    await initializeDatabase();
+    const documents = await getKnowledgeDocumentService().listDocuments(types && types.length > 0 ? types : undefined);
+
+    return NextResponse.json({
+      success: true,
+      data: documents,
+    });
+  } catch (error) {
+    console.error('获取知识库文档列表API错误:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取知识库文档列表失败，请稍后重试',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 上传知识库文档
+ * 同名文件会被替换，旧内容的向量一并删除
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch (error) {
+      console.error('上传请求解析失败:', error);
+      return NextResponse.json(
+        { success: false, error: '请求格式错误，请使用 multipart/form-data 上传文件' },
+        { status: 400 }
+      );
+    }
+
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { success: false, error: '请选择要上传的文件', details: '表单字段名为 file' },
+        { status: 400 }
+      );
+    }
+
+    // 去掉浏览器可能带上的目录部分
+    const fileName = file.name.split(/[\\/]/).pop()?.trim() || '';
+    if (!fileName || fileName.startsWith('.') || !getDocumentType(fileName)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '不支持的文件类型',
+          details: `支持的格式: ${SUPPORTED_EXTENSIONS.join('、')}`,
+        },
+        { status: 400 }
+      );
+    }
+    if (!isKnowledgeFileName(fileName)) {
+      return NextResponse.json(
+        { success: false, error: '文件名不可用', details: 'README 文件是知识库目录的说明文档，不能作为知识库文档上传' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size === 0) {
+      return NextResponse.json(
+        { success: false, error: '文件内容为空' },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { success: false, error: '文件过大', details: `文件大小不能超过 ${MAX_FILE_SIZE / 1024 / 1024}MB` },
+        { status: 413 }
+      );
+    }
+
+    console.log(`📤 上传知识库文档: ${fileName} (${file.size} bytes)`);
+
+    await initializeDatabase();
+    const { record, replaced } = await saveKnowledgeFile(fileName, Buffer.from(await file.arrayBuffer()));
+
+    console.log(`✅ 文档${replaced ? '已替换' : '已上传'}并完成向量化: ${fileName}, ${record.chunkCount} 个文本块`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: replaced ? '文档已替换并重新索引' : '文档上传成功',
+        data: record,
+      },
+      { status: replaced ? 200 : 201 }
+    );
+  } catch (error) {
+    if (error instanceof KnowledgeSyncInProgressError) {
+      return NextResponse.json(
+        { success: false, error: '知识库正在同步，请稍后再上传' },
+        { status: 409 }
+      );
+    }
+
+    console.error('上传知识库文档API错误:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '上传文档失败，请稍后重试',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * 知识库检索评估 API
+ *
+ * POST /api/rag/eval - 用黄金集评估检索效果（recall@k、MRR、nDCG@k），可对比多个分块 / 向量模型 / 检索模式配置
+ *
+ * 请求体（均可选）：
+ * - goldenSet：黄金集，默认读取 eval/golden-set.json（格式见 eval/README.md）
+ * - k：每条查询取前 k 条结果，默认 5
+ * - mode：hybrid（默认）/ vector / keyword；rerank：是否本地重排序
+ * - configs：待对比的配置 [{ name, chunking?, embedding?, mode?, rerank? }]，不提供时评估当前知识库
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadGoldenSet, runEvaluation, type EvaluationConfig } from '../../../services/ragEvaluation';
+import { validateGoldenSet, type GoldenSet } from '../../../services/retrievalMetrics';
+
+const MODES = ['hybrid', 'vector', 'keyword'];
+const EMBEDDING_PROVIDERS = ['openai', 'huggingface', 'local'];
+const MAX_K = 50;
+
+/**
+ * 校验对比配置，返回第一处错误，没有错误时返回 null
+ */
+function validateConfigs(configs: unknown): string | null {
+  if (!Array.isArray(configs) || configs.length === 0) {
+    return 'configs 必须是非空数组';
+  }
+
+  const names = new Set<string>();
+  for (const [index, config] of (configs as Partial<EvaluationConfig>[]).entries()) {
+    const label = `configs[${index}]`;
+    if (!config || typeof config.name !== 'string' || !config.name.trim()) {
+      return `${label} 缺少 name`;
+    }
+    if (names.has(config.name)) {
+      return `${label} 的 name 重复: ${config.name}`;
+    }
+    names.add(config.name);
+
+    const { chunking, embedding } = config;
+    if (chunking !== undefined) {
+      const { chunkSize, chunkOverlap, recipeBoundaries } = chunking ?? {};
+      if (chunkSize !== undefined && (!Number.isInteger(chunkSize) || chunkSize < 100 || chunkSize > 8000)) {
+        return `${label}.chunking.chunkSize 必须是 100 到 8000 之间的整数`;
+      }
+      if (chunkOverlap !== undefined && (!Number.isInteger(chunkOverlap) || chunkOverlap < 0 || chunkOverlap >= (chunkSize ?? 800))) {
+        return `${label}.chunking.chunkOverlap 必须是小于 chunkSize 的非负整数`;
+      }
+      if (recipeBoundaries !== undefined && typeof recipeBoundaries !== 'boolean') {
+        return `${label}.chunking.recipeBoundaries 必须是布尔值`;
+      }
+    }
+    if (embedding !== undefined) {
+      if (!embedding || !EMBEDDING_PROVIDERS.includes(embedding.provider)) {
+        return `${label}.embedding.provider 必须是 ${EMBEDDING_PROVIDERS.join(' / ')}`;
+      }
+      if (embedding.model !== undefined && (typeof embedding.model !== 'string' || !embedding.model.trim())) {
+        return `${label}.embedding.model 必须是模型名称`;
+      }
+    }
+    if (config.mode !== undefined && !MODES.includes(config.mode)) {
+      return `${label}.mode 必须是 ${MODES.join(' / ')}`;
+    }
+    if (config.rerank !== undefined && typeof config.rerank !== 'boolean') {
+      return `${label}.rerank 必须是布尔值`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 执行检索评估
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { goldenSet: inlineGoldenSet, k = 5, mode, rerank, configs } = body ?? {};
+
+    if (!Number.isInteger(k) || k < 1 || k > MAX_K) {
+      return NextResponse.json(
+        { success: false, error: `k 必须是 1 到 ${MAX_K} 之间的整数` },
+        { status: 400 }
+      );
+    }
+    if (mode !== undefined && !MODES.includes(mode)) {
+      return NextResponse.json(
+        { success: false, error: `mode 必须是 ${MODES.join(' / ')}` },
+        { status: 400 }
+      );
+    }
+    if (rerank !== undefined && typeof rerank !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'rerank 必须是布尔值' },
+        { status: 400 }
+      );
+    }
+    const configError = configs === undefined ? null : validateConfigs(configs);
+    if (configError) {
+      return NextResponse.json(
+        { success: false, error: configError },
+        { status: 400 }
+      );
+    }
+
+    let goldenSet: GoldenSet;
+    try {
+      goldenSet = inlineGoldenSet === undefined ? loadGoldenSet() : validateGoldenSet(inlineGoldenSet);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: '黄金集无效', details: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
+    const report = await runEvaluation(goldenSet, {
+      k,
+      mode,
+      rerank,
+      configs,
+      signal: request.signal,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('检索评估API错误:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '检索评估失败',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
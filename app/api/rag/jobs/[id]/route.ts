@@ -0,0 +1,103 @@
+/**
+ * 单个知识库同步任务 API
+ *
+ * GET  /api/rag/jobs/:id - 获取任务状态、进度和同步报告
+ * POST /api/rag/jobs/:id - 任务操作，目前支持 { "action": "cancel" }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRagJobQueue } from '../../../../services/ragJobService';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = getRagJobQueue().getJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: '同步任务不存在' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    console.error('获取同步任务API错误:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取同步任务失败，请稍后重试',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error('请求体解析失败:', error);
+      return NextResponse.json(
+        { success: false, error: '请求体格式错误，请确保 Content-Type 为 application/json' },
+        { status: 400 }
+      );
+    }
+
+    if (body?.action !== 'cancel') {
+      return NextResponse.json(
+        { success: false, error: '无效的操作', details: '支持的操作: cancel' },
+        { status: 400 }
+      );
+    }
+
+    const queue = getRagJobQueue();
+    const existing = queue.getJob(id);
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: '同步任务不存在' },
+        { status: 404 }
+      );
+    }
+    if (existing.status !== 'queued' && existing.status !== 'running') {
+      return NextResponse.json(
+        { success: false, error: '任务已结束，无法取消', data: existing },
+        { status: 409 }
+      );
+    }
+
+    const job = queue.cancel(id);
+
+    return NextResponse.json({
+      success: true,
+      message: job?.status === 'cancelled' ? '任务已取消' : '已请求取消，任务将在当前步骤完成后停止',
+      data: job,
+    });
+  } catch (error) {
+    console.error('取消同步任务API错误:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '取消同步任务失败，请稍后重试',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * 知识库同步任务 API
+ *
+ * GET /api/rag/jobs?status=completed - 获取同步任务历史（按创建时间倒序，可按状态过滤）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRagJobQueue, type RagJobStatus } from '../../../services/ragJobService';
+
+const JOB_STATUSES: RagJobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    if (status && !JOB_STATUSES.includes(status as RagJobStatus)) {
+      return NextResponse.json(
+        { success: false, error: '无效的任务状态', details: `可选值: ${JOB_STATUSES.join('、')}` },
+        { status: 400 }
+      );
+    }
+
+    const jobs = getRagJobQueue()
+      .listJobs()
+      .filter((job) => !status || job.status === status);
+
+    return NextResponse.json({
+      success: true,
+      data: jobs,
+    });
+  } catch (error) {
+    console.error('获取同步任务列表API错误:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取同步任务列表失败，请稍后重试',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,18 @@
 import { NextResponse } from 'next/server';
 import { getLoadingProgress } from '../../../services/ragService';
+import { getRagJobQueue } from '../../../services/ragJobService';
 
 export async function GET() {
   try {
     const progress = getLoadingProgress();
+    const job = getRagJobQueue().getRunningJob();
 
     return NextResponse.json({
       success: true,
-      data: progress
+      data: {
+        ...progress,
+        jobId: job?.id ?? null
+      }
     });
   } catch (error) {
     console.error('Error getting RAG progress:', error);
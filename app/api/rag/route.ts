@@ -1,13 +1,14 @@
 // @ts-nocheck
 export const runtime = 'nodejs';
 import { NextRequest, NextResponse } from 'next/server';
-import { runRagPipeline, queryVectorStore, getRagStatus } from '../../services/ragService';
+import { runRagPipeline, queryVectorStore, getRagStatus, extractRecipesFromPdfs } from '../../services/ragService';
+import { getRagJobQueue } from '../../services/ragJobService';
 
 // 初始化RAG系统
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { action, query, k } = body;
+    const { action, query, k, mode, filters, rerank, files } = body;
 
     switch (action) {
       case 'initialize':
@@ -17,15 +18,63 @@ export async function POST(request: NextRequest) {
           message: 'RAG系统初始化完成'
         });
 
-      case 'sync':
-        await runRagPipeline();
+      // 创建后台同步任务，通过 /api/rag/jobs/:id 查询进度和同步报告
+      case 'sync': {
+        const job = getRagJobQueue().enqueueSync();
+        return NextResponse.json(
+          {
+            success: true,
+            message: '知识库同步任务已创建',
+            job
+          },
+          { status: 202 }
+        );
+      }
+
+      // 从 PDF 中提取配方写入 recipes 表，files 为可选的文件名列表（默认处理 pdfs 目录下全部文件）
+      case 'extract_recipes': {
+        if (files !== undefined && (!Array.isArray(files) || files.some((file) => typeof file !== 'string'))) {
+          return NextResponse.json(
+            { error: 'files 必须是文件名数组' },
+            { status: 400 }
+          );
+        }
+
+        const result = await extractRecipesFromPdfs(files);
         return NextResponse.json({
-          success: true,
-          message: '知识库同步完成'
+          success: result.success,
+          message: result.success ? '配方提取完成' : '配方提取失败',
+          report: result.report
         });
+      }
 
+      // 混合检索：mode 为 hybrid（默认）/ vector / keyword，
+      // filters 支持 category、chunkType、hasIngredients，rerank 为 true 时本地重排序
       case 'query': {
-        const result = await queryVectorStore(query, k ?? 5);
+        if (!query || typeof query !== 'string') {
+          return NextResponse.json(
+            { error: '请提供检索内容' },
+            { status: 400 }
+          );
+        }
+        if (mode !== undefined && !['hybrid', 'vector', 'keyword'].includes(mode)) {
+          return NextResponse.json(
+            { error: '无效的检索模式，可选值: hybrid、vector、keyword' },
+            { status: 400 }
+          );
+        }
+
+        const result = await queryVectorStore(query, k ?? 5, {
+          mode,
+          filters: filters
+            ? {
+              category: filters.category,
+              chunkType: filters.chunkType,
+              hasIngredients: typeof filters.hasIngredients === 'boolean' ? filters.hasIngredients : undefined,
+            }
+            : undefined,
+          rerank: Boolean(rerank),
+        });
         return NextResponse.json(result);
       }
 
@@ -1,33 +1,34 @@
-import { runRagPipeline, queryVectorStore } from '../../../services/ragService';
+import { queryVectorStore } from '../../../services/ragService';
+import { getRagJobQueue } from '../../../services/ragJobService';
 import { NextResponse } from 'next/server';
 
 /**
  * POST /api/rag/sync
- * Triggers the RAG pipeline to load, split, and vectorize documents from the ./pdfs directory.
+ * Enqueues a background job that syncs the ./pdfs directory into the knowledge base incrementally.
+ * Only added or changed files are embedded; chunks of deleted files are removed.
+ * Responds immediately with the job; poll GET /api/rag/jobs/:id for progress and the sync report,
+ * cancel with POST /api/rag/jobs/:id { "action": "cancel" }.
  */
 export async function POST() {
   try {
-    console.log('🔄 [API] Starting knowledge base synchronization...');
+    console.log('🔄 [API] Enqueuing knowledge base synchronization...');
 
-    const result = await runRagPipeline();
+    const job = getRagJobQueue().enqueueSync();
 
-    if (result.success) {
-      return NextResponse.json({
+    return NextResponse.json(
+      {
         success: true,
-        message: 'Knowledge base synchronized successfully.',
-        data: result,
-      });
-    } else {
-      // Forward the error from the pipeline
-      throw new Error(result.message || 'Unknown error during pipeline execution.');
-    }
-
+        message: 'Knowledge base synchronization job enqueued.',
+        data: job,
+      },
+      { status: 202 }
+    );
   } catch (error) {
-    console.error('❌ [API] Knowledge base synchronization failed:', error);
+    console.error('❌ [API] Failed to enqueue knowledge base synchronization:', error);
     return NextResponse.json(
       {
         success: false,
-        error: 'Knowledge base synchronization failed.',
+        error: 'Failed to enqueue knowledge base synchronization.',
         details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
       },
       { status: 500 }
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { randomUUID } from 'crypto';
 import { LLMService } from '../../services/llmService';
-import { queryVectorStore, getRagStatus } from '../../services/ragService';
+import { retrieveKnowledgeContext, getRagStatus } from '../../services/ragService';
 import { MCPService } from '../../services/mcpService';
 import { env } from '../../lib/env';
+import type { KnowledgeContext } from '../../types';
 
 // 初始化服务
 const llmService = new LLMService();
@@ -24,68 +25,23 @@ export async function POST(request: NextRequest) {
 
     console.log(`🍹 开始推荐鸡尾酒，原料: ${ingredients.join('、')}`);
 
-    // 1. 生成LLM推荐
-    const llmRecommendations = await llmService.generateRecommendations(ingredients);
-
-    let enhancedRecommendations = llmRecommendations;
-    let ragContext = null;
-
-    // 2. 如果启用RAG，增强推荐
+    // 1. 如果启用RAG，检索知识库
+    let ragContext: KnowledgeContext[] = [];
     if (includeRAG) {
       try {
-        // 使用新的RAG服务进行检索
         const query = `鸡尾酒配方 原料: ${ingredients.join('、')}`;
-        const ragResult = await queryVectorStore(query, 3);
-
-        if (ragResult.success && ragResult.results && ragResult.results.length > 0) {
-          // 构建RAG上下文
-          ragContext = ragResult.results.map((result: any) => {
-            const [doc, score] = result;
-            return `- ${doc.pageContent} (来源: ${doc.metadata?.source || '未知'}, 相似度: ${score.toFixed(3)})`;
-          }).join('\n');
-
-          // 构建增强的提示词
-          const enhancedPrompt = `你是一个专业的调酒师。请根据用户提供的原料和以下知识库信息，为用户推荐合适的鸡尾酒配方。
-
-[知识库信息]
-${ragContext}
-[知识库信息结束]
-
-用户原料: ${ingredients.join('、')}
-
-请为每个推荐提供以下信息（JSON格式）：
-{
-  "name": "鸡尾酒名称",
-  "description": "简短描述",
-  "ingredients": ["原料1 用量", "原料2 用量", ...],
-  "steps": ["步骤1", "步骤2", ...],
-  "difficulty": 1-5,
-  "estimatedTime": 分钟数,
-  "category": "分类",
-  "glassType": "杯型",
-  "technique": "调制技巧",
-  "garnish": "装饰"
-}
-
-请确保：
-1. 配方中的原料尽量使用用户提供的原料
-2. 难度等级：1=简单，2=容易，3=中等，4=困难，5=专家
-3. 制作步骤要详细清晰
-4. 返回有效的JSON数组格式`;
-
-          // 使用增强的提示词重新生成推荐
-          const enhancedResponse = await llmService.generateRecommendations(ingredients);
-          enhancedRecommendations = enhancedResponse;
-        } else {
+        ragContext = await retrieveKnowledgeContext(query, 3);
+        if (ragContext.length === 0) {
           console.warn('RAG检索未找到相关内容，使用纯LLM推荐');
-          enhancedRecommendations = llmRecommendations;
         }
       } catch (error) {
-        console.warn('RAG增强失败，使用纯LLM推荐:', error);
-        enhancedRecommendations = llmRecommendations;
+        console.warn('RAG检索失败，使用纯LLM推荐:', error);
       }
     }
 
+    // 2. 生成LLM推荐（提供知识库片段时以知识库为依据，并返回引用来源）
+    const enhancedRecommendations = await llmService.generateRecommendations(ingredients, ragContext);
+
     // 3. 如果启用流程图，生成流程图
     let flowchartData = null;
 
@@ -111,7 +67,7 @@ ${ragContext}
     }
 
     // 4. 为每个推荐Recipe添加id（如果不存在）
-    const recommendationsWithId = enhancedRecommendations.map((recipe: any) => {
+    const recommendationsWithId = enhancedRecommendations.map((recipe) => {
       // 如果Recipe已经有id，保持不变；否则生成一个临时id
       if (!recipe.id) {
         recipe.id = randomUUID();
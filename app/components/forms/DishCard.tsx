@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import type { DishRecommendation } from '../../types/foodPairing';
+
+interface DishCardProps {
+  dish: DishRecommendation;
+  onFavorite?: (dishId: string, isFavorited: boolean) => void;
+  isFavorited?: boolean;
+  className?: string;
+}
+
+export const DishCard: React.FC<DishCardProps> = ({
+  dish,
+  onFavorite,
+  isFavorited: initialIsFavorited = false,
+  className = ''
+}) => {
+  const [isFavorited, setIsFavorited] = useState<boolean>(initialIsFavorited);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const handleFavorite = async () => {
+    // 防止重复点击
+    if (isLoading) {
+      return;
+    }
+
+    if (!dish?.id) {
+      console.error('Dish ID 不存在:', dish);
+      alert('菜品ID不存在，无法收藏');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const method = isFavorited ? 'DELETE' : 'POST';
+      // 传递完整的菜品数据，以便在菜品不存在时自动创建
+      const requestBody = {
+        dishId: dish.id,
+        ...(method === 'POST' ? { dishData: dish } : {})
+      };
+
+      const response = await fetch('/api/favorites/dishes', {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        const newFavorited = !isFavorited;
+        setIsFavorited(newFavorited);
+        onFavorite?.(dish.id, newFavorited);
+      } else {
+        console.error('菜品收藏操作失败:', data.error || '未知错误');
+        alert(data.error || '操作失败，请重试');
+      }
+    } catch (error) {
+      console.error('菜品收藏操作失败:', error);
+      alert('网络错误，请检查网络连接后重试');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className={`hover:shadow-lg transition-shadow ${className}`}>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div className="flex-1">
+            <CardTitle className="text-lg">{dish.name}</CardTitle>
+            <p className="text-sm text-gray-600">{dish.description}</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleFavorite}
+            disabled={isLoading}
+            loading={isLoading}
+            className={`p-2 ${isFavorited ? 'text-red-500 hover:text-red-600' : 'text-gray-400 hover:text-red-500'} transition-colors`}
+            title={isFavorited ? '取消收藏' : '收藏'}
+          >
+            <svg className="h-5 w-5" fill={isFavorited ? 'currentColor' : 'none'} viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+            </svg>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {dish.cuisine && (
+            <div>
+              <span className="text-xs font-medium text-gray-500">菜系：</span>
+              <Badge variant="default" size="sm" className="ml-2">
+                {dish.cuisine}
+              </Badge>
+            </div>
+          )}
+          <div>
+            <span className="text-xs font-medium text-gray-500">所需食材：</span>
+            <div className="flex flex-wrap gap-1 mt-1">
+              {dish.requiredIngredients.slice(0, 3).map((ing, idx) => (
+                <Badge key={idx} variant="default" size="sm">
+                  {ing}
+                </Badge>
+              ))}
+              {dish.requiredIngredients.length > 3 && (
+                <Badge variant="default" size="sm">
+                  +{dish.requiredIngredients.length - 3} 更多
+                </Badge>
+              )}
+            </div>
+          </div>
+          <div className="flex gap-2 text-sm">
+            <span className="text-gray-600">
+              ⏱️ {dish.cookingTime} 分钟
+            </span>
+            <span className="text-gray-600">
+              📊 难度: {dish.difficulty}/5
+            </span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
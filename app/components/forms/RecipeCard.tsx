@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Badge } from '../ui/Badge';
+import type { RecipeCitation } from '../../types';
 
 interface Recipe {
   id: string;
@@ -17,6 +18,7 @@ interface Recipe {
   glassType?: string;
   technique?: string;
   garnish?: string;
+  citations?: RecipeCitation[];
 }
 
 interface RecipeCardProps {
@@ -184,6 +186,23 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({
             {recipe.steps[0] || '暂无制作步骤'}
           </p>
         </div>
+
+        {/* 知识库引用 */}
+        {recipe.citations && recipe.citations.length > 0 && (
+          <div className="mb-4">
+            <h4 className="text-sm font-medium text-gray-700 mb-2">参考来源</h4>
+            <ul className="space-y-1">
+              {recipe.citations.map((citation) => (
+                <li key={citation.chunkId} className="text-xs text-gray-500" title={`片段 ID: ${citation.chunkId}`}>
+                  📄 {citation.source}
+                  {citation.page ? ` · 第${citation.page}页` : ''}
+                  {` · 相似度 ${citation.score.toFixed(2)}`}
+                  <span className="ml-1 text-gray-400">#{citation.chunkId}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </CardContent>
 
       <CardFooter>
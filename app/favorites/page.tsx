@@ -4,8 +4,10 @@ import { useState, useEffect } from 'react';
 import { Layout } from '../components/layout/Layout';
 import { Card, CardHeader, CardTitle, CardContent } from '../components/ui/Card';
 import { RecipeCard } from '../components/forms/RecipeCard';
+import { DishCard } from '../components/forms/DishCard';
 import { Spinner } from '../components/ui/Spinner';
 import { Button } from '../components/ui/Button';
+import type { FavoriteDishEntry } from '../types/foodPairing';
 
 interface Recipe {
   id: string;
@@ -29,9 +31,11 @@ interface FavoriteItem {
   recipe: Recipe | null;
 }
 
+type FavoritesTab = 'recipes' | 'dishes';
+
 interface FavoritesResponse {
   success: boolean;
-  favorites: FavoriteItem[];
+  favorites: FavoriteItem[] | FavoriteDishEntry[];
   pagination: {
     page: number;
     limit: number;
@@ -42,22 +46,29 @@ interface FavoritesResponse {
 
 export default function FavoritesPage() {
   // 状态管理
+  const [activeTab, setActiveTab] = useState<FavoritesTab>('recipes');
   const [favorites, setFavorites] = useState<FavoriteItem[]>([]);
+  const [dishFavorites, setDishFavorites] = useState<FavoriteDishEntry[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [pagination, setPagination] = useState<FavoritesResponse['pagination'] | null>(null);
 
   // 获取收藏列表
-  const fetchFavorites = async (page: number = 1, limit: number = 20) => {
+  const fetchFavorites = async (page: number = 1, limit: number = 20, tab: FavoritesTab = activeTab) => {
     setLoading(true);
     setError(null);
 
     try {
-      const response = await fetch(`/api/favorites?page=${page}&limit=${limit}`);
+      const endpoint = tab === 'dishes' ? '/api/favorites/dishes' : '/api/favorites';
+      const response = await fetch(`${endpoint}?page=${page}&limit=${limit}`);
       const data: FavoritesResponse = await response.json();
 
       if (data.success) {
-        setFavorites(data.favorites);
+        if (tab === 'dishes') {
+          setDishFavorites(data.favorites as FavoriteDishEntry[]);
+        } else {
+          setFavorites(data.favorites as FavoriteItem[]);
+        }
         setPagination(data.pagination);
       } else {
         setError('获取收藏列表失败，请稍后重试');
@@ -75,6 +86,27 @@ export default function FavoritesPage() {
     fetchFavorites();
   }, []);
 
+  // 切换标签页时重新获取对应的收藏列表
+  const handleTabChange = (tab: FavoritesTab) => {
+    if (tab === activeTab) {
+      return;
+    }
+    setActiveTab(tab);
+    setPagination(null);
+    fetchFavorites(1, 20, tab);
+  };
+
+  // 从列表移除一条收藏后更新总数
+  const decrementTotal = () => {
+    if (pagination) {
+      setPagination({
+        ...pagination,
+        total: Math.max(0, pagination.total - 1),
+        pages: Math.ceil(Math.max(0, pagination.total - 1) / pagination.limit)
+      });
+    }
+  };
+
   // 处理取消收藏
   const handleUnfavorite = async (recipeId: string, isFavorited: boolean) => {
     if (isFavorited) {
@@ -88,15 +120,24 @@ export default function FavoritesPage() {
     );
 
     // 更新总数
-    if (pagination) {
-      setPagination({
-        ...pagination,
-        total: Math.max(0, pagination.total - 1),
-        pages: Math.ceil(Math.max(0, pagination.total - 1) / pagination.limit)
-      });
+    decrementTotal();
+  };
+
+  // 处理取消收藏菜品
+  const handleUnfavoriteDish = async (dishId: string, isFavorited: boolean) => {
+    if (isFavorited) {
+      return;
     }
+
+    setDishFavorites(prevFavorites =>
+      prevFavorites.filter(fav => fav.dishId !== dishId)
+    );
+
+    decrementTotal();
   };
 
+  const currentCount = activeTab === 'dishes' ? dishFavorites.length : favorites.length;
+
   // 处理查看详情
   const handleViewDetails = (recipeId: string) => {
     // 导航到配方详情页
@@ -109,7 +150,27 @@ export default function FavoritesPage() {
         {/* 页面标题 */}
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-800 mb-2">我的收藏</h1>
-          <p className="text-gray-600">您收藏的所有鸡尾酒配方</p>
+          <p className="text-gray-600">您收藏的鸡尾酒配方和菜品</p>
+        </div>
+
+        {/* 标签页 */}
+        <div className="flex space-x-2 mb-6 border-b border-gray-200">
+          {([
+            { key: 'recipes', label: '🍸 酒品配方' },
+            { key: 'dishes', label: '🍽️ 菜品' }
+          ] as { key: FavoritesTab; label: string }[]).map((tab) => (
+            <button
+              key={tab.key}
+              onClick={() => handleTabChange(tab.key)}
+              className={`px-4 py-2 -mb-px border-b-2 font-medium transition-colors ${
+                activeTab === tab.key
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
         </div>
 
         {/* 加载状态 */}
@@ -140,7 +201,7 @@ export default function FavoritesPage() {
         )}
 
         {/* 空状态 */}
-        {!loading && !error && favorites.length === 0 && (
+        {!loading && !error && currentCount === 0 && (
           <Card>
             <CardContent className="py-16">
               <div className="text-center">
@@ -158,10 +219,12 @@ export default function FavoritesPage() {
                   />
                 </svg>
                 <h3 className="text-xl font-semibold text-gray-800 mb-2">
-                  暂无收藏的配方
+                  {activeTab === 'dishes' ? '暂无收藏的菜品' : '暂无收藏的配方'}
                 </h3>
                 <p className="text-gray-600 mb-6">
-                  去探索并收藏您喜欢的鸡尾酒配方吧！
+                  {activeTab === 'dishes'
+                    ? '去获取搭配推荐并收藏您喜欢的菜品吧！'
+                    : '去探索并收藏您喜欢的鸡尾酒配方吧！'}
                 </p>
                 <Button
                   onClick={() => (window.location.href = '/')}
@@ -175,18 +238,32 @@ export default function FavoritesPage() {
         )}
 
         {/* 收藏列表 */}
-        {!loading && !error && favorites.length > 0 && (
+        {!loading && !error && currentCount > 0 && (
           <>
             {/* 收藏统计 */}
             <div className="mb-6">
               <p className="text-gray-600">
-                共 {pagination?.total || favorites.length} 个收藏
+                共 {pagination?.total || currentCount} 个收藏
               </p>
             </div>
 
             {/* 收藏网格 */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
-              {favorites.map((favorite) => {
+              {activeTab === 'dishes' && dishFavorites.map((favorite) => {
+                if (!favorite.dish) {
+                  return null;
+                }
+
+                return (
+                  <DishCard
+                    key={favorite.id}
+                    dish={favorite.dish}
+                    isFavorited={true}
+                    onFavorite={handleUnfavoriteDish}
+                  />
+                );
+              })}
+              {activeTab === 'recipes' && favorites.map((favorite) => {
                 if (!favorite.recipe) {
                   return null;
                 }
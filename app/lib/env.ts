@@ -10,9 +10,25 @@ export interface Env {
   MILVUS_PORT: number;
   MILVUS_USER?: string;
   MILVUS_PASSWORD?: string;
+  RAG_VECTOR_STORE: 'memory' | 'milvus' | 'postgres';
   OPENAI_API_KEY: string;
   OPENAI_BASE_URL: string;
   LLM_MODEL: string;
+  LLM_PROVIDER: 'openai' | 'anthropic' | 'ollama' | 'mock';
+  ANTHROPIC_API_KEY: string;
+  ANTHROPIC_BASE_URL: string;
+  ANTHROPIC_MODEL: string;
+  OLLAMA_BASE_URL: string;
+  OLLAMA_MODEL: string;
+  LLM_MOCK_FIXTURES_DIR?: string;
+  EMBEDDING_PROVIDER?: 'openai' | 'huggingface' | 'local';
+  EMBEDDING_MODEL?: string;
+  EMBEDDING_CACHE_PATH?: string;
+  HUGGINGFACE_API_KEY?: string;
+  LANGGRAPH_CHECKPOINTER: 'postgres' | 'file' | 'memory';
+  LANGGRAPH_CHECKPOINT_PATH?: string;
+  PAIRING_CRITIC_MAX_REVISIONS: number;
+  PAIRING_MAX_CONCURRENCY: number;
   NEXT_PUBLIC_APP_URL: string;
   NODE_ENV: 'development' | 'production' | 'test';
   MCP_SERVER_URL?: string;
@@ -34,9 +50,25 @@ export function getEnv(): Env {
     MILVUS_PORT: parseInt(process.env.MILVUS_PORT || '19530'),
     MILVUS_USER: process.env.MILVUS_USER,
     MILVUS_PASSWORD: process.env.MILVUS_PASSWORD,
+    RAG_VECTOR_STORE: (process.env.RAG_VECTOR_STORE as 'memory' | 'milvus' | 'postgres') || 'memory',
     OPENAI_API_KEY: process.env.OPENAI_API_KEY || '',
     OPENAI_BASE_URL: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
     LLM_MODEL: process.env.LLM_MODEL || 'gpt-3.5-turbo',
+    LLM_PROVIDER: (process.env.LLM_PROVIDER as 'openai' | 'anthropic' | 'ollama' | 'mock') || 'openai',
+    ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY || '',
+    ANTHROPIC_BASE_URL: process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
+    ANTHROPIC_MODEL: process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-latest',
+    OLLAMA_BASE_URL: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
+    OLLAMA_MODEL: process.env.OLLAMA_MODEL || 'llama3.1',
+    LLM_MOCK_FIXTURES_DIR: process.env.LLM_MOCK_FIXTURES_DIR,
+    EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER as 'openai' | 'huggingface' | 'local' | undefined,
+    EMBEDDING_MODEL: process.env.EMBEDDING_MODEL,
+    EMBEDDING_CACHE_PATH: process.env.EMBEDDING_CACHE_PATH,
+    HUGGINGFACE_API_KEY: process.env.HUGGINGFACE_API_KEY,
+    LANGGRAPH_CHECKPOINTER: (process.env.LANGGRAPH_CHECKPOINTER as 'postgres' | 'file' | 'memory') || 'postgres',
+    LANGGRAPH_CHECKPOINT_PATH: process.env.LANGGRAPH_CHECKPOINT_PATH,
+    PAIRING_CRITIC_MAX_REVISIONS: parseInt(process.env.PAIRING_CRITIC_MAX_REVISIONS || '2'),
+    PAIRING_MAX_CONCURRENCY: parseInt(process.env.PAIRING_MAX_CONCURRENCY || '3'),
     NEXT_PUBLIC_APP_URL: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
     NODE_ENV: (process.env.NODE_ENV as 'development' | 'production' | 'test') || 'development',
     MCP_SERVER_URL: process.env.MCP_SERVER_URL,
@@ -46,7 +78,7 @@ export function getEnv(): Env {
   };
 
   // 基本验证
-  if (!env.OPENAI_API_KEY) {
+  if (env.LLM_PROVIDER === 'openai' && !env.OPENAI_API_KEY) {
     console.warn('警告: OPENAI_API_KEY 未设置');
   }
   if (!env.DATABASE_URL || env.DATABASE_URL.includes('username:password')) {
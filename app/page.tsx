@@ -6,10 +6,19 @@ import { Card, CardHeader, CardTitle, CardContent } from './components/ui/Card';
 import { IngredientInput } from './components/forms/IngredientInput';
 import { Button } from './components/ui/Button';
 import { RecipeCard } from './components/forms/RecipeCard';
+import { DishCard } from './components/forms/DishCard';
 import { Spinner } from './components/ui/Spinner';
 import { Input } from './components/ui/Input';
 import { Badge } from './components/ui/Badge';
-import type { CompletePairingRecommendation } from './types/foodPairing';
+import type {
+  CompletePairingRecommendation,
+  BeverageRecommendation,
+  PairingReason,
+  CuisineFlavorProfile,
+  FoodPairingNodeName,
+  FoodPairingStreamEvent,
+} from './types/foodPairing';
+import type { KnowledgeContext, RecipeCitation } from './types';
 
 interface Recipe {
   id: string;
@@ -23,13 +32,25 @@ interface Recipe {
   glassType: string;
   technique: string;
   garnish?: string;
+  citations?: RecipeCitation[];
 }
 
+// 搭配推荐各节点执行时显示的进度文案
+const FOOD_PAIRING_NODE_PROGRESS: Record<FoodPairingNodeName, string> = {
+  dish_recommender: '🍽️ 正在推荐菜品...',
+  dish_critic: '🔍 正在检查菜品原料...',
+  dish_selection: '✅ 等待确认菜品...',
+  knowledge_retrieval: '📚 正在检索知识库配方...',
+  beverage_pairing: '🍷 正在搭配酒品...',
+  pairing_merger: '🧩 正在汇总搭配建议...',
+  beverage_critic: '🔍 正在检查酒品搭配...',
+};
+
 interface RecommendationResponse {
   success: boolean;
   data: {
     recommendations: Recipe[];
-    ragContext?: string;
+    ragContext?: KnowledgeContext[];
     flowchart?: string;
     metadata: {
       ingredients: string[];
@@ -41,6 +62,55 @@ interface RecommendationResponse {
   };
 }
 
+interface CocktailPairingResponse {
+  success: boolean;
+  error?: string;
+  data?: {
+    recommendations: BeverageRecommendation[];
+    pairingReasons: PairingReason[];
+    flavorProfile: CuisineFlavorProfile;
+    overallSuggestion: string;
+  };
+}
+
+/**
+ * 逐条读取 Server-Sent Events 响应
+ * EventSource 不支持 POST，因此直接解析 fetch 返回的响应流
+ */
+async function readFoodPairingEvents(
+  response: Response,
+  onEvent: (event: FoodPairingStreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('响应不包含数据流');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    // 事件之间以空行分隔
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() || '';
+
+    for (const block of blocks) {
+      const data = block
+        .split('\n')
+        .filter((line) => line.startsWith('data: '))
+        .map((line) => line.slice(6))
+        .join('\n');
+      if (data) {
+        onEvent(JSON.parse(data) as FoodPairingStreamEvent);
+      }
+    }
+  }
+}
+
 export default function Home() {
   const [ingredients, setIngredients] = useState<string[]>([]);
   const [recommendations, setRecommendations] = useState<Recipe[]>([]);
@@ -55,6 +125,7 @@ export default function Home() {
   const [pairingIngredients, setPairingIngredients] = useState<string[]>([]);
   const [isPairingLoading, setIsPairingLoading] = useState(false);
   const [pairingError, setPairingError] = useState<string | null>(null);
+  const [cocktailPairingResult, setCocktailPairingResult] = useState<CocktailPairingResponse['data'] | null>(null);
 
   // for LangGraph food pairing (新的多 Agent 系统)
   const [cuisine, setCuisine] = useState<string>(''); // 菜系选择
@@ -63,6 +134,7 @@ export default function Home() {
   const [pairingResult, setPairingResult] = useState<CompletePairingRecommendation | null>(null); // 搭配结果
   const [isFoodPairingLoading, setIsFoodPairingLoading] = useState(false); // 加载状态
   const [foodPairingError, setFoodPairingError] = useState<string | null>(null); // 错误信息
+  const [foodPairingProgress, setFoodPairingProgress] = useState<string | null>(null); // 流式执行进度
 
   const handleGetRecommendations = async () => {
     // 如果启用了搭配模式，使用新的 LangGraph API
@@ -76,9 +148,10 @@ export default function Home() {
       setIsFoodPairingLoading(true);
       setFoodPairingError(null);
       setPairingResult(null);
+      setFoodPairingProgress(null);
 
       try {
-        const response = await fetch('/api/food-pairing', {
+        const response = await fetch('/api/food-pairing/stream', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -90,24 +163,60 @@ export default function Home() {
           }),
         });
 
-        const data = await response.json();
-        console.log('🍽️ LangGraph 推荐接口响应:', data);
-
-        if (data.success && data.data) {
-          setPairingResult(data.data);
-          console.log('✅ 推荐结果:', {
-            dishes: data.data.dishes.length,
-            beverages: data.data.beverages.length,
-            pairingReasons: data.data.pairingReasons.length,
-          });
-        } else {
+        // 输入验证失败时返回普通 JSON
+        if (!response.ok) {
+          const data = await response.json();
           setFoodPairingError(data.error || '推荐失败，请稍后重试');
+          return;
         }
+
+        // 各菜品的酒品搭配并发生成，增量文本交错到达，按所有菜品累计已生成的字数
+        let pairingLength = 0;
+        await readFoodPairingEvents(response, (event) => {
+          switch (event.type) {
+            case 'node_start':
+              setFoodPairingProgress(FOOD_PAIRING_NODE_PROGRESS[event.node]);
+              break;
+            case 'node_end':
+              // 菜品推荐完成后立即展示菜品，酒品搭配结果稍后补充
+              if (event.node === 'dish_recommender' && event.dishes && event.dishes.length > 0) {
+                setPairingResult({
+                  dishes: event.dishes,
+                  beverages: [],
+                  pairingReasons: [],
+                  overallSuggestion: '',
+                });
+              }
+              break;
+            case 'partial':
+              if (event.node === 'beverage_pairing') {
+                pairingLength += event.delta.length;
+              }
+              setFoodPairingProgress(
+                `${FOOD_PAIRING_NODE_PROGRESS[event.node]}（已生成 ${event.node === 'beverage_pairing' ? pairingLength : event.length} 字）`
+              );
+              break;
+            case 'result':
+              setPairingResult(event.data);
+              setFoodPairingProgress(null);
+              console.log('✅ 推荐结果:', {
+                dishes: event.data.dishes.length,
+                beverages: event.data.beverages.length,
+                pairingReasons: event.data.pairingReasons.length,
+              });
+              break;
+            case 'error':
+              setFoodPairingError(event.error || '推荐失败，请稍后重试');
+              setFoodPairingProgress(null);
+              break;
+          }
+        });
       } catch (err) {
         console.error('❌ 推荐请求失败:', err);
         setFoodPairingError('网络错误，请检查连接');
       } finally {
         setIsFoodPairingLoading(false);
+        setFoodPairingProgress(null);
       }
     } else {
       // 使用旧的鸡尾酒推荐 API（向后兼容）
@@ -157,6 +266,7 @@ export default function Home() {
 
     setIsPairingLoading(true);
     setPairingError(null);
+    setCocktailPairingResult(null);
 
     try {
       const response = await fetch('/api/cocktail-pairing', {
@@ -165,17 +275,17 @@ export default function Home() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          cuisine,
+          cuisine: cuisine || null,
           ingredients: pairingIngredients,
         }),
       });
 
-      const data: RecommendationResponse = await response.json();
+      const data: CocktailPairingResponse = await response.json();
 
-      if (data.success) {
-        setRecommendations(data.data.recommendations);
+      if (data.success && data.data) {
+        setCocktailPairingResult(data.data);
       } else {
-        setPairingError('配餐推荐失败，请稍后重试');
+        setPairingError(data.error || '配餐推荐失败，请稍后重试');
       }
     } catch (err) {
       console.error('配餐推荐请求失败:', err);
@@ -346,6 +456,52 @@ export default function Home() {
           </div>
         )}
 
+        {/* 配餐推荐：根据菜系/菜品原料推荐鸡尾酒（仅在未启用搭配模式时显示） */}
+        {!pairingEnabled && (
+          <div className="max-w-2xl mx-auto mb-8">
+            <Card>
+              <CardHeader>
+                <CardTitle>配餐推荐</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      菜系类型
+                    </label>
+                    <Input
+                      value={cuisine}
+                      onChange={(e) => setCuisine(e.target.value)}
+                      placeholder="输入菜系，如：川菜、日料、西餐..."
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      菜品原料（可选）
+                    </label>
+                    <IngredientInput
+                      value={pairingIngredients}
+                      onChange={setPairingIngredients}
+                      placeholder="输入菜品原料，如：牛肉、花椒、辣椒..."
+                      maxIngredients={8}
+                    />
+                  </div>
+                  <div className="text-right">
+                    <Button
+                      onClick={handleGetPairing}
+                      disabled={(!cuisine && pairingIngredients.length === 0) || isPairingLoading}
+                      loading={isPairingLoading}
+                      variant="outline"
+                    >
+                      获取配餐鸡尾酒
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
         {/* 推荐按钮 */}
         <div className="text-center mb-8">
           <Button
@@ -413,6 +569,14 @@ export default function Home() {
           </div>
         )}
 
+        {/* 流式执行进度 */}
+        {pairingEnabled && isFoodPairingLoading && foodPairingProgress && (
+          <div className="flex justify-center items-center mb-8 text-gray-600">
+            <Spinner size="sm" className="mr-2" />
+            <span>{foodPairingProgress}</span>
+          </div>
+        )}
+
         {/* LangGraph 搭配推荐结果 */}
         {pairingEnabled && pairingResult && (
           <div className="space-y-8">
@@ -440,45 +604,7 @@ export default function Home() {
                 </h2>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                   {pairingResult.dishes.map((dish) => (
-                    <Card key={dish.id} className="hover:shadow-lg transition-shadow">
-                      <CardHeader>
-                        <CardTitle className="text-lg">{dish.name}</CardTitle>
-                        <p className="text-sm text-gray-600">{dish.description}</p>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="space-y-3">
-                          <div>
-                            <span className="text-xs font-medium text-gray-500">菜系：</span>
-                            <Badge variant="default" size="sm" className="ml-2">
-                              {dish.cuisine}
-                            </Badge>
-                          </div>
-                          <div>
-                            <span className="text-xs font-medium text-gray-500">所需食材：</span>
-                            <div className="flex flex-wrap gap-1 mt-1">
-                              {dish.requiredIngredients.slice(0, 3).map((ing, idx) => (
-                                <Badge key={idx} variant="default" size="sm">
-                                  {ing}
-                                </Badge>
-                              ))}
-                              {dish.requiredIngredients.length > 3 && (
-                                <Badge variant="default" size="sm">
-                                  +{dish.requiredIngredients.length - 3} 更多
-                                </Badge>
-                              )}
-                            </div>
-                          </div>
-                          <div className="flex gap-2 text-sm">
-                            <span className="text-gray-600">
-                              ⏱️ {dish.cookingTime} 分钟
-                            </span>
-                            <span className="text-gray-600">
-                              📊 难度: {dish.difficulty}/5
-                            </span>
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
+                    <DishCard key={dish.id} dish={dish} />
                   ))}
                 </div>
               </div>
@@ -492,61 +618,7 @@ export default function Home() {
                 </h2>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                   {pairingResult.beverages.map((beverage) => (
-                    <Card key={beverage.id} className="hover:shadow-lg transition-shadow">
-                      <CardHeader>
-                        <CardTitle className="text-lg">{beverage.name}</CardTitle>
-                        <p className="text-sm text-gray-600">{beverage.description}</p>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="space-y-3">
-                          <div className="flex flex-wrap gap-2">
-                            {beverage.category && (
-                              <Badge variant="default" size="sm">
-                                {beverage.category}
-                              </Badge>
-                            )}
-                            {beverage.glassType && (
-                              <Badge variant="default" size="sm">
-                                {beverage.glassType}
-                              </Badge>
-                            )}
-                            {beverage.technique && (
-                              <Badge variant="default" size="sm">
-                                {beverage.technique}
-                              </Badge>
-                            )}
-                          </div>
-                          <div>
-                            <span className="text-xs font-medium text-gray-500">原料：</span>
-                            <div className="flex flex-wrap gap-1 mt-1">
-                              {beverage.ingredients.slice(0, 3).map((ing, idx) => (
-                                <Badge key={idx} variant="default" size="sm">
-                                  {ing}
-                                </Badge>
-                              ))}
-                              {beverage.ingredients.length > 3 && (
-                                <Badge variant="default" size="sm">
-                                  +{beverage.ingredients.length - 3} 更多
-                                </Badge>
-                              )}
-                            </div>
-                          </div>
-                          <div className="flex gap-2 text-sm">
-                            <span className="text-gray-600">
-                              ⏱️ {beverage.estimatedTime} 分钟
-                            </span>
-                            <span className="text-gray-600">
-                              📊 难度: {beverage.difficulty}/5
-                            </span>
-                          </div>
-                          {beverage.garnish && (
-                            <div className="text-sm text-gray-600">
-                              🎨 装饰: {beverage.garnish}
-                            </div>
-                          )}
-                        </div>
-                      </CardContent>
-                    </Card>
+                    <RecipeCard key={beverage.id} recipe={beverage} />
                   ))}
                 </div>
               </div>
@@ -591,6 +663,45 @@ export default function Home() {
           </div>
         )}
 
+        {/* 配餐调酒推荐结果 */}
+        {!pairingEnabled && cocktailPairingResult && (
+          <div className="space-y-6 mb-8">
+            <h2 className="text-2xl font-bold text-gray-900 text-center">
+              🍸 适合{cocktailPairingResult.flavorProfile.cuisine}的鸡尾酒
+            </h2>
+            {cocktailPairingResult.flavorProfile.flavors.length > 0 && (
+              <div className="flex flex-wrap justify-center gap-2">
+                {cocktailPairingResult.flavorProfile.flavors.map((flavor, idx) => (
+                  <Badge key={idx} variant="info" size="sm">
+                    {flavor}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <p className="text-gray-700 leading-relaxed text-center max-w-3xl mx-auto">
+              {cocktailPairingResult.overallSuggestion}
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {cocktailPairingResult.recommendations.map((beverage) => {
+                const reason = cocktailPairingResult.pairingReasons.find(
+                  (r) => r.beverageId === beverage.id
+                );
+                return (
+                  <div key={beverage.id} className="space-y-2">
+                    <RecipeCard recipe={beverage} />
+                    {reason && (
+                      <p className="text-sm text-gray-600 px-1">
+                        💡 {reason.reason}
+                        {reason.score ? `（搭配评分: ${reason.score}/10）` : ''}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* 传统鸡尾酒推荐结果（向后兼容） */}
         {!pairingEnabled && recommendations.length > 0 && (
           <div className="space-y-6">
@@ -0,0 +1,142 @@
+/**
+ * 配餐调酒 LangGraph 服务
+ *
+ * 本文件封装了配餐调酒图的构建和执行逻辑，提供高级 API 供 /api/cocktail-pairing 调用
+ */
+
+import { buildCocktailPairingGraph } from './langgraph/cocktailPairingGraph';
+import {
+  createInitialCocktailPairingState,
+  validateCocktailPairingState,
+} from './langgraph/cocktailPairingState';
+import type {
+  CocktailPairingInput,
+  CocktailPairingRecommendation,
+} from '../types/foodPairing';
+import { z } from 'zod';
+
+/**
+ * 用户输入验证 Schema
+ */
+const CocktailPairingInputSchema = z
+  .object({
+    cuisine: z.string().nullable().optional(),
+    ingredients: z.array(z.string().min(1, '原料不能为空字符串')),
+  })
+  .refine(
+    (input) => Boolean(input.cuisine?.trim()) || input.ingredients.length > 0,
+    { message: '菜系和菜品原料至少需要提供一项', path: ['cuisine'] }
+  );
+
+/**
+ * CocktailPairingLangGraphService
+ *
+ * 提供根据菜系推荐鸡尾酒的 LangGraph 服务
+ */
+export class CocktailPairingLangGraphService {
+  private graph: ReturnType<typeof buildCocktailPairingGraph> | null = null;
+
+  /**
+   * 构建并返回编译后的 LangGraph 实例（懒加载，只构建一次）
+   */
+  private buildGraph() {
+    if (!this.graph) {
+      console.log('🔧 首次使用，构建配餐调酒 LangGraph 图...');
+      this.graph = buildCocktailPairingGraph();
+    }
+    return this.graph;
+  }
+
+  /**
+   * 验证输入参数
+   *
+   * @param input 用户输入
+   * @throws {Error} 如果输入无效
+   */
+  validateInput(input: CocktailPairingInput): void {
+    const result = CocktailPairingInputSchema.safeParse({
+      cuisine: input.cuisine ?? null,
+      ingredients: input.ingredients ?? [],
+    });
+
+    if (!result.success) {
+      const errorMessages = result.error.issues
+        .map((e) => `${e.path.join('.')}: ${e.message}`)
+        .join(', ');
+      throw new Error(`输入验证失败: ${errorMessages}`);
+    }
+  }
+
+  /**
+   * 执行图，返回鸡尾酒搭配推荐
+   *
+   * @param input 用户输入
+   * @returns 配餐调酒推荐结果
+   * @throws {Error} 如果执行失败
+   */
+  async execute(input: CocktailPairingInput): Promise<CocktailPairingRecommendation> {
+    const startTime = Date.now();
+    console.log('🚀 开始执行配餐调酒 LangGraph 流程...', {
+      cuisine: input.cuisine,
+      ingredients: input.ingredients,
+    });
+
+    // 1. 验证输入
+    this.validateInput(input);
+
+    // 2. 创建初始状态并执行图
+    const initialState = createInitialCocktailPairingState({
+      cuisine: input.cuisine?.trim() || null,
+      ingredients: input.ingredients,
+    });
+    const finalState = validateCocktailPairingState(
+      await this.buildGraph().invoke(initialState)
+    );
+
+    // 3. 检查错误
+    if (finalState.error) {
+      console.error('❌ 配餐调酒执行过程中发生错误:', finalState.error);
+      throw new Error(finalState.error);
+    }
+
+    const pairingResult = finalState.pairingOutput as CocktailPairingRecommendation | null;
+    if (!pairingResult) {
+      throw new Error('未能生成有效的鸡尾酒搭配推荐');
+    }
+
+    console.log(
+      `✅ 配餐调酒执行完成，耗时 ${Date.now() - startTime}ms，共 ${pairingResult.recommendations.length} 款鸡尾酒`
+    );
+    return pairingResult;
+  }
+
+  /**
+   * 获取服务状态信息
+   */
+  getStatus(): {
+    graphBuilt: boolean;
+    serviceReady: boolean;
+  } {
+    return {
+      graphBuilt: this.graph !== null,
+      serviceReady: true,
+    };
+  }
+}
+
+/**
+ * 单例实例
+ */
+let serviceInstance: CocktailPairingLangGraphService | null = null;
+
+/**
+ * 获取服务单例实例
+ *
+ * @returns CocktailPairingLangGraphService 实例
+ */
+export function getCocktailPairingService(): CocktailPairingLangGraphService {
+  if (!serviceInstance) {
+    serviceInstance = new CocktailPairingLangGraphService();
+  }
+  return serviceInstance;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  beverageRules,
+  describeDietaryRule,
+  dishRules,
+  findDietaryViolations,
+  resolveDietaryPreferences,
+} from './dietaryRules';
+
+describe('findDietaryViolations', () => {
+  it('按食材名称中的关键词找出违规的食材和规则', () => {
+    expect(findDietaryViolations(['牛肉 200g', '土豆 2个', '黄油 10g'], ['vegetarian', 'dairy'])).toEqual([
+      { rule: 'vegetarian', ingredient: '牛肉 200g' },
+      { rule: 'dairy', ingredient: '黄油 10g' },
+    ]);
+  });
+
+  it('名称里带肉类或乳制品字样的植物性食材不算违规', () => {
+    expect(findDietaryViolations(['肉桂 1根', '牛油果 1个', '椰奶 200ml', '鸡蛋 2个'], ['vegetarian'])).toEqual([]);
+    expect(findDietaryViolations(['椰奶 200ml', '燕麦奶 100ml', 'coconut milk'], ['dairy'])).toEqual([]);
+  });
+
+  it('素食允许蛋奶，纯素不允许', () => {
+    const ingredients = ['鸡蛋 2个', '牛奶 100ml', '蜂蜜 1勺'];
+
+    expect(findDietaryViolations(ingredients, ['vegetarian'])).toEqual([]);
+    expect(findDietaryViolations(ingredients, ['vegan']).map((violation) => violation.ingredient)).toEqual(ingredients);
+  });
+
+  it('标明素、无麸质或无酒精的食材不检查对应规则', () => {
+    expect(findDietaryViolations(['素肉 100g'], ['vegetarian', 'vegan'])).toEqual([]);
+    expect(findDietaryViolations(['无麸质酱油 1勺'], ['gluten_free'])).toEqual([]);
+    expect(findDietaryViolations(['无酒精啤酒 330ml', 'non-alcoholic wine'], ['alcohol'])).toEqual([]);
+  });
+
+  it('英文关键词按单词匹配，允许复数形式', () => {
+    expect(findDietaryViolations(['ginger syrup 15ml', 'rumble'], ['alcohol'])).toEqual([]);
+    expect(findDietaryViolations(['Gin 50ml', 'dark rum'], ['alcohol']).map((violation) => violation.ingredient))
+      .toEqual(['Gin 50ml', 'dark rum']);
+    expect(findDietaryViolations(['walnuts', 'Shrimps'], ['nuts', 'shellfish'])).toEqual([
+      { rule: 'nuts', ingredient: 'walnuts' },
+      { rule: 'shellfish', ingredient: 'Shrimps' },
+    ]);
+  });
+
+  it('清真同时排除猪肉制品和酒精', () => {
+    expect(findDietaryViolations(['培根 50g', '料酒 1勺', '猪肝菌 50g', '羊肉 300g'], ['halal'])).toEqual([
+      { rule: 'halal', ingredient: '培根 50g' },
+      { rule: 'halal', ingredient: '料酒 1勺' },
+    ]);
+  });
+
+  it('无麸质检查面食、酱油和啤酒', () => {
+    expect(findDietaryViolations(['面粉 100g', '生抽 1勺', '啤酒 200ml', '大米 100g'], ['gluten_free'])
+      .map((violation) => violation.ingredient)).toEqual(['面粉 100g', '生抽 1勺', '啤酒 200ml']);
+  });
+});
+
+describe('resolveDietaryPreferences', () => {
+  it('去重，清真要求饮品也不含酒精', () => {
+    expect(resolveDietaryPreferences({
+      dietaryRestrictions: ['halal', 'halal'],
+      allergens: ['nuts', 'nuts'],
+    })).toEqual({ restrictions: ['halal'], allergens: ['nuts'], nonAlcoholic: true });
+    expect(resolveDietaryPreferences({})).toEqual({ restrictions: [], allergens: [], nonAlcoholic: false });
+  });
+});
+
+describe('dishRules / beverageRules', () => {
+  it('无酒精只约束饮品，不约束菜品', () => {
+    const preferences = resolveDietaryPreferences({ dietaryRestrictions: ['vegan'], allergens: ['nuts'], nonAlcoholic: true });
+
+    expect(dishRules(preferences)).toEqual(['vegan', 'nuts']);
+    expect(beverageRules(preferences)).toEqual(['vegan', 'nuts', 'alcohol']);
+  });
+});
+
+describe('describeDietaryRule', () => {
+  it('返回饮食限制、过敏原和酒精规则的说明', () => {
+    expect(describeDietaryRule('vegetarian')).toBe('素食（不含肉类、禽类和海鲜）');
+    expect(describeDietaryRule('shellfish')).toBe('不含贝类和甲壳类海鲜');
+    expect(describeDietaryRule('alcohol')).toBe('无酒精');
+  });
+});
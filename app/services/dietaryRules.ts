@@ -0,0 +1,232 @@
+/**
+ * 饮食限制与过敏原规则
+ *
+ * 按食材名称中的关键词判断菜品或饮品是否违反饮食限制（素食、纯素、清真、无麸质）、
+ * 是否含有过敏原（坚果、贝类、乳制品）以及是否含酒精。只做关键词匹配，不识别品牌或复合调料的成分；
+ * 提示词要求模型遵守限制，这里的检查用于评审节点发现并过滤违规的推荐
+ */
+
+import type { Allergen, DietaryPreferences, DietaryRestriction } from '../types/foodPairing';
+
+export const DIETARY_RESTRICTIONS = ['vegetarian', 'vegan', 'halal', 'gluten_free'] as const satisfies readonly DietaryRestriction[];
+
+export const ALLERGENS = ['nuts', 'shellfish', 'dairy'] as const satisfies readonly Allergen[];
+
+/**
+ * 饮食限制的说明，用于提示词和评审反馈
+ */
+export const DIETARY_RESTRICTION_LABELS: Record<DietaryRestriction, string> = {
+  vegetarian: '素食（不含肉类、禽类和海鲜）',
+  vegan: '纯素（不含任何动物制品，包括蛋、奶、蜂蜜）',
+  halal: '清真（不含猪肉制品和酒精）',
+  gluten_free: '无麸质（不含小麦、大麦、黑麦及其制品）',
+};
+
+/**
+ * 过敏原的说明，用于提示词和评审反馈
+ */
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  nuts: '坚果（含花生）',
+  shellfish: '贝类和甲壳类海鲜',
+  dairy: '乳制品',
+};
+
+/**
+ * 可检查的规则：饮食限制、过敏原和酒精
+ */
+export type DietaryRule = DietaryRestriction | Allergen | 'alcohol';
+
+/**
+ * 违规的食材
+ */
+export interface DietaryViolation {
+  rule: DietaryRule;
+  ingredient: string;
+}
+
+/**
+ * 关键词规则
+ * - keywords：命中任意一个即违规；纯英文关键词按单词匹配（避免 "gin" 匹配 "ginger"）
+ * - exceptions：匹配前先从食材名称中去掉的词（如 "肉桂" 不是肉、"椰奶" 不是乳制品）
+ * - exemptMarkers：食材名称含有这些词时不检查该规则（如 "素肉"、"无麸质酱油"）
+ */
+interface IngredientRule {
+  keywords: string[];
+  exceptions?: string[];
+  exemptMarkers?: string[];
+}
+
+const MEAT_KEYWORDS = [
+  '肉', '猪', '牛', '羊', '鸡', '鸭', '鹅', '鸽', '兔', '鱼', '虾', '蟹', '贝', '蚝', '螺', '鱿鱼', '章鱼', '海参',
+  '培根', '火腿', '香肠', '腊肠', '排骨', '鱼露', '蚝油', '高汤', '明胶',
+  'beef', 'pork', 'chicken', 'lamb', 'mutton', 'duck', 'fish', 'shrimp', 'prawn', 'crab', 'bacon', 'ham',
+  'sausage', 'anchovy', 'gelatin',
+];
+
+/**
+ * 名称里带肉类字样的植物性食材
+ */
+const PLANT_EXCEPTIONS = [
+  '肉桂', '肉豆蔻', '果肉', '椰肉', '牛油果', '牛肝菌', '鸡枞', '鸡腿菇', '鱼腥草', '鱼香', '猪肝菌', '羊肚菌', '羊栖菜', '牛蒡',
+  '椰奶', '椰浆', '豆奶', '豆乳', '杏仁奶', '燕麦奶', '腐乳', '奶白菜',
+];
+
+const ANIMAL_PRODUCT_KEYWORDS = [
+  '蛋', '奶', '乳', '黄油', '芝士', '奶酪', '奶油', '酸奶', '蜂蜜', '蜂蜡',
+  'egg', 'milk', 'butter', 'cheese', 'cream', 'yogurt', 'honey', 'whey',
+];
+
+const ALCOHOL_KEYWORDS = [
+  '酒', '威士忌', '伏特加', '金酒', '琴酒', '朗姆', '龙舌兰', '白兰地', '干邑', '香槟', '苦艾', '味美思', '清酒', '梅斯卡尔',
+  'whisky', 'whiskey', 'vodka', 'gin', 'rum', 'tequila', 'mezcal', 'brandy', 'cognac', 'liqueur', 'wine',
+  'beer', 'champagne', 'vermouth', 'sake', 'absinthe', 'prosecco',
+];
+
+/**
+ * 标明无酒精的说法（"无酒精啤酒" 不算含酒精）
+ */
+const NON_ALCOHOLIC_MARKERS = ['无酒精', '零酒精', '不含酒精', '0度', 'non-alcoholic', 'alcohol-free', 'zero-proof'];
+
+const ALCOHOL_RULE: IngredientRule = {
+  keywords: ALCOHOL_KEYWORDS,
+  exemptMarkers: NON_ALCOHOLIC_MARKERS,
+};
+
+/**
+ * 每条规则由一个或多个关键词规则组成，命中任意一个即违规
+ */
+const RULES: Record<DietaryRule, IngredientRule[]> = {
+  vegetarian: [{
+    keywords: MEAT_KEYWORDS,
+    exceptions: [...PLANT_EXCEPTIONS, '鸡蛋', '鸭蛋', '鹅蛋', '鹌鹑蛋', '牛奶', '羊奶'],
+    exemptMarkers: ['素', '植物肉', 'plant-based', 'vegan', 'vegetarian'],
+  }],
+  vegan: [{
+    keywords: [...MEAT_KEYWORDS, ...ANIMAL_PRODUCT_KEYWORDS],
+    exceptions: PLANT_EXCEPTIONS,
+    exemptMarkers: ['素', '植物肉', '植物奶', 'plant-based', 'vegan'],
+  }],
+  halal: [
+    {
+      keywords: ['猪', '培根', '火腿', '腊肠', '猪油', 'pork', 'bacon', 'ham', 'lard'],
+      exceptions: ['猪肝菌'],
+      exemptMarkers: ['清真', 'halal'],
+    },
+    ALCOHOL_RULE,
+  ],
+  gluten_free: [{
+    keywords: [
+      '面粉', '小麦', '面条', '面包', '馒头', '饺子', '包子', '挂面', '意面', '意大利面', '面筋', '麸', '大麦', '黑麦',
+      '酱油', '生抽', '老抽', '啤酒',
+      'flour', 'wheat', 'bread', 'pasta', 'noodle', 'barley', 'rye', 'beer', 'soy sauce', 'seitan', 'couscous',
+    ],
+    exemptMarkers: ['无麸质', 'gluten-free', 'gluten free'],
+  }],
+  nuts: [{
+    keywords: [
+      '坚果', '花生', '杏仁', '核桃', '腰果', '榛子', '开心果', '松子', '碧根果', '夏威夷果', '巴旦木',
+      'nut', 'peanut', 'almond', 'walnut', 'cashew', 'hazelnut', 'pistachio', 'pecan', 'macadamia', 'amaretto', 'orgeat',
+    ],
+  }],
+  shellfish: [{
+    keywords: [
+      '虾', '蟹', '贝', '蛤', '蚌', '蚝', '牡蛎', '青口', '淡菜', '鱿鱼', '章鱼', '墨鱼', '螺', '海胆',
+      'shrimp', 'prawn', 'crab', 'lobster', 'clam', 'oyster', 'mussel', 'scallop', 'squid', 'octopus',
+    ],
+    exceptions: ['螺旋'],
+  }],
+  dairy: [{
+    keywords: [
+      '奶', '乳', '黄油', '芝士', '奶酪', '奶油', '酸奶', '炼乳',
+      'milk', 'butter', 'cheese', 'cream', 'yogurt', 'whey',
+    ],
+    exceptions: [
+      '椰奶', '椰浆', '豆奶', '豆乳', '杏仁奶', '燕麦奶', '植物奶', '腐乳', '奶白菜', '乳鸽', '乳猪',
+      'coconut milk', 'coconut cream', 'oat milk', 'almond milk', 'soy milk',
+    ],
+    exemptMarkers: ['无乳', '不含乳', 'dairy-free'],
+  }],
+  alcohol: [ALCOHOL_RULE],
+};
+
+/**
+ * 规范化用户的饮食偏好：去重，清真要求饮品也不含酒精
+ */
+export function resolveDietaryPreferences(input: {
+  dietaryRestrictions?: DietaryRestriction[] | null;
+  allergens?: Allergen[] | null;
+  nonAlcoholic?: boolean | null;
+}): DietaryPreferences {
+  const restrictions = Array.from(new Set(input.dietaryRestrictions ?? []));
+  return {
+    restrictions,
+    allergens: Array.from(new Set(input.allergens ?? [])),
+    nonAlcoholic: Boolean(input.nonAlcoholic) || restrictions.includes('halal'),
+  };
+}
+
+/**
+ * 是否有任何饮食限制
+ */
+export function hasDietaryConstraints(preferences: DietaryPreferences): boolean {
+  return preferences.restrictions.length > 0 || preferences.allergens.length > 0 || preferences.nonAlcoholic;
+}
+
+/**
+ * 菜品需要遵守的规则（菜品中的料酒等不受无酒精模式限制，清真规则本身排除酒精）
+ */
+export function dishRules(preferences: DietaryPreferences): DietaryRule[] {
+  return [...preferences.restrictions, ...preferences.allergens];
+}
+
+/**
+ * 饮品需要遵守的规则
+ */
+export function beverageRules(preferences: DietaryPreferences): DietaryRule[] {
+  return [...dishRules(preferences), ...(preferences.nonAlcoholic ? ['alcohol' as const] : [])];
+}
+
+/**
+ * 找出违反规则的食材
+ */
+export function findDietaryViolations(ingredients: string[], rules: DietaryRule[]): DietaryViolation[] {
+  const violations: DietaryViolation[] = [];
+  for (const ingredient of ingredients) {
+    for (const rule of rules) {
+      if (RULES[rule].some((item) => violatesRule(ingredient, item))) {
+        violations.push({ rule, ingredient });
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * 规则的说明
+ */
+export function describeDietaryRule(rule: DietaryRule): string {
+  if (rule === 'alcohol') {
+    return '无酒精';
+  }
+  return rule in DIETARY_RESTRICTION_LABELS
+    ? DIETARY_RESTRICTION_LABELS[rule as DietaryRestriction]
+    : `不含${ALLERGEN_LABELS[rule as Allergen]}`;
+}
+
+function violatesRule(ingredient: string, rule: IngredientRule): boolean {
+  let text = ingredient.trim().toLowerCase();
+  if (rule.exemptMarkers?.some((marker) => text.includes(marker))) {
+    return false;
+  }
+  for (const exception of rule.exceptions ?? []) {
+    text = text.split(exception).join(' ');
+  }
+  return rule.keywords.some((keyword) => matchesKeyword(text, keyword));
+}
+
+function matchesKeyword(text: string, keyword: string): boolean {
+  if (/^[a-z -]+$/.test(keyword)) {
+    return new RegExp(`\\b${keyword}(?:e?s)?\\b`).test(text);
+  }
+  return text.includes(keyword);
+}
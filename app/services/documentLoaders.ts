@@ -0,0 +1,235 @@
+/**
+ * 知识库多格式文档加载
+ *
+ * PDF 由 pdfService.ts 逐页解析；本文件负责 Markdown、纯文本、HTML、CSV 和 JSON，
+ * 并按格式切分文本块：
+ * - Markdown：按标题和段落切分
+ * - 纯文本、HTML：HTML 先去掉标签转为纯文本，再按段落和句子切分
+ * - CSV：每行一个文本块（一行一个配方），内容为 "列名: 值"
+ * - JSON：数组的每个元素一个文本块；对象取其中的对象数组（如 {"recipes": [...]}），否则每个顶层字段一个文本块
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { Document } from '@langchain/core/documents';
+import { MarkdownTextSplitter, RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+
+/**
+ * 知识库文档类型，保存在 knowledge_documents.documentType
+ */
+export type KnowledgeDocumentType = 'pdf' | 'markdown' | 'text' | 'html' | 'csv' | 'json';
+
+/**
+ * 文件扩展名 → 文档类型
+ */
+const DOCUMENT_TYPES: Record<string, KnowledgeDocumentType> = {
+  '.pdf': 'pdf',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'text',
+  '.html': 'html',
+  '.htm': 'html',
+  '.csv': 'csv',
+  '.json': 'json',
+};
+
+/**
+ * 支持的文件扩展名
+ */
+export const SUPPORTED_EXTENSIONS = Object.keys(DOCUMENT_TYPES);
+
+const CHUNK_SIZE = 800;
+const CHUNK_OVERLAP = 150;
+
+/**
+ * 根据扩展名获取文档类型，不支持的格式返回 null
+ */
+export function getDocumentType(fileName: string): KnowledgeDocumentType | null {
+  return DOCUMENT_TYPES[path.extname(fileName).toLowerCase()] ?? null;
+}
+
+/**
+ * 是否可作为知识库文档：格式受支持，且不是隐藏文件或 README（知识库目录的使用说明，不参与索引）
+ */
+export function isKnowledgeFileName(fileName: string): boolean {
+  return !fileName.startsWith('.')
+    && path.parse(fileName).name.toLowerCase() !== 'readme'
+    && getDocumentType(fileName) !== null;
+}
+
+/**
+ * 加载并切分非 PDF 文档
+ *
+ * @param filePath 文件绝对路径
+ * @param documentType 文档类型（不能是 pdf）
+ * @returns 文档（整个文件作为一页）和切分后的文本块
+ */
+export async function loadTextDocument(
+  filePath: string,
+  documentType: Exclude<KnowledgeDocumentType, 'pdf'>
+): Promise<{ docs: Document[]; chunks: Document[] }> {
+  const raw = readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, '');
+  const metadata = { source: filePath, documentType };
+
+  switch (documentType) {
+    case 'markdown': {
+      const doc = new Document({ pageContent: raw, metadata });
+      const chunks = await new MarkdownTextSplitter({ chunkSize: CHUNK_SIZE, chunkOverlap: CHUNK_OVERLAP })
+        .splitDocuments([doc]);
+      return { docs: [doc], chunks };
+    }
+
+    case 'text':
+    case 'html': {
+      const text = documentType === 'html' ? htmlToText(raw) : raw;
+      const doc = new Document({ pageContent: text, metadata });
+      const chunks = await new RecursiveCharacterTextSplitter({
+        chunkSize: CHUNK_SIZE,
+        chunkOverlap: CHUNK_OVERLAP,
+        separators: ['\n\n', '\n', '。', '！', '？', '；', '，', ' ', ''],
+      }).splitDocuments([doc]);
+      return { docs: [doc], chunks };
+    }
+
+    case 'csv': {
+      const [header = [], ...rows] = parseCsv(raw);
+      const chunks = rows
+        .filter((row) => row.some((cell) => cell.trim().length > 0))
+        .map((row, index) => new Document({
+          pageContent: header
+            .map((column, i) => `${column.trim()}: ${(row[i] ?? '').trim()}`)
+            .filter((line) => !line.endsWith(': '))
+            .join('\n'),
+          metadata: { ...metadata, rowNumber: index + 1, chunkType: 'recipe' },
+        }));
+      return { docs: [new Document({ pageContent: raw, metadata })], chunks };
+    }
+
+    case 'json': {
+      const data: unknown = JSON.parse(raw);
+      const chunks = jsonRecords(data).map(({ key, value }, index) => new Document({
+        pageContent: formatJsonValue(value),
+        metadata: {
+          ...metadata,
+          recordIndex: index,
+          ...(key ? { recordKey: key } : {}),
+          ...(isPlainObject(value) ? { chunkType: 'recipe' } : {}),
+        },
+      }));
+      return { docs: [new Document({ pageContent: raw, metadata })], chunks };
+    }
+  }
+}
+
+/**
+ * 将 HTML 转换为纯文本：去掉 script/style，块级元素换行，解码常用实体
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|section|article|li|tr|h[1-6]|table|ul|ol)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n\s*/g, '\n\n')
+    .trim();
+}
+
+/**
+ * 解析 CSV（RFC 4180：双引号包裹的字段可以包含逗号、换行，"" 表示一个双引号）
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * 取出 JSON 中作为文本块的记录
+ */
+function jsonRecords(data: unknown): { key: string | null; value: unknown }[] {
+  if (Array.isArray(data)) {
+    return data.map((value) => ({ key: null, value }));
+  }
+  if (isPlainObject(data)) {
+    const list = Object.values(data).find(
+      (value): value is unknown[] => Array.isArray(value) && value.length > 0 && value.every(isPlainObject)
+    );
+    if (list) {
+      return list.map((value) => ({ key: null, value }));
+    }
+    return Object.entries(data).map(([key, value]) => ({ key, value }));
+  }
+  return [{ key: null, value: data }];
+}
+
+/**
+ * 将 JSON 值转换为便于检索的文本，对象按 "字段: 值" 逐行展开
+ */
+function formatJsonValue(value: unknown, indent: string = ''): string {
+  if (Array.isArray(value)) {
+    return value.every((item) => !isPlainObject(item) && !Array.isArray(item))
+      ? value.join('、')
+      : value.map((item) => formatJsonValue(item, indent)).join('\n');
+  }
+  if (isPlainObject(value)) {
+    return Object.entries(value)
+      .map(([key, item]) => (
+        isPlainObject(item) || (Array.isArray(item) && item.some(isPlainObject))
+          ? `${indent}${key}:\n${formatJsonValue(item, `${indent}  `)}`
+          : `${indent}${key}: ${formatJsonValue(item, indent)}`
+      ))
+      .join('\n');
+  }
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,63 +1,53 @@
-import { OpenAI } from 'openai';
-import { env } from '../lib/env';
-
+import {
+  embedWithRetry,
+  getEmbeddingProvider,
+  type EmbeddingBatchResult,
+  type EmbeddingProvider,
+  type EmbeddingRetryOptions,
+} from './embeddings/embeddingProvider';
+
+// 向量由 EMBEDDING_PROVIDER 指定的 Provider 生成（见 embeddings/embeddingProvider.ts）
 export class EmbeddingService {
-  private openai: OpenAI;
+  private provider: EmbeddingProvider;
+
+  constructor(provider: EmbeddingProvider = getEmbeddingProvider()) {
+    this.provider = provider;
+  }
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: env.OPENAI_API_KEY,
-      baseURL: env.OPENAI_BASE_URL,
-    });
+  // 当前模型标识和向量维度
+  getModelInfo() {
+    return { id: this.provider.id, dimension: this.provider.dimension };
   }
 
   // 生成单个文本的嵌入向量
   async generateEmbedding(text: string): Promise<number[]> {
     try {
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-ada-002',
-        input: text,
-      });
-
-      return response.data[0].embedding;
+      return await this.provider.embedQuery(text);
     } catch (error) {
       console.error('生成嵌入向量失败:', error);
       throw new Error('向量化处理失败');
     }
   }
 
-  // 批量生成嵌入向量
-  async generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
-    const embeddings: number[][] = [];
+  // 批量生成嵌入向量，失败的请求按指数退避重试（限流时按 Retry-After 等待）
+  // 重试用尽的文本在 embeddings 中为 null，并在 failures 中逐条说明原因，不会用零向量顶替
+  async generateBatchEmbeddings(texts: string[], options: EmbeddingRetryOptions = {}): Promise<EmbeddingBatchResult> {
+    const result: EmbeddingBatchResult = { embeddings: [], failures: [] };
     const batchSize = 100; // 批量处理大小
 
     for (let i = 0; i < texts.length; i += batchSize) {
       const batch = texts.slice(i, i + batchSize);
+      const { embeddings, failures } = await embedWithRetry(this.provider, batch, options);
+      result.embeddings.push(...embeddings);
+      result.failures.push(...failures.map((failure) => ({ ...failure, index: failure.index + i })));
 
-      try {
-        const response = await this.openai.embeddings.create({
-          model: 'text-embedding-ada-002',
-          input: batch,
-        });
-
-        const batchEmbeddings = response.data.map(item => item.embedding);
-        embeddings.push(...batchEmbeddings);
-
-        console.log(`已处理 ${Math.min(i + batchSize, texts.length)}/${texts.length} 个文本`);
-
-        // 添加延迟避免API限制
-        if (i + batchSize < texts.length) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      } catch (error) {
-        console.error(`批量向量化失败 (批次 ${i}-${i + batchSize}):`, error);
-        // 为失败的批次生成零向量
-        const zeroVector = new Array(1536).fill(0);
-        embeddings.push(...batch.map(() => zeroVector));
+      if (failures.length > 0) {
+        console.error(`批量向量化失败 (批次 ${i}-${i + batch.length}): ${failures.length}/${batch.length} 个文本`);
       }
+      console.log(`已处理 ${Math.min(i + batchSize, texts.length)}/${texts.length} 个文本`);
     }
 
-    return embeddings;
+    return result;
   }
 
   // 测试连接
@@ -0,0 +1,68 @@
+/**
+ * 带磁盘缓存的 Embedding Provider
+ *
+ * 包装任意 EmbeddingProvider：文档向量先查 EmbeddingCache，只为未缓存的文本调用模型，
+ * 并检查模型返回的向量与已缓存向量维度一致。检索语句每次都不同，不写入缓存
+ */
+
+import { EmbeddingCache, hashText } from './embeddingCache';
+import { assertDimension, type EmbeddingProvider } from './types';
+
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  readonly cache: EmbeddingCache;
+  private provider: EmbeddingProvider;
+
+  constructor(provider: EmbeddingProvider, cache: EmbeddingCache = new EmbeddingCache(provider.id)) {
+    this.provider = provider;
+    this.cache = cache;
+  }
+
+  get name() {
+    return this.provider.name;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  get id(): string {
+    return this.provider.id;
+  }
+
+  get dimension(): number | null {
+    return this.provider.dimension ?? this.cache.dimension;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const hashes = texts.map(hashText);
+    const vectors: (number[] | undefined)[] = hashes.map((hash) => this.cache.get(hash));
+
+    // 相同的文本只请求一次
+    const missing = new Map<string, string>();
+    hashes.forEach((hash, index) => {
+      if (!vectors[index]) {
+        missing.set(hash, texts[index]);
+      }
+    });
+
+    if (missing.size > 0) {
+      const embedded = await this.provider.embedDocuments(Array.from(missing.values()));
+      assertDimension(embedded, this.dimension, this.id);
+      const items = Array.from(missing.keys(), (hash, index) => ({ hash, embedding: embedded[index] }));
+      this.cache.set(items);
+
+      const byHash = new Map(items.map((item) => [item.hash, item.embedding]));
+      hashes.forEach((hash, index) => {
+        vectors[index] ??= byHash.get(hash);
+      });
+    }
+
+    return vectors as number[][];
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const vector = await this.provider.embedQuery(text);
+    assertDimension([vector], this.dimension, this.id);
+    return vector;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * 向量磁盘缓存
+ *
+ * 按文本内容的 SHA-256 缓存向量，每个模型一个 JSONL 文件（每行一条 {hash, embedding}），只追加写入。
+ * 文件内容不变但重新切分、或多个文档包含相同文本块时，不需要再次调用向量模型
+ */
+
+import { createHash } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { cwd } from 'process';
+import { env } from '../../lib/env';
+
+/**
+ * 缓存目录，可通过 EMBEDDING_CACHE_PATH 覆盖
+ */
+export const EMBEDDING_CACHE_DIR = env.EMBEDDING_CACHE_PATH
+  ? path.resolve(env.EMBEDDING_CACHE_PATH)
+  : path.resolve(cwd(), '.rag-store', 'embeddings');
+
+interface CacheLine {
+  hash: string;
+  embedding: number[];
+}
+
+/**
+ * 计算文本的 SHA-256
+ */
+export function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+export class EmbeddingCache {
+  readonly filePath: string;
+  private entries: Map<string, number[]> | null = null;
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * @param modelId 模型标识，如 "openai:text-embedding-3-small"，每个模型使用单独的缓存文件
+   */
+  constructor(modelId: string, dir: string = EMBEDDING_CACHE_DIR) {
+    this.filePath = path.join(dir, `${modelId.replace(/[^a-zA-Z0-9._-]+/g, '_')}.jsonl`);
+  }
+
+  /**
+   * 读取缓存的向量
+   *
+   * @returns 缓存的向量，未缓存时返回 undefined
+   */
+  get(hash: string): number[] | undefined {
+    const embedding = this.load().get(hash);
+    if (embedding) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+    return embedding;
+  }
+
+  /**
+   * 写入向量，已缓存的文本跳过
+   */
+  set(items: { hash: string; embedding: number[] }[]): void {
+    const entries = this.load();
+    const lines: string[] = [];
+    for (const { hash, embedding } of items) {
+      if (!entries.has(hash)) {
+        entries.set(hash, embedding);
+        lines.push(JSON.stringify({ hash, embedding } satisfies CacheLine));
+      }
+    }
+    if (lines.length === 0) {
+      return;
+    }
+
+    try {
+      mkdirSync(path.dirname(this.filePath), { recursive: true });
+      appendFileSync(this.filePath, `${lines.join('\n')}\n`);
+    } catch (error) {
+      // 缓存只用于减少模型调用，写入失败不影响本次结果
+      console.warn(`⚠️ 写入向量缓存失败: ${this.filePath}`, error);
+    }
+  }
+
+  /**
+   * 缓存的向量维度，缓存为空时返回 null
+   */
+  get dimension(): number | null {
+    const first = this.load().values().next();
+    return first.done ? null : first.value.length;
+  }
+
+  /**
+   * 缓存统计信息
+   */
+  getStats() {
+    return {
+      path: this.filePath,
+      entries: this.load().size,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  /**
+   * 第一次使用时读取缓存文件，跳过损坏的行（如进程中断时写了一半的最后一行）
+   */
+  private load(): Map<string, number[]> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    this.entries = new Map();
+    if (!existsSync(this.filePath)) {
+      return this.entries;
+    }
+
+    let skipped = 0;
+    for (const line of readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const { hash, embedding } = JSON.parse(line) as CacheLine;
+        this.entries.set(hash, embedding);
+      } catch {
+        skipped++;
+      }
+    }
+    console.log(`📦 已加载向量缓存: ${this.entries.size} 条 (${this.filePath})${skipped > 0 ? `，跳过 ${skipped} 行损坏数据` : ''}`);
+    return this.entries;
+  }
+}
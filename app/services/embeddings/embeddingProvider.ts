@@ -0,0 +1,88 @@
+/**
+ * Embedding Provider 工厂
+ *
+ * 根据环境变量 EMBEDDING_PROVIDER 创建 Provider（带磁盘缓存），整个应用共享同一个实例。
+ * 未配置 EMBEDDING_PROVIDER 时按 OPENAI_API_KEY → HUGGINGFACE_API_KEY → 本地模型的顺序选择
+ */
+
+import { env } from '../../lib/env';
+import { CachedEmbeddingProvider } from './cachedEmbeddingProvider';
+import { HuggingFaceEmbeddingProvider } from './huggingfaceEmbeddingProvider';
+import { LocalEmbeddingProvider } from './localEmbeddingProvider';
+import { OpenAIEmbeddingProvider } from './openaiEmbeddingProvider';
+import type { EmbeddingProvider, EmbeddingProviderName } from './types';
+
+export { EmbeddingDimensionError } from './types';
+export type { EmbeddingModelInfo, EmbeddingProvider, EmbeddingProviderName } from './types';
+export { CachedEmbeddingProvider } from './cachedEmbeddingProvider';
+export { embedWithRetry } from './embeddingRetry';
+export type { EmbeddingBatchResult, EmbeddingFailure, EmbeddingRetryOptions } from './embeddingRetry';
+
+/**
+ * 各 Provider 的默认模型，可通过 EMBEDDING_MODEL 覆盖
+ */
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  openai: 'text-embedding-3-small',
+  huggingface: 'sentence-transformers/all-MiniLM-L6-v2',
+  local: 'Xenova/all-MiniLM-L6-v2',
+};
+
+/**
+ * 未配置 EMBEDDING_PROVIDER 时根据已配置的密钥选择 Provider
+ */
+function detectProviderName(): EmbeddingProviderName {
+  if (env.OPENAI_API_KEY) {
+    return 'openai';
+  }
+  if (env.HUGGINGFACE_API_KEY) {
+    return 'huggingface';
+  }
+  return 'local';
+}
+
+/**
+ * 根据名称创建 Provider（不带缓存）
+ *
+ * @param name Provider 名称，缺省时使用 env.EMBEDDING_PROVIDER，未配置时按已配置的密钥选择
+ * @param model 模型名称，缺省时使用 env.EMBEDDING_MODEL 或该 Provider 的默认模型
+ */
+export function createEmbeddingProvider(
+  name: EmbeddingProviderName = env.EMBEDDING_PROVIDER ?? detectProviderName(),
+  model: string = env.EMBEDDING_MODEL ?? DEFAULT_MODELS[name]
+): EmbeddingProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider({
+        apiKey: env.OPENAI_API_KEY,
+        baseURL: env.OPENAI_BASE_URL,
+        model,
+      });
+    case 'huggingface':
+      return new HuggingFaceEmbeddingProvider({
+        apiKey: env.HUGGINGFACE_API_KEY ?? '',
+        model,
+      });
+    case 'local':
+      return new LocalEmbeddingProvider({ model });
+    default:
+      throw new Error(`不支持的 EMBEDDING_PROVIDER: ${name}`);
+  }
+}
+
+/**
+ * 单例实例
+ */
+let providerInstance: CachedEmbeddingProvider | null = null;
+
+/**
+ * 获取 Provider 单例实例（带磁盘缓存）
+ *
+ * @returns 当前配置的 EmbeddingProvider
+ */
+export function getEmbeddingProvider(): CachedEmbeddingProvider {
+  if (!providerInstance) {
+    providerInstance = new CachedEmbeddingProvider(createEmbeddingProvider());
+    console.log(`🧬 使用 Embedding Provider: ${providerInstance.name}（模型: ${providerInstance.model}，维度: ${providerInstance.dimension ?? '未知'}）`);
+  }
+  return providerInstance;
+}
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { embedWithRetry } from './embeddingRetry';
+import type { EmbeddingProvider } from './types';
+
+/**
+ * 测试用 Provider：每次请求的文本记录在 calls 中，结果由 embedDocuments 决定
+ */
+function fakeProvider(embedDocuments: (texts: string[]) => Promise<number[][]>) {
+  const calls: string[][] = [];
+  const provider: EmbeddingProvider = {
+    name: 'openai',
+    model: 'fake',
+    id: 'openai:fake',
+    dimension: 2,
+    embedDocuments: (texts) => {
+      calls.push(texts);
+      return embedDocuments(texts);
+    },
+    embedQuery: async () => [0, 0],
+  };
+  return { provider, calls };
+}
+
+function httpError(status: number, headers?: Record<string, string>) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers: headers ? new Headers(headers) : undefined });
+}
+
+describe('embedWithRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('服务端错误按指数退避重试', async () => {
+    let failures = 2;
+    const { provider, calls } = fakeProvider(async (texts) => {
+      if (failures-- > 0) {
+        throw httpError(503);
+      }
+      return texts.map(() => [1, 0]);
+    });
+
+    const pending = embedWithRetry(provider, ['a', 'b'], { baseDelayMs: 1000 });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(calls).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(calls).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(pending).resolves.toEqual({ embeddings: [[1, 0], [1, 0]], failures: [] });
+    expect(calls).toHaveLength(3);
+  });
+
+  it('限流时按 Retry-After 等待', async () => {
+    let limited = true;
+    const { provider, calls } = fakeProvider(async (texts) => {
+      if (limited) {
+        limited = false;
+        throw httpError(429, { 'retry-after': '5' });
+      }
+      return texts.map(() => [0, 1]);
+    });
+
+    const pending = embedWithRetry(provider, ['a'], { baseDelayMs: 1000 });
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(pending).resolves.toEqual({ embeddings: [[0, 1]], failures: [] });
+  });
+
+  it('Retry-After 不超过单次等待上限', async () => {
+    let limited = true;
+    const { provider, calls } = fakeProvider(async (texts) => {
+      if (limited) {
+        limited = false;
+        throw httpError(429, { 'retry-after': '120' });
+      }
+      return texts.map(() => [0, 1]);
+    });
+
+    const pending = embedWithRetry(provider, ['a'], { maxDelayMs: 2000 });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(calls).toHaveLength(2);
+    await expect(pending).resolves.toMatchObject({ failures: [] });
+  });
+
+  it('重试用尽后整批记为失败，不用零向量顶替', async () => {
+    const { provider, calls } = fakeProvider(async () => {
+      throw httpError(429);
+    });
+
+    const pending = embedWithRetry(provider, ['a', 'b'], { maxAttempts: 3, baseDelayMs: 10 });
+    await vi.runAllTimersAsync();
+
+    const result = await pending;
+    expect(calls).toHaveLength(3);
+    expect(result.embeddings).toEqual([null, null]);
+    expect(result.failures).toEqual([
+      { index: 0, error: 'HTTP 429', attempts: 3, rateLimited: true },
+      { index: 1, error: 'HTTP 429', attempts: 3, rateLimited: true },
+    ]);
+  });
+
+  it('整批因输入错误失败时逐条重试，只让有问题的文本失败', async () => {
+    const { provider, calls } = fakeProvider(async (texts) => {
+      if (texts.includes('too long')) {
+        throw httpError(400);
+      }
+      return texts.map(() => [1, 1]);
+    });
+
+    const result = await embedWithRetry(provider, ['a', 'too long', 'c']);
+
+    expect(calls).toEqual([['a', 'too long', 'c'], ['a'], ['too long'], ['c']]);
+    expect(result.embeddings).toEqual([[1, 1], null, [1, 1]]);
+    expect(result.failures).toEqual([{ index: 1, error: 'HTTP 400', attempts: 1, rateLimited: false }]);
+  });
+
+  it('取消后等待中的重试立即结束', async () => {
+    const { provider, calls } = fakeProvider(async () => {
+      throw httpError(500);
+    });
+    const controller = new AbortController();
+
+    const pending = embedWithRetry(provider, ['a'], { baseDelayMs: 10000, signal: controller.signal });
+    const assertion = expect(pending).rejects.toThrow('cancelled');
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort(new Error('cancelled'));
+
+    await assertion;
+    expect(calls).toHaveLength(1);
+  });
+});
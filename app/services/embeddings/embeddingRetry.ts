@@ -0,0 +1,201 @@
+/**
+ * 向量生成重试
+ *
+ * 一批文本调用向量模型失败时按指数退避重试；遇到限流（HTTP 429）时优先按 Retry-After 等待。
+ * 重试用尽后不会用零向量顶替，而是返回逐条的失败记录，由调用方决定如何处理：
+ * 零向量与任何向量的余弦相似度都为 0（或在其他度量下与所有向量都“相近”），写入索引会污染检索结果
+ */
+
+import { EmbeddingDimensionError, type EmbeddingProvider } from './types';
+
+/**
+ * 单条文本的失败记录
+ */
+export interface EmbeddingFailure {
+  /** 文本在输入中的下标 */
+  index: number;
+  error: string;
+  /** 已尝试次数 */
+  attempts: number;
+  /** 最后一次失败是否因为限流 */
+  rateLimited: boolean;
+}
+
+/**
+ * 批量生成向量的结果
+ * embeddings 与输入一一对应，失败的文本为 null，失败原因见 failures
+ */
+export interface EmbeddingBatchResult {
+  embeddings: (number[] | null)[];
+  failures: EmbeddingFailure[];
+}
+
+export interface EmbeddingRetryOptions {
+  /** 每个请求的最多尝试次数（含第一次），默认 4 */
+  maxAttempts?: number;
+  /** 第一次重试前的等待时间，之后每次翻倍，默认 1000ms */
+  baseDelayMs?: number;
+  /** 单次等待的上限，默认 30000ms */
+  maxDelayMs?: number;
+  /** 取消后不再重试，等待中的重试立即结束 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 重试用尽或不可重试的请求错误
+ */
+class EmbeddingAttemptError extends Error {
+  constructor(readonly cause: unknown, readonly attempts: number, readonly rateLimited: boolean) {
+    super(errorMessage(cause));
+    this.name = 'EmbeddingAttemptError';
+  }
+}
+
+/**
+ * 为一批文本生成向量，失败时重试
+ *
+ * 整批请求因输入问题（如 HTTP 400，文本过长）失败时，逐条重新请求，只让有问题的文本失败；
+ * 因网络、限流或服务端错误重试用尽时，整批文本都记为失败
+ *
+ * @throws 取消时抛出 signal.reason
+ */
+export async function embedWithRetry(
+  provider: EmbeddingProvider,
+  texts: string[],
+  options: EmbeddingRetryOptions = {}
+): Promise<EmbeddingBatchResult> {
+  try {
+    const embeddings = await withRetry(() => provider.embedDocuments(texts), options);
+    return { embeddings, failures: [] };
+  } catch (error) {
+    if (!(error instanceof EmbeddingAttemptError)) {
+      throw error;
+    }
+    if (texts.length > 1 && !isRetryable(error.cause)) {
+      console.warn(`⚠️ 整批向量化失败（${error.message}），逐条重试 ${texts.length} 条文本`);
+      return embedOneByOne(provider, texts, options);
+    }
+    return {
+      embeddings: texts.map(() => null),
+      failures: texts.map((_, index) => toFailure(index, error)),
+    };
+  }
+}
+
+async function embedOneByOne(
+  provider: EmbeddingProvider,
+  texts: string[],
+  options: EmbeddingRetryOptions
+): Promise<EmbeddingBatchResult> {
+  const result: EmbeddingBatchResult = { embeddings: [], failures: [] };
+  for (const [index, text] of texts.entries()) {
+    try {
+      const [embedding] = await withRetry(() => provider.embedDocuments([text]), options);
+      result.embeddings.push(embedding);
+    } catch (error) {
+      if (!(error instanceof EmbeddingAttemptError)) {
+        throw error;
+      }
+      result.embeddings.push(null);
+      result.failures.push(toFailure(index, error));
+    }
+  }
+  return result;
+}
+
+/**
+ * 执行请求，可重试的错误按指数退避（限流时按 Retry-After）等待后重试
+ *
+ * @throws {EmbeddingAttemptError} 不可重试或重试用尽
+ */
+async function withRetry<T>(request: () => Promise<T>, options: EmbeddingRetryOptions): Promise<T> {
+  const { maxAttempts = 4, baseDelayMs = 1000, maxDelayMs = 30000, signal } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await request();
+    } catch (error) {
+      signal?.throwIfAborted();
+      const rateLimited = getStatus(error) === 429;
+      if (!isRetryable(error) || attempt >= maxAttempts) {
+        throw new EmbeddingAttemptError(error, attempt, rateLimited);
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delay = Math.min(maxDelayMs, getRetryAfterMs(error) ?? backoff + Math.random() * baseDelayMs * 0.25);
+      console.warn(
+        `⚠️ 向量化请求失败（${rateLimited ? '限流' : errorMessage(error)}），` +
+        `${Math.round(delay)}ms 后第 ${attempt + 1}/${maxAttempts} 次尝试`
+      );
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * 网络错误、超时、限流和服务端错误可重试；其他 4xx（密钥无效、输入过长等）和维度错误重试也不会成功
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof EmbeddingDimensionError) {
+    return false;
+  }
+  const status = getStatus(error);
+  if (status === undefined) {
+    return true;
+  }
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * 读取 HTTP 状态码：OpenAI SDK 的 APIError.status 或 Hugging Face 的 httpResponse.status
+ */
+function getStatus(error: unknown): number | undefined {
+  const candidate = error as { status?: unknown; httpResponse?: { status?: unknown } } | null;
+  const status = candidate?.status ?? candidate?.httpResponse?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * 读取限流响应的 Retry-After（秒数或 HTTP 日期），没有时返回 null
+ */
+function getRetryAfterMs(error: unknown): number | null {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  const value = headers instanceof Headers ? headers.get('retry-after') : null;
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function toFailure(index: number, error: EmbeddingAttemptError): EmbeddingFailure {
+  return {
+    index,
+    error: error.message,
+    attempts: error.attempts,
+    rateLimited: error.rateLimited,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,67 @@
+/**
+ * Hugging Face Embedding Provider
+ *
+ * 通过 Hugging Face Inference API 的 feature-extraction 任务生成向量
+ */
+
+import { InferenceClient } from '@huggingface/inference';
+import { assertDimension, type EmbeddingProvider } from './types';
+
+export interface HuggingFaceEmbeddingProviderConfig {
+  apiKey: string;
+  model: string;
+}
+
+export class HuggingFaceEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'huggingface' as const;
+  readonly model: string;
+  private client: InferenceClient;
+  private apiKey: string;
+  private knownDimension: number | null = null;
+
+  constructor(config: HuggingFaceEmbeddingProviderConfig) {
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.client = new InferenceClient(config.apiKey);
+  }
+
+  get id(): string {
+    return `huggingface:${this.model}`;
+  }
+
+  get dimension(): number | null {
+    return this.knownDimension;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    if (!this.apiKey) {
+      throw new Error('HUGGINGFACE_API_KEY 未配置。请在环境变量中配置有效的 Hugging Face API 密钥。');
+    }
+
+    const output = await this.client.featureExtraction({
+      model: this.model,
+      inputs: texts,
+    });
+    // sentence-transformers 模型对每个输入返回一个已池化的向量
+    const vectors = output.map((item) => {
+      if (!Array.isArray(item) || item.some((value) => typeof value !== 'number')) {
+        throw new Error(`模型 ${this.model} 没有返回句向量，请使用 sentence-transformers 类模型`);
+      }
+      return item as number[];
+    });
+    if (vectors.length !== texts.length) {
+      throw new Error(`Hugging Face 返回了 ${vectors.length} 个向量，期望 ${texts.length} 个`);
+    }
+
+    this.knownDimension = assertDimension(vectors, this.knownDimension, this.id);
+    return vectors;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.embedDocuments([text]);
+    return vector;
+  }
+}
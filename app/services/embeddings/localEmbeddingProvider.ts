@@ -0,0 +1,80 @@
+/**
+ * 本地 Embedding Provider
+ *
+ * 在当前进程中用 @xenova/transformers（ONNX Runtime）运行 sentence-transformers 模型，
+ * 不需要 API 密钥。模型文件第一次使用时下载并缓存到本地
+ */
+
+import { assertDimension, type EmbeddingProvider } from './types';
+
+export interface LocalEmbeddingProviderConfig {
+  model: string;
+}
+
+/**
+ * 已知模型的向量维度，其他模型在第一次调用后确定
+ */
+const MODEL_DIMENSIONS: Record<string, number> = {
+  'Xenova/all-MiniLM-L6-v2': 384,
+  'Xenova/paraphrase-multilingual-MiniLM-L12-v2': 384,
+  'Xenova/bge-small-zh-v1.5': 512,
+};
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: 'mean'; normalize: boolean }
+) => Promise<{ tolist(): number[][] }>;
+
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model: string;
+  private knownDimension: number | null;
+  private extractor: Promise<FeatureExtractor> | null = null;
+
+  constructor(config: LocalEmbeddingProviderConfig) {
+    this.model = config.model;
+    this.knownDimension = MODEL_DIMENSIONS[config.model] ?? null;
+  }
+
+  get id(): string {
+    return `local:${this.model}`;
+  }
+
+  get dimension(): number | null {
+    return this.knownDimension;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const extractor = await this.getExtractor();
+    // 均值池化并归一化，与 sentence-transformers 的句向量一致
+    const vectors = (await extractor(texts, { pooling: 'mean', normalize: true })).tolist();
+
+    this.knownDimension = assertDimension(vectors, this.knownDimension, this.id);
+    return vectors;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.embedDocuments([text]);
+    return vector;
+  }
+
+  /**
+   * 加载模型（只加载一次）
+   */
+  private getExtractor(): Promise<FeatureExtractor> {
+    if (!this.extractor) {
+      console.log(`📦 加载本地向量模型: ${this.model}`);
+      this.extractor = import('@xenova/transformers')
+        .then(({ pipeline }) => pipeline('feature-extraction', this.model) as unknown as Promise<FeatureExtractor>)
+        .catch((error) => {
+          this.extractor = null;
+          throw error;
+        });
+    }
+    return this.extractor;
+  }
+}
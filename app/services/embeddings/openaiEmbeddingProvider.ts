@@ -0,0 +1,80 @@
+/**
+ * OpenAI Embedding Provider
+ *
+ * 适用于 OpenAI 以及所有兼容 OpenAI Embeddings 接口的服务
+ */
+
+import OpenAI from 'openai';
+import { assertDimension, type EmbeddingProvider } from './types';
+
+export interface OpenAIEmbeddingProviderConfig {
+  apiKey: string;
+  baseURL?: string;
+  model: string;
+}
+
+/**
+ * 已知模型的向量维度，其他模型在第一次调用后确定
+ */
+const MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  private client: OpenAI;
+  private apiKey: string;
+  private knownDimension: number | null;
+
+  constructor(config: OpenAIEmbeddingProviderConfig) {
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.knownDimension = MODEL_DIMENSIONS[config.model] ?? null;
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+      // 重试由 embeddingRetry.ts 统一处理
+      maxRetries: 0,
+    });
+  }
+
+  get id(): string {
+    return `openai:${this.model}`;
+  }
+
+  get dimension(): number | null {
+    return this.knownDimension;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    if (!this.apiKey || this.apiKey.includes('your_openai_api_key')) {
+      throw new Error('OPENAI_API_KEY 未配置或无效。请在环境变量中配置有效的 OpenAI API 密钥。');
+    }
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+    // 按 index 排序，保证与输入顺序一致
+    const vectors = [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+    if (vectors.length !== texts.length) {
+      throw new Error(`OpenAI 返回了 ${vectors.length} 个向量，期望 ${texts.length} 个`);
+    }
+
+    this.knownDimension = assertDimension(vectors, this.knownDimension, this.id);
+    return vectors;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.embedDocuments([text]);
+    return vector;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Embedding Provider 接口定义
+ *
+ * RAG 同步和检索通过 EmbeddingProvider 生成向量，具体使用哪个 Provider 由环境变量
+ * EMBEDDING_PROVIDER 决定（未配置时按 OPENAI_API_KEY → HUGGINGFACE_API_KEY → 本地模型的顺序选择）
+ */
+
+/**
+ * 支持的 Provider 名称
+ * - openai：OpenAI 及兼容 OpenAI Embeddings 接口的服务（通过 OPENAI_BASE_URL 切换）
+ * - huggingface：Hugging Face Inference API
+ * - local：在当前进程中用 @xenova/transformers 运行的本地模型，不访问推理服务
+ */
+export type EmbeddingProviderName = 'openai' | 'huggingface' | 'local';
+
+/**
+ * 向量模型信息，随向量一起保存，用于防止不同模型的向量混入同一个索引
+ */
+export interface EmbeddingModelInfo {
+  /** 模型标识，格式为 "<provider>:<model>"，如 "openai:text-embedding-3-small" */
+  id: string;
+  /** 向量维度 */
+  dimension: number;
+}
+
+/**
+ * Embedding Provider
+ * 与 LangChain 的 EmbeddingsInterface 兼容（embedDocuments / embedQuery）
+ */
+export interface EmbeddingProvider {
+  /** Provider 名称 */
+  readonly name: EmbeddingProviderName;
+  /** 模型名称 */
+  readonly model: string;
+  /** 模型标识，格式为 "<provider>:<model>" */
+  readonly id: string;
+  /** 向量维度；模型维度未知时为 null，第一次生成向量后确定 */
+  readonly dimension: number | null;
+
+  /**
+   * 批量生成向量，返回顺序与输入一致
+   *
+   * @throws {Error} 请求失败或返回的向量数量、维度不正确
+   */
+  embedDocuments(texts: string[]): Promise<number[][]>;
+
+  /**
+   * 生成检索语句的向量
+   */
+  embedQuery(text: string): Promise<number[]>;
+}
+
+/**
+ * 向量维度不一致或模型与索引不匹配
+ */
+export class EmbeddingDimensionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingDimensionError';
+  }
+}
+
+/**
+ * 检查一批向量的维度，并返回维度
+ *
+ * @param vectors 向量列表
+ * @param expected 期望的维度，未知时为 null
+ * @param source 出错时用于说明来源，如模型标识
+ * @throws {EmbeddingDimensionError} 维度与期望不符或各向量维度不一致
+ */
+export function assertDimension(vectors: number[][], expected: number | null, source: string): number | null {
+  let dimension = expected;
+  for (const vector of vectors) {
+    if (dimension === null) {
+      dimension = vector.length;
+    }
+    if (vector.length !== dimension || vector.length === 0) {
+      throw new EmbeddingDimensionError(`${source} 返回了 ${vector.length} 维向量，期望 ${dimension} 维`);
+    }
+  }
+  return dimension;
+}
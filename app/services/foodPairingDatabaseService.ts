@@ -0,0 +1,382 @@
+/**
+ * 菜品与酒品搭配数据库服务
+ *
+ * 本文件封装了搭配推荐相关的 Prisma 操作，供 API 路由调用
+ */
+
+import { prisma } from '../lib/prisma';
+import type {
+  CompletePairingRecommendation,
+  DishRecommendation,
+  FavoriteDishEntry,
+  FoodPairingHistoryEntry,
+  FoodPairingHistorySummary,
+} from '../types/foodPairing';
+
+/**
+ * food_pairing_history 表的行结构
+ * Json 列读取出来是任意 JSON 值，需要转换为业务类型后再返回给调用方
+ */
+interface FoodPairingHistoryRow {
+  id: string;
+  sessionId: string;
+  cuisine: string | null;
+  foodIngredients: unknown;
+  drinkIngredients: unknown;
+  recommendedDishes: unknown;
+  recommendedBeverages: unknown;
+  pairingReasons: unknown;
+  overallSuggestion: string | null;
+  metadata: unknown;
+  createdAt: Date;
+}
+
+/**
+ * dishes 表的行结构
+ */
+interface DishRow {
+  id: string;
+  name: string;
+  description: string | null;
+  cuisine: string | null;
+  requiredIngredients: unknown;
+  cookingTime: number;
+  difficulty: number;
+  steps: unknown;
+  source: string | null;
+  tags: unknown;
+}
+
+/**
+ * dish_favorites 表的行结构（包含关联的菜品）
+ */
+interface DishFavoriteRow {
+  id: string;
+  sessionId: string;
+  dishId: string;
+  createdAt: Date;
+  dish: DishRow | null;
+}
+
+/**
+ * 历史记录查询条件
+ */
+export interface PairingHistoryQuery {
+  /** 页码，从 1 开始 */
+  page: number;
+  /** 每页数量 */
+  limit: number;
+  /** 按菜系过滤（模糊匹配，不区分大小写） */
+  cuisine?: string | null;
+  /** 起始时间（包含） */
+  from?: Date | null;
+  /** 结束时间（包含） */
+  to?: Date | null;
+}
+
+/**
+ * FoodPairingDatabaseService
+ *
+ * 负责搭配推荐历史、菜品和菜品收藏的读写
+ */
+export class FoodPairingDatabaseService {
+  /**
+   * 保存一次搭配推荐运行的结果
+   *
+   * @param sessionId 会话 ID
+   * @param input 用户输入
+   * @param recommendation LangGraph 返回的完整推荐方案
+   * @returns 保存后的历史记录
+   */
+  async savePairingHistory(
+    sessionId: string,
+    input: {
+      cuisine?: string | null;
+      foodIngredients: string[];
+      drinkIngredients?: string[];
+    },
+    recommendation: CompletePairingRecommendation
+  ): Promise<FoodPairingHistoryEntry> {
+    const record: FoodPairingHistoryRow = await prisma.foodPairingHistory.create({
+      data: {
+        sessionId,
+        cuisine: input.cuisine || null,
+        foodIngredients: input.foodIngredients,
+        drinkIngredients: input.drinkIngredients ?? [],
+        recommendedDishes: recommendation.dishes,
+        recommendedBeverages: recommendation.beverages,
+        pairingReasons: recommendation.pairingReasons,
+        overallSuggestion: recommendation.overallSuggestion || null,
+        metadata: recommendation.metadata ?? {},
+      },
+    });
+
+    console.log(`💾 搭配推荐历史已保存，historyId: ${record.id}`);
+    return toHistoryEntry(record);
+  }
+
+  /**
+   * 分页获取会话的搭配推荐历史
+   *
+   * @param sessionId 会话 ID
+   * @param query 分页和过滤条件
+   * @returns 当前页的历史摘要和总数
+   */
+  async getPairingHistory(
+    sessionId: string,
+    query: PairingHistoryQuery
+  ): Promise<{ items: FoodPairingHistorySummary[]; total: number }> {
+    const where = {
+      sessionId,
+      ...(query.cuisine
+        ? { cuisine: { contains: query.cuisine, mode: 'insensitive' as const } }
+        : {}),
+      ...(query.from || query.to
+        ? {
+          createdAt: {
+            ...(query.from ? { gte: query.from } : {}),
+            ...(query.to ? { lte: query.to } : {}),
+          },
+        }
+        : {}),
+    };
+
+    const [records, total]: [FoodPairingHistoryRow[], number] = await Promise.all([
+      prisma.foodPairingHistory.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.foodPairingHistory.count({ where }),
+    ]);
+
+    return {
+      items: records.map((record) => toHistorySummary(toHistoryEntry(record))),
+      total,
+    };
+  }
+
+  /**
+   * 获取单条搭配推荐历史
+   * 只能读取属于当前会话的记录
+   *
+   * @param sessionId 会话 ID
+   * @param id 历史记录 ID
+   * @returns 历史记录，不存在时返回 null
+   */
+  async getPairingHistoryById(
+    sessionId: string,
+    id: string
+  ): Promise<FoodPairingHistoryEntry | null> {
+    const record: FoodPairingHistoryRow | null = await prisma.foodPairingHistory.findFirst({
+      where: { id, sessionId },
+    });
+
+    return record ? toHistoryEntry(record) : null;
+  }
+
+  /**
+   * 保存菜品，如果已存在则更新
+   * 菜品来自 dishRecommenderNode 的 LLM 输出，ID 为节点生成的 UUID
+   *
+   * @param dish 菜品推荐数据
+   * @returns 保存后的菜品
+   */
+  async saveDish(dish: DishRecommendation): Promise<DishRecommendation> {
+    const data = {
+      name: dish.name || '未知菜品',
+      description: dish.description || null,
+      cuisine: dish.cuisine || null,
+      requiredIngredients: dish.requiredIngredients || [],
+      cookingTime: dish.cookingTime ?? 30,
+      difficulty: dish.difficulty ?? 3,
+      steps: dish.steps || [],
+      source: dish.source || null,
+      tags: dish.tags || [],
+    };
+
+    const record: DishRow = await prisma.dish.upsert({
+      where: { id: dish.id },
+      create: { id: dish.id, ...data },
+      update: data,
+    });
+
+    return toDishRecommendation(record);
+  }
+
+  /**
+   * 查询菜品
+   *
+   * @param dishId 菜品 ID
+   * @returns 菜品，不存在时返回 null
+   */
+  async getDish(dishId: string): Promise<DishRecommendation | null> {
+    const record: DishRow | null = await prisma.dish.findUnique({ where: { id: dishId } });
+    return record ? toDishRecommendation(record) : null;
+  }
+
+  /**
+   * 收藏菜品
+   *
+   * @returns 新建的收藏记录；已收藏时返回 null
+   */
+  async addDishFavorite(sessionId: string, dishId: string): Promise<FavoriteDishEntry | null> {
+    const existing = await prisma.dishFavorite.findUnique({
+      where: { sessionId_dishId: { sessionId, dishId } },
+    });
+    if (existing) {
+      return null;
+    }
+
+    const favorite: DishFavoriteRow = await prisma.dishFavorite.create({
+      data: { sessionId, dishId },
+      include: { dish: true },
+    });
+    return toFavoriteDishEntry(favorite);
+  }
+
+  /**
+   * 取消收藏菜品
+   * 只会删除属于当前会话的收藏
+   *
+   * @returns 被删除的收藏记录；不存在时返回 null
+   */
+  async removeDishFavorite(sessionId: string, dishId: string): Promise<FavoriteDishEntry | null> {
+    const favorite: DishFavoriteRow | null = await prisma.dishFavorite.findUnique({
+      where: { sessionId_dishId: { sessionId, dishId } },
+      include: { dish: true },
+    });
+    if (!favorite) {
+      return null;
+    }
+
+    await prisma.dishFavorite.delete({ where: { id: favorite.id } });
+    return toFavoriteDishEntry(favorite);
+  }
+
+  /**
+   * 分页获取收藏的菜品
+   */
+  async getDishFavorites(
+    sessionId: string,
+    page: number,
+    limit: number
+  ): Promise<{ items: FavoriteDishEntry[]; total: number }> {
+    const [favorites, total]: [DishFavoriteRow[], number] = await Promise.all([
+      prisma.dishFavorite.findMany({
+        where: { sessionId },
+        include: { dish: true },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.dishFavorite.count({ where: { sessionId } }),
+    ]);
+
+    return {
+      items: favorites.map(toFavoriteDishEntry),
+      total,
+    };
+  }
+}
+
+/**
+ * 将菜品行转换为 DishRecommendation
+ */
+function toDishRecommendation(record: DishRow): DishRecommendation {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description || '',
+    cuisine: record.cuisine || '',
+    requiredIngredients: asArray(record.requiredIngredients) as string[],
+    cookingTime: record.cookingTime,
+    difficulty: record.difficulty,
+    steps: asArray(record.steps) as string[],
+    source: record.source || undefined,
+    tags: asArray(record.tags) as string[],
+  };
+}
+
+/**
+ * 将菜品收藏行转换为收藏记录
+ */
+function toFavoriteDishEntry(favorite: DishFavoriteRow): FavoriteDishEntry {
+  return {
+    id: favorite.id,
+    sessionId: favorite.sessionId,
+    dishId: favorite.dishId,
+    createdAt: favorite.createdAt.toISOString(),
+    dish: favorite.dish ? toDishRecommendation(favorite.dish) : null,
+  };
+}
+
+/**
+ * 将数据库行转换为历史记录
+ */
+function toHistoryEntry(record: FoodPairingHistoryRow): FoodPairingHistoryEntry {
+  const dishes = asArray(record.recommendedDishes) as CompletePairingRecommendation['dishes'];
+  const beverages = asArray(record.recommendedBeverages) as CompletePairingRecommendation['beverages'];
+  const pairingReasons = asArray(record.pairingReasons) as CompletePairingRecommendation['pairingReasons'];
+  const metadata = (record.metadata as CompletePairingRecommendation['metadata']) || undefined;
+
+  return {
+    id: record.id,
+    sessionId: record.sessionId,
+    cuisine: record.cuisine,
+    foodIngredients: asArray(record.foodIngredients) as string[],
+    drinkIngredients: asArray(record.drinkIngredients) as string[],
+    recommendation: {
+      dishes,
+      beverages,
+      pairingReasons,
+      overallSuggestion: record.overallSuggestion || '',
+      metadata: {
+        timestamp: metadata?.timestamp || record.createdAt.toISOString(),
+        ...metadata,
+        dishCount: dishes.length,
+        beverageCount: beverages.length,
+        pairingCount: pairingReasons.length,
+      },
+    },
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+/**
+ * 将历史记录精简为列表摘要
+ */
+function toHistorySummary(entry: FoodPairingHistoryEntry): FoodPairingHistorySummary {
+  return {
+    id: entry.id,
+    cuisine: entry.cuisine,
+    foodIngredients: entry.foodIngredients,
+    drinkIngredients: entry.drinkIngredients,
+    dishNames: entry.recommendation.dishes.map((dish) => dish.name),
+    beverageNames: entry.recommendation.beverages.map((beverage) => beverage.name),
+    overallSuggestion: entry.recommendation.overallSuggestion || null,
+    createdAt: entry.createdAt,
+  };
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * 单例实例
+ */
+let serviceInstance: FoodPairingDatabaseService | null = null;
+
+/**
+ * 获取服务单例实例
+ *
+ * @returns FoodPairingDatabaseService 实例
+ */
+export function getFoodPairingDatabaseService(): FoodPairingDatabaseService {
+  if (!serviceInstance) {
+    serviceInstance = new FoodPairingDatabaseService();
+  }
+  return serviceInstance;
+}
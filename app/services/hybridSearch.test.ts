@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { fuseResults, rerankResults } from './hybridSearch';
+
+function match(id: string, score: number, content = `内容 ${id}`) {
+  return { id, content, score, metadata: { documentId: 'doc', chunkId: id } };
+}
+
+describe('fuseResults', () => {
+  it('两个检索都命中的文本块排在最前，分数归一化到 0-1', () => {
+    const results = fuseResults(
+      [match('a', 0.9), match('b', 0.8)],
+      [match('b', 12), match('c', 7)]
+    );
+
+    expect(results.map((result) => result.id)).toEqual(['b', 'a', 'c']);
+    expect(results[0]).toMatchObject({ vectorScore: 0.8, keywordScore: 12, rerankScore: null });
+    expect(results[1]).toMatchObject({ vectorScore: 0.9, keywordScore: null });
+    expect(results[2]).toMatchObject({ vectorScore: null, keywordScore: 7 });
+    for (const result of results) {
+      expect(result.score).toBe(result.fusedScore);
+      expect(result.score).toBeGreaterThan(0);
+      expect(result.score).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('在两个列表中都排第一时分数为 1', () => {
+    const [top] = fuseResults([match('a', 0.9), match('b', 0.5)], [match('a', 3)]);
+
+    expect(top.id).toBe('a');
+    expect(top.score).toBeCloseTo(1);
+  });
+
+  it('只有一个检索有结果时按该列表归一化', () => {
+    const results = fuseResults([], [match('a', 3), match('b', 1)]);
+
+    expect(results.map((result) => result.id)).toEqual(['a', 'b']);
+    expect(results[0].score).toBeCloseTo(1);
+  });
+
+  it('两个列表都为空时返回空列表', () => {
+    expect(fuseResults([], [])).toEqual([]);
+  });
+});
+
+describe('rerankResults', () => {
+  it('优先包含全部检索词和原样短语的文本块', () => {
+    const fused = fuseResults(
+      [match('partial', 0.9, '金酒的历史'), match('exact', 0.7, '尼格罗尼：金酒、金巴利、甜味美思')],
+      []
+    );
+
+    const results = rerankResults('尼格罗尼 金酒', fused);
+
+    expect(results.map((result) => result.id)).toEqual(['exact', 'partial']);
+    expect(results[0].rerankScore).toBe(results[0].score);
+    expect(results[0].fusedScore).toBeLessThan(results[1].fusedScore);
+  });
+});
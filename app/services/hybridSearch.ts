@@ -0,0 +1,120 @@
+/**
+ * 知识库混合检索
+ *
+ * 使用倒数排名融合（Reciprocal Rank Fusion, RRF）合并向量检索和关键词检索（BM25）的结果，
+ * 并提供可选的本地重排序：不调用外部模型，按检索词覆盖率和短语精确匹配对融合结果重新打分
+ */
+
+import { tokenize, type KeywordSearchResult } from './keywordIndex';
+import type { VectorChunkMetadata, VectorSearchResult } from './vectorStore/types';
+
+/**
+ * RRF 常数，削弱排名靠前结果之间的分差
+ */
+const RRF_K = 60;
+
+/**
+ * 重排序各项得分的权重
+ */
+const RERANK_WEIGHTS = {
+  fused: 0.4,
+  coverage: 0.35,
+  phrase: 0.25,
+};
+
+/**
+ * 混合检索结果
+ */
+export interface HybridSearchResult {
+  id: string;
+  content: string;
+  metadata: VectorChunkMetadata;
+  /** 最终相关度（0-1），结果按此排序 */
+  score: number;
+  /** 向量检索的余弦相似度，未被向量检索命中时为 null */
+  vectorScore: number | null;
+  /** BM25 分数，未被关键词检索命中时为 null */
+  keywordScore: number | null;
+  /** 归一化到 0-1 的 RRF 分数 */
+  fusedScore: number;
+  /** 重排序分数，未重排序时为 null */
+  rerankScore: number | null;
+}
+
+/**
+ * 用 RRF 合并向量检索和关键词检索结果
+ * 分数除以所有非空列表都排第一时的最大值，归一化到 0-1
+ */
+export function fuseResults(
+  vectorResults: VectorSearchResult[],
+  keywordResults: KeywordSearchResult[]
+): HybridSearchResult[] {
+  const fused = new Map<string, HybridSearchResult>();
+
+  const addList = (
+    results: (VectorSearchResult | KeywordSearchResult)[],
+    scoreField: 'vectorScore' | 'keywordScore'
+  ) => {
+    results.forEach((result, rank) => {
+      const entry = fused.get(result.id) ?? {
+        id: result.id,
+        content: result.content,
+        metadata: result.metadata,
+        score: 0,
+        vectorScore: null,
+        keywordScore: null,
+        fusedScore: 0,
+        rerankScore: null,
+      };
+      entry[scoreField] = result.score;
+      entry.fusedScore += 1 / (RRF_K + rank + 1);
+      fused.set(result.id, entry);
+    });
+  };
+
+  addList(vectorResults, 'vectorScore');
+  addList(keywordResults, 'keywordScore');
+
+  const listCount = [vectorResults, keywordResults].filter((results) => results.length > 0).length;
+  const maxScore = listCount / (RRF_K + 1);
+
+  return Array.from(fused.values())
+    .map((entry) => {
+      const fusedScore = maxScore > 0 ? entry.fusedScore / maxScore : 0;
+      return { ...entry, fusedScore, score: fusedScore };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * 本地重排序
+ * 综合 RRF 分数、检索词覆盖率（文本块包含多少检索词）和短语精确匹配（检索中的词组是否原样出现）
+ */
+export function rerankResults(query: string, results: HybridSearchResult[]): HybridSearchResult[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  // 按空白和标点切分出的词组，如 "鸡尾酒配方 原料: 金酒、柠檬" → ["鸡尾酒配方", "原料", "金酒", "柠檬"]
+  const phrases = Array.from(new Set(
+    query
+      .toLowerCase()
+      .split(/[\s,，、:：;；.。!！?？()（）"“”'‘’]+/)
+      .filter((phrase) => phrase.length >= 2)
+  ));
+
+  return results
+    .map((result) => {
+      const content = result.content.toLowerCase();
+      const contentTerms = new Set(tokenize(content));
+      const coverage = queryTerms.length > 0
+        ? queryTerms.filter((term) => contentTerms.has(term)).length / queryTerms.length
+        : 0;
+      const phraseMatch = phrases.length > 0
+        ? phrases.filter((phrase) => content.includes(phrase)).length / phrases.length
+        : 0;
+
+      const rerankScore = RERANK_WEIGHTS.fused * result.fusedScore
+        + RERANK_WEIGHTS.coverage * coverage
+        + RERANK_WEIGHTS.phrase * phraseMatch;
+      return { ...result, rerankScore, score: rerankScore };
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { KeywordIndex, countTerms, tokenize } from './keywordIndex';
+
+function doc(id: string, content: string, metadata: Record<string, unknown> = {}) {
+  return { id, content, metadata: { documentId: 'doc', chunkId: id, ...metadata } };
+}
+
+describe('tokenize', () => {
+  it('中文按二元组切分，单字保留，英文和数字按单词切分并转为小写', () => {
+    expect(tokenize('金酒柠檬')).toEqual(['金酒', '酒柠', '柠檬']);
+    expect(tokenize('冰 Gin Tonic 50ml')).toEqual(['冰', 'gin', 'tonic', '50ml']);
+  });
+
+  it('统计词频', () => {
+    expect(countTerms('金酒 金酒 gin')).toEqual({ 金酒: 2, gin: 1 });
+  });
+});
+
+describe('KeywordIndex', () => {
+  it('按 BM25 排序，只返回命中检索词的文本块', () => {
+    const index = new KeywordIndex();
+    index.add([
+      doc('negroni', '尼格罗尼：金酒、金巴利、甜味美思'),
+      doc('gin-tonic', '金汤力：金酒、汤力水、青柠'),
+      doc('mojito', '莫吉托：朗姆酒、薄荷、青柠'),
+    ]);
+
+    const results = index.search('尼格罗尼 金酒', 10);
+
+    expect(results.map((result) => result.id)).toEqual(['negroni', 'gin-tonic']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('稀有词的权重高于常见词', () => {
+    const index = new KeywordIndex();
+    index.add([
+      doc('a', '青柠 青柠 薄荷'),
+      doc('b', '青柠 苦精'),
+      doc('c', '青柠'),
+    ]);
+
+    expect(index.search('苦精 青柠', 1)[0].id).toBe('b');
+  });
+
+  it('相同 ID 重复添加时覆盖，删除后不再命中', () => {
+    const index = new KeywordIndex();
+    index.add([doc('a', '金酒'), doc('b', '朗姆酒')]);
+    index.add([doc('a', '伏特加')]);
+
+    expect(index.size).toBe(2);
+    expect(index.search('金酒', 10)).toEqual([]);
+    expect(index.search('伏特加', 10).map((result) => result.id)).toEqual(['a']);
+
+    index.remove('a');
+    expect(index.size).toBe(1);
+    expect(index.search('伏特加', 10)).toEqual([]);
+  });
+
+  it('按元数据过滤', () => {
+    const index = new KeywordIndex();
+    index.add([
+      doc('a', '金酒 原料', { category: '经典', hasIngredients: true }),
+      doc('b', '金酒 做法', { category: '现代' }),
+    ]);
+
+    expect(index.search('金酒', 10, { category: '现代' }).map((result) => result.id)).toEqual(['b']);
+    expect(index.search('金酒', 10, { hasIngredients: true }).map((result) => result.id)).toEqual(['a']);
+  });
+
+  it('使用预先计算的词频', () => {
+    const index = new KeywordIndex();
+    index.add([{ ...doc('a', '内容不参与计算'), terms: { 金酒: 1 } }]);
+
+    expect(index.search('金酒', 10).map((result) => result.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * 知识库关键词索引（BM25）
+ *
+ * 向量检索容易把 "金酒"、"尼格罗尼" 这类精确的配方名和原料词模糊掉，
+ * 关键词索引与向量一起构建，供混合检索（hybridSearch.ts）使用。
+ *
+ * 中文没有分词器可用，连续的中日韩字符按二元组（bigram）切分，
+ * 只有一个字的片段保留单字；英文和数字按单词切分并转为小写
+ */
+
+import { matchesChunkFilter } from './vectorStore/memoryVectorStore';
+import type { ChunkFilter, VectorChunkMetadata } from './vectorStore/types';
+
+/**
+ * BM25 参数
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const CJK_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]+/g;
+const WORD_PATTERN = /[a-z0-9]+/g;
+
+/**
+ * 索引中的文本块
+ */
+export interface KeywordDocument {
+  id: string;
+  content: string;
+  metadata: VectorChunkMetadata;
+  /** 词频，缺省时根据 content 计算 */
+  terms?: Record<string, number>;
+}
+
+/**
+ * 关键词检索结果
+ */
+export interface KeywordSearchResult {
+  id: string;
+  content: string;
+  /** BM25 分数 */
+  score: number;
+  metadata: VectorChunkMetadata;
+}
+
+/**
+ * 切分检索词
+ */
+export function tokenize(text: string): string[] {
+  const normalized = text.toLowerCase();
+  const tokens: string[] = [];
+
+  for (const match of normalized.matchAll(CJK_PATTERN)) {
+    const run = match[0];
+    if (run.length === 1) {
+      tokens.push(run);
+      continue;
+    }
+    for (let i = 0; i < run.length - 1; i++) {
+      tokens.push(run.slice(i, i + 2));
+    }
+  }
+  for (const match of normalized.matchAll(WORD_PATTERN)) {
+    tokens.push(match[0]);
+  }
+
+  return tokens;
+}
+
+/**
+ * 统计词频
+ */
+export function countTerms(text: string): Record<string, number> {
+  const terms: Record<string, number> = {};
+  for (const token of tokenize(text)) {
+    terms[token] = (terms[token] || 0) + 1;
+  }
+  return terms;
+}
+
+interface IndexedDocument extends KeywordDocument {
+  terms: Record<string, number>;
+  length: number;
+}
+
+export class KeywordIndex {
+  private documents = new Map<string, IndexedDocument>();
+  /** 每个词出现在多少个文本块中 */
+  private documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  /**
+   * 添加文本块，ID 已存在时覆盖
+   */
+  add(documents: KeywordDocument[]): void {
+    for (const document of documents) {
+      this.remove(document.id);
+
+      const terms = document.terms ?? countTerms(document.content);
+      const length = Object.values(terms).reduce((sum, count) => sum + count, 0);
+      this.documents.set(document.id, { ...document, terms, length });
+      this.totalLength += length;
+      for (const term of Object.keys(terms)) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      }
+    }
+  }
+
+  /**
+   * 删除文本块
+   */
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) {
+      return;
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+    for (const term of Object.keys(document.terms)) {
+      const frequency = (this.documentFrequency.get(term) || 1) - 1;
+      if (frequency > 0) {
+        this.documentFrequency.set(term, frequency);
+      } else {
+        this.documentFrequency.delete(term);
+      }
+    }
+  }
+
+  /**
+   * 清空索引
+   */
+  clear(): void {
+    this.documents.clear();
+    this.documentFrequency.clear();
+    this.totalLength = 0;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * 按 BM25 分数检索，只返回至少命中一个检索词的文本块
+   */
+  search(query: string, topK: number, filter?: ChunkFilter): KeywordSearchResult[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const documentCount = this.documents.size;
+    const averageLength = this.totalLength / documentCount || 1;
+    const results: KeywordSearchResult[] = [];
+
+    for (const document of this.documents.values()) {
+      if (!matchesChunkFilter(document.metadata, filter)) {
+        continue;
+      }
+
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = document.terms[term];
+        if (!frequency) {
+          continue;
+        }
+        const documentFrequency = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score += idf * (frequency * (BM25_K1 + 1))
+          / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * (document.length / averageLength)));
+      }
+
+      if (score > 0) {
+        results.push({ id: document.id, content: document.content, score, metadata: document.metadata });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+}
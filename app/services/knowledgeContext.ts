@@ -0,0 +1,46 @@
+/**
+ * 知识库引用工具
+ *
+ * RAG 检索到的知识库片段在提示词中以 [C1]、[C2]… 编号，
+ * 模型在 citations 字段中返回参考的编号，这里再转换为可追溯的引用来源（文件、页码、片段 ID、相似度）
+ */
+
+import type { KnowledgeContext, RecipeCitation } from '../types';
+
+/**
+ * 知识库片段在提示词中的编号，如 C1
+ */
+export function citationLabel(index: number): string {
+  return `C${index + 1}`;
+}
+
+/**
+ * 将知识库片段格式化为提示词中的 [知识库信息] 段落
+ */
+export function formatKnowledgeContext(context: KnowledgeContext[]): string {
+  const items = context.map((item, index) => {
+    const page = item.page ? ` 第${item.page}页` : '';
+    return `[${citationLabel(index)}]（来源: ${item.source}${page}）\n${item.content}`;
+  });
+  return `[知识库信息]\n${items.join('\n\n')}\n[知识库信息结束]`;
+}
+
+/**
+ * 将模型返回的片段编号转换为引用来源
+ * 编号允许带方括号（如 "[C1]"），不存在的编号会被忽略
+ */
+export function resolveCitations(labels: string[], context: KnowledgeContext[]): RecipeCitation[] {
+  const citations: RecipeCitation[] = [];
+  for (const label of new Set(labels.map((item) => item.replace(/[[\]\s]/g, '').toUpperCase()))) {
+    const item = context.find((_, index) => citationLabel(index) === label);
+    if (item) {
+      citations.push({
+        source: item.source,
+        page: item.page,
+        chunkId: item.chunkId,
+        score: item.score,
+      });
+    }
+  }
+  return citations;
+}
@@ -0,0 +1,225 @@
+/**
+ * 知识库文档数据库服务
+ *
+ * 本文件封装了 knowledge_documents 表的 Prisma 操作，
+ * RAG 同步时用它记录每个知识库文件（PDF、Markdown、CSV 等）的类型、内容哈希和处理状态，
+ * 以便只处理新增或修改过的文件。有文本块向量化失败的文档记为部分处理（isProcessed 为 false），下次同步时重新处理
+ */
+
+import { prisma } from '../lib/prisma';
+
+/**
+ * knowledge_documents 表的行结构
+ */
+interface KnowledgeDocumentRow {
+  id: string;
+  title: string;
+  milvusId: string | null;
+  metadata: unknown;
+  documentType: string;
+  filePath: string | null;
+  fileSize: bigint | null;
+  chunkCount: number;
+  isProcessed: boolean;
+  updatedAt: Date;
+}
+
+/**
+ * 读取文档记录时查询的字段（不读取正文）
+ */
+const DOCUMENT_SELECT = {
+  id: true,
+  title: true,
+  milvusId: true,
+  metadata: true,
+  documentType: true,
+  filePath: true,
+  fileSize: true,
+  chunkCount: true,
+  isProcessed: true,
+  updatedAt: true,
+};
+
+/**
+ * 知识库文档记录（不含正文）
+ */
+export interface KnowledgeDocumentRecord {
+  id: string;
+  title: string;
+  /** 相对于项目根目录的文件路径，如 "pdfs/cocktails.pdf" */
+  filePath: string;
+  /** 文档类型，如 "pdf"、"markdown"、"csv" */
+  documentType: string;
+  fileSize: number;
+  /** 文件内容的 SHA-256 */
+  contentHash: string | null;
+  /** 文档在向量库中的 ID */
+  milvusId: string | null;
+  chunkCount: number;
+  /** 向量化失败的文本块数量 */
+  failedChunkCount: number;
+  /** 全部文本块都已写入向量库 */
+  isProcessed: boolean;
+  /** processed：已完成；partial：部分文本块向量化失败；pending：尚未处理 */
+  processingStatus: 'processed' | 'partial' | 'pending';
+  updatedAt: string;
+}
+
+/**
+ * 写入知识库文档的参数
+ */
+export interface KnowledgeDocumentInput {
+  title: string;
+  filePath: string;
+  /** 文档类型，如 "pdf"、"markdown"、"csv"（见 documentLoaders.ts） */
+  documentType: string;
+  fileSize: number;
+  contentHash: string;
+  /** 文档全文 */
+  content: string;
+  pageCount: number;
+  /** 已写入向量库的文本块数量 */
+  chunkCount: number;
+  /** 向量化失败的文本块数量 */
+  failedChunkCount: number;
+  /** 文档在向量库中的 ID */
+  milvusId: string;
+}
+
+/**
+ * KnowledgeDocumentService
+ *
+ * 负责知识库文档记录的读写
+ */
+export class KnowledgeDocumentService {
+  /**
+   * 获取文档记录
+   *
+   * @param documentTypes 只返回这些类型的文档，默认返回全部类型
+   */
+  async listDocuments(documentTypes?: string[]): Promise<KnowledgeDocumentRecord[]> {
+    const records: KnowledgeDocumentRow[] = await prisma.knowledgeDocument.findMany({
+      where: documentTypes ? { documentType: { in: documentTypes } } : {},
+      select: DOCUMENT_SELECT,
+      orderBy: { filePath: 'asc' },
+    });
+
+    return records.map(toRecord);
+  }
+
+  /**
+   * 按 ID 获取文档记录
+   *
+   * @param id 记录 ID
+   * @returns 文档记录，不存在时返回 null
+   */
+  async getDocument(id: string): Promise<KnowledgeDocumentRecord | null> {
+    const record: KnowledgeDocumentRow | null = await prisma.knowledgeDocument.findUnique({
+      where: { id },
+      select: DOCUMENT_SELECT,
+    });
+    return record ? toRecord(record) : null;
+  }
+
+  /**
+   * 按文件路径获取文档记录
+   *
+   * @param filePath 相对于项目根目录的文件路径，如 "pdfs/cocktails.pdf"
+   * @returns 文档记录，不存在时返回 null
+   */
+  async findByFilePath(filePath: string): Promise<KnowledgeDocumentRecord | null> {
+    const record: KnowledgeDocumentRow | null = await prisma.knowledgeDocument.findFirst({
+      where: { filePath },
+      select: DOCUMENT_SELECT,
+    });
+    return record ? toRecord(record) : null;
+  }
+
+  /**
+   * 保存已向量化的文档
+   * 已有记录时更新（文件内容变化），否则新建；有文本块向量化失败时记为部分处理
+   *
+   * @param id 已有记录的 ID
+   * @param input 文档信息
+   */
+  async saveProcessedDocument(id: string | null, input: KnowledgeDocumentInput): Promise<KnowledgeDocumentRecord> {
+    const data = {
+      title: input.title,
+      content: input.content,
+      milvusId: input.milvusId,
+      metadata: {
+        contentHash: input.contentHash,
+        pageCount: input.pageCount,
+        failedChunkCount: input.failedChunkCount,
+        processedAt: new Date().toISOString(),
+      },
+      documentType: input.documentType,
+      filePath: input.filePath,
+      fileSize: BigInt(input.fileSize),
+      chunkCount: input.chunkCount,
+      isProcessed: input.failedChunkCount === 0,
+    };
+
+    const record: KnowledgeDocumentRow = id
+      ? await prisma.knowledgeDocument.update({ where: { id }, data })
+      : await prisma.knowledgeDocument.create({ data });
+
+    return toRecord(record);
+  }
+
+  /**
+   * 删除文档记录
+   *
+   * @param ids 记录 ID 列表
+   * @returns 删除的数量
+   */
+  async deleteDocuments(ids: string[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+    const result: { count: number } = await prisma.knowledgeDocument.deleteMany({
+      where: { id: { in: ids } },
+    });
+    return result.count;
+  }
+}
+
+/**
+ * 将数据库行转换为文档记录
+ */
+function toRecord(row: KnowledgeDocumentRow): KnowledgeDocumentRecord {
+  const metadata = (row.metadata ?? {}) as { contentHash?: unknown; failedChunkCount?: unknown };
+  const failedChunkCount = typeof metadata.failedChunkCount === 'number' ? metadata.failedChunkCount : 0;
+
+  return {
+    id: row.id,
+    title: row.title,
+    filePath: row.filePath || row.title,
+    documentType: row.documentType,
+    fileSize: row.fileSize === null ? 0 : Number(row.fileSize),
+    contentHash: typeof metadata.contentHash === 'string' ? metadata.contentHash : null,
+    milvusId: row.milvusId,
+    chunkCount: row.chunkCount,
+    failedChunkCount,
+    isProcessed: row.isProcessed,
+    processingStatus: row.isProcessed ? 'processed' : failedChunkCount > 0 ? 'partial' : 'pending',
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * 单例实例
+ */
+let serviceInstance: KnowledgeDocumentService | null = null;
+
+/**
+ * 获取服务单例实例
+ *
+ * @returns KnowledgeDocumentService 实例
+ */
+export function getKnowledgeDocumentService(): KnowledgeDocumentService {
+  if (!serviceInstance) {
+    serviceInstance = new KnowledgeDocumentService();
+  }
+  return serviceInstance;
+}
@@ -0,0 +1,51 @@
+/**
+ * LangGraph Checkpointer 工厂
+ *
+ * 根据环境变量 LANGGRAPH_CHECKPOINTER 创建 Checkpointer，整个应用共享同一个实例：
+ * - postgres（默认）：保存在 DATABASE_URL 指向的数据库中，表由 Prisma 迁移创建
+ * - file：保存在 .langgraph/checkpoints 目录（可通过 LANGGRAPH_CHECKPOINT_PATH 覆盖），适合本地开发和测试
+ * - memory：保存在进程内存中，服务重启后丢失
+ */
+
+import { MemorySaver, type BaseCheckpointSaver } from '@langchain/langgraph';
+import { env } from '../../../lib/env';
+import { FileCheckpointSaver } from './fileCheckpointSaver';
+import { PostgresCheckpointSaver } from './postgresCheckpointSaver';
+
+export type CheckpointerBackend = 'postgres' | 'file' | 'memory';
+
+/**
+ * 根据后端名称创建 Checkpointer
+ *
+ * @param backend 后端名称，缺省时使用 env.LANGGRAPH_CHECKPOINTER
+ */
+export function createCheckpointer(backend: CheckpointerBackend = env.LANGGRAPH_CHECKPOINTER): BaseCheckpointSaver {
+  switch (backend) {
+    case 'postgres':
+      return new PostgresCheckpointSaver();
+    case 'file':
+      return new FileCheckpointSaver();
+    case 'memory':
+      return new MemorySaver();
+    default:
+      throw new Error(`不支持的 LANGGRAPH_CHECKPOINTER: ${backend}`);
+  }
+}
+
+/**
+ * 单例实例
+ */
+let checkpointerInstance: BaseCheckpointSaver | null = null;
+
+/**
+ * 获取 Checkpointer 单例实例
+ *
+ * @returns 当前配置的 Checkpointer
+ */
+export function getCheckpointer(): BaseCheckpointSaver {
+  if (!checkpointerInstance) {
+    checkpointerInstance = createCheckpointer();
+    console.log(`💾 使用 LangGraph Checkpointer: ${env.LANGGRAPH_CHECKPOINTER}`);
+  }
+  return checkpointerInstance;
+}
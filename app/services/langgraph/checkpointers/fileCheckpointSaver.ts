@@ -0,0 +1,162 @@
+/**
+ * 文件 Checkpointer
+ *
+ * 每个线程一个 JSON 文件（序列化数据按 base64 保存），不依赖数据库，适合本地开发和测试（LANGGRAPH_CHECKPOINTER=file）。
+ * 先写临时文件再重命名，进程中断时不会留下写了一半的文件
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, rmSync, writeFileSync } from 'fs';
+import path from 'path';
+import { cwd } from 'process';
+import { env } from '../../../lib/env';
+import {
+  SerializedCheckpointSaver,
+  type CheckpointQuery,
+  type StoredCheckpoint,
+  type StoredWrite,
+} from './serializedCheckpointSaver';
+
+/**
+ * 检查点目录，可通过 LANGGRAPH_CHECKPOINT_PATH 覆盖
+ */
+export const CHECKPOINT_DIR = env.LANGGRAPH_CHECKPOINT_PATH
+  ? path.resolve(env.LANGGRAPH_CHECKPOINT_PATH)
+  : path.resolve(cwd(), '.langgraph', 'checkpoints');
+
+/**
+ * 线程 ID 用作文件名，只允许字母、数字、下划线和连字符
+ */
+const THREAD_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * 文件中保存的检查点和中间写入，序列化数据为 base64
+ */
+type EncodedCheckpoint = Omit<StoredCheckpoint, 'checkpoint' | 'metadata'> & { checkpoint: string; metadata: string };
+type EncodedWrite = Omit<StoredWrite, 'value'> & { value: string };
+
+/**
+ * 线程文件内容
+ */
+interface ThreadFile {
+  checkpoints: EncodedCheckpoint[];
+  writes: EncodedWrite[];
+}
+
+export class FileCheckpointSaver extends SerializedCheckpointSaver {
+  private dir: string;
+
+  constructor(dir: string = CHECKPOINT_DIR) {
+    super();
+    this.dir = dir;
+  }
+
+  protected async readCheckpoints(query: CheckpointQuery): Promise<StoredCheckpoint[]> {
+    const threadIds = query.threadId !== undefined ? [query.threadId] : this.listThreadIds();
+    const records = threadIds
+      .flatMap((threadId) => this.readThread(threadId).checkpoints.map(decodeCheckpoint))
+      .filter((record) =>
+        (query.checkpointNs === undefined || record.checkpointNs === query.checkpointNs) &&
+        (query.checkpointId === undefined || record.checkpointId === query.checkpointId) &&
+        (query.before === undefined || record.checkpointId < query.before)
+      )
+      .sort((a, b) => b.checkpointId.localeCompare(a.checkpointId));
+    return query.limit !== undefined ? records.slice(0, query.limit) : records;
+  }
+
+  protected async readWrites(threadId: string, checkpointNs: string, checkpointId: string): Promise<StoredWrite[]> {
+    return this.readThread(threadId).writes
+      .map(decodeWrite)
+      .filter((write) => write.checkpointNs === checkpointNs && write.checkpointId === checkpointId);
+  }
+
+  protected async writeCheckpoint(record: StoredCheckpoint): Promise<void> {
+    const thread = this.readThread(record.threadId);
+    thread.checkpoints = thread.checkpoints.filter((item) =>
+      !(item.checkpointNs === record.checkpointNs && item.checkpointId === record.checkpointId)
+    );
+    thread.checkpoints.push(encodeCheckpoint(record));
+    this.writeThread(record.threadId, thread);
+  }
+
+  protected async writeWrites(records: StoredWrite[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    const thread = this.readThread(records[0].threadId);
+    for (const record of records) {
+      const index = thread.writes.findIndex((item) =>
+        item.checkpointNs === record.checkpointNs &&
+        item.checkpointId === record.checkpointId &&
+        item.taskId === record.taskId &&
+        item.idx === record.idx
+      );
+      if (index === -1) {
+        thread.writes.push(encodeWrite(record));
+      } else if (record.idx < 0) {
+        thread.writes[index] = encodeWrite(record);
+      }
+    }
+    this.writeThread(records[0].threadId, thread);
+  }
+
+  protected async removeThread(threadId: string): Promise<void> {
+    rmSync(this.threadPath(threadId), { force: true });
+  }
+
+  private listThreadIds(): string[] {
+    if (!existsSync(this.dir)) {
+      return [];
+    }
+    return readdirSync(this.dir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length));
+  }
+
+  private threadPath(threadId: string): string {
+    if (!THREAD_ID_PATTERN.test(threadId)) {
+      throw new Error(`线程 ID 格式无效: ${threadId}`);
+    }
+    return path.join(this.dir, `${threadId}.json`);
+  }
+
+  private readThread(threadId: string): ThreadFile {
+    const filePath = this.threadPath(threadId);
+    if (!existsSync(filePath)) {
+      return { checkpoints: [], writes: [] };
+    }
+    return JSON.parse(readFileSync(filePath, 'utf-8')) as ThreadFile;
+  }
+
+  private writeThread(threadId: string, thread: ThreadFile): void {
+    const filePath = this.threadPath(threadId);
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(`${filePath}.tmp`, JSON.stringify(thread));
+    renameSync(`${filePath}.tmp`, filePath);
+  }
+}
+
+function encodeCheckpoint(record: StoredCheckpoint): EncodedCheckpoint {
+  const { checkpoint, metadata, ...rest } = record;
+  return {
+    ...rest,
+    checkpoint: Buffer.from(checkpoint).toString('base64'),
+    metadata: Buffer.from(metadata).toString('base64'),
+  };
+}
+
+function decodeCheckpoint(item: EncodedCheckpoint): StoredCheckpoint {
+  return {
+    ...item,
+    checkpoint: Buffer.from(item.checkpoint, 'base64'),
+    metadata: Buffer.from(item.metadata, 'base64'),
+  };
+}
+
+function encodeWrite(record: StoredWrite): EncodedWrite {
+  const { value, ...rest } = record;
+  return { ...rest, value: Buffer.from(value).toString('base64') };
+}
+
+function decodeWrite(item: EncodedWrite): StoredWrite {
+  return { ...item, value: Buffer.from(item.value, 'base64') };
+}
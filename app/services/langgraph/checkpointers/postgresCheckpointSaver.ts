@@ -0,0 +1,126 @@
+/**
+ * PostgreSQL Checkpointer
+ *
+ * 检查点保存在 langgraph_checkpoints 表，节点中间写入保存在 langgraph_checkpoint_writes 表（LANGGRAPH_CHECKPOINTER=postgres），
+ * 通过 DATABASE_URL 指向的数据库读写，服务重启后仍可恢复未完成或失败的图执行。
+ * 表结构见 prisma/schema.prisma 中的 LangGraphCheckpoint / LangGraphCheckpointWrite
+ */
+
+import { prisma } from '../../../lib/prisma';
+import {
+  SerializedCheckpointSaver,
+  type CheckpointQuery,
+  type StoredCheckpoint,
+  type StoredWrite,
+} from './serializedCheckpointSaver';
+
+export class PostgresCheckpointSaver extends SerializedCheckpointSaver {
+  protected async readCheckpoints(query: CheckpointQuery): Promise<StoredCheckpoint[]> {
+    const rows = await prisma.langGraphCheckpoint.findMany({
+      where: {
+        threadId: query.threadId,
+        checkpointNs: query.checkpointNs,
+        checkpointId: query.checkpointId ?? (query.before !== undefined ? { lt: query.before } : undefined),
+      },
+      orderBy: { checkpointId: 'desc' },
+      take: query.limit,
+    });
+
+    return rows.map((row) => ({
+      threadId: row.threadId,
+      checkpointNs: row.checkpointNs,
+      checkpointId: row.checkpointId,
+      parentCheckpointId: row.parentCheckpointId,
+      type: row.type,
+      checkpoint: row.checkpoint,
+      metadata: row.metadata,
+    }));
+  }
+
+  protected async readWrites(threadId: string, checkpointNs: string, checkpointId: string): Promise<StoredWrite[]> {
+    const rows = await prisma.langGraphCheckpointWrite.findMany({
+      where: { threadId, checkpointNs, checkpointId },
+      orderBy: [{ taskId: 'asc' }, { idx: 'asc' }],
+    });
+
+    return rows.map((row) => ({
+      threadId: row.threadId,
+      checkpointNs: row.checkpointNs,
+      checkpointId: row.checkpointId,
+      taskId: row.taskId,
+      idx: row.idx,
+      channel: row.channel,
+      type: row.type,
+      value: row.value,
+    }));
+  }
+
+  protected async writeCheckpoint(record: StoredCheckpoint): Promise<void> {
+    const data = {
+      parentCheckpointId: record.parentCheckpointId,
+      type: record.type,
+      checkpoint: Buffer.from(record.checkpoint),
+      metadata: Buffer.from(record.metadata),
+    };
+    await prisma.langGraphCheckpoint.upsert({
+      where: {
+        threadId_checkpointNs_checkpointId: {
+          threadId: record.threadId,
+          checkpointNs: record.checkpointNs,
+          checkpointId: record.checkpointId,
+        },
+      },
+      create: {
+        threadId: record.threadId,
+        checkpointNs: record.checkpointNs,
+        checkpointId: record.checkpointId,
+        ...data,
+      },
+      update: data,
+    });
+  }
+
+  protected async writeWrites(records: StoredWrite[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    await prisma.$transaction(
+      records.map((record) => {
+        const data = {
+          channel: record.channel,
+          type: record.type,
+          value: Buffer.from(record.value),
+        };
+        return prisma.langGraphCheckpointWrite.upsert({
+          where: {
+            threadId_checkpointNs_checkpointId_taskId_idx: {
+              threadId: record.threadId,
+              checkpointNs: record.checkpointNs,
+              checkpointId: record.checkpointId,
+              taskId: record.taskId,
+              idx: record.idx,
+            },
+          },
+          create: {
+            threadId: record.threadId,
+            checkpointNs: record.checkpointNs,
+            checkpointId: record.checkpointId,
+            taskId: record.taskId,
+            idx: record.idx,
+            ...data,
+          },
+          // 普通写入已存在时保留原值，特殊写入覆盖
+          update: record.idx < 0 ? data : {},
+        });
+      })
+    );
+  }
+
+  protected async removeThread(threadId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.langGraphCheckpointWrite.deleteMany({ where: { threadId } }),
+      prisma.langGraphCheckpoint.deleteMany({ where: { threadId } }),
+    ]);
+  }
+}
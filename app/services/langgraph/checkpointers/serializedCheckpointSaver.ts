@@ -0,0 +1,219 @@
+/**
+ * 可持久化的 LangGraph Checkpointer 基类
+ *
+ * 负责检查点和中间写入（pending writes）的序列化、反序列化以及 CheckpointTuple 的组装，
+ * 子类只需按 StoredCheckpoint / StoredWrite 记录读写存储（文件、Postgres 等）
+ */
+
+import { BaseCheckpointSaver, copyCheckpoint, type Checkpoint, type CheckpointMetadata, type CheckpointTuple } from '@langchain/langgraph';
+import {
+  WRITES_IDX_MAP,
+  getCheckpointId,
+  type CheckpointListOptions,
+  type PendingWrite,
+} from '@langchain/langgraph-checkpoint';
+import type { RunnableConfig } from '@langchain/core/runnables';
+
+/**
+ * 保存的检查点
+ */
+export interface StoredCheckpoint {
+  threadId: string;
+  checkpointNs: string;
+  checkpointId: string;
+  /** 上一个检查点，线程的第一个检查点为 null */
+  parentCheckpointId: string | null;
+  /** 序列化类型（serde.dumpsTyped 返回的类型） */
+  type: string;
+  checkpoint: Uint8Array;
+  metadata: Uint8Array;
+}
+
+/**
+ * 保存的节点中间写入，节点执行完但下一个检查点还未生成时用于恢复
+ */
+export interface StoredWrite {
+  threadId: string;
+  checkpointNs: string;
+  checkpointId: string;
+  taskId: string;
+  /** 写入序号；错误、中断等特殊写入为负数（见 WRITES_IDX_MAP） */
+  idx: number;
+  channel: string;
+  type: string;
+  value: Uint8Array;
+}
+
+/**
+ * 检查点查询条件，未提供的条件不参与过滤
+ */
+export interface CheckpointQuery {
+  threadId?: string;
+  checkpointNs?: string;
+  checkpointId?: string;
+  /** 只返回 ID 小于该值（更早）的检查点 */
+  before?: string;
+  limit?: number;
+}
+
+export abstract class SerializedCheckpointSaver extends BaseCheckpointSaver {
+  /**
+   * 按条件读取检查点，按 checkpointId 从新到旧排序（checkpointId 为 uuid6，按时间递增）
+   */
+  protected abstract readCheckpoints(query: CheckpointQuery): Promise<StoredCheckpoint[]>;
+
+  /**
+   * 读取某个检查点之后的中间写入
+   */
+  protected abstract readWrites(threadId: string, checkpointNs: string, checkpointId: string): Promise<StoredWrite[]>;
+
+  protected abstract writeCheckpoint(record: StoredCheckpoint): Promise<void>;
+
+  /**
+   * 保存中间写入：同一任务、同一序号的普通写入（idx >= 0）已存在时保留原值，特殊写入（idx < 0）覆盖
+   */
+  protected abstract writeWrites(records: StoredWrite[]): Promise<void>;
+
+  protected abstract removeThread(threadId: string): Promise<void>;
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    if (threadId === undefined) {
+      return undefined;
+    }
+
+    const [record] = await this.readCheckpoints({
+      threadId,
+      checkpointNs: config.configurable?.checkpoint_ns ?? '',
+      checkpointId: getCheckpointId(config) || undefined,
+      limit: 1,
+    });
+    return record ? this.toTuple(record) : undefined;
+  }
+
+  async *list(config: RunnableConfig, options: CheckpointListOptions = {}): AsyncGenerator<CheckpointTuple> {
+    const { before, limit, filter } = options;
+    const records = await this.readCheckpoints({
+      threadId: config.configurable?.thread_id,
+      checkpointNs: config.configurable?.checkpoint_ns,
+      checkpointId: config.configurable?.checkpoint_id,
+      before: before?.configurable?.checkpoint_id,
+      // 按元数据过滤时需要先反序列化，不能在存储层截断
+      limit: filter ? undefined : limit,
+    });
+
+    let remaining = limit;
+    for (const record of records) {
+      if (remaining !== undefined && remaining <= 0) {
+        return;
+      }
+      const tuple = await this.toTuple(record);
+      const metadata = (tuple.metadata ?? {}) as Record<string, unknown>;
+      if (filter && !Object.entries(filter).every(([key, value]) => metadata[key] === value)) {
+        continue;
+      }
+      if (remaining !== undefined) {
+        remaining--;
+      }
+      yield tuple;
+    }
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const threadId = requireThreadId(config);
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    const [[type, serializedCheckpoint], [, serializedMetadata]] = await Promise.all([
+      this.serde.dumpsTyped(copyCheckpoint(checkpoint)),
+      this.serde.dumpsTyped(metadata),
+    ]);
+
+    await this.writeCheckpoint({
+      threadId,
+      checkpointNs,
+      checkpointId: checkpoint.id,
+      parentCheckpointId: config.configurable?.checkpoint_id ?? null,
+      type,
+      checkpoint: serializedCheckpoint,
+      metadata: serializedMetadata,
+    });
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = requireThreadId(config);
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (checkpointId === undefined) {
+      throw new Error('保存中间写入失败：config.configurable 缺少 checkpoint_id');
+    }
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+
+    const records = await Promise.all(writes.map(async ([channel, value], index): Promise<StoredWrite> => {
+      const [type, serializedValue] = await this.serde.dumpsTyped(value);
+      return {
+        threadId,
+        checkpointNs,
+        checkpointId,
+        taskId,
+        idx: WRITES_IDX_MAP[channel] ?? index,
+        channel,
+        type,
+        value: serializedValue,
+      };
+    }));
+    await this.writeWrites(records);
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.removeThread(threadId);
+  }
+
+  private async toTuple(record: StoredCheckpoint): Promise<CheckpointTuple> {
+    const writes = await this.readWrites(record.threadId, record.checkpointNs, record.checkpointId);
+    const [checkpoint, metadata, pendingWrites] = await Promise.all([
+      this.serde.loadsTyped(record.type, record.checkpoint) as Promise<Checkpoint>,
+      this.serde.loadsTyped('json', record.metadata) as Promise<CheckpointMetadata>,
+      Promise.all(writes.map(async (write) =>
+        [write.taskId, write.channel, await this.serde.loadsTyped(write.type, write.value)] as [string, string, unknown]
+      )),
+    ]);
+
+    return {
+      config: {
+        configurable: {
+          thread_id: record.threadId,
+          checkpoint_ns: record.checkpointNs,
+          checkpoint_id: record.checkpointId,
+        },
+      },
+      checkpoint,
+      metadata,
+      pendingWrites,
+      ...(record.parentCheckpointId
+        ? {
+          parentConfig: {
+            configurable: {
+              thread_id: record.threadId,
+              checkpoint_ns: record.checkpointNs,
+              checkpoint_id: record.parentCheckpointId,
+            },
+          },
+        }
+        : {}),
+    };
+  }
+}
+
+function requireThreadId(config: RunnableConfig): string {
+  const threadId = config.configurable?.thread_id;
+  if (typeof threadId !== 'string' || !threadId) {
+    throw new Error('保存检查点失败：执行图时需要在 config.configurable 中提供 thread_id');
+  }
+  return threadId;
+}
@@ -0,0 +1,74 @@
+/**
+ * 配餐调酒 LangGraph 图构建和边缘路由逻辑
+ *
+ * 与 buildFoodPairingGraph 并列的独立图：根据菜系/菜品原料直接推荐鸡尾酒
+ */
+
+import { StateGraph, START, END } from '@langchain/langgraph';
+import type { CocktailPairingState } from './cocktailPairingState';
+import { CocktailPairingStateSchema } from './cocktailPairingState';
+import { flavorProfileNode, cocktailPairingNode } from './cocktailPairingNodes';
+
+/**
+ * 决策点: 验证风味分析结果
+ * 在 flavorProfileNode 后检查是否可以继续进行鸡尾酒搭配
+ *
+ * @param state 当前状态
+ * @returns 下一个节点的名称
+ */
+export function shouldContinueToCocktailPairing(
+  state: CocktailPairingState
+): string {
+  if (state.error) {
+    console.log('⚠️ 检测到错误，终止流程:', state.error);
+    return END;
+  }
+
+  if (!state.flavorProfile) {
+    console.log('⚠️ 未生成风味画像，终止流程');
+    return END;
+  }
+
+  console.log('✅ 风味分析验证通过，继续到鸡尾酒搭配节点');
+  return 'cocktail_pairing';
+}
+
+/**
+ * 构建配餐调酒 LangGraph 图结构
+ *
+ * 图结构：
+ * START → flavor_profile → [条件判断] → cocktail_pairing → END
+ *
+ * @returns 编译后的图实例
+ */
+export function buildCocktailPairingGraph() {
+  console.log('🔧 开始构建配餐调酒 LangGraph 图结构...');
+
+  // 步骤 1: 创建状态图并添加节点
+  // 链式调用 addNode，让后续的边定义能够获得节点名称的类型检查
+  const graph = new StateGraph(CocktailPairingStateSchema)
+    // 节点 1: 风味分析节点
+    .addNode('flavor_profile', flavorProfileNode)
+    // 节点 2: 鸡尾酒搭配节点
+    .addNode('cocktail_pairing', cocktailPairingNode);
+
+  // 步骤 2: 设置入口点
+  graph.addEdge(START, 'flavor_profile');
+
+  // 步骤 3: 添加条件边 - 从 flavor_profile 到 cocktail_pairing 或 END
+  graph.addConditionalEdges('flavor_profile', shouldContinueToCocktailPairing, {
+    cocktail_pairing: 'cocktail_pairing',
+    [END]: END,
+  });
+
+  // 步骤 4: 鸡尾酒搭配完成后结束流程（成功或失败都由服务层处理）
+  graph.addEdge('cocktail_pairing', END);
+
+  // 步骤 5: 编译图
+  const compiledGraph = graph.compile();
+
+  console.log('✅ 配餐调酒 LangGraph 图结构构建完成');
+  console.log('📊 图结构：START → flavor_profile → [条件判断] → cocktail_pairing → END');
+
+  return compiledGraph;
+}
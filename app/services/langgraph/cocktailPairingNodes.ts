@@ -0,0 +1,253 @@
+/**
+ * 配餐调酒 LangGraph 节点实现
+ *
+ * 本文件实现了"根据菜系/菜品原料推荐鸡尾酒"流程的两个节点：
+ * 1. 风味分析节点 (flavorProfileNode)
+ * 2. 鸡尾酒搭配节点 (cocktailPairingNode)
+ */
+
+import { randomUUID } from 'crypto';
+import { getLLMProvider } from '../llm/llmProvider';
+import { generateStructuredOutput } from '../structuredOutput';
+import {
+  CocktailPairingOutputSchema,
+  FlavorProfileOutputSchema,
+  type CocktailPairingOutput,
+} from '../recommendationSchemas';
+import type { CocktailPairingState } from './cocktailPairingState';
+import { normalizeBeveragesWithReasons } from './foodPairingNodes';
+import type {
+  CuisineFlavorProfile,
+  CocktailPairingRecommendation,
+} from '../../types/foodPairing';
+
+/**
+ * 节点 1: 风味分析节点
+ * 根据菜系和菜品原料，分析待搭配菜肴的风味特征
+ */
+export async function flavorProfileNode(
+  state: CocktailPairingState
+): Promise<Partial<CocktailPairingState>> {
+  console.log('👅 开始执行风味分析节点...');
+  const startTime = Date.now();
+
+  try {
+    const { cuisine, ingredients } = state.userInput;
+
+    const output = await generateStructuredOutput({
+      task: 'flavor_profile',
+      messages: [
+        {
+          role: 'system',
+          content:
+            '你是一个资深的美食评论家，擅长分析不同菜系和食材的风味特征，并给出配酒方向。',
+        },
+        {
+          role: 'user',
+          content: buildFlavorProfilePrompt(cuisine, ingredients),
+        },
+      ],
+      schema: FlavorProfileOutputSchema,
+      label: '风味分析',
+      temperature: 0.5,
+      maxTokens: 800,
+    });
+
+    const flavorProfile: CuisineFlavorProfile = {
+      id: randomUUID(),
+      cuisine: output.cuisine || cuisine || '通用',
+      ingredients,
+      flavors: output.flavors,
+      intensity: output.intensity,
+      summary: output.summary,
+    };
+
+    const executionTime = Date.now() - startTime;
+    console.log(`✅ 风味分析完成（${flavorProfile.flavors.join('、')}），耗时 ${executionTime}ms`);
+
+    return {
+      flavorProfile,
+      metadata: {
+        timestamp: state.metadata?.timestamp || new Date().toISOString(),
+        executionTime: (state.metadata?.executionTime || 0) + executionTime,
+        model: getLLMProvider().model,
+      },
+    };
+  } catch (error) {
+    console.error('❌ 风味分析节点执行失败:', error);
+    return {
+      error: (error as Error)?.message || '风味分析失败，请检查输入参数和 LLM 配置',
+      flavorProfile: null,
+    };
+  }
+}
+
+/**
+ * 节点 2: 鸡尾酒搭配节点
+ * 根据风味画像推荐与之搭配的鸡尾酒，并给出搭配理由
+ */
+export async function cocktailPairingNode(
+  state: CocktailPairingState
+): Promise<Partial<CocktailPairingState>> {
+  console.log('🍸 开始执行鸡尾酒搭配节点...');
+  const startTime = Date.now();
+
+  try {
+    const flavorProfile = state.flavorProfile as CuisineFlavorProfile | null;
+    if (!flavorProfile) {
+      throw new Error('缺少风味分析结果，无法进行鸡尾酒搭配');
+    }
+
+    const output = await generateStructuredOutput({
+      task: 'cocktail_pairing',
+      messages: [
+        {
+          role: 'system',
+          content:
+            '你是一个专业的调酒师和美食搭配顾问，擅长根据菜系风味推荐合适的鸡尾酒。请提供完整的鸡尾酒配方和详细的搭配理由。',
+        },
+        {
+          role: 'user',
+          content: buildCocktailPairingPrompt(flavorProfile),
+        },
+      ],
+      schema: CocktailPairingOutputSchema,
+      label: '鸡尾酒搭配',
+      temperature: 0.7,
+      maxTokens: 2500,
+    });
+
+    const pairingOutput = toCocktailPairingRecommendation(output, flavorProfile);
+
+    const executionTime = Date.now() - startTime;
+    console.log(
+      `✅ 鸡尾酒搭配完成，生成了 ${pairingOutput.recommendations.length} 款鸡尾酒，耗时 ${executionTime}ms`
+    );
+
+    return {
+      pairingOutput,
+      metadata: {
+        timestamp: state.metadata?.timestamp || new Date().toISOString(),
+        executionTime: (state.metadata?.executionTime || 0) + executionTime,
+        model: getLLMProvider().model,
+      },
+    };
+  } catch (error) {
+    console.error('❌ 鸡尾酒搭配节点执行失败:', error);
+    return {
+      error: (error as Error)?.message || '鸡尾酒搭配失败，请检查输入参数和 LLM 配置',
+      pairingOutput: null,
+    };
+  }
+}
+
+/**
+ * 构建风味分析提示词
+ */
+function buildFlavorProfilePrompt(
+  cuisine: string | null | undefined,
+  ingredients: string[]
+): string {
+  const cuisinePart = cuisine ? `菜系：${cuisine}` : '菜系：未指定，请根据原料推断';
+  const ingredientsPart =
+    ingredients.length > 0
+      ? `\n菜品原料：${ingredients.join('、')}`
+      : '\n菜品原料：未指定，请根据菜系的典型菜品分析';
+
+  return `请分析以下菜肴的风味特征，为后续配酒提供依据：
+
+${cuisinePart}${ingredientsPart}
+
+请返回以下 JSON 格式：
+{
+  "cuisine": "菜系名称",
+  "flavors": ["主要风味1", "主要风味2", ...],
+  "intensity": 1-5,
+  "summary": "风味特征和配酒方向的简要说明"
+}
+
+请确保：
+1. 风味强度：1=清淡，3=适中，5=浓烈
+2. 只返回有效的JSON对象，不要包含其他内容`;
+}
+
+/**
+ * 构建鸡尾酒搭配提示词
+ */
+function buildCocktailPairingPrompt(profile: CuisineFlavorProfile): string {
+  const ingredientsPart =
+    profile.ingredients.length > 0
+      ? `\n菜品原料：${profile.ingredients.join('、')}`
+      : '';
+
+  return `基于以下菜肴风味画像，推荐3-5款适合搭配的鸡尾酒：
+
+菜系：${profile.cuisine}${ingredientsPart}
+主要风味：${profile.flavors.join('、')}
+风味强度：${profile.intensity}/5
+风味说明：${profile.summary}
+
+请返回以下 JSON 格式：
+{
+  "recommendations": [
+    {
+      "id": "唯一标识符",
+      "name": "鸡尾酒名称",
+      "description": "简短描述",
+      "ingredients": ["原料1 用量", "原料2 用量", ...],
+      "steps": ["步骤1", "步骤2", ...],
+      "category": "分类",
+      "glassType": "杯型",
+      "technique": "调制技巧",
+      "garnish": "装饰",
+      "difficulty": 1-5,
+      "estimatedTime": 分钟数
+    }
+  ],
+  "pairingReasons": [
+    {
+      "id": "唯一标识符",
+      "beverageId": "鸡尾酒ID",
+      "reason": "详细的搭配理由",
+      "pairingType": "搭配类型（如：互补、对比、平衡）",
+      "score": 1-10
+    }
+  ],
+  "overallSuggestion": "整体搭配建议和说明"
+}
+
+请确保：
+1. 每款鸡尾酒都有对应的搭配理由
+2. 搭配理由要结合菜肴的风味特征说明
+3. 只返回有效的JSON对象，不要包含其他内容`;
+}
+
+/**
+ * 将鸡尾酒搭配节点的输出组装为推荐结果
+ */
+function toCocktailPairingRecommendation(
+  output: CocktailPairingOutput,
+  flavorProfile: CuisineFlavorProfile
+): CocktailPairingRecommendation {
+  const { beverages: recommendations, pairingReasons: reasons } =
+    normalizeBeveragesWithReasons(output.recommendations, output.pairingReasons);
+
+  // 搭配理由统一关联到风味画像
+  const pairingReasons = reasons.map((reason) => ({
+    ...reason,
+    dishId: flavorProfile.id,
+  }));
+
+  return {
+    flavorProfile,
+    recommendations,
+    pairingReasons,
+    overallSuggestion: output.overallSuggestion || '请根据个人口味选择合适的鸡尾酒。',
+    metadata: {
+      timestamp: new Date().toISOString(),
+      model: getLLMProvider().model,
+      beverageCount: recommendations.length,
+      pairingCount: pairingReasons.length,
+    },
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * 配餐调酒 LangGraph 状态模式定义
+ *
+ * 本文件定义了"根据菜系/菜品原料推荐鸡尾酒"流程的 LangGraph 状态结构
+ * 使用 Zod 进行状态验证和类型安全
+ */
+
+import { z } from 'zod';
+
+/**
+ * 用户输入状态 Schema
+ * 菜系和菜品原料至少需要提供一项
+ */
+const CocktailPairingUserInputSchema = z
+  .object({
+    /** 菜系类型，可选 */
+    cuisine: z.string().nullable().optional(),
+    /** 菜品原料列表 */
+    ingredients: z.array(z.string()),
+  })
+  .refine(
+    (input) => Boolean(input.cuisine?.trim()) || input.ingredients.length > 0,
+    { message: '菜系和菜品原料至少需要提供一项' }
+  );
+
+/**
+ * 元数据状态 Schema
+ */
+const MetadataSchema = z.object({
+  /** 时间戳 */
+  timestamp: z.string(),
+  /** 执行时间（毫秒） */
+  executionTime: z.number().optional(),
+  /** 使用的模型 */
+  model: z.string().optional(),
+}).optional();
+
+/**
+ * 配餐调酒 LangGraph 状态 Schema
+ */
+export const CocktailPairingStateSchema = z.object({
+  /** 用户输入 */
+  userInput: CocktailPairingUserInputSchema,
+  /** 风味分析节点的输出（CuisineFlavorProfile） */
+  flavorProfile: z.any().nullable().optional(),
+  /** 鸡尾酒搭配节点的输出（CocktailPairingRecommendation） */
+  pairingOutput: z.any().nullable().optional(),
+  /** 错误信息 */
+  error: z.string().nullable().optional(),
+  /** 元数据 */
+  metadata: MetadataSchema,
+});
+
+/**
+ * 配餐调酒 LangGraph 状态类型
+ */
+export type CocktailPairingState = z.infer<typeof CocktailPairingStateSchema>;
+
+/**
+ * 状态初始值
+ */
+export function createInitialCocktailPairingState(input: {
+  cuisine?: string | null;
+  ingredients?: string[];
+}): CocktailPairingState {
+  return {
+    userInput: {
+      cuisine: input.cuisine ?? null,
+      ingredients: input.ingredients ?? [],
+    },
+    flavorProfile: null,
+    pairingOutput: null,
+    error: null,
+    metadata: {
+      timestamp: new Date().toISOString(),
+      executionTime: undefined,
+      model: undefined,
+    },
+  };
+}
+
+/**
+ * 状态验证函数
+ */
+export function validateCocktailPairingState(state: unknown): CocktailPairingState {
+  return CocktailPairingStateSchema.parse(state);
+}
@@ -4,14 +4,25 @@
  * 本文件定义了节点间的数据流转路径和决策点
  */
 
-import { StateGraph, END } from '@langchain/langgraph';
+import { StateGraph, END, Send, type BaseCheckpointSaver } from '@langchain/langgraph';
+import { env } from '../../lib/env';
 import type { FoodPairingState } from './foodPairingState';
 import { FoodPairingStateSchema } from './foodPairingState';
-import { dishRecommenderNode, beveragePairingNode } from './foodPairingNodes';
+import {
+  dishRecommenderNode,
+  dishCriticNode,
+  dishSelectionNode,
+  knowledgeRetrievalNode,
+  beveragePairingNode,
+  pairingMergerNode,
+  beverageCriticNode,
+} from './foodPairingNodes';
+import type { DishRecommendation } from '../../types/foodPairing';
 
 /**
  * 决策点 1: 验证菜品推荐结果
- * 在 dishRecommenderNode 后检查是否有有效的推荐结果
+ * 在 dishCriticNode 后检查是否有有效的推荐结果；评审要求重新生成时返回 'dish_recommender'，
+ * 需要用户确认菜品时返回 'await_user'，进入菜品确认节点
  * 
  * @param state 当前状态
  * @returns 下一个节点的名称
@@ -25,6 +36,11 @@ export function shouldContinueToBeveragePairing(
     return END;
   }
 
+  // 评审未通过，带上反馈重新生成
+  if (state.revisionRequest?.node === 'dish_recommender') {
+    return 'dish_recommender';
+  }
+
   // 检查是否有有效的菜品推荐
   const dishes = state.agent1Output;
   if (!dishes || !Array.isArray(dishes) || dishes.length === 0) {
@@ -32,18 +48,65 @@ export function shouldContinueToBeveragePairing(
     return END;
   }
 
-  console.log(`✅ 菜品推荐验证通过，共 ${dishes.length} 个推荐，继续到酒品搭配节点`);
-  return 'beverage_pairing';
+  if (state.dishReview?.status === 'pending') {
+    console.log(`⏸️ 菜品推荐验证通过，共 ${dishes.length} 个推荐，等待用户确认`);
+    return 'await_user';
+  }
+
+  console.log(`✅ 菜品推荐验证通过，共 ${dishes.length} 个推荐，继续到知识库检索节点`);
+  return 'knowledge_retrieval';
+}
+
+/**
+ * 决策点 2: 处理用户的菜品确认结果
+ * 在 dishSelectionNode 后检查用户是否要求替换菜品以及是否还有保留的菜品
+ *
+ * @param state 当前状态
+ * @returns 下一个节点的名称
+ */
+export function shouldContinueAfterDishSelection(state: FoodPairingState): string {
+  if (state.dishReview?.replacements) {
+    console.log(`🔁 用户要求替换 ${state.dishReview.replacements.count} 个菜品，返回菜品推荐节点`);
+    return 'dish_recommender';
+  }
+
+  const dishes = state.agent1Output;
+  if (!dishes || !Array.isArray(dishes) || dishes.length === 0) {
+    console.log('⚠️ 用户没有保留任何菜品，终止流程');
+    return END;
+  }
+
+  console.log(`✅ 用户确认了 ${dishes.length} 个菜品，继续到知识库检索节点`);
+  return 'knowledge_retrieval';
 }
 
 /**
- * 决策点 2: 验证酒品搭配结果
- * 在 beveragePairingNode 后检查搭配是否成功
+ * 分发酒品搭配子任务
+ * 在 knowledgeRetrievalNode 后（以及酒品评审要求重新生成时）为每个菜品分发一个 beverage_pairing 子任务，
+ * 子任务的输入为当前状态加上该菜品（pairingDish），同时执行的子任务数量由 PAIRING_MAX_CONCURRENCY 限制
+ *
+ * @param state 当前状态
+ * @returns 每个菜品一个 Send；没有菜品时返回 END
+ */
+export function fanOutBeveragePairing(state: FoodPairingState): Send[] | string {
+  const dishes = (state.agent1Output as DishRecommendation[] | null) ?? [];
+  if (dishes.length === 0) {
+    console.log('⚠️ 没有需要搭配的菜品，终止流程');
+    return END;
+  }
+
+  console.log(`🔀 为 ${dishes.length} 个菜品分发酒品搭配子任务（最多同时执行 ${env.PAIRING_MAX_CONCURRENCY} 个）`);
+  return dishes.map((dish) => new Send('beverage_pairing', { ...state, pairingDish: dish }));
+}
+
+/**
+ * 决策点 3: 验证酒品搭配结果
+ * 在 beverageCriticNode 后检查搭配是否成功；评审要求重新生成时重新分发所有菜品的酒品搭配子任务
  * 
  * @param state 当前状态
- * @returns 下一个节点的名称（始终返回 END，但可以记录状态）
+ * @returns 下一个节点的名称，或重新生成时的子任务
  */
-export function shouldFinishPairing(state: FoodPairingState): string {
+export function shouldFinishPairing(state: FoodPairingState): Send[] | string {
   // 检查是否有错误
   if (state.error) {
     console.log('⚠️ 检测到错误，但返回部分结果:', state.error);
@@ -51,6 +114,11 @@ export function shouldFinishPairing(state: FoodPairingState): string {
     return END;
   }
 
+  // 评审未通过，带上反馈重新生成
+  if (state.revisionRequest?.node === 'beverage_pairing') {
+    return fanOutBeveragePairing(state);
+  }
+
   // 检查是否有有效的搭配结果
   const pairingResult = state.agent2Output;
   if (!pairingResult) {
@@ -66,64 +134,100 @@ export function shouldFinishPairing(state: FoodPairingState): string {
  * 构建 LangGraph 图结构
  * 
  * 图结构：
- * START → dish_recommender → [条件判断] → beverage_pairing → [条件判断] → END
+ * START → dish_recommender → dish_critic → [条件判断] → knowledge_retrieval ⇉ beverage_pairing × N → pairing_merger → beverage_critic → [条件判断] → END
+ *                                                 ↓ await_user          ↑
+ *                                          dish_selection → [条件判断] ─┘（要求替换菜品时回到 dish_recommender）
+ * knowledge_retrieval 之后为每个菜品分发一个 beverage_pairing 子任务（Send）并发执行，全部完成后由 pairing_merger 汇总
+ * 评审未通过时，dish_critic 回到 dish_recommender、beverage_critic 重新分发 beverage_pairing 子任务
  * 
  * 步骤：
  * 1. 创建 StateGraph 实例
- * 2. 添加节点：dish_recommender 和 beverage_pairing
+ * 2. 添加节点：dish_recommender、dish_critic、dish_selection、knowledge_retrieval、beverage_pairing、pairing_merger 和 beverage_critic
  * 3. 设置入口点：从 START 到 dish_recommender
- * 4. 添加条件边：从 dish_recommender 到 beverage_pairing 或 END
- * 5. 添加条件边：从 beverage_pairing 到 END
- * 6. 编译图
+ * 4. 添加边：从 dish_recommender 到 dish_critic；添加条件边：从 dish_critic 到 dish_recommender、knowledge_retrieval、dish_selection 或 END
+ * 5. 添加条件边：从 dish_selection 到 dish_recommender、knowledge_retrieval 或 END
+ * 6. 添加条件边：从 knowledge_retrieval 为每个菜品分发 beverage_pairing 子任务
+ * 7. 添加边：从 beverage_pairing 到 pairing_merger，再到 beverage_critic；添加条件边：从 beverage_critic 重新分发 beverage_pairing 子任务或到 END
+ * 8. 编译图，限制并发执行的子任务数量
  * 
+ * @param checkpointer 检查点存储，提供时每个节点执行完都会按 thread_id 保存状态，
+ *   执行失败或中断后可以从保存的状态恢复，而不必重新执行已完成的节点
  * @returns 编译后的图实例
  */
-export function buildFoodPairingGraph() {
+export function buildFoodPairingGraph(checkpointer?: BaseCheckpointSaver) {
   console.log('🔧 开始构建 LangGraph 图结构...');
 
   // 步骤 1: 创建状态图
   // LangGraph 使用 StateGraph 来管理状态流转
   // 使用 Zod Schema 定义状态结构
-  const graph = new StateGraph(FoodPairingStateSchema);
-
   // 步骤 2: 添加节点
-  // 节点 1: 菜品推荐节点
-  graph.addNode('dish_recommender', dishRecommenderNode);
-  // 节点 2: 酒品搭配节点
-  graph.addNode('beverage_pairing', beveragePairingNode);
+  // 链式调用 addNode，让后续的边定义能够获得节点名称的类型检查
+  const graph = new StateGraph(FoodPairingStateSchema)
+    // 节点 1: 菜品推荐节点
+    .addNode('dish_recommender', dishRecommenderNode)
+    // 节点 2: 菜品评审节点
+    .addNode('dish_critic', dishCriticNode)
+    // 节点 3: 菜品确认节点（中断等待用户确认）
+    .addNode('dish_selection', dishSelectionNode)
+    // 节点 4: 知识库检索节点
+    .addNode('knowledge_retrieval', knowledgeRetrievalNode)
+    // 节点 5: 酒品搭配节点（每个菜品一个子任务）
+    .addNode('beverage_pairing', beveragePairingNode)
+    // 节点 6: 搭配汇总节点
+    .addNode('pairing_merger', pairingMergerNode)
+    // 节点 7: 酒品评审节点
+    .addNode('beverage_critic', beverageCriticNode);
 
   // 步骤 3: 设置入口点
   // 从 START 节点进入，首先执行 dish_recommender 节点
   graph.setEntryPoint('dish_recommender');
 
-  // 步骤 4: 添加条件边 - 从 dish_recommender 到下一个节点
-  // 根据 shouldContinueToBeveragePairing 的返回值决定路由
+  // 步骤 4: 添加边和条件边 - 菜品推荐后先评审，再根据 shouldContinueToBeveragePairing 的返回值决定路由
+  graph.addEdge('dish_recommender', 'dish_critic');
   graph.addConditionalEdges(
-    'dish_recommender', // 源节点
+    'dish_critic', // 源节点
     shouldContinueToBeveragePairing, // 路由函数
     {
       // 路由映射：返回值 -> 目标节点
-      beverage_pairing: 'beverage_pairing', // 如果返回 'beverage_pairing'，继续到酒品搭配节点
+      dish_recommender: 'dish_recommender', // 如果返回 'dish_recommender'，评审未通过，重新生成菜品
+      knowledge_retrieval: 'knowledge_retrieval', // 如果返回 'knowledge_retrieval'，继续到知识库检索节点
+      await_user: 'dish_selection', // 如果返回 'await_user'，中断等待用户确认菜品
       [END]: END, // 如果返回 END，直接结束流程
     }
   );
 
-  // 步骤 5: 添加条件边 - 从 beverage_pairing 到 END
-  // 无论成功或失败，都结束流程
+  // 步骤 5: 添加条件边 - 用户确认菜品后继续搭配，或回到菜品推荐生成替换菜品
   graph.addConditionalEdges(
-    'beverage_pairing', // 源节点
-    shouldFinishPairing, // 路由函数
+    'dish_selection',
+    shouldContinueAfterDishSelection,
     {
-      [END]: END, // 始终返回 END
+      dish_recommender: 'dish_recommender',
+      knowledge_retrieval: 'knowledge_retrieval',
+      [END]: END,
     }
   );
 
-  // 步骤 6: 编译图
-  // 编译后的图可以执行，接收初始状态并返回最终状态
-  const compiledGraph = graph.compile();
+  // 步骤 6: 添加条件边 - 知识库检索完成后为每个菜品分发酒品搭配子任务（检索失败时也继续，只是不参考知识库）
+  graph.addConditionalEdges('knowledge_retrieval', fanOutBeveragePairing, ['beverage_pairing', END]);
+
+  // 步骤 7: 添加边和条件边 - 所有子任务完成后汇总，再评审；评审未通过时重新分发子任务，否则结束流程（失败时也结束）
+  graph.addEdge('beverage_pairing', 'pairing_merger');
+  graph.addEdge('pairing_merger', 'beverage_critic');
+  graph.addConditionalEdges(
+    'beverage_critic', // 源节点
+    shouldFinishPairing, // 路由函数
+    ['beverage_pairing', END]
+  );
+
+  // 步骤 8: 编译图
+  // 编译后的图可以执行，接收初始状态并返回最终状态；使用 checkpointer 时执行需要提供 thread_id
+  // maxConcurrency 限制同一步中并发执行的任务数，即同时进行的酒品搭配子任务数
+  const compiledGraph = graph
+    .compile({ checkpointer })
+    .withConfig({ maxConcurrency: env.PAIRING_MAX_CONCURRENCY });
 
   console.log('✅ LangGraph 图结构构建完成');
-  console.log('📊 图结构：START → dish_recommender → [条件判断] → beverage_pairing → [条件判断] → END');
+  console.log('📊 图结构：START → dish_recommender → dish_critic → [条件判断] → (dish_selection →) knowledge_retrieval ⇉ beverage_pairing × N → pairing_merger → beverage_critic → [条件判断] → END');
 
   return compiledGraph;
 }
@@ -133,16 +237,36 @@ export function buildFoodPairingGraph() {
  * 
  * 节点流程：
  * 1. START → dish_recommender (菜品推荐节点)
- *    - 输入：用户输入的菜系和食品原料
+ *    - 输入：用户输入的菜系和食品原料（重新生成时附带评审反馈）
  *    - 输出：菜品推荐列表
- *    - 决策：如果推荐为空或出错，直接结束；否则继续
  * 
- * 2. dish_recommender → beverage_pairing (酒品搭配节点)
+ * 2. dish_recommender → dish_critic (菜品评审节点)
+ *    - 检查菜品是否使用了用户提供的原料，评审记录写入 metadata.critiques
+ *    - 决策：如果推荐为空或出错，直接结束；评审未通过且未达到次数上限时回到 dish_recommender；
+ *      需要用户确认时进入 dish_selection；否则继续
+ * 
+ * 3. dish_critic → dish_selection (菜品确认节点，仅 reviewDishes 为 true 时)
+ *    - 中断执行，等待用户保留、拒绝或修改菜品，并可要求替换菜品
+ *    - 决策：要求替换时回到 dish_recommender 生成替换菜品后再次确认；没有保留的菜品时结束；否则继续
+ * 
+ * 4. dish_critic / dish_selection → knowledge_retrieval (知识库检索节点)
  *    - 输入：Agent 1 的菜品推荐 + 用户输入的酒原料
- *    - 输出：完整的搭配推荐方案
- *    - 决策：无论成功或失败，都结束流程
+ *    - 输出：PDF 知识库中相关的鸡尾酒配方片段（含来源文件、页码）
+ *    - 决策：无论是否命中，都继续到酒品搭配节点
+ * 
+ * 5. knowledge_retrieval ⇉ beverage_pairing (酒品搭配节点，每个菜品一个子任务，最多 PAIRING_MAX_CONCURRENCY 个并发)
+ *    - 输入：单个菜品 + 知识库片段 + 用户输入的酒原料（重新生成时附带评审反馈）
+ *    - 输出：该菜品的酒品和搭配理由，按菜品 ID 写入 dishPairings，酒品附带引用的知识库来源
+ * 
+ * 6. beverage_pairing → pairing_merger (搭配汇总节点，所有子任务完成后执行一次)
+ *    - 合并各菜品的搭配（同名酒品只保留一个），生成整体搭配建议
+ *    - 输出：完整的搭配推荐方案；所有子任务都失败时记录错误
+ * 
+ * 7. pairing_merger → beverage_critic (酒品评审节点)
+ *    - 检查酒原料覆盖率、搭配理由引用的 beverageId 是否存在、每个菜品是否都有搭配
+ *    - 决策：评审未通过且未达到次数上限时重新分发 beverage_pairing 子任务；否则结束流程（失败时也结束）
  * 
- * 3. beverage_pairing → END
+ * 8. beverage_critic → END
  *    - 返回最终结果（成功或部分结果）
  */
 
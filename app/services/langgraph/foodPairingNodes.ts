@@ -1,51 +1,113 @@
 /**
  * LangGraph 节点实现
  * 
- * 本文件实现了菜品与酒品搭配推荐系统的两个核心节点：
+ * 本文件实现了菜品与酒品搭配推荐系统的节点：
  * 1. 菜品推荐节点 (dishRecommenderNode)
- * 2. 酒品搭配节点 (beveragePairingNode)
+ * 2. 菜品评审节点 (dishCriticNode)
+ * 3. 菜品确认节点 (dishSelectionNode)
+ * 4. 知识库检索节点 (knowledgeRetrievalNode)
+ * 5. 酒品搭配节点 (beveragePairingNode)，每个菜品一个子任务并发执行
+ * 6. 搭配汇总节点 (pairingMergerNode)
+ * 7. 酒品评审节点 (beverageCriticNode)
  */
 
 import { randomUUID } from 'crypto';
-import OpenAI from 'openai';
+import { interrupt, type LangGraphRunnableConfig } from '@langchain/langgraph';
 import { env } from '../../lib/env';
-import type { FoodPairingState } from './foodPairingState';
+import { getLLMProvider } from '../llm/llmProvider';
+import { generateStructuredOutput } from '../structuredOutput';
+import { formatKnowledgeContext, resolveCitations } from '../knowledgeContext';
+import { retrieveKnowledgeContext } from '../ragService';
+import { critiqueDishes, critiquePairing, type Critique } from '../pairingCritic';
+import { ALLERGEN_LABELS, DIETARY_RESTRICTION_LABELS, resolveDietaryPreferences } from '../dietaryRules';
+import {
+  BeveragePairingOutputSchema,
+  DishRecommendationListSchema,
+  PairingSummaryOutputSchema,
+  type BeveragePairingOutput,
+  type BeverageRecommendationOutput,
+  type DishRecommendationOutput,
+  type PairingReasonOutput,
+} from '../recommendationSchemas';
+import type { DishPairing, FoodPairingState } from './foodPairingState';
 import type {
   DishRecommendation,
+  DishSelection,
+  DishSelectionRequest,
   BeverageRecommendation,
   PairingReason,
   CompletePairingRecommendation,
+  DietaryPreferences,
 } from '../../types/foodPairing';
+import type { KnowledgeContext } from '../../types';
 
 /**
- * LLM 客户端实例
+ * 每个菜品检索的知识库片段数量
  */
-const openai = new OpenAI({
-  apiKey: env.OPENAI_API_KEY,
-  baseURL: env.OPENAI_BASE_URL,
-});
+const KNOWLEDGE_RESULTS_PER_DISH = 3;
 
-const LLM_MODEL = env.LLM_MODEL || 'gpt-4';
+/**
+ * 写入酒品搭配提示词的知识库片段上限
+ */
+const MAX_KNOWLEDGE_CONTEXT = 6;
+
+/**
+ * 整体搭配建议生成失败时的默认内容
+ */
+const DEFAULT_OVERALL_SUGGESTION = '请根据个人口味选择合适的搭配方案。';
+
+/**
+ * 评审未通过时每个生成节点最多重新生成的次数
+ */
+const MAX_CRITIC_REVISIONS = env.PAIRING_CRITIC_MAX_REVISIONS;
+
+/**
+ * 替换菜品的生成要求
+ */
+interface ReplacementRequest {
+  count: number;
+  hint?: string | null;
+  /** 不能再推荐的菜品名称（保留的和被拒绝的） */
+  exclude: string[];
+}
 
 /**
  * 节点 1: 菜品推荐节点
  * 根据用户输入的菜系和原料，生成菜品推荐列表
+ *
+ * 用户确认菜品时要求了替换菜品（dishReview.replacements）时，只生成要求数量的新菜品并追加到保留的菜品之后，
+ * 然后再次等待用户确认；菜品评审未通过时带上评审反馈重新生成
  */
 export async function dishRecommenderNode(
   state: FoodPairingState
 ): Promise<Partial<FoodPairingState>> {
-  console.log('🍽️ 开始执行菜品推荐节点...');
+  const replacements = state.dishReview?.replacements ?? null;
+  const keptDishes = replacements ? (state.agent1Output as DishRecommendation[] | null) ?? [] : [];
+  const feedback = state.revisionRequest?.node === 'dish_recommender' ? state.revisionRequest.feedback : undefined;
+  console.log(replacements ? `🍽️ 开始执行菜品推荐节点（生成 ${replacements.count} 个替换菜品）...` : '🍽️ 开始执行菜品推荐节点...');
   const startTime = Date.now();
 
   try {
     const { cuisine, foodIngredients } = state.userInput;
 
     // 构建提示词
-    const prompt = buildDishRecommendationPrompt(cuisine, foodIngredients);
+    const prompt = buildDishRecommendationPrompt(
+      cuisine,
+      foodIngredients,
+      resolveDietaryPreferences(state.userInput),
+      replacements
+        ? {
+          count: replacements.count,
+          hint: replacements.hint,
+          exclude: [...keptDishes.map((dish) => dish.name), ...(state.dishReview?.rejectedDishes ?? [])],
+        }
+        : undefined,
+      feedback
+    );
 
-    // 调用 LLM 生成推荐
-    const response = await openai.chat.completions.create({
-      model: LLM_MODEL,
+    // 调用 LLM 生成推荐（JSON 模式 + Schema 校验）
+    const output = await generateStructuredOutput({
+      task: 'dish_recommendation',
       messages: [
         {
           role: 'system',
@@ -57,69 +119,229 @@ export async function dishRecommenderNode(
           content: prompt,
         },
       ],
+      schema: DishRecommendationListSchema,
+      label: '菜品推荐',
       temperature: 0.7,
-      max_tokens: 2000,
+      maxTokens: 2000,
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('LLM 返回内容为空');
-    }
-
-    // 解析推荐结果
-    const dishes = parseDishRecommendations(content, cuisine || '通用');
-
-    if (dishes.length === 0) {
-      throw new Error('未能生成有效的菜品推荐');
-    }
+    const dishes = output.dishes
+      .slice(0, replacements ? replacements.count : undefined)
+      .map((dish) => normalizeDish(dish, cuisine || '通用'));
 
     const executionTime = Date.now() - startTime;
     console.log(`✅ 菜品推荐完成，生成了 ${dishes.length} 个推荐，耗时 ${executionTime}ms`);
 
     // 更新状态
     return {
-      agent1Output: dishes,
+      agent1Output: [...keptDishes, ...dishes],
+      ...(state.dishReview
+        ? { dishReview: { ...state.dishReview, status: 'pending' as const, replacements: null } }
+        : {}),
+      ...(feedback ? { revisionRequest: null } : {}),
       metadata: {
         ...state.metadata,
         executionTime: (state.metadata?.executionTime || 0) + executionTime,
-        model: LLM_MODEL,
+        model: getLLMProvider().model,
       },
     };
   } catch (error: any) {
     console.error('❌ 菜品推荐节点执行失败:', error);
     const errorMessage =
       error?.message || '菜品推荐失败，请检查输入参数和 LLM 配置';
+    // 生成替换菜品失败时保留用户已确认的菜品，恢复执行时只需重新生成替换菜品
     return {
       error: errorMessage,
-      agent1Output: null,
+      failedNode: 'dish_recommender',
+      ...(replacements ? {} : { agent1Output: null }),
     };
   }
 }
 
 /**
- * 节点 2: 酒品搭配节点
- * 根据 Agent 1 输出的菜品推荐和用户输入的酒原料，生成酒品搭配建议
+ * 节点 2: 菜品评审节点
+ * 检查菜品是否使用了用户提供的原料、是否遵守饮食限制和过敏原排除，
+ * 未通过时要求菜品推荐节点带上反馈重新生成（最多 MAX_CRITIC_REVISIONS 次）。
+ * 不再重新生成时，移除仍然违反饮食要求的菜品
+ *
+ * 用户确认菜品后生成的替换菜品不要求重新生成（会覆盖用户已确认的菜品），只移除违反饮食要求的菜品
  */
-export async function beveragePairingNode(
+export function dishCriticNode(state: FoodPairingState): Partial<FoodPairingState> {
+  const dishes = (state.agent1Output as DishRecommendation[] | null) ?? [];
+  if (state.error || dishes.length === 0) {
+    return {};
+  }
+
+  const dietary = resolveDietaryPreferences(state.userInput);
+  const critique = critiqueDishes(dishes, state.userInput.foodIngredients, dietary);
+  const allowRevision = !(state.dishReview && state.dishReview.round > 0);
+  const update = recordCritique(state, 'dish_recommender', critique, allowRevision);
+
+  if (!update.revisionRequest && critique.violatingIds.length > 0) {
+    const violating = new Set(critique.violatingIds);
+    const remaining = dishes.filter((dish) => !violating.has(dish.id));
+    console.warn(`⚠️ 移除 ${violating.size} 个不符合饮食要求的菜品`);
+    update.agent1Output = remaining;
+    if (remaining.length === 0) {
+      update.error = '没有符合饮食要求的菜品推荐，请调整原料或饮食限制后重试';
+      update.failedNode = 'dish_recommender';
+    }
+  }
+
+  return update;
+}
+
+/**
+ * 节点 3: 菜品确认节点
+ * 中断图的执行，等待用户确认菜品（保留、拒绝或修改，并可要求替换菜品），
+ * 用户提交后从这里继续，之后的节点只使用用户选中的菜品
+ *
+ * 中断恢复时节点会从头重新执行，interrupt 之前不能有副作用
+ */
+export function dishSelectionNode(state: FoodPairingState): Partial<FoodPairingState> {
+  const dishes = (state.agent1Output as DishRecommendation[] | null) ?? [];
+  const review = state.dishReview ?? { status: 'pending' as const, round: 0, rejectedDishes: [], replacements: null };
+
+  const selection = interrupt<DishSelectionRequest, DishSelection>({
+    type: 'dish_selection',
+    round: review.round + 1,
+    dishes,
+  });
+
+  const { selected, rejected } = applyDishSelection(dishes, selection);
+  const replacements = selection.replacements && selection.replacements.count > 0 ? selection.replacements : null;
+  console.log(
+    `✅ 用户确认菜品：保留 ${selected.length} 个，拒绝 ${rejected.length} 个${replacements ? `，要求替换 ${replacements.count} 个` : ''}`
+  );
+
+  return {
+    agent1Output: selected,
+    dishReview: {
+      status: replacements ? 'pending' : 'confirmed',
+      round: review.round + 1,
+      rejectedDishes: [...review.rejectedDishes, ...rejected],
+      replacements,
+    },
+  };
+}
+
+/**
+ * 按用户的确认结果筛选菜品
+ * 没有出现在 decisions 中的菜品视为保留；修改的菜品保留原 ID
+ *
+ * @returns 保留的菜品和被拒绝的菜品名称
+ */
+export function applyDishSelection(
+  dishes: DishRecommendation[],
+  selection: DishSelection
+): { selected: DishRecommendation[]; rejected: string[] } {
+  const decisions = new Map(selection.decisions.map((decision) => [decision.dishId, decision]));
+  const selected: DishRecommendation[] = [];
+  const rejected: string[] = [];
+
+  for (const dish of dishes) {
+    const decision = decisions.get(dish.id);
+    if (decision?.action === 'reject') {
+      rejected.push(dish.name);
+    } else if (decision?.action === 'edit') {
+      selected.push({ ...dish, ...decision.changes, id: dish.id });
+    } else {
+      selected.push(dish);
+    }
+  }
+
+  return { selected, rejected };
+}
+
+/**
+ * 节点 4: 知识库检索节点
+ * 按推荐菜品和用户输入的酒原料检索 PDF 知识库中的鸡尾酒配方，供酒品搭配节点参考，并清空上一次的酒品搭配结果
+ * 知识库不可用或没有命中时返回空列表，搭配流程照常进行
+ */
+export async function knowledgeRetrievalNode(
   state: FoodPairingState
 ): Promise<Partial<FoodPairingState>> {
-  console.log('🍷 开始执行酒品搭配节点...');
+  console.log('📚 开始执行知识库检索节点...');
   const startTime = Date.now();
 
-  try {
-    const dishes = state.agent1Output as DishRecommendation[] | null;
-    const drinkIngredients = state.userInput.drinkIngredients || [];
+  const dishes = (state.agent1Output as DishRecommendation[] | null) ?? [];
+  const drinkIngredients = state.userInput.drinkIngredients || [];
+  const drinkPart = drinkIngredients.length > 0 ? ` 酒原料: ${drinkIngredients.join('、')}` : '';
+  const topic = resolveDietaryPreferences(state.userInput).nonAlcoholic ? '无酒精鸡尾酒配方' : '鸡尾酒配方';
 
-    if (!dishes || dishes.length === 0) {
-      throw new Error('缺少菜品推荐数据，无法进行酒品搭配');
+  try {
+    // 同一片段可能被多个菜品命中，保留相似度最高的一次
+    const hits = new Map<string, KnowledgeContext>();
+    // 逐个检索：向量库未初始化时第一次检索会触发知识库同步，不能并发
+    for (const dish of dishes) {
+      const query = `${topic} 搭配菜品: ${dish.name}（${dish.cuisine}）${drinkPart}`;
+      for (const item of await retrieveKnowledgeContext(query, KNOWLEDGE_RESULTS_PER_DISH)) {
+        const existing = hits.get(item.chunkId);
+        if (!existing || existing.score < item.score) {
+          hits.set(item.chunkId, item);
+        }
+      }
     }
 
+    const knowledgeContext = Array.from(hits.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_KNOWLEDGE_CONTEXT);
+
+    const executionTime = Date.now() - startTime;
+    console.log(`✅ 知识库检索完成，命中 ${knowledgeContext.length} 个片段，耗时 ${executionTime}ms`);
+
+    return {
+      knowledgeContext,
+      dishPairings: null,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        ...state.metadata,
+        executionTime: (state.metadata?.executionTime || 0) + executionTime,
+      },
+    };
+  } catch (error) {
+    console.warn('⚠️ 知识库检索失败，酒品搭配将不参考知识库:', (error as Error)?.message);
+    return {
+      knowledgeContext: [],
+      dishPairings: null,
+    };
+  }
+}
+
+/**
+ * 节点 5: 酒品搭配节点
+ * 为单个菜品（state.pairingDish）生成酒品搭配，由 fanOutBeveragePairing 为每个菜品分发一个子任务并发执行，
+ * 结果按菜品 ID 写入 dishPairings，再由搭配汇总节点合并；酒品评审未通过时带上评审反馈重新生成。
+ * 子任务并发执行，只能写入 dishPairings，失败时把错误记录在该菜品的结果中，由搭配汇总节点处理
+ *
+ * 以 streamMode 'custom' 执行图时，config.writer 可用，
+ * 节点会以流式方式调用 LLM 并通过 writer 推送增量文本（附带菜品 ID）
+ */
+export async function beveragePairingNode(
+  state: FoodPairingState,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<FoodPairingState>> {
+  const dish = state.pairingDish as DishRecommendation | null | undefined;
+  if (!dish) {
+    throw new Error('酒品搭配子任务缺少菜品，请通过 fanOutBeveragePairing 分发');
+  }
+
+  console.log(`🍷 开始为菜品"${dish.name}"搭配酒品...`);
+  const startTime = Date.now();
+
+  try {
+    const drinkIngredients = state.userInput.drinkIngredients || [];
+    const knowledgeContext = state.knowledgeContext ?? [];
+    const feedback = state.revisionRequest?.node === 'beverage_pairing' ? state.revisionRequest.feedback : undefined;
+    const dietary = resolveDietaryPreferences(state.userInput);
+
     // 构建提示词
-    const prompt = buildBeveragePairingPrompt(dishes, drinkIngredients);
+    const prompt = buildBeveragePairingPrompt(dish, drinkIngredients, knowledgeContext, dietary, feedback);
 
-    // 调用 LLM 生成推荐
-    const response = await openai.chat.completions.create({
-      model: LLM_MODEL,
+    // 调用 LLM 生成推荐（JSON 模式 + Schema 校验），writer 可用时推送增量文本
+    const writer = config?.writer;
+    const output = await generateStructuredOutput({
+      task: 'beverage_pairing',
       messages: [
         {
           role: 'system',
@@ -131,101 +353,298 @@ export async function beveragePairingNode(
           content: prompt,
         },
       ],
+      schema: BeveragePairingOutputSchema,
+      label: `酒品搭配（${dish.name}）`,
       temperature: 0.7,
-      max_tokens: 3000,
+      maxTokens: 1500,
+      onDelta: writer
+        ? (delta, length) => writer({ type: 'partial', node: 'beverage_pairing', dishId: dish.id, delta, length })
+        : undefined,
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('LLM 返回内容为空');
-    }
-
-    // 解析推荐结果
-    const pairingResult = parseBeveragePairing(content, dishes);
+    const { beverages, pairingReasons } = toDishPairing(output, dish, knowledgeContext);
 
     const executionTime = Date.now() - startTime;
     console.log(
-      `✅ 酒品搭配完成，生成了 ${pairingResult.beverages.length} 个酒品推荐，${pairingResult.pairingReasons.length} 个搭配理由，耗时 ${executionTime}ms`
+      `✅ 菜品"${dish.name}"搭配完成，生成了 ${beverages.length} 个酒品推荐，${pairingReasons.length} 个搭配理由，耗时 ${executionTime}ms`
     );
 
-    // 更新状态
     return {
-      agent2Output: pairingResult,
-      metadata: {
-        ...state.metadata,
-        executionTime: (state.metadata?.executionTime || 0) + executionTime,
-        model: LLM_MODEL,
+      dishPairings: {
+        [dish.id]: { dishId: dish.id, beverages, pairingReasons, error: null, executionTime },
       },
     };
   } catch (error: any) {
-    console.error('❌ 酒品搭配节点执行失败:', error);
+    console.error(`❌ 菜品"${dish.name}"的酒品搭配失败:`, error);
     const errorMessage =
       error?.message || '酒品搭配失败，请检查输入参数和 LLM 配置';
+    return {
+      dishPairings: {
+        [dish.id]: { dishId: dish.id, beverages: [], pairingReasons: [], error: errorMessage, executionTime: Date.now() - startTime },
+      },
+    };
+  }
+}
+
+/**
+ * 节点 6: 搭配汇总节点
+ * 把各菜品的酒品搭配合并为完整推荐方案（同名酒品只保留一个），并生成整体搭配建议。
+ * 部分菜品搭配失败时汇总其余菜品，由酒品评审节点要求重新生成；全部失败时记录错误，返回部分结果（仅菜品推荐）
+ */
+export async function pairingMergerNode(
+  state: FoodPairingState,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<FoodPairingState>> {
+  console.log('🧩 开始执行搭配汇总节点...');
+  const startTime = Date.now();
+
+  const dishes = (state.agent1Output as DishRecommendation[] | null) ?? [];
+  const pairings = dishes
+    .map((dish) => state.dishPairings?.[dish.id])
+    .filter((pairing): pairing is DishPairing => Boolean(pairing));
+  const succeeded = pairings.filter((pairing) => !pairing.error);
+  const failed = pairings.filter((pairing) => pairing.error);
+
+  if (succeeded.length === 0) {
+    const errorMessage = failed[0]?.error || '酒品搭配失败，没有生成任何酒品推荐';
+    console.error(`❌ 所有菜品的酒品搭配都失败了: ${errorMessage}`);
     return {
       error: errorMessage,
+      failedNode: 'beverage_pairing',
       agent2Output: null,
     };
   }
+  if (failed.length > 0) {
+    console.warn(`⚠️ ${failed.length} 个菜品的酒品搭配失败，汇总其余 ${succeeded.length} 个菜品的搭配`);
+  }
+
+  const { beverages, pairingReasons } = mergeDishPairings(succeeded);
+  const knowledgeContext = state.knowledgeContext ?? [];
+  const dietary = resolveDietaryPreferences(state.userInput);
+  const overallSuggestion = await generateOverallSuggestion(dishes, beverages, pairingReasons, dietary, config);
+  const pairingResult = toPairingRecommendation(
+    dishes,
+    beverages,
+    pairingReasons,
+    overallSuggestion,
+    knowledgeContext,
+    dietary
+  );
+
+  // 子任务并发执行，酒品搭配的耗时按最慢的子任务计算
+  const executionTime = Math.max(...pairings.map((pairing) => pairing.executionTime)) + (Date.now() - startTime);
+  console.log(
+    `✅ 搭配汇总完成，共 ${pairingResult.beverages.length} 个酒品推荐，${pairingResult.pairingReasons.length} 个搭配理由`
+  );
+
+  return {
+    agent2Output: pairingResult,
+    ...(state.revisionRequest?.node === 'beverage_pairing' ? { revisionRequest: null } : {}),
+    metadata: {
+      ...state.metadata,
+      executionTime: (state.metadata?.executionTime || 0) + executionTime,
+      model: getLLMProvider().model,
+    },
+  };
+}
+
+/**
+ * 节点 7: 酒品评审节点
+ * 检查酒品是否使用了用户提供的酒原料、是否遵守饮食限制和无酒精模式、搭配理由引用的酒品是否存在、
+ * 每个菜品是否都有搭配，未通过时要求酒品搭配节点带上反馈重新生成（最多 MAX_CRITIC_REVISIONS 次）。
+ * 达到次数上限后，移除仍然违反饮食要求的酒品和引用错误的搭配理由，
+ * 避免展示和保存不符合要求或指向不存在的酒品的搭配；酒品全部被移除时只返回菜品推荐
+ */
+export function beverageCriticNode(state: FoodPairingState): Partial<FoodPairingState> {
+  const result = state.agent2Output as CompletePairingRecommendation | null;
+  if (state.error || !result) {
+    return {};
+  }
+
+  const dietary = resolveDietaryPreferences(state.userInput);
+  const critique = critiquePairing(result, state.userInput.drinkIngredients || [], dietary);
+  const update = recordCritique(state, 'beverage_pairing', critique);
+
+  if (!update.revisionRequest && (critique.invalidReasonIds.length > 0 || critique.violatingIds.length > 0)) {
+    const invalid = new Set(critique.invalidReasonIds);
+    const violating = new Set(critique.violatingIds);
+    const beverages = result.beverages.filter((beverage) => !violating.has(beverage.id));
+    const pairingReasons = result.pairingReasons.filter(
+      (reason) => !invalid.has(reason.id) && !violating.has(reason.beverageId)
+    );
+    console.warn(
+      `⚠️ 移除 ${violating.size} 个不符合饮食要求的酒品和 ${result.pairingReasons.length - pairingReasons.length} 条无效的搭配理由`
+    );
+    update.agent2Output = beverages.length > 0
+      ? {
+        ...result,
+        beverages,
+        pairingReasons,
+        metadata: result.metadata
+          ? { ...result.metadata, beverageCount: beverages.length, pairingCount: pairingReasons.length }
+          : result.metadata,
+      }
+      : null;
+  }
+
+  return update;
+}
+
+/**
+ * 记录评审结果，未通过、允许重新生成且没有达到重新生成次数上限时要求生成节点重新生成
+ */
+function recordCritique(
+  state: FoodPairingState,
+  node: 'dish_recommender' | 'beverage_pairing',
+  critique: Critique,
+  allowRevision = true
+): Partial<FoodPairingState> {
+  const critiques = state.metadata?.critiques ?? [];
+  const previous = critiques.filter((record) => record.node === node);
+  const revisions = previous.filter((record) => record.revise).length;
+  const revise = allowRevision && !critique.passed && revisions < MAX_CRITIC_REVISIONS;
+  const label = node === 'dish_recommender' ? '菜品' : '酒品';
+
+  if (critique.passed) {
+    console.log(`✅ ${label}评审通过，原料覆盖率 ${Math.round(critique.coverage * 100)}%`);
+  } else if (revise) {
+    console.log(`🔁 ${label}评审未通过（${critique.issues.length} 个问题），第 ${revisions + 1} 次重新生成`);
+  } else {
+    console.warn(
+      `⚠️ ${label}评审未通过（${critique.issues.length} 个问题），${allowRevision ? '已达到重新生成次数上限' : '不重新生成'}，继续执行`
+    );
+  }
+
+  return {
+    revisionRequest: revise ? { node, feedback: critique.issues } : null,
+    metadata: {
+      timestamp: new Date().toISOString(),
+      ...state.metadata,
+      critiques: [
+        ...critiques,
+        {
+          node,
+          iteration: previous.length + 1,
+          passed: critique.passed,
+          coverage: critique.coverage,
+          issues: critique.issues,
+          revise,
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * 构建评审反馈提示，要求模型修正上一次生成中的问题
+ */
+function buildFeedbackPart(feedback: string[] | undefined): string {
+  if (!feedback || feedback.length === 0) {
+    return '';
+  }
+  return `\n\n上一次推荐存在以下问题，请在本次推荐中修正：\n${feedback.map((issue, index) => `${index + 1}. ${issue}`).join('\n')}`;
+}
+
+/**
+ * 构建饮食要求提示，没有任何饮食要求时返回空字符串
+ * 无酒精模式只约束饮品，菜品中的料酒等调料由清真限制约束
+ */
+function buildDietaryPart(dietary: DietaryPreferences, target: 'dish' | 'beverage'): string {
+  const lines: string[] = [];
+  if (dietary.restrictions.length > 0) {
+    lines.push(`饮食限制（必须严格遵守）：${dietary.restrictions.map((item) => DIETARY_RESTRICTION_LABELS[item]).join('、')}`);
+  }
+  if (dietary.allergens.length > 0) {
+    lines.push(`过敏原（不能使用任何含有以下成分的原料）：${dietary.allergens.map((item) => ALLERGEN_LABELS[item]).join('、')}`);
+  }
+  if (target === 'beverage' && dietary.nonAlcoholic) {
+    lines.push('无酒精模式：只推荐无酒精饮品（mocktail），原料中不能含有任何酒类（包括烈酒、利口酒、啤酒和葡萄酒），参考含酒精的配方时需要去掉酒类或换成无酒精替代品');
+  }
+  if (lines.length === 0) {
+    return '';
+  }
+  lines.push('用户提供的原料中不符合以上要求的不要使用');
+  return `\n${lines.join('\n')}`;
 }
 
 /**
  * 构建菜品推荐提示词
+ * 提供 replacement 时只要求生成指定数量的替换菜品，并排除已有和被拒绝的菜品；
+ * 提供 feedback 时附上评审发现的问题
  */
 function buildDishRecommendationPrompt(
   cuisine: string | null | undefined,
-  ingredients: string[]
+  ingredients: string[],
+  dietary: DietaryPreferences,
+  replacement?: ReplacementRequest,
+  feedback?: string[]
 ): string {
   const cuisinePart = cuisine
     ? `\n菜系要求：${cuisine}`
     : '\n菜系要求：不限，可根据原料自由选择';
-  return `基于以下原料，推荐3-5个适合的菜品：
+  const excludePart = replacement && replacement.exclude.length > 0
+    ? `\n不要推荐以下菜品：${replacement.exclude.join('、')}`
+    : '';
+  const hintPart = replacement?.hint ? `\n用户要求：${replacement.hint}` : '';
+  return `基于以下原料，推荐${replacement ? replacement.count : '3-5'}个适合的菜品：
 
-原料列表：${ingredients.join('、')}${cuisinePart}
+原料列表：${ingredients.join('、')}${cuisinePart}${buildDietaryPart(dietary, 'dish')}${excludePart}${hintPart}${buildFeedbackPart(feedback)}
 
-请为每个推荐提供以下信息（JSON格式）：
+请返回以下 JSON 格式：
 {
-  "id": "唯一标识符",
-  "name": "菜品名称",
-  "description": "简短描述",
-  "cuisine": "所属菜系",
-  "requiredIngredients": ["食材1 用量", "食材2 用量", ...],
-  "cookingTime": 分钟数,
-  "difficulty": 1-5,
-  "steps": ["步骤1", "步骤2", ...],
-  "source": "来源（可选）",
-  "tags": ["标签1", "标签2"]
+  "dishes": [
+    {
+      "id": "唯一标识符",
+      "name": "菜品名称",
+      "description": "简短描述",
+      "cuisine": "所属菜系",
+      "requiredIngredients": ["食材1 用量", "食材2 用量", ...],
+      "cookingTime": 分钟数,
+      "difficulty": 1-5,
+      "steps": ["步骤1", "步骤2", ...],
+      "source": "来源（可选）",
+      "tags": ["标签1", "标签2"]
+    }
+  ]
 }
 
 请确保：
 1. 配方中的食材尽量使用用户提供的原料
 2. 难度等级：1=简单，2=容易，3=中等，4=困难，5=专家
 3. 烹饪步骤要详细清晰
-4. 返回有效的JSON数组格式`;
+4. 只返回有效的JSON对象，不要包含其他内容`;
 }
 
 /**
- * 构建酒品搭配提示词
+ * 构建单个菜品的酒品搭配提示词
+ * 有知识库检索结果时，要求模型优先选用知识库中的配方并标注引用的片段编号；
+ * 提供 feedback 时附上评审发现的问题
  */
 function buildBeveragePairingPrompt(
-  dishes: DishRecommendation[],
-  drinkIngredients: string[]
+  dish: DishRecommendation,
+  drinkIngredients: string[],
+  knowledgeContext: KnowledgeContext[],
+  dietary: DietaryPreferences,
+  feedback?: string[]
 ): string {
-  const dishesInfo = dishes
-    .map(
-      (dish, index) =>
-        `${index + 1}. ${dish.name} (${dish.cuisine}) - ${dish.description}`
-    )
-    .join('\n');
+  const dishInfo = `[ID: ${dish.id}] ${dish.name} (${dish.cuisine}) - ${dish.description}`;
+  const dishIngredientsPart = dish.requiredIngredients.length > 0
+    ? `\n主要食材：${dish.requiredIngredients.join('、')}`
+    : '';
 
   const ingredientsPart =
     drinkIngredients.length > 0
       ? `\n用户提供的酒原料：${drinkIngredients.join('、')}`
       : '\n用户未提供酒原料，请根据菜品自由推荐合适的酒品';
 
-  return `基于以下推荐的菜品，为每个菜品推荐1-2个合适的酒品搭配：
+  const hasKnowledge = knowledgeContext.length > 0;
+  const knowledgePart = hasKnowledge
+    ? `\n\n${formatKnowledgeContext(knowledgeContext)}`
+    : '';
+
+  return `为以下菜品推荐1-2个合适的${dietary.nonAlcoholic ? '无酒精饮品' : '酒品'}搭配：
 
-推荐菜品：
-${dishesInfo}${ingredientsPart}
+菜品：${dishInfo}${dishIngredientsPart}${ingredientsPart}${buildDietaryPart(dietary, 'beverage')}${knowledgePart}${buildFeedbackPart(feedback)}
 
 请为每个推荐提供以下信息（JSON格式）：
 {
@@ -241,141 +660,261 @@ ${dishesInfo}${ingredientsPart}
       "technique": "调制技巧",
       "garnish": "装饰",
       "difficulty": 1-5,
-      "estimatedTime": 分钟数
+      "estimatedTime": 分钟数${hasKnowledge ? `,
+      "citations": ["参考的知识库片段编号，如 C1"]` : ''}
     }
   ],
   "pairingReasons": [
     {
       "id": "唯一标识符",
-      "dishId": "菜品ID",
+      "dishId": "${dish.id}",
       "beverageId": "酒品ID",
       "reason": "详细的搭配理由",
       "pairingType": "搭配类型（如：互补、对比、平衡）",
       "score": 1-10
     }
-  ],
-  "overallSuggestion": "整体搭配建议和说明"
+  ]
 }
 
 请确保：
-1. 每个菜品至少推荐1个酒品
+1. 每个推荐的酒品都有一条搭配理由
 2. 搭配理由要详细说明为什么这个酒品适合这个菜品
-3. 如果用户提供了酒原料，尽量使用这些原料
-4. 返回有效的JSON格式`;
+3. 如果用户提供了酒原料，尽量使用这些原料${hasKnowledge
+    ? `
+4. 优先从知识库信息中选择酒品配方，配方内容以知识库为依据，并在 citations 中列出参考的片段编号；知识库中没有合适的配方时可以自行推荐，citations 返回空数组
+5. 只返回有效的JSON对象，不要包含其他内容`
+    : `
+4. 只返回有效的JSON对象，不要包含其他内容`}`;
+}
+
+/**
+ * 构建整体搭配建议提示词，列出每个菜品搭配的酒品
+ */
+function buildPairingSummaryPrompt(
+  dishes: DishRecommendation[],
+  beverages: BeverageRecommendation[],
+  pairingReasons: PairingReason[],
+  dietary: DietaryPreferences
+): string {
+  const beverageNames = new Map(beverages.map((beverage) => [beverage.id, beverage.name]));
+  const pairingsInfo = dishes
+    .map((dish, index) => {
+      const names = pairingReasons
+        .filter((reason) => reason.dishId === dish.id)
+        .map((reason) => `${beverageNames.get(reason.beverageId) ?? '未知酒品'}（${reason.pairingType}）`);
+      return `${index + 1}. ${dish.name} (${dish.cuisine})：${names.length > 0 ? names.join('、') : '暂无搭配'}`;
+    })
+    .join('\n');
+  const beverageNoun = dietary.nonAlcoholic ? '无酒精饮品' : '酒品';
+
+  return `以下是为一桌菜品分别推荐的${beverageNoun}搭配：
+
+${pairingsInfo}
+
+请写一段整体搭配建议（100-200字），说明整桌${beverageNoun}的安排思路，例如上菜和饮用顺序、口味从清淡到浓郁的过渡、哪些${beverageNoun}适合多道菜共享。
+
+请返回JSON格式：
+{
+  "overallSuggestion": "整体搭配建议"
+}
+
+只返回有效的JSON对象，不要包含其他内容`;
 }
 
 /**
- * 解析菜品推荐结果
+ * 生成整体搭配建议，失败时使用默认内容（不影响已生成的搭配）
+ * writer 可用时推送增量文本
  */
-function parseDishRecommendations(
-  content: string,
-  defaultCuisine: string
-): DishRecommendation[] {
+async function generateOverallSuggestion(
+  dishes: DishRecommendation[],
+  beverages: BeverageRecommendation[],
+  pairingReasons: PairingReason[],
+  dietary: DietaryPreferences,
+  config?: LangGraphRunnableConfig
+): Promise<string> {
+  const writer = config?.writer;
   try {
-    // 尝试直接解析JSON
-    const jsonMatch = content.match(/\[[\s\S]*\]/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return parsed.map((dish: any) => ({
-        id: dish.id || randomUUID(),
-        name: dish.name || '未知菜品',
-        description: dish.description || '',
-        cuisine: dish.cuisine || defaultCuisine,
-        requiredIngredients: Array.isArray(dish.requiredIngredients)
-          ? dish.requiredIngredients
-          : [],
-        cookingTime: dish.cookingTime || 30,
-        difficulty: dish.difficulty || 3,
-        steps: Array.isArray(dish.steps) ? dish.steps : [],
-        source: dish.source,
-        tags: Array.isArray(dish.tags) ? dish.tags : [],
-      }));
-    }
+    const output = await generateStructuredOutput({
+      task: 'pairing_summary',
+      messages: [
+        {
+          role: 'system',
+          content: '你是一个专业的调酒师和美食搭配顾问，擅长为整桌菜品规划酒品搭配。',
+        },
+        {
+          role: 'user',
+          content: buildPairingSummaryPrompt(dishes, beverages, pairingReasons, dietary),
+        },
+      ],
+      schema: PairingSummaryOutputSchema,
+      label: '整体搭配建议',
+      temperature: 0.7,
+      maxTokens: 600,
+      onDelta: writer
+        ? (delta, length) => writer({ type: 'partial', node: 'pairing_merger', delta, length })
+        : undefined,
+    });
+    return output.overallSuggestion;
   } catch (error) {
-    console.error('解析菜品推荐失败:', error);
+    console.warn('⚠️ 整体搭配建议生成失败，使用默认建议:', (error as Error)?.message);
+    return DEFAULT_OVERALL_SUGGESTION;
   }
+}
 
-  // 如果解析失败，返回空数组
-  return [];
+/**
+ * 规范化单个菜品推荐
+ */
+function normalizeDish(dish: DishRecommendationOutput, defaultCuisine: string): DishRecommendation {
+  return {
+    ...dish,
+    id: toUUID(dish.id),
+    cuisine: dish.cuisine || defaultCuisine,
+  };
 }
 
 /**
- * 解析酒品搭配结果
+ * 将单个菜品的酒品搭配输出规范化
+ * 酒品引用的片段编号（citations）替换为可追溯的知识库来源；
+ * 每个子任务只搭配一个菜品，搭配理由的 dishId 统一为该菜品的 ID，不采用模型给出的值
  */
-function parseBeveragePairing(
-  content: string,
-  dishes: DishRecommendation[]
-): CompletePairingRecommendation {
-  try {
-    // 尝试直接解析JSON
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      const beverages: BeverageRecommendation[] = (
-        Array.isArray(parsed.beverages) ? parsed.beverages : []
-      ).map((beverage: any) => ({
-        id: beverage.id || randomUUID(),
-        name: beverage.name || '未知酒品',
-        description: beverage.description || '',
-        ingredients: Array.isArray(beverage.ingredients)
-          ? beverage.ingredients
-          : [],
-        steps: Array.isArray(beverage.steps) ? beverage.steps : [],
-        category: beverage.category,
-        glassType: beverage.glassType,
-        technique: beverage.technique,
-        garnish: beverage.garnish,
-        difficulty: beverage.difficulty || 3,
-        estimatedTime: beverage.estimatedTime || 5,
-        source: beverage.source,
-        tags: Array.isArray(beverage.tags) ? beverage.tags : [],
-      }));
-
-      const pairingReasons: PairingReason[] = (
-        Array.isArray(parsed.pairingReasons) ? parsed.pairingReasons : []
-      ).map((reason: any) => ({
-        id: reason.id || randomUUID(),
-        dishId: reason.dishId || '',
-        beverageId: reason.beverageId || '',
-        reason: reason.reason || '',
-        pairingType: reason.pairingType,
-        score: reason.score,
-      }));
-
-      return {
-        dishes,
-        beverages,
-        pairingReasons,
-        overallSuggestion:
-          parsed.overallSuggestion ||
-          '请根据个人口味选择合适的搭配方案。',
-        metadata: {
-          timestamp: new Date().toISOString(),
-          model: LLM_MODEL,
-          dishCount: dishes.length,
-          beverageCount: beverages.length,
-          pairingCount: pairingReasons.length,
-        },
-      };
+function toDishPairing(
+  output: BeveragePairingOutput,
+  dish: DishRecommendation,
+  knowledgeContext: KnowledgeContext[]
+): { beverages: BeverageRecommendation[]; pairingReasons: PairingReason[] } {
+  const { beverages, pairingReasons } = normalizeBeveragesWithReasons(
+    output.beverages,
+    output.pairingReasons
+  );
+
+  return {
+    beverages: beverages.map((beverage, index) => ({
+      ...beverage,
+      citations: resolveCitations(output.beverages[index].citations, knowledgeContext),
+    })),
+    pairingReasons: pairingReasons.map((reason) => ({ ...reason, dishId: dish.id })),
+  };
+}
+
+/**
+ * 合并各菜品的酒品搭配
+ * 不同菜品推荐了同名酒品时只保留第一个，搭配理由改为引用保留的酒品
+ */
+function mergeDishPairings(
+  pairings: DishPairing[]
+): { beverages: BeverageRecommendation[]; pairingReasons: PairingReason[] } {
+  const beverages: BeverageRecommendation[] = [];
+  const pairingReasons: PairingReason[] = [];
+  const idsByName = new Map<string, string>();
+  const mergedIds = new Map<string, string>();
+
+  for (const pairing of pairings) {
+    for (const beverage of pairing.beverages as BeverageRecommendation[]) {
+      const key = beverage.name.trim().toLowerCase();
+      const existingId = idsByName.get(key);
+      if (existingId) {
+        mergedIds.set(beverage.id, existingId);
+      } else {
+        idsByName.set(key, beverage.id);
+        beverages.push(beverage);
+      }
+    }
+    for (const reason of pairing.pairingReasons as PairingReason[]) {
+      pairingReasons.push({ ...reason, beverageId: mergedIds.get(reason.beverageId) ?? reason.beverageId });
     }
-  } catch (error) {
-    console.error('解析酒品搭配结果失败:', error);
   }
 
-  // 如果解析失败，返回默认结果
+  return { beverages, pairingReasons };
+}
+
+/**
+ * 将合并后的酒品搭配组装为完整推荐方案
+ */
+function toPairingRecommendation(
+  dishes: DishRecommendation[],
+  beverages: BeverageRecommendation[],
+  pairingReasons: PairingReason[],
+  overallSuggestion: string,
+  knowledgeContext: KnowledgeContext[],
+  dietary: DietaryPreferences
+): CompletePairingRecommendation {
   return {
     dishes,
-    beverages: [],
-    pairingReasons: [],
-    overallSuggestion: '抱歉，未能生成有效的酒品搭配推荐。',
+    beverages,
+    pairingReasons,
+    overallSuggestion,
     metadata: {
       timestamp: new Date().toISOString(),
-      model: LLM_MODEL,
+      model: getLLMProvider().model,
       dishCount: dishes.length,
-      beverageCount: 0,
-      pairingCount: 0,
+      beverageCount: beverages.length,
+      pairingCount: pairingReasons.length,
+      knowledgeChunkCount: knowledgeContext.length,
+      dietary,
     },
   };
 }
 
+/**
+ * 保证推荐项 ID 为 UUID
+ * 菜品和酒品会以该 ID 写入数据库（Dish / Recipe 的主键为 UUID），
+ * LLM 自行编造的 "1"、"dish_1" 之类的 ID 会被替换为新的 UUID
+ */
+function toUUID(id: unknown): string {
+  const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  return typeof id === 'string' && UUID_PATTERN.test(id) ? id : randomUUID();
+}
+
+/**
+ * 规范化单个酒品推荐
+ * 缺失字段的默认值已由 Schema 补充，这里只需要保证 ID 为 UUID，供各个酒品相关节点复用
+ */
+export function normalizeBeverage(beverage: BeverageRecommendationOutput): BeverageRecommendation {
+  return {
+    ...beverage,
+    id: toUUID(beverage.id),
+  };
+}
+
+/**
+ * 规范化酒品列表及其搭配理由
+ * LLM 给出的酒品 ID 可能被替换为 UUID，这里同步更新搭配理由中的 beverageId 引用
+ */
+export function normalizeBeveragesWithReasons(
+  rawBeverages: BeverageRecommendationOutput[],
+  rawReasons: PairingReasonOutput[]
+): { beverages: BeverageRecommendation[]; pairingReasons: PairingReason[] } {
+  const beverages = rawBeverages.map(normalizeBeverage);
+
+  const beverageIdMap = new Map<string, string>();
+  rawBeverages.forEach((raw, index) => {
+    if (raw.id) {
+      beverageIdMap.set(raw.id, beverages[index].id);
+    }
+  });
+
+  const pairingReasons = rawReasons.map((raw) => {
+    const reason = normalizePairingReason(raw);
+    return {
+      ...reason,
+      beverageId: beverageIdMap.get(reason.beverageId) || reason.beverageId,
+    };
+  });
+
+  return { beverages, pairingReasons };
+}
+
+/**
+ * 规范化单个搭配理由
+ * 搭配理由的 ID 总是重新生成：各菜品的搭配来自不同的 LLM 调用，模型给出的 ID（如 "reason_1"）会在合并后重复
+ */
+export function normalizePairingReason(reason: PairingReasonOutput): PairingReason {
+  return {
+    id: randomUUID(),
+    dishId: reason.dishId || '',
+    beverageId: reason.beverageId,
+    reason: reason.reason,
+    pairingType: reason.pairingType,
+    score: reason.score,
+  };
+}
@@ -6,9 +6,12 @@
  */
 
 import { z } from 'zod';
+import { registry } from '@langchain/langgraph/zod';
+import { ALLERGENS, DIETARY_RESTRICTIONS } from '../dietaryRules';
 import type { 
   DishRecommendation, 
-  CompletePairingRecommendation 
+  CompletePairingRecommendation,
+  FoodPairingRequest,
 } from '../../types/foodPairing';
 
 /**
@@ -21,6 +24,91 @@ const UserInputSchema = z.object({
   foodIngredients: z.array(z.string()).min(1, '至少需要一个食品原料'),
   /** 酒原料列表，可选 */
   drinkIngredients: z.array(z.string()).optional(),
+  /** 是否在酒品搭配前由用户确认菜品，可选 */
+  reviewDishes: z.boolean().optional(),
+  /** 饮食限制（素食、纯素、清真、无麸质），可选 */
+  dietaryRestrictions: z.array(z.enum(DIETARY_RESTRICTIONS)).optional(),
+  /** 需要排除的过敏原（坚果、贝类、乳制品），可选 */
+  allergens: z.array(z.enum(ALLERGENS)).optional(),
+  /** 无酒精模式，酒品搭配只推荐无酒精饮品，可选 */
+  nonAlcoholic: z.boolean().optional(),
+});
+
+/**
+ * 菜品确认状态 Schema（用户在酒品搭配前确认菜品时使用）
+ */
+const DishReviewSchema = z.object({
+  /** pending：等待用户确认；confirmed：已确认，继续酒品搭配 */
+  status: z.enum(['pending', 'confirmed']),
+  /** 已完成的确认轮数 */
+  round: z.number(),
+  /** 用户拒绝过的菜品名称，生成替换菜品时排除 */
+  rejectedDishes: z.array(z.string()),
+  /** 用户要求补充的替换菜品，菜品推荐节点生成后清空 */
+  replacements: z.object({
+    count: z.number(),
+    hint: z.string().nullable().optional(),
+  }).nullable().optional(),
+});
+
+/**
+ * 知识库片段 Schema（知识库检索节点的输出）
+ */
+const KnowledgeContextSchema = z.object({
+  chunkId: z.string(),
+  /** 来源文件名 */
+  source: z.string(),
+  page: z.number().optional(),
+  /** 相似度 */
+  score: z.number(),
+  content: z.string(),
+});
+
+/**
+ * 单个菜品的酒品搭配结果 Schema（酒品搭配子任务的输出）
+ */
+const DishPairingSchema = z.object({
+  dishId: z.string(),
+  /** 规范化后的酒品（ID 为 UUID，引用已解析为知识库来源） */
+  beverages: z.array(z.any()),
+  /** 搭配理由，dishId 均为该菜品的 ID */
+  pairingReasons: z.array(z.any()),
+  /** 子任务失败时的错误信息 */
+  error: z.string().nullable().optional(),
+  /** 执行时间（毫秒） */
+  executionTime: z.number(),
+});
+
+/**
+ * 按菜品 ID 保存的酒品搭配结果
+ * 酒品搭配子任务并发执行，每个子任务只写入自己菜品的结果，通过 reducer 合并；写入 null 时清空
+ */
+const DishPairingsSchema = z.record(z.string(), DishPairingSchema).nullable().optional().register(registry, {
+  reducer: {
+    fn: (current, update) => (update === null ? {} : { ...(current ?? {}), ...update }),
+  },
+  default: () => ({}),
+});
+
+/**
+ * 评审节点可以要求重新生成的节点
+ */
+const CriticTargetSchema = z.enum(['dish_recommender', 'beverage_pairing']);
+
+/**
+ * 评审记录 Schema（每次评审追加一条）
+ */
+const CritiqueRecordSchema = z.object({
+  /** 被评审的生成节点 */
+  node: CriticTargetSchema,
+  /** 该节点的第几次生成（从 1 开始） */
+  iteration: z.number(),
+  passed: z.boolean(),
+  /** 用户原料覆盖率（0-1） */
+  coverage: z.number(),
+  issues: z.array(z.string()),
+  /** 是否要求重新生成（未通过且没有达到次数上限） */
+  revise: z.boolean(),
 });
 
 /**
@@ -33,6 +121,8 @@ const MetadataSchema = z.object({
   executionTime: z.number().optional(),
   /** 使用的模型 */
   model: z.string().optional(),
+  /** 评审记录，按执行顺序排列 */
+  critiques: z.array(CritiqueRecordSchema).optional(),
 }).optional();
 
 /**
@@ -42,12 +132,29 @@ const MetadataSchema = z.object({
 export const FoodPairingStateSchema = z.object({
   /** 用户输入 */
   userInput: UserInputSchema,
-  /** Agent 1 的输出结果（菜品推荐列表） */
+  /** 发起执行的会话，只有该会话可以查询、恢复执行或确认菜品 */
+  sessionId: z.string().nullable().optional(),
+  /** Agent 1 的输出结果（菜品推荐列表），用户确认后只保留选中的菜品 */
   agent1Output: z.array(z.any()).nullable().optional(),
+  /** 菜品确认状态，不需要用户确认时为 null */
+  dishReview: DishReviewSchema.nullable().optional(),
+  /** 知识库检索结果，供酒品搭配节点参考 */
+  knowledgeContext: z.array(KnowledgeContextSchema).nullable().optional(),
+  /** 酒品搭配子任务的菜品，只出现在分发给 beverage_pairing 节点的输入中（见 fanOutBeveragePairing） */
+  pairingDish: z.any().nullable().optional(),
+  /** 每个菜品的酒品搭配结果，由搭配汇总节点合并为 agent2Output */
+  dishPairings: DishPairingsSchema,
   /** Agent 2 的输出结果（完整搭配推荐） */
   agent2Output: z.any().nullable().optional(),
   /** 错误信息 */
   error: z.string().nullable().optional(),
+  /** 评审未通过时需要重新生成的节点和反馈，生成节点执行成功后清空 */
+  revisionRequest: z.object({
+    node: CriticTargetSchema,
+    feedback: z.array(z.string()),
+  }).nullable().optional(),
+  /** 出错的节点，恢复执行时只重新执行该节点（见 FoodPairingLangGraphService.resume） */
+  failedNode: z.enum(['dish_recommender', 'knowledge_retrieval', 'beverage_pairing']).nullable().optional(),
   /** 元数据 */
   metadata: MetadataSchema,
 });
@@ -58,28 +165,44 @@ export const FoodPairingStateSchema = z.object({
  */
 export type FoodPairingState = z.infer<typeof FoodPairingStateSchema>;
 
+/**
+ * 单个菜品的酒品搭配结果类型
+ */
+export type DishPairing = z.infer<typeof DishPairingSchema>;
+
 /**
  * 状态初始值
  * 用于初始化 LangGraph 状态
+ *
+ * @param sessionId 发起执行的会话，缺省时线程不属于任何会话
  */
-export function createInitialState(input: {
-  cuisine?: string | null;
-  foodIngredients: string[];
-  drinkIngredients?: string[];
-}): FoodPairingState {
+export function createInitialState(input: FoodPairingRequest, sessionId: string | null = null): FoodPairingState {
   return {
     userInput: {
       cuisine: input.cuisine ?? null,
       foodIngredients: input.foodIngredients,
       drinkIngredients: input.drinkIngredients ?? [],
+      reviewDishes: input.reviewDishes ?? false,
+      dietaryRestrictions: input.dietaryRestrictions ?? [],
+      allergens: input.allergens ?? [],
+      nonAlcoholic: input.nonAlcoholic ?? false,
     },
+    sessionId,
     agent1Output: null,
+    dishReview: input.reviewDishes
+      ? { status: 'pending', round: 0, rejectedDishes: [], replacements: null }
+      : null,
+    knowledgeContext: null,
+    dishPairings: null,
     agent2Output: null,
+    revisionRequest: null,
     error: null,
+    failedNode: null,
     metadata: {
       timestamp: new Date().toISOString(),
       executionTime: undefined,
       model: undefined,
+      critiques: [],
     },
   };
 }
@@ -4,9 +4,22 @@
  * 本文件封装了 LangGraph 图构建和执行逻辑，提供高级 API 供业务层调用
  */
 
+import { randomUUID } from 'crypto';
+import { Command } from '@langchain/langgraph';
 import { buildFoodPairingGraph } from './langgraph/foodPairingGraph';
+import { applyDishSelection } from './langgraph/foodPairingNodes';
+import { ALLERGENS, DIETARY_RESTRICTIONS, resolveDietaryPreferences } from './dietaryRules';
 import { createInitialState, validateState, type FoodPairingState } from './langgraph/foodPairingState';
-import type { CompletePairingRecommendation, DishRecommenderInput } from '../types/foodPairing';
+import { getCheckpointer } from './langgraph/checkpointers/checkpointer';
+import type {
+  CompletePairingRecommendation,
+  DishRecommendation,
+  DishSelection,
+  FoodPairingNodeName,
+  FoodPairingRequest,
+  FoodPairingRun,
+  FoodPairingStreamEvent,
+} from '../types/foodPairing';
 import { z } from 'zod';
 
 /**
@@ -16,15 +29,91 @@ const UserInputValidationSchema = z.object({
   cuisine: z.string().nullable().optional(),
   foodIngredients: z.array(z.string()).min(1, '至少需要一个食品原料'),
   drinkIngredients: z.array(z.string()).optional(),
+  reviewDishes: z.boolean().optional(),
+  dietaryRestrictions: z.array(z.enum(DIETARY_RESTRICTIONS, { message: `饮食限制只能是 ${DIETARY_RESTRICTIONS.join(', ')}` })).optional(),
+  allergens: z.array(z.enum(ALLERGENS, { message: `过敏原只能是 ${ALLERGENS.join(', ')}` })).optional(),
+  nonAlcoholic: z.boolean().optional(),
 });
 
+/**
+ * 用户菜品确认结果验证 Schema
+ */
+const DishSelectionValidationSchema = z.object({
+  decisions: z.array(z.object({
+    dishId: z.string().min(1, '缺少菜品ID'),
+    action: z.enum(['accept', 'reject', 'edit']),
+    changes: z.strictObject({
+      name: z.string().trim().min(1, '菜品名称不能为空').optional(),
+      description: z.string().optional(),
+      cuisine: z.string().optional(),
+      requiredIngredients: z.array(z.string()).optional(),
+      cookingTime: z.number().int().positive().optional(),
+      difficulty: z.number().int().min(1).max(5).optional(),
+      steps: z.array(z.string()).optional(),
+      tags: z.array(z.string()).optional(),
+    }).optional(),
+  }).refine((decision) => decision.action !== 'edit' || decision.changes !== undefined, {
+    message: '修改菜品时需要提供 changes',
+  })),
+  replacements: z.object({
+    count: z.number().int().min(1, '替换菜品数量至少为 1').max(5, '替换菜品数量最多为 5'),
+    hint: z.string().trim().max(200, '替换要求最多 200 个字符').optional(),
+  }).optional(),
+});
+
+/**
+ * 搭配推荐图中的节点
+ */
+const FOOD_PAIRING_NODES: FoodPairingNodeName[] = [
+  'dish_recommender',
+  'dish_critic',
+  'dish_selection',
+  'knowledge_retrieval',
+  'beverage_pairing',
+  'pairing_merger',
+  'beverage_critic',
+];
+
+/**
+ * 恢复执行失败的节点时，以其上一个节点的名义更新状态，图从失败的节点继续执行
+ */
+const PREVIOUS_NODE: Partial<Record<FoodPairingNodeName, FoodPairingNodeName>> = {
+  knowledge_retrieval: 'dish_critic',
+  beverage_pairing: 'knowledge_retrieval',
+};
+
+/**
+ * 执行选项
+ */
+interface FoodPairingRunOptions {
+  /** 执行线程 ID，缺省时生成 */
+  threadId?: string;
+  /** 发起执行的会话，只有该会话可以查询、恢复执行或确认菜品 */
+  sessionId?: string;
+}
+
+/**
+ * 线程当前的状态不允许该操作（正在执行、等待确认菜品时恢复执行、不需要确认时提交菜品选择等）
+ */
+export class FoodPairingRunConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FoodPairingRunConflictError';
+  }
+}
+
 /**
  * FoodPairingLangGraphService
  * 
  * 提供菜品与酒品搭配推荐的 LangGraph 服务
+ * 图使用 Checkpointer 编译，每次执行对应一个 threadId，每个节点执行完都会保存状态，
+ * 执行失败后可以通过 resume 只重新执行失败的节点。
+ * 需要用户确认菜品时通过 start 执行，图在菜品推荐后中断，用户通过 selectDishes 提交确认结果后继续
  */
 export class FoodPairingLangGraphService {
   private graph: ReturnType<typeof buildFoodPairingGraph> | null = null;
+  /** 本进程中正在执行的线程 */
+  private activeThreads = new Set<string>();
 
   /**
    * 构造函数
@@ -44,7 +133,7 @@ export class FoodPairingLangGraphService {
   private buildGraph() {
     if (!this.graph) {
       console.log('🔧 首次使用，构建 LangGraph 图...');
-      this.graph = buildFoodPairingGraph();
+      this.graph = buildFoodPairingGraph(getCheckpointer());
     }
     return this.graph;
   }
@@ -55,16 +144,16 @@ export class FoodPairingLangGraphService {
    * @param input 用户输入
    * @throws {Error} 如果输入无效
    */
-  validateInput(input: {
-    cuisine?: string | null;
-    foodIngredients: string[];
-    drinkIngredients?: string[];
-  }): void {
+  validateInput(input: FoodPairingRequest): void {
     try {
       UserInputValidationSchema.parse({
         cuisine: input.cuisine ?? null,
         foodIngredients: input.foodIngredients,
         drinkIngredients: input.drinkIngredients ?? [],
+        reviewDishes: input.reviewDishes,
+        dietaryRestrictions: input.dietaryRestrictions,
+        allergens: input.allergens,
+        nonAlcoholic: input.nonAlcoholic,
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -75,20 +164,48 @@ export class FoodPairingLangGraphService {
     }
   }
 
+  /**
+   * 验证用户的菜品确认结果
+   * 菜品 ID 必须是待确认的菜品，且至少保留一个菜品或要求替换菜品
+   *
+   * @throws {Error} 如果确认结果无效
+   */
+  validateDishSelection(selection: unknown, dishes: DishRecommendation[]): DishSelection {
+    let parsed: DishSelection;
+    try {
+      parsed = DishSelectionValidationSchema.parse(selection);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorMessages = error.issues.map((e: z.ZodIssue) => `${e.path.join('.')}: ${e.message}`).join(', ');
+        throw new Error(`输入验证失败: ${errorMessages}`);
+      }
+      throw error;
+    }
+
+    const dishIds = new Set(dishes.map((dish) => dish.id));
+    const unknownIds = parsed.decisions.filter((decision) => !dishIds.has(decision.dishId)).map((decision) => decision.dishId);
+    if (unknownIds.length > 0) {
+      throw new Error(`输入验证失败: 菜品不存在: ${unknownIds.join(', ')}`);
+    }
+    if (!parsed.replacements && applyDishSelection(dishes, parsed).selected.length === 0) {
+      throw new Error('输入验证失败: 至少需要保留一个菜品或要求替换菜品');
+    }
+    return parsed;
+  }
+
   /**
    * 执行图，接收用户输入，返回完整推荐方案
    * 
    * @param input 用户输入
+   * @param options threadId：执行线程 ID，缺省时生成；执行失败后可以用它恢复执行。
+   *   sessionId：发起执行的会话，只有该会话可以查询和恢复执行
    * @returns 完整的搭配推荐方案
    * @throws {Error} 如果执行失败
    */
-  async execute(input: {
-    cuisine?: string | null;
-    foodIngredients: string[];
-    drinkIngredients?: string[];
-  }): Promise<CompletePairingRecommendation> {
+  async execute(input: Omit<FoodPairingRequest, 'reviewDishes'>, options: FoodPairingRunOptions = {}): Promise<CompletePairingRecommendation> {
     const startTime = Date.now();
-    console.log('🚀 开始执行 LangGraph 推荐流程...');
+    const threadId = options.threadId ?? randomUUID();
+    console.log(`🚀 开始执行 LangGraph 推荐流程（线程 ${threadId}）...`);
     console.log('📥 输入参数:', {
       cuisine: input.cuisine,
       foodIngredients: input.foodIngredients,
@@ -104,14 +221,18 @@ export class FoodPairingLangGraphService {
         cuisine: input.cuisine,
         foodIngredients: input.foodIngredients,
         drinkIngredients: input.drinkIngredients,
-      });
+        dietaryRestrictions: input.dietaryRestrictions,
+        allergens: input.allergens,
+        nonAlcoholic: input.nonAlcoholic,
+      }, options.sessionId);
 
       // 3. 获取图实例（懒加载）
       const graph = this.buildGraph();
 
-      // 4. 执行图
+      // 4. 执行图，每个节点执行完按 threadId 保存检查点
       console.log('🔄 执行 LangGraph...');
-      const finalState = await graph.invoke(initialState);
+      this.activeThreads.add(threadId);
+      const finalState = await graph.invoke(initialState, { configurable: { thread_id: threadId } });
 
       // 5. 验证最终状态
       const validatedState = validateState(finalState);
@@ -123,28 +244,7 @@ export class FoodPairingLangGraphService {
       }
 
       // 7. 提取结果
-      const pairingResult = validatedState.agent2Output as CompletePairingRecommendation | null;
-
-      if (!pairingResult) {
-        // 如果没有完整的搭配结果，尝试返回部分结果（仅菜品推荐）
-        const dishes = validatedState.agent1Output as any[] | null;
-        if (dishes && dishes.length > 0) {
-          console.warn('⚠️ 未生成完整的搭配推荐，返回部分结果（仅菜品推荐）');
-          return {
-            dishes,
-            beverages: [],
-            pairingReasons: [],
-            overallSuggestion: '抱歉，未能生成完整的酒品搭配推荐，但为您推荐了以下菜品。',
-            metadata: {
-              timestamp: new Date().toISOString(),
-              dishCount: dishes.length,
-              beverageCount: 0,
-              pairingCount: 0,
-            },
-          };
-        }
-        throw new Error('未能生成有效的推荐结果');
-      }
+      const pairingResult = this.extractResult(validatedState);
 
       const executionTime = Date.now() - startTime;
       console.log(`✅ LangGraph 执行完成，耗时 ${executionTime}ms`);
@@ -173,9 +273,405 @@ export class FoodPairingLangGraphService {
         throw enhancedError;
       }
       throw new Error(`执行失败: ${error?.message || '未知错误'}`);
+    } finally {
+      this.activeThreads.delete(threadId);
     }
   }
 
+  /**
+   * 执行图，需要用户确认菜品时在菜品推荐后中断
+   *
+   * @param input 用户输入
+   * @param options threadId：执行线程 ID，缺省时生成；sessionId：发起执行的会话
+   * @returns 执行记录，需要确认菜品时状态为 awaiting_input，dishes 为待确认的菜品
+   * @throws {Error} 如果执行失败（执行记录仍然保存，可以恢复执行）
+   */
+  async start(input: FoodPairingRequest, options: FoodPairingRunOptions = {}): Promise<FoodPairingRun> {
+    const threadId = options.threadId ?? randomUUID();
+    console.log(`🚀 开始执行 LangGraph 推荐流程（线程 ${threadId}${input.reviewDishes ? '，需要确认菜品' : ''}）...`);
+    this.validateInput(input);
+
+    const initialState = createInitialState({
+      cuisine: input.cuisine,
+      foodIngredients: input.foodIngredients,
+      drinkIngredients: input.drinkIngredients,
+      reviewDishes: input.reviewDishes,
+      dietaryRestrictions: input.dietaryRestrictions,
+      allergens: input.allergens,
+      nonAlcoholic: input.nonAlcoholic,
+    }, options.sessionId);
+
+    this.activeThreads.add(threadId);
+    try {
+      await this.buildGraph().invoke(initialState, { configurable: { thread_id: threadId } });
+    } finally {
+      this.activeThreads.delete(threadId);
+    }
+    return this.requireSettledRun(threadId);
+  }
+
+  /**
+   * 提交用户的菜品确认结果，从菜品确认节点继续执行
+   * 要求替换菜品时生成替换菜品后再次中断等待确认，否则只用保留的菜品完成酒品搭配
+   *
+   * @param sessionId 当前会话，线程属于其他会话时视为不存在
+   * @param selection 菜品确认结果（未验证的请求数据）
+   * @returns 执行记录（awaiting_input 或 completed），线程不存在时返回 null
+   * @throws {FoodPairingRunConflictError} 线程正在执行或没有等待确认菜品
+   * @throws {Error} 确认结果无效（消息以"输入验证失败"开头）或继续执行失败
+   */
+  async selectDishes(threadId: string, sessionId: string, selection: unknown): Promise<FoodPairingRun | null> {
+    const run = await this.getRun(threadId, sessionId);
+    if (!run) {
+      return null;
+    }
+    if (this.activeThreads.has(threadId)) {
+      throw new FoodPairingRunConflictError(`搭配推荐线程正在执行中: ${threadId}`);
+    }
+    if (run.status !== 'awaiting_input') {
+      throw new FoodPairingRunConflictError(`搭配推荐线程没有等待确认的菜品: ${threadId}`);
+    }
+    const parsed = this.validateDishSelection(selection, run.dishes);
+
+    console.log(`🔁 线程 ${threadId} 收到菜品确认结果，继续执行`);
+    this.activeThreads.add(threadId);
+    try {
+      await this.buildGraph().invoke(new Command({ resume: parsed }), { configurable: { thread_id: threadId } });
+    } finally {
+      this.activeThreads.delete(threadId);
+    }
+    return this.requireSettledRun(threadId);
+  }
+
+  /**
+   * 读取执行后的状态，节点执行失败时抛出错误
+   */
+  private async requireSettledRun(threadId: string): Promise<FoodPairingRun> {
+    const run = (await this.loadRun(threadId))?.run;
+    if (!run) {
+      throw new Error(`未找到执行记录: ${threadId}`);
+    }
+    if (run.status === 'failed') {
+      throw new Error(run.error || '执行失败，请稍后重试');
+    }
+    return run;
+  }
+
+  /**
+   * 以流式方式执行图，逐个产出节点级事件
+   *
+   * 同时使用三种 stream mode：
+   * - tasks：节点开始执行时产出 node_start
+   * - updates：节点执行结束时产出 node_end（菜品推荐节点附带菜品列表）
+   * - custom：酒品搭配节点通过 config.writer 推送的 LLM 增量文本
+   * 图执行结束后产出 result；需要用户确认菜品时以 awaiting_input 事件结束；
+   * 任何失败都以 error 事件结束，不会抛出异常。
+   * 图开始执行后，awaiting_input、result 和 error 事件都带有 threadId
+   *
+   * @param input 用户输入
+   * @param options threadId：执行线程 ID，缺省时生成；sessionId：发起执行的会话
+   */
+  async *stream(input: FoodPairingRequest, options: FoodPairingRunOptions = {}): AsyncGenerator<FoodPairingStreamEvent> {
+    const startTime = Date.now();
+    const threadId = options.threadId ?? randomUUID();
+    let started = false;
+    let awaitingInput = false;
+    console.log(`🚀 开始流式执行 LangGraph 推荐流程（线程 ${threadId}）...`);
+
+    try {
+      this.validateInput(input);
+
+      const initialState = createInitialState({
+        cuisine: input.cuisine,
+        foodIngredients: input.foodIngredients,
+        drinkIngredients: input.drinkIngredients,
+        reviewDishes: input.reviewDishes,
+        dietaryRestrictions: input.dietaryRestrictions,
+        allergens: input.allergens,
+        nonAlcoholic: input.nonAlcoholic,
+      }, options.sessionId);
+
+      const graph = this.buildGraph();
+      // 用节点输出累积最终状态
+      let finalState: FoodPairingState = initialState;
+
+      started = true;
+      this.activeThreads.add(threadId);
+      const stream = await graph.stream(initialState, {
+        configurable: { thread_id: threadId },
+        streamMode: ['tasks', 'updates', 'custom'],
+      });
+
+      for await (const [mode, chunk] of stream as AsyncIterable<[string, unknown]>) {
+        if (mode === 'tasks') {
+          // 任务开始事件包含 input 字段，任务结束事件包含 result 字段；酒品搭配子任务的输入包含对应的菜品
+          const task = chunk as { name: string; input?: Partial<FoodPairingState> };
+          if ('input' in task && isFoodPairingNode(task.name)) {
+            const dish = task.input?.pairingDish as DishRecommendation | null | undefined;
+            yield { type: 'node_start', node: task.name, ...(dish ? { dishId: dish.id } : {}) };
+          }
+        } else if (mode === 'updates') {
+          const updates = chunk as Record<string, Partial<FoodPairingState>>;
+          // 菜品确认节点中断时产出 __interrupt__
+          if ('__interrupt__' in updates) {
+            awaitingInput = true;
+          }
+          for (const [node, update] of Object.entries(updates)) {
+            if (!isFoodPairingNode(node)) {
+              continue;
+            }
+            finalState = { ...finalState, ...update };
+            // 酒品搭配子任务只写入自己菜品的搭配结果，失败时错误记录在结果中
+            const dishPairing = node === 'beverage_pairing' ? Object.values(update.dishPairings ?? {})[0] : undefined;
+            yield {
+              type: 'node_end',
+              node,
+              ...(dishPairing ? { dishId: dishPairing.dishId } : {}),
+              ...(node === 'dish_recommender'
+                ? { dishes: (update.agent1Output as DishRecommendation[] | null) ?? [] }
+                : {}),
+              error: update.error ?? dishPairing?.error ?? null,
+            };
+          }
+        } else if (mode === 'custom') {
+          yield chunk as FoodPairingStreamEvent;
+        }
+      }
+
+      if (awaitingInput) {
+        console.log(`⏸️ LangGraph 流式执行暂停，等待用户确认菜品（线程 ${threadId}）`);
+        yield {
+          type: 'awaiting_input',
+          threadId,
+          dishes: (finalState.agent1Output as DishRecommendation[] | null) ?? [],
+        };
+        return;
+      }
+
+      const validatedState = validateState(finalState);
+      if (validatedState.error) {
+        throw new Error(validatedState.error);
+      }
+
+      const pairingResult = this.extractResult(validatedState);
+      const executionTime = Date.now() - startTime;
+      console.log(`✅ LangGraph 流式执行完成，耗时 ${executionTime}ms`);
+
+      yield {
+        type: 'result',
+        data: pairingResult,
+        threadId,
+        metadata: {
+          executionTime,
+          timestamp: new Date().toISOString(),
+        },
+      };
+    } catch (error) {
+      console.error(`❌ LangGraph 流式执行失败，耗时 ${Date.now() - startTime}ms`, error);
+      yield {
+        type: 'error',
+        error: (error as Error)?.message || '执行失败，请稍后重试',
+        ...(started ? { threadId } : {}),
+      };
+    } finally {
+      this.activeThreads.delete(threadId);
+    }
+  }
+
+  /**
+   * 读取线程最新保存的执行状态
+   *
+   * @param sessionId 当前会话，线程属于其他会话时视为不存在
+   * @returns 执行记录，线程不存在时返回 null
+   */
+  async getRun(threadId: string, sessionId: string): Promise<FoodPairingRun | null> {
+    return (await this.loadRun(threadId, sessionId))?.run ?? null;
+  }
+
+  /**
+   * 读取线程最新保存的执行状态和图状态
+   *
+   * @param sessionId 提供时只返回属于该会话的线程；缺省时不检查（服务内部读取刚执行完的线程）
+   */
+  private async loadRun(threadId: string, sessionId?: string): Promise<{ run: FoodPairingRun; state: FoodPairingState } | null> {
+    const snapshot = await this.buildGraph().getState({ configurable: { thread_id: threadId } });
+    if (!snapshot.createdAt) {
+      return null;
+    }
+
+    const state = snapshot.values as FoodPairingState;
+    if (sessionId !== undefined && state.sessionId !== sessionId) {
+      return null;
+    }
+    const next = snapshot.next.filter(isFoodPairingNode);
+    const failedNode = state.failedNode ?? null;
+    const awaitingInput = snapshot.tasks.some((task) => task.interrupts.length > 0);
+    const status = awaitingInput
+      ? 'awaiting_input'
+      : next.length > 0 ? 'interrupted' : failedNode ? 'failed' : 'completed';
+
+    let result: CompletePairingRecommendation | null = null;
+    if (status === 'completed') {
+      try {
+        result = this.extractResult(validateState(state));
+      } catch (error) {
+        console.warn(`⚠️ 线程 ${threadId} 没有可用的推荐结果:`, (error as Error).message);
+      }
+    }
+
+    const run: FoodPairingRun = {
+      threadId,
+      status,
+      input: {
+        cuisine: state.userInput.cuisine ?? null,
+        foodIngredients: state.userInput.foodIngredients,
+        drinkIngredients: state.userInput.drinkIngredients ?? [],
+        reviewDishes: state.userInput.reviewDishes ?? false,
+        dietaryRestrictions: state.userInput.dietaryRestrictions ?? [],
+        allergens: state.userInput.allergens ?? [],
+        nonAlcoholic: state.userInput.nonAlcoholic ?? false,
+      },
+      next,
+      failedNode,
+      error: state.error ?? null,
+      dishes: (state.agent1Output as DishRecommendation[] | null) ?? [],
+      result,
+      updatedAt: snapshot.createdAt,
+    };
+    return { run, state };
+  }
+
+  /**
+   * 从线程保存的状态恢复执行
+   *
+   * - 执行中断（服务重启等）：从待执行的节点继续
+   * - 节点执行失败：清除错误后只重新执行失败的节点，已完成节点的输出（如菜品推荐）直接复用；
+   *   第一个节点（菜品推荐）失败时用保存的用户输入重新执行，生成替换菜品失败时只重新生成替换菜品
+   * - 已完成：直接返回保存的结果，不重新执行
+   * - 等待确认菜品：不能恢复，需要通过 selectDishes 提交确认结果
+   *
+   * 需要用户确认菜品的线程重新生成菜品后会再次中断，此时返回 awaiting_input 状态和待确认的菜品，result 为 null
+   *
+   * @param sessionId 当前会话，线程属于其他会话时视为不存在
+   * @returns 执行状态、推荐方案、用户输入和重新执行的第一个节点（已完成时为 null），线程不存在时返回 null
+   * @throws {FoodPairingRunConflictError} 线程正在执行或等待确认菜品
+   * @throws {Error} 恢复后仍然执行失败
+   */
+  async resume(threadId: string, sessionId: string): Promise<{
+    status: 'completed' | 'awaiting_input';
+    result: CompletePairingRecommendation | null;
+    dishes: DishRecommendation[];
+    input: FoodPairingRun['input'];
+    resumedNode: FoodPairingNodeName | null;
+  } | null> {
+    const loaded = await this.loadRun(threadId, sessionId);
+    if (!loaded) {
+      return null;
+    }
+    if (this.activeThreads.has(threadId)) {
+      throw new FoodPairingRunConflictError(`搭配推荐线程正在执行中: ${threadId}`);
+    }
+    const { run, state } = loaded;
+    if (run.status === 'awaiting_input') {
+      throw new FoodPairingRunConflictError(`搭配推荐线程正在等待确认菜品: ${threadId}`);
+    }
+    if (run.status === 'completed' && run.result) {
+      console.log(`✅ 线程 ${threadId} 已执行完成，直接返回保存的结果`);
+      return { status: 'completed', result: run.result, dishes: run.dishes, input: run.input, resumedNode: null };
+    }
+
+    const graph = this.buildGraph();
+    const config = { configurable: { thread_id: threadId } };
+    const startTime = Date.now();
+    this.activeThreads.add(threadId);
+
+    try {
+      let resumedNode: FoodPairingNodeName;
+      let finalState;
+      if (run.status === 'interrupted') {
+        // 传入 null 时从最新的检查点继续执行待执行的节点
+        resumedNode = run.next[0];
+        console.log(`🔁 线程 ${threadId} 从 ${resumedNode} 节点继续执行`);
+        finalState = await graph.invoke(null, config);
+      } else if (run.failedNode && this.previousNode(run.failedNode, state)) {
+        // 以上一个节点的名义清除错误，图的下一步即为失败的节点
+        resumedNode = run.failedNode;
+        console.log(`🔁 线程 ${threadId} 重新执行失败的 ${resumedNode} 节点`);
+        const resumeConfig = await graph.updateState(
+          config,
+          { error: null, failedNode: null, dishPairings: null, agent2Output: null },
+          this.previousNode(run.failedNode, state)
+        );
+        finalState = await graph.invoke(null, resumeConfig);
+      } else {
+        // 菜品推荐节点失败，没有可复用的节点输出，用保存的输入重新执行
+        resumedNode = 'dish_recommender';
+        console.log(`🔁 线程 ${threadId} 用保存的输入重新执行`);
+        finalState = await graph.invoke(createInitialState(run.input, state.sessionId), config);
+      }
+
+      const resumedRun = (await this.loadRun(threadId))?.run;
+      if (resumedRun?.status === 'awaiting_input') {
+        console.log(`⏸️ 线程 ${threadId} 重新生成菜品，等待用户确认`);
+        return { status: 'awaiting_input', result: null, dishes: resumedRun.dishes, input: run.input, resumedNode };
+      }
+
+      const validatedState = validateState(finalState);
+      if (validatedState.error) {
+        throw new Error(validatedState.error);
+      }
+
+      const result = this.extractResult(validatedState);
+      console.log(`✅ 线程 ${threadId} 恢复执行完成，耗时 ${Date.now() - startTime}ms`);
+      return { status: 'completed', result, dishes: result.dishes, input: run.input, resumedNode };
+    } finally {
+      this.activeThreads.delete(threadId);
+    }
+  }
+
+  /**
+   * 失败节点的上一个节点；生成替换菜品失败时为菜品确认节点
+   */
+  private previousNode(node: FoodPairingNodeName, state: FoodPairingState): FoodPairingNodeName | undefined {
+    if (node === 'dish_recommender' && state.dishReview?.replacements) {
+      return 'dish_selection';
+    }
+    return PREVIOUS_NODE[node];
+  }
+
+  /**
+   * 从最终状态中提取推荐结果
+   * 没有完整的搭配结果时，返回仅包含菜品推荐的部分结果
+   *
+   * @throws {Error} 如果菜品推荐也为空
+   */
+  private extractResult(state: FoodPairingState): CompletePairingRecommendation {
+    const pairingResult = state.agent2Output as CompletePairingRecommendation | null;
+    if (pairingResult) {
+      return pairingResult;
+    }
+
+    // 如果没有完整的搭配结果，尝试返回部分结果（仅菜品推荐）
+    const dishes = state.agent1Output as DishRecommendation[] | null;
+    if (dishes && dishes.length > 0) {
+      console.warn('⚠️ 未生成完整的搭配推荐，返回部分结果（仅菜品推荐）');
+      return {
+        dishes,
+        beverages: [],
+        pairingReasons: [],
+        overallSuggestion: '抱歉，未能生成完整的酒品搭配推荐，但为您推荐了以下菜品。',
+        metadata: {
+          timestamp: new Date().toISOString(),
+          dishCount: dishes.length,
+          beverageCount: 0,
+          pairingCount: 0,
+          dietary: resolveDietaryPreferences(state.userInput),
+        },
+      };
+    }
+    throw new Error('未能生成有效的推荐结果');
+  }
+
   /**
    * 获取服务状态信息
    * 
@@ -192,6 +688,13 @@ export class FoodPairingLangGraphService {
   }
 }
 
+/**
+ * 判断节点名称是否为搭配推荐图中的节点
+ */
+function isFoodPairingNode(name: string): name is FoodPairingNodeName {
+  return FOOD_PAIRING_NODES.includes(name as FoodPairingNodeName);
+}
+
 /**
  * 单例实例
  * 可以在整个应用中共享使用
@@ -0,0 +1,102 @@
+/**
+ * Anthropic Provider
+ *
+ * 通过 HTTP 调用 Anthropic Messages API（POST /v1/messages）
+ */
+
+import { assertOk, readLines } from './httpStream';
+import type { LLMChatRequest, LLMProvider } from './types';
+
+export interface AnthropicProviderConfig {
+  apiKey: string;
+  baseURL: string;
+  model: string;
+}
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+  private apiKey: string;
+  private baseURL: string;
+
+  constructor(config: AnthropicProviderConfig) {
+    this.apiKey = config.apiKey;
+    this.baseURL = config.baseURL.replace(/\/$/, '');
+    this.model = config.model;
+  }
+
+  async chat(request: LLMChatRequest): Promise<string> {
+    if (!this.apiKey) {
+      throw new Error('ANTHROPIC_API_KEY 未配置。请在环境变量中配置有效的 Anthropic API 密钥。');
+    }
+
+    // Messages API 的 system 提示词是独立参数，不放在 messages 中
+    // 该接口没有 JSON 模式，依靠提示词约束输出格式
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+    const messages = request.messages
+      .filter((message) => message.role !== 'system')
+      .map((message) => ({ role: message.role, content: message.content }));
+
+    const response = await fetch(`${this.baseURL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model || this.model,
+        max_tokens: request.maxTokens ?? 2000,
+        temperature: request.temperature ?? 0.7,
+        ...(system ? { system } : {}),
+        messages,
+        stream: Boolean(request.onDelta),
+      }),
+    });
+    await assertOk(response, 'Anthropic');
+
+    let content = '';
+    if (request.onDelta && response.body) {
+      const onDelta = request.onDelta;
+      await readLines(response.body, (line) => {
+        if (!line.startsWith('data:')) return;
+        const event = JSON.parse(line.slice(5));
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          content += event.delta.text;
+          onDelta(event.delta.text);
+        }
+      });
+    } else {
+      const data: { content?: Array<{ type: string; text?: string }> } = await response.json();
+      content = (data.content || [])
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text || '')
+        .join('');
+    }
+
+    if (!content) {
+      throw new Error('LLM 返回内容为空');
+    }
+    return content;
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseURL}/v1/models`, {
+        headers: {
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+      });
+      return response.ok;
+    } catch (error) {
+      console.error('LLM API连接测试失败:', error);
+      return false;
+    }
+  }
+}
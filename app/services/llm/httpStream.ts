@@ -0,0 +1,40 @@
+/**
+ * 按行读取 HTTP 流式响应
+ * 供基于 fetch 的 Provider 解析 SSE（Anthropic）和 NDJSON（Ollama）响应
+ */
+export async function readLines(
+  body: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) {
+        onLine(line.trim());
+      }
+    }
+  }
+
+  if (buffer.trim()) {
+    onLine(buffer.trim());
+  }
+}
+
+/**
+ * 检查 HTTP 响应状态，失败时抛出包含响应内容的错误
+ */
+export async function assertOk(response: Response, providerName: string): Promise<void> {
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`${providerName} 请求失败 (${response.status}): ${text.slice(0, 500)}`);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * LLM Provider 工厂
+ *
+ * 根据环境变量 LLM_PROVIDER 创建 Provider，整个应用共享同一个实例
+ */
+
+import { env } from '../../lib/env';
+import { AnthropicProvider } from './anthropicProvider';
+import { MockProvider } from './mockProvider';
+import { OllamaProvider } from './ollamaProvider';
+import { OpenAIProvider } from './openaiProvider';
+import type { LLMProvider, LLMProviderName } from './types';
+
+export type { LLMChatRequest, LLMMessage, LLMProvider, LLMProviderName } from './types';
+
+/**
+ * 根据名称创建 Provider
+ *
+ * @param name Provider 名称，缺省时使用 env.LLM_PROVIDER
+ */
+export function createLLMProvider(name: LLMProviderName = env.LLM_PROVIDER): LLMProvider {
+  switch (name) {
+    case 'anthropic':
+      return new AnthropicProvider({
+        apiKey: env.ANTHROPIC_API_KEY,
+        baseURL: env.ANTHROPIC_BASE_URL,
+        model: env.ANTHROPIC_MODEL,
+      });
+    case 'ollama':
+      return new OllamaProvider({
+        baseURL: env.OLLAMA_BASE_URL,
+        model: env.OLLAMA_MODEL,
+      });
+    case 'mock':
+      return new MockProvider({ fixturesDir: env.LLM_MOCK_FIXTURES_DIR });
+    case 'openai':
+      return new OpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        baseURL: env.OPENAI_BASE_URL,
+        model: env.LLM_MODEL,
+      });
+    default:
+      throw new Error(`不支持的 LLM_PROVIDER: ${name}`);
+  }
+}
+
+/**
+ * 单例实例
+ */
+let providerInstance: LLMProvider | null = null;
+
+/**
+ * 获取 Provider 单例实例
+ *
+ * @returns 当前配置的 LLMProvider
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!providerInstance) {
+    providerInstance = createLLMProvider();
+    console.log(`🤖 使用 LLM Provider: ${providerInstance.name}（模型: ${providerInstance.model}）`);
+  }
+  return providerInstance;
+}
@@ -0,0 +1,170 @@
+/**
+ * mock Provider 的固定数据
+ *
+ * 按任务标识（LLMChatRequest.task）返回固定的模型输出，
+ * 输出格式与各节点提示词要求的 JSON 一致，可以通过 Schema 校验
+ */
+
+import type { LLMMessage } from './types';
+
+/**
+ * 根据请求消息生成固定输出
+ */
+type FixtureBuilder = (messages: LLMMessage[]) => unknown;
+
+/**
+ * 提取提示词中 "[ID: xxx]" 形式给出的菜品 ID
+ * 酒品搭配的搭配理由需要引用上一步推荐的真实菜品 ID
+ */
+function extractDishIds(messages: LLMMessage[]): string[] {
+  const prompt = messages.filter((message) => message.role === 'user').map((message) => message.content).join('\n');
+  return Array.from(prompt.matchAll(/\[ID: ([^\]]+)\]/g), (match) => match[1]);
+}
+
+/**
+ * 提取提示词中 "[C1]" 形式给出的知识库片段编号
+ */
+function extractCitationLabels(messages: LLMMessage[]): string[] {
+  const prompt = messages.filter((message) => message.role === 'user').map((message) => message.content).join('\n');
+  return Array.from(prompt.matchAll(/\[(C\d+)\]/g), (match) => match[1]);
+}
+
+const MOCK_COCKTAILS = [
+  {
+    id: 'mock-beverage-1',
+    name: '金汤力',
+    description: '清爽的杜松子酒与汤力水，适合搭配口味浓重的菜肴',
+    ingredients: ['金酒 45ml', '汤力水 120ml', '青柠 1角'],
+    steps: ['杯中加满冰块', '倒入金酒', '补满汤力水并轻轻搅拌', '挤入青柠汁并放入青柠角'],
+    category: '高球',
+    glassType: '高球杯',
+    technique: '直调',
+    garnish: '青柠角',
+    difficulty: 1,
+    estimatedTime: 3,
+    tags: ['清爽', '经典'],
+  },
+  {
+    id: 'mock-beverage-2',
+    name: '威士忌酸',
+    description: '酸甜平衡的经典酸酒，能够中和油腻',
+    ingredients: ['波本威士忌 50ml', '柠檬汁 25ml', '糖浆 15ml'],
+    steps: ['将所有原料倒入摇酒壶', '加冰用力摇和 15 秒', '滤入装有冰块的古典杯'],
+    category: '酸酒',
+    glassType: '古典杯',
+    technique: '摇和',
+    garnish: '柠檬皮',
+    difficulty: 2,
+    estimatedTime: 5,
+    tags: ['经典', '酸甜'],
+  },
+  {
+    id: 'mock-beverage-3',
+    name: '莫吉托',
+    description: '薄荷与青柠带来清凉口感，适合辛辣菜品',
+    ingredients: ['白朗姆酒 45ml', '青柠 半个', '薄荷叶 8片', '糖浆 15ml', '苏打水 60ml'],
+    steps: ['在杯中轻轻捣压薄荷叶、青柠和糖浆', '加入碎冰和朗姆酒', '补满苏打水并搅拌'],
+    category: '高球',
+    glassType: '高球杯',
+    technique: '捣压',
+    garnish: '薄荷枝',
+    difficulty: 2,
+    estimatedTime: 5,
+    tags: ['清凉', '夏日'],
+  },
+];
+
+const FIXTURES: Record<string, FixtureBuilder> = {
+  dish_recommendation: () => ({
+    dishes: [
+      {
+        id: 'mock-dish-1',
+        name: '土豆烧牛肉',
+        description: '牛肉软烂、土豆绵密的家常炖菜',
+        cuisine: '家常菜',
+        requiredIngredients: ['牛肉 500g', '土豆 2个', '洋葱 1个', '生抽 2勺'],
+        cookingTime: 90,
+        difficulty: 2,
+        steps: ['牛肉切块焯水', '炒香洋葱后下牛肉翻炒', '加水和调料小火炖 1 小时', '放入土豆炖至软烂'],
+        tags: ['炖菜', '下饭'],
+      },
+      {
+        id: 'mock-dish-2',
+        name: '黑椒牛柳',
+        description: '黑胡椒香气浓郁的快炒牛柳',
+        cuisine: '粤菜',
+        requiredIngredients: ['牛里脊 300g', '洋葱 半个', '黑胡椒 适量', '蚝油 1勺'],
+        cookingTime: 25,
+        difficulty: 3,
+        steps: ['牛柳切条腌制 15 分钟', '大火滑炒牛柳至变色盛出', '炒香洋葱后回锅牛柳', '加入黑胡椒和蚝油翻炒均匀'],
+        tags: ['快手菜'],
+      },
+    ],
+  }),
+
+  beverage_pairing: (messages) => {
+    const dishIds = extractDishIds(messages);
+    const labels = extractCitationLabels(messages);
+    const beverages = MOCK_COCKTAILS.slice(0, Math.max(1, Math.min(dishIds.length, MOCK_COCKTAILS.length)));
+    return {
+      beverages: beverages.map((beverage, index) => ({
+        ...beverage,
+        citations: labels.length > 0 ? [labels[index % labels.length]] : [],
+      })),
+      pairingReasons: beverages.map((beverage, index) => ({
+        id: `mock-reason-${index + 1}`,
+        dishId: dishIds[index] || '',
+        beverageId: beverage.id,
+        reason: `${beverage.name}的${beverage.tags[0]}口感可以平衡菜品的浓郁风味`,
+        pairingType: '平衡',
+        score: 8,
+      })),
+      overallSuggestion: '以清爽或酸甜的鸡尾酒搭配浓郁的肉类菜肴，可以解腻并突出菜品香气。',
+    };
+  },
+
+  pairing_summary: () => ({
+    overallSuggestion: '先以清爽的高球类鸡尾酒开胃，搭配口味较重的菜肴时换成酸甜的酸酒，整桌酒品从清淡到浓郁依次安排。',
+  }),
+
+  flavor_profile: () => ({
+    cuisine: '家常菜',
+    flavors: ['咸鲜', '酱香', '微甜'],
+    intensity: 3,
+    summary: '整体风味咸鲜适中，适合搭配酸度明显、口感清爽的鸡尾酒。',
+  }),
+
+  cocktail_pairing: () => ({
+    recommendations: MOCK_COCKTAILS,
+    pairingReasons: MOCK_COCKTAILS.map((cocktail, index) => ({
+      id: `mock-reason-${index + 1}`,
+      beverageId: cocktail.id,
+      reason: `${cocktail.name}的${cocktail.tags[0]}口感与菜系的咸鲜风味形成互补`,
+      pairingType: '互补',
+      score: 8 - index,
+    })),
+    overallSuggestion: '优先选择酸度明显的鸡尾酒来平衡咸鲜风味。',
+  }),
+
+  cocktail_recipes: (messages) => {
+    const labels = extractCitationLabels(messages);
+    return {
+      // /api/recommend 的配方没有 ID，由路由补充
+      recipes: MOCK_COCKTAILS.map((cocktail, index) => ({
+        ...cocktail,
+        id: undefined,
+        citations: labels.length > 0 ? [labels[index % labels.length]] : [],
+      })),
+    };
+  },
+};
+
+/**
+ * 获取任务的固定输出
+ *
+ * @returns JSON 文本；没有对应固定数据时返回 null
+ */
+export function getMockFixture(task: string, messages: LLMMessage[]): string | null {
+  const builder = FIXTURES[task];
+  return builder ? JSON.stringify(builder(messages)) : null;
+}
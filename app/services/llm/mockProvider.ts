@@ -0,0 +1,62 @@
+/**
+ * mock Provider
+ *
+ * 不访问网络，按任务标识返回固定数据，输出完全确定，
+ * 用于离线开发、演示和测试（LLM_PROVIDER=mock）
+ *
+ * 设置 LLM_MOCK_FIXTURES_DIR 后，优先读取该目录下的 <task>.json 作为模型输出
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { getMockFixture } from './mockFixtures';
+import type { LLMChatRequest, LLMProvider } from './types';
+
+/**
+ * 流式输出时每段文本的长度
+ */
+const STREAM_CHUNK_SIZE = 40;
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly model = 'mock';
+  private fixturesDir?: string;
+
+  constructor(config: { fixturesDir?: string } = {}) {
+    this.fixturesDir = config.fixturesDir;
+  }
+
+  async chat(request: LLMChatRequest): Promise<string> {
+    const task = request.task;
+    if (!task) {
+      throw new Error('mock Provider 需要请求提供任务标识（task）');
+    }
+
+    const content = this.readFixtureFile(task) ?? getMockFixture(task, request.messages);
+    if (content === null) {
+      throw new Error(`mock Provider 没有任务 "${task}" 的固定数据`);
+    }
+
+    if (request.onDelta) {
+      for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+        request.onDelta(content.slice(i, i + STREAM_CHUNK_SIZE));
+      }
+    }
+    return content;
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * 读取自定义固定数据文件
+   */
+  private readFixtureFile(task: string): string | null {
+    if (!this.fixturesDir) {
+      return null;
+    }
+    const filePath = path.join(this.fixturesDir, `${task}.json`);
+    return existsSync(filePath) ? readFileSync(filePath, 'utf-8') : null;
+  }
+}
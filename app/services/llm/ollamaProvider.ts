@@ -0,0 +1,74 @@
+/**
+ * Ollama Provider
+ *
+ * 通过 HTTP 调用本地 Ollama 服务（POST /api/chat），不需要 API 密钥
+ */
+
+import { assertOk, readLines } from './httpStream';
+import type { LLMChatRequest, LLMProvider } from './types';
+
+export interface OllamaProviderConfig {
+  baseURL: string;
+  model: string;
+}
+
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama' as const;
+  readonly model: string;
+  private baseURL: string;
+
+  constructor(config: OllamaProviderConfig) {
+    this.baseURL = config.baseURL.replace(/\/$/, '');
+    this.model = config.model;
+  }
+
+  async chat(request: LLMChatRequest): Promise<string> {
+    const response = await fetch(`${this.baseURL}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: request.model || this.model,
+        messages: request.messages,
+        stream: Boolean(request.onDelta),
+        ...(request.jsonMode ? { format: 'json' } : {}),
+        options: {
+          temperature: request.temperature ?? 0.7,
+          num_predict: request.maxTokens ?? 2000,
+        },
+      }),
+    });
+    await assertOk(response, 'Ollama');
+
+    let content = '';
+    if (request.onDelta && response.body) {
+      // 流式响应为 NDJSON，每行一个 { message: { content }, done } 对象
+      const onDelta = request.onDelta;
+      await readLines(response.body, (line) => {
+        const chunk = JSON.parse(line);
+        const delta: string | undefined = chunk.message?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+      });
+    } else {
+      const data: { message?: { content?: string } } = await response.json();
+      content = data.message?.content || '';
+    }
+
+    if (!content) {
+      throw new Error('LLM 返回内容为空');
+    }
+    return content;
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseURL}/api/tags`);
+      return response.ok;
+    } catch (error) {
+      console.error('LLM API连接测试失败:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * OpenAI 兼容 Provider
+ *
+ * 适用于 OpenAI 以及所有兼容 OpenAI Chat Completions 接口的服务
+ */
+
+import OpenAI from 'openai';
+import type { LLMChatRequest, LLMProvider } from './types';
+
+export interface OpenAIProviderConfig {
+  apiKey: string;
+  baseURL?: string;
+  model: string;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  private client: OpenAI;
+  private apiKey: string;
+  /**
+   * 服务是否支持 JSON 模式（response_format: json_object）
+   * 首次被服务端拒绝后关闭，之后的请求直接使用普通文本模式
+   */
+  private jsonModeSupported = true;
+
+  constructor(config: OpenAIProviderConfig) {
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+    });
+  }
+
+  async chat(request: LLMChatRequest): Promise<string> {
+    if (!this.apiKey || this.apiKey.includes('your_openai_api_key')) {
+      throw new Error('OPENAI_API_KEY 未配置或无效。请在环境变量中配置有效的 OpenAI API 密钥。');
+    }
+
+    const params = {
+      model: request.model || this.model,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 2000,
+      ...(request.jsonMode && this.jsonModeSupported
+        ? { response_format: { type: 'json_object' as const } }
+        : {}),
+    };
+
+    try {
+      let content = '';
+      if (request.onDelta) {
+        const stream = await this.client.chat.completions.create({ ...params, stream: true });
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            request.onDelta(delta);
+          }
+        }
+      } else {
+        const response = await this.client.chat.completions.create(params);
+        content = response.choices[0]?.message?.content || '';
+      }
+
+      if (!content) {
+        throw new Error('LLM 返回内容为空');
+      }
+      return content;
+    } catch (error) {
+      if (request.jsonMode && this.jsonModeSupported && error instanceof OpenAI.APIError
+        && error.status === 400 && /response_format|json_object/i.test(error.message)) {
+        console.warn('⚠️ LLM 服务不支持 JSON 模式，改用普通文本模式');
+        this.jsonModeSupported = false;
+        return this.chat(request);
+      }
+      throw error;
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.client.models.list();
+      return true;
+    } catch (error) {
+      console.error('LLM API连接测试失败:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * LLM Provider 接口定义
+ *
+ * 鸡尾酒推荐（LLMService）和 LangGraph 节点都通过 LLMProvider 调用模型，
+ * 具体使用哪个 Provider 由环境变量 LLM_PROVIDER 决定
+ */
+
+/**
+ * 支持的 Provider 名称
+ * - openai：OpenAI 及兼容 OpenAI 接口的服务（通过 OPENAI_BASE_URL 切换）
+ * - anthropic：Anthropic Messages API
+ * - ollama：本地 Ollama 等 HTTP 服务
+ * - mock：基于固定数据的离线 Provider，不访问网络
+ */
+export type LLMProviderName = 'openai' | 'anthropic' | 'ollama' | 'mock';
+
+/**
+ * 对话消息
+ */
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * 对话请求
+ */
+export interface LLMChatRequest {
+  messages: LLMMessage[];
+  /** 模型名称，缺省时使用 Provider 的默认模型 */
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** 要求模型只输出 JSON 对象（Provider 不支持时忽略） */
+  jsonMode?: boolean;
+  /** 任务标识，如 "dish_recommendation"，mock Provider 据此选择固定数据 */
+  task?: string;
+  /** 提供时以流式方式请求，每收到一段文本回调一次 */
+  onDelta?: (delta: string) => void;
+}
+
+/**
+ * LLM Provider
+ */
+export interface LLMProvider {
+  /** Provider 名称 */
+  readonly name: LLMProviderName;
+  /** 默认模型 */
+  readonly model: string;
+
+  /**
+   * 发送对话请求并返回模型输出的完整文本
+   *
+   * @throws {Error} 请求失败或模型返回内容为空
+   */
+  chat(request: LLMChatRequest): Promise<string>;
+
+  /**
+   * 测试与模型服务的连接
+   */
+  testConnection(): Promise<boolean>;
+}
@@ -1,5 +1,10 @@
-import OpenAI from 'openai';
 import { env } from '../lib/env';
+import { generateStructuredOutput } from './structuredOutput';
+import { CocktailRecipeListSchema, type CocktailRecipeOutput } from './recommendationSchemas';
+import { getLLMProvider, type LLMProvider, type LLMProviderName } from './llm/llmProvider';
+import { OpenAIProvider } from './llm/openaiProvider';
+import { formatKnowledgeContext, resolveCitations } from './knowledgeContext';
+import type { KnowledgeContext, RecipeCitation } from '../types';
 
 interface LLMConfig {
   apiKey: string;
@@ -7,35 +12,30 @@ interface LLMConfig {
   model: string;
 }
 
+// 鸡尾酒配方推荐结果，citations 为配方参考的知识库来源
+export type CocktailRecipeRecommendation = Omit<CocktailRecipeOutput, 'citations'> & {
+  citations: RecipeCitation[];
+};
+
 export class LLMService {
-  private openai: OpenAI;
-  private config: LLMConfig;
+  private provider: LLMProvider;
 
+  // 显式传入配置时使用 OpenAI 兼容 Provider，否则使用 LLM_PROVIDER 配置的共享 Provider
   constructor(config?: Partial<LLMConfig>) {
-    this.config = {
-      apiKey: config?.apiKey || env.OPENAI_API_KEY,
-      baseURL: config?.baseURL || env.OPENAI_BASE_URL,
-      model: config?.model || env.LLM_MODEL,
-    };
-
-    this.openai = new OpenAI({
-      apiKey: this.config.apiKey,
-      baseURL: this.config.baseURL,
-    });
+    this.provider = config ? createOpenAIProvider(config) : getLLMProvider();
   }
 
-  // 生成鸡尾酒推荐
-  async generateRecommendations(ingredients: string[]): Promise<any[]> {
+  // 生成鸡尾酒推荐，提供知识库片段时要求模型以知识库为依据并标注引用
+  async generateRecommendations(
+    ingredients: string[],
+    context: KnowledgeContext[] = []
+  ): Promise<CocktailRecipeRecommendation[]> {
     try {
-      // 验证配置
-      if (!this.config.apiKey || this.config.apiKey === '' || this.config.apiKey.includes('your_openai_api_key')) {
-        throw new Error('OPENAI_API_KEY 未配置或无效。请在环境变量中配置有效的 OpenAI API 密钥。');
-      }
-
-      const prompt = this.buildRecommendationPrompt(ingredients);
+      const prompt = this.buildRecommendationPrompt(ingredients, context);
 
-      const response = await this.openai.chat.completions.create({
-        model: this.config.model,
+      const output = await generateStructuredOutput({
+        provider: this.provider,
+        task: 'cocktail_recipes',
         messages: [
           {
             role: 'system',
@@ -46,16 +46,16 @@ export class LLMService {
             content: prompt
           }
         ],
+        schema: CocktailRecipeListSchema,
+        label: '鸡尾酒推荐',
         temperature: 0.7,
-        max_tokens: 2000,
+        maxTokens: 2000,
       });
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('LLM 返回内容为空');
-      }
-
-      return this.parseRecommendations(content);
+      return output.recipes.map((recipe) => ({
+        ...recipe,
+        citations: resolveCitations(recipe.citations, context),
+      }));
     } catch (error: any) {
       console.error('LLM推荐生成失败:', error);
 
@@ -81,139 +81,68 @@ export class LLMService {
   }
 
   // 构建推荐提示词
-  private buildRecommendationPrompt(ingredients: string[]): string {
-    return `基于以下原料，推荐3-5个适合的鸡尾酒配方：
+  private buildRecommendationPrompt(ingredients: string[], context: KnowledgeContext[]): string {
+    const knowledgeSection = context.length > 0
+      ? `
+${formatKnowledgeContext(context)}
 
+请优先参考知识库中的配方，配方内容应以知识库信息为依据；在 citations 中列出该配方参考的知识库片段编号（如 ["C1"]），没有参考任何片段时返回空数组。
+`
+      : '';
+
+    return `基于以下原料，推荐3-5个适合的鸡尾酒配方：
+${knowledgeSection}
 原料列表：${ingredients.join('、')}
 
-请为每个推荐提供以下信息（JSON格式）：
+请返回以下 JSON 格式：
 {
-  "name": "鸡尾酒名称",
-  "description": "简短描述",
-  "ingredients": ["原料1 用量", "原料2 用量", ...],
-  "steps": ["步骤1", "步骤2", ...],
-  "difficulty": 1-5,
-  "estimatedTime": 分钟数,
-  "category": "分类",
-  "glassType": "杯型",
-  "technique": "调制技巧",
-  "garnish": "装饰"
+  "recipes": [
+    {
+      "name": "鸡尾酒名称",
+      "description": "简短描述",
+      "ingredients": ["原料1 用量", "原料2 用量", ...],
+      "steps": ["步骤1", "步骤2", ...],
+      "difficulty": 1-5,
+      "estimatedTime": 分钟数,
+      "category": "分类",
+      "glassType": "杯型",
+      "technique": "调制技巧",
+      "garnish": "装饰"${context.length > 0 ? `,
+      "citations": ["C1"]` : ''}
+    }
+  ]
 }
 
 请确保：
 1. 配方中的原料尽量使用用户提供的原料
 2. 难度等级：1=简单，2=容易，3=中等，4=困难，5=专家
 3. 制作步骤要详细清晰
-4. 返回有效的JSON数组格式`;
+4. 只返回有效的JSON对象，不要包含其他内容`;
   }
 
-  // 解析推荐结果
-  private parseRecommendations(content: string | null): any[] {
-    if (!content) return [];
-
-    try {
-      // 尝试直接解析JSON
-      const jsonMatch = content.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-
-      // 如果直接解析失败，尝试提取JSON
-      return this.extractFromText(content);
-    } catch (error) {
-      console.error('解析推荐结果失败:', error);
-      return this.extractFromText(content);
-    }
-  }
-
-  // 从文本中提取配方信息
-  private extractFromText(content: string): any[] {
-    const recipes = [];
-    const lines = content.split('\n');
-    let currentRecipe: any = null;
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-
-      if (trimmedLine.includes('"name"') || trimmedLine.includes('鸡尾酒名称')) {
-        if (currentRecipe) recipes.push(currentRecipe);
-        currentRecipe = {
-          name: '',
-          description: '',
-          ingredients: [],
-          steps: [],
-          difficulty: 1,
-          estimatedTime: 0,
-          category: '经典',
-          glassType: '古典杯',
-          technique: '摇和',
-          garnish: ''
-        };
-      }
-
-      if (currentRecipe) {
-        if (trimmedLine.includes('"name"') && trimmedLine.includes(':')) {
-          currentRecipe.name = this.extractValue(trimmedLine);
-        } else if (trimmedLine.includes('"description"') && trimmedLine.includes(':')) {
-          currentRecipe.description = this.extractValue(trimmedLine);
-        } else if (trimmedLine.includes('"ingredients"') && trimmedLine.includes('[')) {
-          // 处理原料数组
-          const ingredientsMatch = content.match(/"ingredients":\s*\[([\s\S]*?)\]/);
-          if (ingredientsMatch) {
-            currentRecipe.ingredients = this.parseArray(ingredientsMatch[1]);
-          }
-        } else if (trimmedLine.includes('"steps"') && trimmedLine.includes('[')) {
-          // 处理步骤数组
-          const stepsMatch = content.match(/"steps":\s*\[([\s\S]*?)\]/);
-          if (stepsMatch) {
-            currentRecipe.steps = this.parseArray(stepsMatch[1]);
-          }
-        } else if (trimmedLine.includes('"difficulty"') && trimmedLine.includes(':')) {
-          currentRecipe.difficulty = parseInt(this.extractValue(trimmedLine)) || 1;
-        } else if (trimmedLine.includes('"estimatedTime"') && trimmedLine.includes(':')) {
-          currentRecipe.estimatedTime = parseInt(this.extractValue(trimmedLine)) || 0;
-        }
-      }
-    }
-
-    if (currentRecipe) recipes.push(currentRecipe);
-    return recipes;
-  }
-
-  private extractValue(line: string): string {
-    const match = line.match(/:\s*["']?([^"',\]]+)["']?/);
-    return match ? match[1].trim() : '';
-  }
-
-  private parseArray(arrayStr: string): string[] {
-    const items = arrayStr.split(',').map(item =>
-      item.trim().replace(/^["']|["']$/g, '')
-    );
-    return items.filter(item => item.length > 0);
-  }
-
-  // 更新配置
+  // 更新配置（切换为使用指定配置的 OpenAI 兼容 Provider）
   updateConfig(newConfig: Partial<LLMConfig>) {
-    this.config = { ...this.config, ...newConfig };
-    this.openai = new OpenAI({
-      apiKey: this.config.apiKey,
-      baseURL: this.config.baseURL,
-    });
+    this.provider = createOpenAIProvider(newConfig);
   }
 
   // 获取当前配置
-  getConfig(): LLMConfig {
-    return { ...this.config };
+  getConfig(): { provider: LLMProviderName; model: string } {
+    return {
+      provider: this.provider.name,
+      model: this.provider.model,
+    };
   }
 
   // 测试连接
   async testConnection(): Promise<boolean> {
-    try {
-      await this.openai.models.list();
-      return true;
-    } catch (error) {
-      console.error('LLM API连接测试失败:', error);
-      return false;
-    }
+    return this.provider.testConnection();
   }
 }
+
+function createOpenAIProvider(config: Partial<LLMConfig>): OpenAIProvider {
+  return new OpenAIProvider({
+    apiKey: config.apiKey || env.OPENAI_API_KEY,
+    baseURL: config.baseURL || env.OPENAI_BASE_URL,
+    model: config.model || env.LLM_MODEL,
+  });
+}
@@ -1,5 +1,26 @@
-import { MilvusClient } from '@zilliz/milvus2-sdk-node';
+import { DataType, MilvusClient } from '@zilliz/milvus2-sdk-node';
 import { env } from '../lib/env';
+import { EmbeddingDimensionError } from './embeddings/types';
+import type { VectorChunkMetadata, VectorSearchResult } from './vectorStore/types';
+
+/**
+ * 检索结果
+ */
+export type MilvusSearchResult = VectorSearchResult;
+
+/**
+ * search 返回的原始行（output_fields 中的字段）
+ */
+interface MilvusSearchRow {
+  id: string;
+  score: number;
+  text: string;
+  document_id: string;
+  chunk_id: string;
+  file_name: string;
+  page_number: number | string;
+  metadata: VectorChunkMetadata;
+}
 
 export class MilvusService {
   private client: MilvusClient;
@@ -28,24 +49,62 @@ export class MilvusService {
     }
   }
 
+  // 集合是否存在
+  async hasCollection(): Promise<boolean> {
+    if (!this.isConnected) {
+      await this.connect();
+    }
+
+    const result = await this.client.hasCollection({
+      collection_name: this.collectionName,
+    });
+    return Boolean(result.value);
+  }
+
   // 创建集合
-  async createCollection(): Promise<void> {
+  // 除向量和文本外，文本块元数据（文档 ID、文本块 ID、文件名、页码）保存为独立的标量字段，完整元数据保存在 metadata（JSON）中。
+  // 生成向量的模型记录在集合描述中，集合已存在时检查模型和维度，不一致时拒绝写入
+  async createCollection(dimension: number, embeddingModel: string): Promise<void> {
+    const description = `embedding_model=${embeddingModel}`;
     try {
-      // 检查集合是否存在
-      const hasCollection = await this.client.hasCollection({
-        collection_name: this.collectionName,
-      });
+      if (!this.isConnected) {
+        await this.connect();
+      }
 
-      if (hasCollection) {
+      // 检查集合是否存在
+      if (await this.hasCollection()) {
+        const collectionInfo = await this.client.describeCollection({
+          collection_name: this.collectionName
+        });
+        const fieldNames = collectionInfo.schema.fields.map((field) => field.name);
+        if (!fieldNames.includes('document_id')) {
+          throw new Error(`集合 ${this.collectionName} 缺少 document_id 等元数据字段，请删除旧集合后重新同步`);
+        }
+        const vectorField = collectionInfo.schema.fields.find((field) => field.name === 'vector');
+        const existingDimension = Number(vectorField?.type_params.find((param) => param.key === 'dim')?.value);
+        if (existingDimension !== dimension || collectionInfo.schema.description !== description) {
+          throw new EmbeddingDimensionError(
+            `集合 ${this.collectionName} 的向量由 ${collectionInfo.schema.description || '未知模型'}（${existingDimension} 维）生成，` +
+            `与当前模型 ${embeddingModel}（${dimension} 维）不一致，请删除旧集合后重新同步`
+          );
+        }
         console.log('集合已存在，跳过创建');
         return;
       }
 
-      // 创建集合 - 使用简化的API
       await this.client.createCollection({
         collection_name: this.collectionName,
-        dimension: 1536, // OpenAI embedding维度
-        metric_type: 'COSINE',
+        description,
+        fields: [
+          { name: 'id', data_type: DataType.VarChar, is_primary_key: true, max_length: 128 },
+          { name: 'vector', data_type: DataType.FloatVector, dim: dimension },
+          { name: 'text', data_type: DataType.VarChar, max_length: 65535 },
+          { name: 'document_id', data_type: DataType.VarChar, max_length: 128 },
+          { name: 'chunk_id', data_type: DataType.VarChar, max_length: 128 },
+          { name: 'file_name', data_type: DataType.VarChar, max_length: 512 },
+          { name: 'page_number', data_type: DataType.Int64 },
+          { name: 'metadata', data_type: DataType.JSON },
+        ],
       });
 
       // 创建索引
@@ -57,35 +116,46 @@ export class MilvusService {
         params: { nlist: 1024 }
       });
 
-      console.log('✅ Milvus集合创建成功');
+      await this.client.loadCollectionSync({
+        collection_name: this.collectionName
+      });
+
+      console.log(`✅ Milvus集合创建成功（模型: ${embeddingModel}，维度: ${dimension}）`);
     } catch (error) {
       console.error('❌ 创建Milvus集合失败:', error);
       throw error;
     }
   }
 
-  // 插入向量数据
-  async insertVectors(vectors: number[][], texts: string[], metadatas: any[]): Promise<string[]> {
+  // 插入向量数据，ID 已存在时覆盖
+  async insertVectors(
+    vectors: number[][],
+    texts: string[],
+    metadatas: VectorChunkMetadata[],
+    ids: string[] = vectors.map((_, index) => `recipe_${Date.now()}_${index}`)
+  ): Promise<string[]> {
     try {
       if (!this.isConnected) {
         await this.connect();
       }
 
-      const ids = vectors.map((_, index) => `recipe_${Date.now()}_${index}`);
-
-      // 准备数据 - 使用简化的格式
-      const data = [
-        {
-          id: ids,
-          vector: vectors,
-          text: texts,
-          metadata: metadatas
-        }
-      ];
+      const data = vectors.map((vector, index) => {
+        const metadata = metadatas[index];
+        return {
+          id: ids[index],
+          vector,
+          text: texts[index],
+          document_id: metadata.documentId,
+          chunk_id: metadata.chunkId,
+          file_name: metadata.fileName || '',
+          page_number: metadata.pageNumber ?? 0,
+          metadata,
+        };
+      });
 
-      await this.client.insert({
+      await this.client.upsert({
         collection_name: this.collectionName,
-        data: data
+        data
       });
 
       // 刷新数据
@@ -101,8 +171,8 @@ export class MilvusService {
     }
   }
 
-  // 搜索相似向量
-  async search(queryVector: number[], topK: number = 5): Promise<any[]> {
+  // 搜索相似向量，filter 为 Milvus 布尔表达式，如 'file_name == "cocktails.pdf"'
+  async search(queryVector: number[], topK: number = 5, filter?: string): Promise<MilvusSearchResult[]> {
     try {
       if (!this.isConnected) {
         await this.connect();
@@ -112,7 +182,8 @@ export class MilvusService {
         collection_name: this.collectionName,
         data: [queryVector],
         limit: topK,
-        output_fields: ['id', 'text', 'metadata'],
+        filter,
+        output_fields: ['id', 'text', 'document_id', 'chunk_id', 'file_name', 'page_number', 'metadata'],
         search_params: {
           metric_type: 'COSINE',
           params: { nprobe: 10 }
@@ -121,11 +192,17 @@ export class MilvusService {
 
       const results = await this.client.search(searchParams);
 
-      return results.results.map((result: any) => ({
+      return (results.results as unknown as MilvusSearchRow[]).map((result) => ({
         id: result.id,
         content: result.text,
         score: result.score,
-        metadata: result.metadata
+        metadata: {
+          ...result.metadata,
+          documentId: result.document_id,
+          chunkId: result.chunk_id,
+          fileName: result.file_name,
+          pageNumber: Number(result.page_number),
+        }
       }));
     } catch (error) {
       console.error('❌ 向量搜索失败:', error);
@@ -133,6 +210,49 @@ export class MilvusService {
     }
   }
 
+  // 删除文档的全部向量
+  async deleteByDocumentIds(documentIds: string[]): Promise<void> {
+    if (documentIds.length === 0) {
+      return;
+    }
+    if (!this.isConnected) {
+      await this.connect();
+    }
+
+    await this.client.delete({
+      collection_name: this.collectionName,
+      filter: `document_id in ${JSON.stringify(documentIds)}`
+    });
+    console.log(`🗑️ 删除了 ${documentIds.length} 个文档的向量`);
+  }
+
+  // 列出集合中的文档 ID
+  async listDocumentIds(): Promise<string[]> {
+    if (!this.isConnected) {
+      await this.connect();
+    }
+
+    const result = await this.client.query({
+      collection_name: this.collectionName,
+      filter: 'document_id != ""',
+      output_fields: ['document_id'],
+      limit: 16384
+    });
+    return Array.from(new Set(result.data.map((row) => String(row.document_id))));
+  }
+
+  // 统计向量数量
+  async count(): Promise<number> {
+    if (!this.isConnected) {
+      await this.connect();
+    }
+
+    const result = await this.client.count({
+      collection_name: this.collectionName
+    });
+    return result.data;
+  }
+
   // 获取集合信息
   async getCollectionInfo(): Promise<any> {
     try {
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { critiqueDishes, critiquePairing } from './pairingCritic';
+import { resolveDietaryPreferences } from './dietaryRules';
+import type {
+  BeverageRecommendation,
+  CompletePairingRecommendation,
+  DishRecommendation,
+  PairingReason,
+} from '../types/foodPairing';
+
+function dish(id: string, name: string, requiredIngredients: string[]): DishRecommendation {
+  return { id, name, description: '', cuisine: '川菜', requiredIngredients, cookingTime: 30, difficulty: 2, steps: [] };
+}
+
+function beverage(id: string, name: string, ingredients: string[]): BeverageRecommendation {
+  return { id, name, description: '', ingredients, steps: [], difficulty: 2, estimatedTime: 5 };
+}
+
+function reason(id: string, dishId: string, beverageId: string): PairingReason {
+  return { id, dishId, beverageId, reason: '风味互补' };
+}
+
+function pairing(
+  dishes: DishRecommendation[],
+  beverages: BeverageRecommendation[],
+  pairingReasons: PairingReason[]
+): CompletePairingRecommendation {
+  return { dishes, beverages, pairingReasons, overallSuggestion: '' };
+}
+
+describe('critiqueDishes', () => {
+  it('每个菜品都使用了用户原料且覆盖率足够时通过', () => {
+    const critique = critiqueDishes(
+      [dish('d1', '土豆烧牛肉', ['牛肉 300g', '土豆 2个']), dish('d2', '番茄炒蛋', ['番茄 2个', '鸡蛋 3个'])],
+      ['牛肉', '土豆', '番茄']
+    );
+
+    expect(critique).toEqual({
+      passed: true,
+      coverage: 1,
+      unusedIngredients: [],
+      issues: [],
+      invalidReasonIds: [],
+      violatingIds: [],
+    });
+  });
+
+  it('指出没有使用用户原料的菜品和覆盖率不足', () => {
+    const critique = critiqueDishes(
+      [dish('d1', '红烧牛肉', ['牛肉 300g']), dish('d2', '麻婆豆腐', ['豆腐 1块'])],
+      ['牛肉', '土豆', '番茄', '洋葱']
+    );
+
+    expect(critique.passed).toBe(false);
+    expect(critique.coverage).toBe(0.25);
+    expect(critique.unusedIngredients).toEqual(['土豆', '番茄', '洋葱']);
+    expect(critique.issues).toEqual([
+      '菜品"麻婆豆腐"没有使用用户提供的任何原料',
+      '用户原料覆盖率为 25%，以下原料没有被任何菜品使用：土豆、番茄、洋葱',
+    ]);
+  });
+
+  it('标记违反饮食限制的菜品，违规的用户原料不计入覆盖率', () => {
+    const critique = critiqueDishes(
+      [dish('d1', '土豆烧牛肉', ['牛肉 300g', '土豆 2个']), dish('d2', '干煸土豆丝', ['土豆 2个'])],
+      ['牛肉', '土豆'],
+      resolveDietaryPreferences({ dietaryRestrictions: ['vegetarian'] })
+    );
+
+    expect(critique.coverage).toBe(1);
+    expect(critique.violatingIds).toEqual(['d1']);
+    expect(critique.issues).toEqual(['菜品"土豆烧牛肉"不符合饮食要求：含有"牛肉 300g"（素食（不含肉类、禽类和海鲜））']);
+  });
+
+  it('用户没有提供原料时覆盖率为 1', () => {
+    const critique = critiqueDishes([dish('d1', '麻婆豆腐', ['豆腐 1块'])], []);
+
+    expect(critique).toMatchObject({ passed: true, coverage: 1, unusedIngredients: [] });
+  });
+});
+
+describe('critiquePairing', () => {
+  const dishes = [dish('d1', '宫保鸡丁', ['鸡肉 300g', '花生 50g'])];
+
+  it('酒品使用了用户酒原料、搭配理由引用正确时通过', () => {
+    const critique = critiquePairing(
+      pairing(dishes, [beverage('b1', '金汤力', ['金酒 50ml', '汤力水 150ml'])], [reason('r1', 'd1', 'b1')]),
+      ['金酒']
+    );
+
+    expect(critique).toMatchObject({ passed: true, coverage: 1, issues: [], invalidReasonIds: [], violatingIds: [] });
+  });
+
+  it('指出引用了不存在酒品的搭配理由', () => {
+    const critique = critiquePairing(
+      pairing(dishes, [beverage('b1', '金汤力', ['金酒 50ml'])], [reason('r1', 'd1', 'b1'), reason('r2', 'd1', 'b9')]),
+      []
+    );
+
+    expect(critique.passed).toBe(false);
+    expect(critique.invalidReasonIds).toEqual(['r2']);
+    expect(critique.issues).toEqual(['搭配理由 r2 引用错误：beverageId "b9" 不在推荐酒品中']);
+  });
+
+  it('指出没有搭配任何酒品的菜品', () => {
+    const critique = critiquePairing(
+      pairing(
+        [...dishes, dish('d2', '清炒时蔬', ['青菜 300g'])],
+        [beverage('b1', '金汤力', ['金酒 50ml'])],
+        [reason('r1', 'd1', 'b1')]
+      ),
+      []
+    );
+
+    expect(critique.issues).toEqual(['菜品"清炒时蔬"（ID: d2）没有搭配任何酒品']);
+  });
+
+  it('无酒精模式下标记含酒精的酒品，并只按不含酒精的用户原料计算覆盖率', () => {
+    const critique = critiquePairing(
+      pairing(
+        dishes,
+        [beverage('b1', '金汤力', ['金酒 50ml', '青柠 1块']), beverage('b2', '青柠苏打', ['青柠 1块', '苏打水 200ml'])],
+        [reason('r1', 'd1', 'b2')]
+      ),
+      ['金酒', '青柠'],
+      resolveDietaryPreferences({ nonAlcoholic: true })
+    );
+
+    expect(critique.coverage).toBe(1);
+    expect(critique.violatingIds).toEqual(['b1']);
+    expect(critique.issues).toEqual(['酒品"金汤力"不符合饮食要求：含有"金酒 50ml"（无酒精）']);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * 搭配推荐评审
+ *
+ * 检查菜品推荐和酒品搭配是否真正使用了用户提供的原料、是否遵守饮食限制和过敏原排除（见 dietaryRules.ts），
+ * 以及搭配理由引用的 beverageId 是否存在（dishId 由搭配节点按子任务的菜品填写，不需要检查）。
+ * 原料按名称包含关系匹配（"鸡蛋" 匹配 "鸡蛋 2个"），不做同义词识别；
+ * 用户提供的原料本身违反饮食限制时（如清真模式下的料酒）不计入覆盖率。
+ * 评审不通过时，问题列表作为反馈交给生成节点重新生成（见 foodPairingNodes.ts 中的评审节点）
+ */
+
+import {
+  beverageRules,
+  describeDietaryRule,
+  dishRules,
+  findDietaryViolations,
+  type DietaryRule,
+} from './dietaryRules';
+import type { CompletePairingRecommendation, DietaryPreferences, DishRecommendation } from '../types/foodPairing';
+
+/**
+ * 用户原料覆盖率下限：低于该比例时要求重新生成
+ */
+export const MIN_INGREDIENT_COVERAGE = 0.5;
+
+/**
+ * 评审结果
+ */
+export interface Critique {
+  passed: boolean;
+  /** 用户原料的覆盖率（0-1），用户没有提供原料时为 1 */
+  coverage: number;
+  /** 推荐中没有用到的用户原料 */
+  unusedIngredients: string[];
+  /** 发现的问题，作为重新生成时的反馈 */
+  issues: string[];
+  /** 引用了不存在的酒品的搭配理由 ID */
+  invalidReasonIds: string[];
+  /** 违反饮食限制或含有过敏原的菜品 / 酒品 ID */
+  violatingIds: string[];
+}
+
+/**
+ * 没有任何饮食限制
+ */
+const NO_DIETARY_PREFERENCES: DietaryPreferences = { restrictions: [], allergens: [], nonAlcoholic: false };
+
+/**
+ * 评审菜品推荐：每个菜品至少使用一种用户原料，整体覆盖率不低于 MIN_INGREDIENT_COVERAGE，
+ * 并且不违反饮食限制、不含需要排除的过敏原
+ */
+export function critiqueDishes(
+  dishes: DishRecommendation[],
+  foodIngredients: string[],
+  dietary: DietaryPreferences = NO_DIETARY_PREFERENCES
+): Critique {
+  const issues: string[] = [];
+  const rules = dishRules(dietary);
+  const allowed = allowedIngredients(foodIngredients, rules);
+  const { coverage, unused } = measureCoverage(allowed, dishes.map((dish) => dish.requiredIngredients));
+
+  const violatingIds: string[] = [];
+  for (const dish of dishes) {
+    if (allowed.length > 0 && !usesAnyIngredient(dish.requiredIngredients, allowed)) {
+      issues.push(`菜品"${dish.name}"没有使用用户提供的任何原料`);
+    }
+    const violation = describeViolations(dish.requiredIngredients, rules);
+    if (violation) {
+      violatingIds.push(dish.id);
+      issues.push(`菜品"${dish.name}"不符合饮食要求：${violation}`);
+    }
+  }
+  if (coverage < MIN_INGREDIENT_COVERAGE) {
+    issues.push(`用户原料覆盖率为 ${formatPercent(coverage)}，以下原料没有被任何菜品使用：${unused.join('、')}`);
+  }
+
+  return { passed: issues.length === 0, coverage, unusedIngredients: unused, issues, invalidReasonIds: [], violatingIds };
+}
+
+/**
+ * 评审酒品搭配：
+ * - 用户提供了酒原料时，每个酒品至少使用一种，整体覆盖率不低于 MIN_INGREDIENT_COVERAGE
+ * - 不违反饮食限制、不含需要排除的过敏原，无酒精模式下不含酒精
+ * - 搭配理由引用的 beverageId 必须存在
+ * - 每个菜品至少有一条搭配理由
+ */
+export function critiquePairing(
+  result: CompletePairingRecommendation,
+  drinkIngredients: string[],
+  dietary: DietaryPreferences = NO_DIETARY_PREFERENCES
+): Critique {
+  const issues: string[] = [];
+  const rules = beverageRules(dietary);
+  const allowed = allowedIngredients(drinkIngredients, rules);
+  const { coverage, unused } = measureCoverage(allowed, result.beverages.map((beverage) => beverage.ingredients));
+
+  const violatingIds: string[] = [];
+  for (const beverage of result.beverages) {
+    if (allowed.length > 0 && !usesAnyIngredient(beverage.ingredients, allowed)) {
+      issues.push(`酒品"${beverage.name}"没有使用用户提供的任何酒原料`);
+    }
+    const violation = describeViolations(beverage.ingredients, rules);
+    if (violation) {
+      violatingIds.push(beverage.id);
+      issues.push(`酒品"${beverage.name}"不符合饮食要求：${violation}`);
+    }
+  }
+  if (coverage < MIN_INGREDIENT_COVERAGE) {
+    issues.push(`酒原料覆盖率为 ${formatPercent(coverage)}，以下原料没有被任何酒品使用：${unused.join('、')}`);
+  }
+
+  const beverageIds = new Set(result.beverages.map((beverage) => beverage.id));
+  const invalidReasonIds: string[] = [];
+  for (const reason of result.pairingReasons) {
+    if (!beverageIds.has(reason.beverageId)) {
+      invalidReasonIds.push(reason.id);
+      issues.push(`搭配理由 ${reason.id} 引用错误：beverageId "${reason.beverageId}" 不在推荐酒品中`);
+    }
+  }
+
+  const pairedDishIds = new Set(result.pairingReasons.map((reason) => reason.dishId));
+  for (const dish of result.dishes) {
+    if (!pairedDishIds.has(dish.id)) {
+      issues.push(`菜品"${dish.name}"（ID: ${dish.id}）没有搭配任何酒品`);
+    }
+  }
+
+  return { passed: issues.length === 0, coverage, unusedIngredients: unused, issues, invalidReasonIds, violatingIds };
+}
+
+/**
+ * 去掉用户原料中本身违反饮食要求的原料
+ */
+function allowedIngredients(ingredients: string[], rules: DietaryRule[]): string[] {
+  return ingredients.filter((ingredient) => findDietaryViolations([ingredient], rules).length === 0);
+}
+
+/**
+ * 描述违反饮食要求的食材，如 "含有"猪肉 200g"（清真…）"，没有违规时返回 null
+ */
+function describeViolations(ingredients: string[], rules: DietaryRule[]): string | null {
+  const violations = findDietaryViolations(ingredients, rules);
+  if (violations.length === 0) {
+    return null;
+  }
+  return violations
+    .map((violation) => `含有"${violation.ingredient}"（${describeDietaryRule(violation.rule)}）`)
+    .join('，');
+}
+
+/**
+ * 计算用户原料被推荐项使用的比例
+ */
+function measureCoverage(userIngredients: string[], itemIngredients: string[][]): { coverage: number; unused: string[] } {
+  const wanted = userIngredients.map((ingredient) => ingredient.trim()).filter(Boolean);
+  if (wanted.length === 0) {
+    return { coverage: 1, unused: [] };
+  }
+
+  const used = itemIngredients.flat();
+  const unused = wanted.filter((ingredient) => !usesAnyIngredient(used, [ingredient]));
+  return { coverage: round((wanted.length - unused.length) / wanted.length), unused };
+}
+
+/**
+ * 推荐项的原料中是否有任意一种用户原料（忽略大小写，按包含关系匹配）
+ */
+function usesAnyIngredient(itemIngredients: string[], userIngredients: string[]): boolean {
+  const items = itemIngredients.map(normalize);
+  return userIngredients.some((ingredient) => {
+    const wanted = normalize(ingredient);
+    return wanted.length > 0 && items.some((item) => item.includes(wanted));
+  });
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
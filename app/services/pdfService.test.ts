@@ -0,0 +1,148 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PDFService, PDF_PAGE_SEPARATOR } from './pdfService';
+
+/**
+ * 测试用页面：lines 为各行文本（每行一个文本项），images 为图片数量，error 为解析失败时的错误
+ */
+interface FakePage {
+  lines: string[];
+  images?: number;
+  error?: string;
+}
+
+const pdfPages: { pages: FakePage[] } = vi.hoisted(() => ({ pages: [] }));
+
+// pdf-parse 按页调用 pagerender，这里用 FakePage 模拟 pdf.js 的页面对象
+vi.mock('pdf-parse', () => ({
+  default: async (_data: Uint8Array, options: { pagerender: (page: unknown) => Promise<string> }) => {
+    for (const [index, page] of pdfPages.pages.entries()) {
+      await options.pagerender({
+        pageNumber: index + 1,
+        getTextContent: async () => {
+          if (page.error) {
+            throw new Error(page.error);
+          }
+          return { items: page.lines.map((str, line) => ({ str, transform: [1, 0, 0, 1, 0, 800 - line * 20] })) };
+        },
+        getOperatorList: async () => ({ fnArray: Array(page.images ?? 0).fill(85) }),
+      });
+    }
+    return { text: '' };
+  },
+}));
+
+describe('PDFService', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'pdf-service-'));
+    filePath = path.join(directory, 'cocktails.pdf');
+    writeFileSync(filePath, '%PDF-1.4');
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('记录每页在全文中的位置，页与页之间用换页符分隔', async () => {
+    pdfPages.pages = [
+      { lines: ['尼格罗尼', '原料：金酒、金巴利'] },
+      { lines: ['莫吉托', '原料：朗姆酒、薄荷'] },
+    ];
+
+    const document = await new PDFService(directory).processPDFFile(filePath);
+
+    expect(document).not.toBeNull();
+    const { content, pages } = document!;
+    expect(content).toBe(`尼格罗尼\n原料：金酒、金巴利${PDF_PAGE_SEPARATOR}莫吉托\n原料：朗姆酒、薄荷`);
+    expect(pages.map((page) => content.slice(page.startOffset, page.endOffset))).toEqual([
+      '尼格罗尼\n原料：金酒、金巴利',
+      '莫吉托\n原料：朗姆酒、薄荷',
+    ]);
+    expect(pages.map((page) => page.status)).toEqual(['text', 'text']);
+  });
+
+  it('文本块的位置与全文一致，且不跨页', async () => {
+    pdfPages.pages = [
+      { lines: ['第一页。'.repeat(30)] },
+      { lines: ['  第二页开头有空白。', '第二页。'.repeat(20)] },
+    ];
+
+    const document = await new PDFService(directory, { chunkSize: 50, chunkOverlap: 10 }).processPDFFile(filePath);
+
+    const { content, pages, chunks } = document!;
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      const page = pages[chunk.pageNumber - 1];
+      expect(content.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.content);
+      expect(chunk.startOffset).toBeGreaterThanOrEqual(page.startOffset);
+      expect(chunk.endOffset).toBeLessThanOrEqual(page.endOffset);
+      expect(chunk.content.length).toBeLessThanOrEqual(50);
+      expect(chunk.content).toBe(chunk.content.trim());
+    }
+    expect(new Set(chunks.map((chunk) => chunk.pageNumber))).toEqual(new Set([1, 2]));
+  });
+
+  it('相邻文本块保留重叠，并在句末断开', async () => {
+    pdfPages.pages = [{ lines: ['这是一个完整的句子。'.repeat(12)] }];
+
+    const document = await new PDFService(directory, { chunkSize: 40, chunkOverlap: 10 }).processPDFFile(filePath);
+
+    const { chunks } = document!;
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const [index, chunk] of chunks.entries()) {
+      if (index < chunks.length - 1) {
+        expect(chunk.content.endsWith('。')).toBe(true);
+        expect(chunks[index + 1].startOffset).toBeLessThan(chunk.endOffset);
+      }
+    }
+  });
+
+  it('标记空白页、扫描页和解析失败的页，这些页不产生文本块', async () => {
+    pdfPages.pages = [
+      { lines: ['尼格罗尼', '原料：金酒、金巴利'] },
+      { lines: [] },
+      { lines: ['3'], images: 1 },
+      { lines: [], error: 'bad XRef entry' },
+    ];
+
+    const document = await new PDFService(directory).processPDFFile(filePath);
+
+    const { pages, chunks, metadata } = document!;
+    expect(pages.map((page) => page.status)).toEqual(['text', 'empty', 'scanned', 'error']);
+    expect(pages[3].error).toBe('bad XRef entry');
+    expect(metadata.flaggedPages).toEqual([2, 3, 4]);
+    expect(metadata.pageCount).toBe(4);
+    expect(chunks.map((chunk) => chunk.pageNumber)).toEqual([1]);
+  });
+
+  it('recipeBoundaries 时每个配方标题开始一个新的文本块', async () => {
+    pdfPages.pages = [
+      { lines: ['尼格罗尼', '原料：金酒、金巴利、甜味美思', '莫吉托', '原料：朗姆酒、薄荷、青柠'] },
+    ];
+
+    const document = await new PDFService(directory, { recipeBoundaries: true }).processPDFFile(filePath);
+
+    const { content, chunks } = document!;
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      '尼格罗尼\n原料：金酒、金巴利、甜味美思',
+      '莫吉托\n原料：朗姆酒、薄荷、青柠',
+    ]);
+    for (const chunk of chunks) {
+      expect(content.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.content);
+    }
+  });
+});
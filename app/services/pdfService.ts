@@ -1,75 +1,119 @@
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
-// 动态导入PDF解析库，避免服务器端DOM问题
-const pdf = require('pdf-parse');
-
-export interface PDFDocument {
-  id: string;
-  title: string;
-  content: string;
-  chunks: TextChunk[];
-  metadata: {
-    filePath: string;
-    fileSize: number;
-    lastModified: Date;
-    pageCount: number;
-  };
+import pdf from 'pdf-parse';
+import type { PDFDocument, PDFPage, PDFPageStatus, TextChunk } from '../types';
+
+/**
+ * PDFDocument.content 中页与页之间的分隔符（换页符）
+ */
+export const PDF_PAGE_SEPARATOR = '\f';
+
+/**
+ * 文本少于该字符数（不含空白）且包含图片的页视为扫描页
+ */
+const MIN_PAGE_TEXT_CHARS = 10;
+
+/**
+ * pdf.js 中绘制图片的操作码（OPS.paintJpegXObject、paintImageMaskXObject、paintImageXObject、paintInlineImageXObject）
+ */
+const IMAGE_OPS = new Set([82, 83, 85, 86]);
+
+/**
+ * 文本块优先在这些字符之后断开
+ */
+const SENTENCE_END = /[。！？；.!?;\n]/;
+
+/**
+ * 短于该长度、且不是原料或步骤的行视为配方标题
+ */
+const MAX_RECIPE_TITLE_LENGTH = 50;
+
+/**
+ * 文本块切分参数
+ */
+export interface PDFChunkingOptions {
+  chunkSize?: number;
+  chunkOverlap?: number;
+  /** 先在每个配方标题行处断开，再按长度切分 */
+  recipeBoundaries?: boolean;
 }
 
-export interface TextChunk {
-  id: string;
-  content: string;
+/**
+ * pdf.js 页面对象中用到的部分
+ */
+interface PDFPageProxy {
   pageNumber: number;
-  chunkIndex: number;
-  metadata: {
-    recipeName?: string;
-    ingredients?: string[];
-    steps?: string[];
-  };
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{
+    items: { str: string; transform: number[] }[];
+  }>;
+  getOperatorList(): Promise<{ fnArray: number[] }>;
+}
+
+/**
+ * 逐页解析得到的页面文本
+ */
+interface ParsedPage {
+  pageNumber: number;
+  text: string;
+  imageCount: number;
+  error?: string;
 }
 
 export class PDFService {
   private pdfPath: string;
   private chunkSize: number = 800;
   private chunkOverlap: number = 150;
+  private recipeBoundaries: boolean = false;
 
-  constructor(pdfPath: string) {
+  constructor(pdfPath: string, options: PDFChunkingOptions = {}) {
     this.pdfPath = pdfPath;
+    this.chunkSize = options.chunkSize ?? this.chunkSize;
+    this.chunkOverlap = options.chunkOverlap ?? this.chunkOverlap;
+    this.recipeBoundaries = options.recipeBoundaries ?? this.recipeBoundaries;
   }
 
   // 处理单个PDF文件
+  // 逐页提取文本，文本块不跨页并记录页码和字符位置；没有文本的页（空白页、扫描页）标记后跳过
   async processPDFFile(filePath: string): Promise<PDFDocument | null> {
     try {
       console.log(`开始处理PDF文件: ${filePath}`);
 
-      // 1. 读取PDF文件
+      // 1. 读取PDF文件并逐页提取文本
       const dataBuffer = fs.readFileSync(filePath);
-      const pdfData = await pdf(dataBuffer);
+      const parsedPages = await this.parsePages(dataBuffer);
 
-      // 2. 提取文本内容
-      const text = pdfData.text;
+      // 2. 拼接全文，记录每页的位置和状态
+      const { content, pages } = this.buildPages(parsedPages);
+      const flaggedPages = pages.filter((page) => page.status !== 'text').map((page) => page.pageNumber);
+      if (flaggedPages.length > 0) {
+        console.warn(`⚠️ ${path.basename(filePath)} 中有 ${flaggedPages.length} 页没有可提取的文本（第 ${flaggedPages.join('、')} 页）`);
+      }
 
-      // 3. 分块处理
-      const chunks = this.splitTextIntoChunks(text);
+      // 3. 按页分块处理
+      const id = this.generateDocumentId(filePath);
+      const chunks = this.splitPagesIntoChunks(id, content, pages);
 
       // 4. 提取配方信息
       const processedChunks = this.extractRecipeInfo(chunks);
 
       // 5. 创建文档对象
       const document: PDFDocument = {
-        id: this.generateDocumentId(filePath),
+        id,
         title: path.basename(filePath, '.pdf'),
-        content: text,
+        content,
+        pages,
         chunks: processedChunks,
         metadata: {
           filePath,
           fileSize: dataBuffer.length,
           lastModified: fs.statSync(filePath).mtime,
-          pageCount: pdfData.numpages,
+          pageCount: pages.length,
+          flaggedPages,
         }
       };
 
-      console.log(`PDF处理完成: ${filePath}, 提取了 ${chunks.length} 个文本块`);
+      console.log(`PDF处理完成: ${filePath}, ${pages.length} 页，提取了 ${chunks.length} 个文本块`);
       return document;
 
     } catch (error) {
@@ -87,10 +131,7 @@ export class PDFService {
       return documents;
     }
 
-    const files = fs.readdirSync(this.pdfPath)
-      .filter(file => file.endsWith('.pdf'))
-      .map(file => path.join(this.pdfPath, file));
-
+    const files = this.getPDFFiles();
     console.log(`发现 ${files.length} 个PDF文件`);
 
     for (const file of files) {
@@ -103,55 +144,125 @@ export class PDFService {
     return documents;
   }
 
+  // 逐页提取文本和图片数量
+  // pdf-parse 按页码顺序依次调用 pagerender；单页解析失败时记录错误，不影响其他页
+  private async parsePages(dataBuffer: Buffer): Promise<ParsedPage[]> {
+    const pages: ParsedPage[] = [];
+    // pdf.js 按普通 Uint8Array 处理数据，直接传入 Buffer 时部分文件会解析失败（bad XRef entry），先复制为 Uint8Array
+    const data = new Uint8Array(dataBuffer) as Buffer;
+
+    await pdf(data, {
+      pagerender: async (pageData: PDFPageProxy) => {
+        try {
+          const [textContent, operatorList] = await Promise.all([
+            pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false }),
+            pageData.getOperatorList(),
+          ]);
+          pages.push({
+            pageNumber: pageData.pageNumber,
+            text: joinTextItems(textContent.items),
+            imageCount: operatorList.fnArray.filter((fn) => IMAGE_OPS.has(fn)).length,
+          });
+        } catch (error) {
+          pages.push({
+            pageNumber: pageData.pageNumber,
+            text: '',
+            imageCount: 0,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+        return '';
+      },
+    });
+
+    return pages.sort((a, b) => a.pageNumber - b.pageNumber);
+  }
+
+  // 拼接各页文本，计算每页在全文中的位置和状态
+  private buildPages(parsedPages: ParsedPage[]): { content: string; pages: PDFPage[] } {
+    let content = '';
+    const pages = parsedPages.map((page, index): PDFPage => {
+      if (index > 0) {
+        content += PDF_PAGE_SEPARATOR;
+      }
+      const startOffset = content.length;
+      content += page.text;
+
+      return {
+        pageNumber: page.pageNumber,
+        status: getPageStatus(page),
+        startOffset,
+        endOffset: content.length,
+        imageCount: page.imageCount,
+        ...(page.error ? { error: page.error } : {}),
+      };
+    });
+
+    return { content, pages };
+  }
+
   // 文本分块
-  private splitTextIntoChunks(text: string): TextChunk[] {
+  // 每页单独分块，文本块不跨页；recipeBoundaries 时每个配方标题行开始一个新的分段。
+  // 优先在句末或换行处断开，相邻文本块保留 chunkOverlap 个字符的重叠（不跨分段）
+  private splitPagesIntoChunks(documentId: string, content: string, pages: PDFPage[]): TextChunk[] {
     const chunks: TextChunk[] = [];
-    const sentences = text.split(/[.!?。！？]\s*/);
 
-    let currentChunk = '';
-    let chunkIndex = 0;
-    let pageNumber = 1;
+    for (const page of pages) {
+      if (page.status !== 'text') {
+        continue;
+      }
+      const sections = this.recipeBoundaries
+        ? splitAtRecipeTitles(content, page.startOffset, page.endOffset)
+        : [{ start: page.startOffset, end: page.endOffset }];
 
-    for (let i = 0; i < sentences.length; i++) {
-      const sentence = sentences[i].trim();
-      if (!sentence) continue;
+      for (const section of sections) {
+        this.splitSection(documentId, content, page.pageNumber, section, chunks);
+      }
+    }
 
-      // 检查是否超过页面分隔符
-      if (sentence.includes('\f') || sentence.includes('\n\n\n')) {
-        pageNumber++;
+    return chunks;
+  }
+
+  // 按长度切分页面中的一个分段，文本块追加到 chunks
+  private splitSection(
+    documentId: string,
+    content: string,
+    pageNumber: number,
+    section: { start: number; end: number },
+    chunks: TextChunk[]
+  ): void {
+    let start = section.start;
+    while (start < section.end) {
+      let end = Math.min(start + this.chunkSize, section.end);
+      if (end < section.end) {
+        end = findBreak(content, start + Math.floor(this.chunkSize / 2), end);
       }
 
-      // 如果添加当前句子会超过块大小，先保存当前块
-      if (currentChunk.length + sentence.length > this.chunkSize && currentChunk.length > 0) {
+      // 去掉首尾空白，保证 content.slice(startOffset, endOffset) 与文本块内容一致
+      let chunkStart = start;
+      let chunkEnd = end;
+      while (chunkStart < chunkEnd && /\s/.test(content[chunkStart])) chunkStart++;
+      while (chunkEnd > chunkStart && /\s/.test(content[chunkEnd - 1])) chunkEnd--;
+
+      if (chunkEnd > chunkStart) {
+        const chunkIndex = chunks.length;
         chunks.push({
-          id: this.generateChunkId(chunkIndex),
-          content: currentChunk.trim(),
+          id: this.generateChunkId(documentId, pageNumber, chunkIndex),
+          content: content.slice(chunkStart, chunkEnd),
           pageNumber,
           chunkIndex,
+          startOffset: chunkStart,
+          endOffset: chunkEnd,
           metadata: {}
         });
-
-        // 开始新块，保留重叠部分
-        const overlapText = currentChunk.slice(-this.chunkOverlap);
-        currentChunk = overlapText + ' ' + sentence;
-        chunkIndex++;
-      } else {
-        currentChunk += (currentChunk ? ' ' : '') + sentence;
       }
-    }
 
-    // 添加最后一个块
-    if (currentChunk.trim()) {
-      chunks.push({
-        id: this.generateChunkId(chunkIndex),
-        content: currentChunk.trim(),
-        pageNumber,
-        chunkIndex,
-        metadata: {}
-      });
+      if (end >= section.end) {
+        break;
+      }
+      // 下一个文本块与当前文本块重叠，但必须向前推进
+      start = Math.max(end - this.chunkOverlap, start + 1);
     }
-
-    return chunks;
   }
 
   // 提取配方信息
@@ -159,7 +270,7 @@ export class PDFService {
     const processedChunks: TextChunk[] = [];
 
     for (const chunk of chunks) {
-      const processedChunk = { ...chunk };
+      const processedChunk = { ...chunk, metadata: { ...chunk.metadata } };
 
       // 使用正则表达式提取配方信息
       const recipePattern = /(?:配方|Recipe|鸡尾酒|Cocktail)[:：]?\s*([^\n]+)/gi;
@@ -196,16 +307,15 @@ export class PDFService {
 
   // 生成文档ID
   private generateDocumentId(filePath: string): string {
-    const hash = require('crypto')
-      .createHash('md5')
+    const hash = createHash('md5')
       .update(filePath + fs.statSync(filePath).mtime.getTime())
       .digest('hex');
     return `doc_${hash}`;
   }
 
-  // 生成块ID
-  private generateChunkId(index: number): string {
-    return `chunk_${Date.now()}_${index}`;
+  // 生成块ID，同一文档重复处理时 ID 不变
+  private generateChunkId(documentId: string, pageNumber: number, index: number): string {
+    return `${documentId}_p${pageNumber}_${index}`;
   }
 
   // 获取PDF文件列表
@@ -215,7 +325,74 @@ export class PDFService {
     }
 
     return fs.readdirSync(this.pdfPath)
-      .filter(file => file.endsWith('.pdf'))
+      .filter(file => file.toLowerCase().endsWith('.pdf'))
       .map(file => path.join(this.pdfPath, file));
   }
 }
+
+/**
+ * 拼接页面中的文本项，纵坐标变化时换行（与 pdf-parse 默认的 pagerender 一致）
+ */
+function joinTextItems(items: { str: string; transform: number[] }[]): string {
+  let text = '';
+  let lastY: number | undefined;
+  for (const item of items) {
+    const y = item.transform[5];
+    text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+    lastY = y;
+  }
+  return text;
+}
+
+/**
+ * 根据提取到的文本和图片判断页面状态
+ */
+function getPageStatus(page: ParsedPage): PDFPageStatus {
+  if (page.error) {
+    return 'error';
+  }
+  const textChars = page.text.replace(/\s/g, '').length;
+  if (page.imageCount > 0 && textChars < MIN_PAGE_TEXT_CHARS) {
+    return 'scanned';
+  }
+  return textChars === 0 ? 'empty' : 'text';
+}
+
+/**
+ * 在配方标题行处把 [start, end) 范围的页面文本分为多个分段，返回各分段的起止位置
+ * 不是原料或步骤的短行视为配方标题
+ */
+function splitAtRecipeTitles(content: string, start: number, end: number): { start: number; end: number }[] {
+  const sections: { start: number; end: number }[] = [];
+  let sectionStart = start;
+  let lineStart = start;
+
+  while (lineStart < end) {
+    const newline = content.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 || newline >= end ? end : newline;
+    const line = content.slice(lineStart, lineEnd);
+    const isTitle = line.trim().length > 0
+      && line.length < MAX_RECIPE_TITLE_LENGTH
+      && !line.includes('原料') && !line.includes('制作') && !line.includes('步骤');
+    if (isTitle && lineStart > sectionStart) {
+      sections.push({ start: sectionStart, end: lineStart });
+      sectionStart = lineStart;
+    }
+    lineStart = lineEnd + 1;
+  }
+  sections.push({ start: sectionStart, end });
+
+  return sections;
+}
+
+/**
+ * 在 [min, max) 范围内从后向前找句末或换行，返回断开位置（该字符之后）；找不到时返回 max
+ */
+function findBreak(content: string, min: number, max: number): number {
+  for (let i = max - 1; i >= min; i--) {
+    if (SENTENCE_END.test(content[i])) {
+      return i + 1;
+    }
+  }
+  return max;
+}
@@ -0,0 +1,267 @@
+/**
+ * 知识库检索评估
+ *
+ * 用黄金集（eval/golden-set.json）中的查询调用 queryVectorStore，按 retrievalMetrics.ts 计算 recall@k、MRR 和 nDCG@k。
+ * 不提供配置时评估当前知识库（在线向量库）；提供多个配置时，每个配置按自己的分块参数和向量模型
+ * 在内存中单独建索引（buildKnowledgeIndex），不影响在线向量库，结果按配置对比。
+ * 向量写入磁盘缓存，同一模型重复评估时只为新的文本块调用模型；
+ * 使用本地模型（embedding.provider 为 "local"）时不需要网络和 API Key
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { cwd } from 'process';
+import {
+  DEFAULT_CHUNKING,
+  buildKnowledgeIndex,
+  queryVectorStore,
+  type ChunkingConfig,
+  type KnowledgeIndex,
+  type KnowledgeQueryOptions,
+} from './ragService';
+import {
+  CachedEmbeddingProvider,
+  createEmbeddingProvider,
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+} from './embeddings/embeddingProvider';
+import {
+  evaluateResults,
+  summarizeMetrics,
+  validateGoldenSet,
+  type GoldenSet,
+  type MetricsSummary,
+  type QueryMetrics,
+  type RetrievedChunk,
+} from './retrievalMetrics';
+
+/**
+ * 默认黄金集路径（不放在 pdfs 目录下，避免被当作知识库文件同步）
+ */
+export const DEFAULT_GOLDEN_SET_PATH = path.resolve(cwd(), 'eval', 'golden-set.json');
+
+export type RetrievalMode = NonNullable<KnowledgeQueryOptions['mode']>;
+
+/**
+ * 一个待对比的检索配置，未提供的字段使用默认值（分块参数见 DEFAULT_CHUNKING，向量模型为当前配置的 Provider）
+ */
+export interface EvaluationConfig {
+  name: string;
+  chunking?: Partial<ChunkingConfig>;
+  embedding?: {
+    provider: EmbeddingProviderName;
+    model?: string;
+  };
+  mode?: RetrievalMode;
+  rerank?: boolean;
+}
+
+export interface EvaluationOptions {
+  /** 每条查询取前 k 条结果计算指标，默认 5 */
+  k?: number;
+  /** 配置未指定时使用的检索模式，默认 hybrid */
+  mode?: RetrievalMode;
+  /** 配置未指定时是否重排序，默认 false */
+  rerank?: boolean;
+  /** 待对比的配置，不提供时评估当前知识库 */
+  configs?: EvaluationConfig[];
+  signal?: AbortSignal;
+}
+
+/**
+ * 单条查询的评估结果
+ */
+export interface QueryEvaluation extends QueryMetrics {
+  id: string;
+  query: string;
+  /** 前 k 条检索结果的来源 */
+  results: {
+    fileName: string | null;
+    pageNumber: number | null;
+    recipeName: string | null;
+    score: number | null;
+  }[];
+}
+
+/**
+ * 一个配置的评估结果
+ */
+export interface ConfigEvaluation {
+  name: string;
+  /** 分块参数，评估当前知识库时为 null */
+  chunking: ChunkingConfig | null;
+  embeddingModel: string;
+  mode: RetrievalMode;
+  rerank: boolean;
+  /** 单独建立的索引规模，评估当前知识库时为 null */
+  index: { documents: number; chunks: number; failedChunks: number } | null;
+  summary: MetricsSummary;
+  queries: QueryEvaluation[];
+  durationMs: number;
+}
+
+/**
+ * 评估报告
+ */
+export interface EvaluationReport {
+  goldenSet: string;
+  k: number;
+  evaluatedAt: string;
+  configs: ConfigEvaluation[];
+  /** 各配置的平均指标，delta 为相对第一个配置的差值 */
+  comparison: (MetricsSummary & {
+    name: string;
+    delta: { recallAtK: number; mrr: number; ndcgAtK: number };
+  })[];
+  /** nDCG@k 最高的配置 */
+  best: string | null;
+}
+
+/**
+ * 读取并校验黄金集文件
+ *
+ * @throws {Error} 文件不存在、不是合法 JSON 或格式不正确
+ */
+export function loadGoldenSet(filePath: string = DEFAULT_GOLDEN_SET_PATH): GoldenSet {
+  return validateGoldenSet(JSON.parse(readFileSync(filePath, 'utf-8')));
+}
+
+/**
+ * 用黄金集评估检索效果
+ *
+ * @throws {Error} 检索失败或向量模型不可用
+ */
+export async function runEvaluation(goldenSet: GoldenSet, options: EvaluationOptions = {}): Promise<EvaluationReport> {
+  const { k = 5, mode = 'hybrid', rerank = false, configs, signal } = options;
+  console.log(`📏 开始检索评估: ${goldenSet.name}（${goldenSet.queries.length} 条查询，k=${k}，${configs?.length ?? 0} 个对比配置）`);
+
+  const evaluations: ConfigEvaluation[] = [];
+  if (!configs || configs.length === 0) {
+    evaluations.push(await evaluateConfig(goldenSet, k, {
+      name: 'current',
+      chunking: null,
+      embeddingModel: getEmbeddingProvider().id,
+      mode,
+      rerank,
+      index: undefined,
+    }, signal));
+  } else {
+    // 分块参数和向量模型相同的配置（只有检索模式或重排序不同）共用一个索引
+    const indexes = new Map<string, KnowledgeIndex>();
+    for (const config of configs) {
+      signal?.throwIfAborted();
+      const chunking: ChunkingConfig = { ...DEFAULT_CHUNKING, ...config.chunking };
+      const embeddings = resolveEmbeddings(config.embedding);
+      const key = JSON.stringify([chunking, embeddings.id]);
+      let index = indexes.get(key);
+      if (!index) {
+        index = await buildKnowledgeIndex({ chunking, embeddings, signal });
+        indexes.set(key, index);
+      }
+      evaluations.push(await evaluateConfig(goldenSet, k, {
+        name: config.name,
+        chunking,
+        embeddingModel: embeddings.id,
+        mode: config.mode ?? mode,
+        rerank: config.rerank ?? rerank,
+        index,
+      }, signal));
+    }
+  }
+
+  const baseline = evaluations[0].summary;
+  const comparison = evaluations.map((evaluation) => ({
+    name: evaluation.name,
+    ...evaluation.summary,
+    delta: {
+      recallAtK: round(evaluation.summary.recallAtK - baseline.recallAtK),
+      mrr: round(evaluation.summary.mrr - baseline.mrr),
+      ndcgAtK: round(evaluation.summary.ndcgAtK - baseline.ndcgAtK),
+    },
+  }));
+  const best = comparison.reduce<(typeof comparison)[number] | null>(
+    (top, item) => (!top || item.ndcgAtK > top.ndcgAtK ? item : top),
+    null
+  );
+
+  for (const item of comparison) {
+    console.log(`📏 ${item.name}: recall@${k}=${item.recallAtK}，MRR=${item.mrr}，nDCG@${k}=${item.ndcgAtK}`);
+  }
+
+  return {
+    goldenSet: goldenSet.name,
+    k,
+    evaluatedAt: new Date().toISOString(),
+    configs: evaluations,
+    comparison,
+    best: best?.name ?? null,
+  };
+}
+
+/**
+ * 配置了向量模型时创建对应的 Provider（带磁盘缓存），否则使用当前配置的 Provider
+ */
+function resolveEmbeddings(embedding: EvaluationConfig['embedding']): EmbeddingProvider {
+  if (!embedding) {
+    return getEmbeddingProvider();
+  }
+  return new CachedEmbeddingProvider(createEmbeddingProvider(embedding.provider, embedding.model));
+}
+
+/**
+ * 逐条执行黄金集查询并计算指标
+ */
+async function evaluateConfig(
+  goldenSet: GoldenSet,
+  k: number,
+  config: Omit<ConfigEvaluation, 'summary' | 'queries' | 'durationMs' | 'index'> & { index: KnowledgeIndex | undefined },
+  signal?: AbortSignal
+): Promise<ConfigEvaluation> {
+  const startedAt = Date.now();
+  const queries: QueryEvaluation[] = [];
+
+  for (const item of goldenSet.queries) {
+    signal?.throwIfAborted();
+    const response = await queryVectorStore(item.query, k, {
+      mode: config.mode,
+      rerank: config.rerank,
+      filters: item.filters,
+      index: config.index,
+    });
+    if (!response.success || !response.results) {
+      const reason = response.error instanceof Error ? response.error.message : String(response.error);
+      throw new Error(`查询 ${item.id} 检索失败: ${reason}`);
+    }
+
+    const results = response.results.map(([document, score]): RetrievedChunk & { score: number | null } => ({
+      content: document.pageContent,
+      metadata: document.metadata,
+      score,
+    }));
+    queries.push({
+      id: item.id,
+      query: item.query,
+      ...evaluateResults(item.expected, results, k),
+      results: results.map((result) => ({
+        fileName: typeof result.metadata.fileName === 'string' ? result.metadata.fileName : null,
+        pageNumber: typeof result.metadata.pageNumber === 'number' ? result.metadata.pageNumber : null,
+        recipeName: typeof result.metadata.recipeName === 'string' ? result.metadata.recipeName : null,
+        score: result.score,
+      })),
+    });
+  }
+
+  const { index, ...rest } = config;
+  return {
+    ...rest,
+    index: index ? { documents: index.documents, chunks: index.chunks, failedChunks: index.failedChunks } : null,
+    summary: summarizeMetrics(queries, k),
+    queries,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
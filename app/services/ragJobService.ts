@@ -0,0 +1,234 @@
+/**
+ * 知识库同步后台任务
+ *
+ * 同步请求只创建任务并立即返回任务 ID，任务在后台按创建顺序逐个执行（同一时间只运行一个同步），
+ * 运行中的进度来自 ragService 的 loadingProgress。
+ * 任务记录保存在进程内存中，保留最近 MAX_JOB_HISTORY 条已结束的任务，服务重启后清空
+ */
+
+import { randomUUID } from 'crypto';
+import { getLoadingProgress, runRagPipeline, type KnowledgeSyncReport } from './ragService';
+
+/**
+ * 保留的已结束任务数量
+ */
+const MAX_JOB_HISTORY = 50;
+
+export type RagJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * 任务进度（文件、文本块、向量化批次和预计剩余时间）
+ */
+export type RagJobProgress = ReturnType<typeof getLoadingProgress>;
+
+/**
+ * 同步任务
+ */
+export interface RagJob {
+  id: string;
+  type: 'sync';
+  status: RagJobStatus;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  /** 运行中为实时进度，结束后为结束时的进度，排队中为 null */
+  progress: RagJobProgress | null;
+  message: string | null;
+  /** 同步报告，任务完成后才有 */
+  report: KnowledgeSyncReport | null;
+  error: string | null;
+  /** 是否已请求取消（运行中的任务在当前文件或向量化批次结束后停止） */
+  cancelRequested: boolean;
+}
+
+interface JobEntry {
+  job: RagJob;
+  controller: AbortController;
+}
+
+/**
+ * RagJobQueue
+ *
+ * 负责同步任务的排队、执行、取消和历史记录
+ */
+export class RagJobQueue {
+  private jobs = new Map<string, JobEntry>();
+  private queue: string[] = [];
+  private processing = false;
+
+  /**
+   * 创建同步任务
+   * 已有排队中的同步任务时直接返回该任务：它开始时会扫描全部文件，不需要重复同步
+   */
+  enqueueSync(): RagJob {
+    const queued = this.queue
+      .map((id) => this.jobs.get(id))
+      .find((entry) => entry?.job.status === 'queued');
+    if (queued) {
+      return this.snapshot(queued.job);
+    }
+
+    const job: RagJob = {
+      id: randomUUID(),
+      type: 'sync',
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      progress: null,
+      message: null,
+      report: null,
+      error: null,
+      cancelRequested: false,
+    };
+    this.jobs.set(job.id, { job, controller: new AbortController() });
+    this.queue.push(job.id);
+    this.pruneHistory();
+    console.log(`📥 知识库同步任务已创建: ${job.id}`);
+
+    void this.processQueue();
+    return this.snapshot(job);
+  }
+
+  /**
+   * 获取任务
+   *
+   * @returns 任务，不存在时返回 null
+   */
+  getJob(id: string): RagJob | null {
+    const entry = this.jobs.get(id);
+    return entry ? this.snapshot(entry.job) : null;
+  }
+
+  /**
+   * 获取任务列表，按创建时间倒序
+   */
+  listJobs(): RagJob[] {
+    return Array.from(this.jobs.values())
+      .map((entry) => this.snapshot(entry.job))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * 获取正在运行的任务
+   */
+  getRunningJob(): RagJob | null {
+    const entry = Array.from(this.jobs.values()).find((item) => item.job.status === 'running');
+    return entry ? this.snapshot(entry.job) : null;
+  }
+
+  /**
+   * 取消任务
+   * 排队中的任务立即取消；运行中的任务在当前文件或向量化批次结束后停止
+   *
+   * @returns 取消后的任务，不存在时返回 null
+   */
+  cancel(id: string): RagJob | null {
+    const entry = this.jobs.get(id);
+    if (!entry) {
+      return null;
+    }
+
+    const { job } = entry;
+    if (job.status === 'queued') {
+      this.queue = this.queue.filter((queuedId) => queuedId !== id);
+      job.status = 'cancelled';
+      job.cancelRequested = true;
+      job.finishedAt = new Date().toISOString();
+      console.log(`🛑 已取消排队中的同步任务: ${id}`);
+    } else if (job.status === 'running' && !job.cancelRequested) {
+      job.cancelRequested = true;
+      entry.controller.abort();
+      console.log(`🛑 已请求取消同步任务: ${id}`);
+    }
+    return this.snapshot(job);
+  }
+
+  /**
+   * 依次执行排队中的任务
+   */
+  private async processQueue(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    try {
+      let id = this.queue.shift();
+      while (id) {
+        const entry = this.jobs.get(id);
+        if (entry && entry.job.status === 'queued') {
+          await this.runJob(entry);
+        }
+        id = this.queue.shift();
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async runJob({ job, controller }: JobEntry): Promise<void> {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    console.log(`🔄 开始执行同步任务: ${job.id}`);
+
+    try {
+      const result = await runRagPipeline({ signal: controller.signal });
+      job.message = result.message;
+      if (result.success) {
+        job.status = 'completed';
+        job.report = result.report ?? null;
+      } else if ('cancelled' in result && result.cancelled) {
+        job.status = 'cancelled';
+      } else {
+        job.status = 'failed';
+        job.error = 'error' in result ? (result.error as Error)?.message || String(result.error) : result.message;
+      }
+    } catch (error) {
+      job.status = 'failed';
+      job.error = (error as Error)?.message || String(error);
+    }
+
+    job.progress = getLoadingProgress();
+    job.finishedAt = new Date().toISOString();
+    console.log(`${job.status === 'completed' ? '✅' : '⚠️'} 同步任务结束: ${job.id} (${job.status})`);
+  }
+
+  /**
+   * 运行中的任务返回实时进度
+   */
+  private snapshot(job: RagJob): RagJob {
+    return {
+      ...job,
+      progress: job.status === 'running' ? getLoadingProgress() : job.progress,
+    };
+  }
+
+  /**
+   * 只保留最近 MAX_JOB_HISTORY 条已结束的任务
+   */
+  private pruneHistory(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter((entry) => entry.job.finishedAt !== null)
+      .sort((a, b) => b.job.createdAt.localeCompare(a.job.createdAt));
+    for (const entry of finished.slice(MAX_JOB_HISTORY)) {
+      this.jobs.delete(entry.job.id);
+    }
+  }
+}
+
+/**
+ * 单例实例
+ */
+let queueInstance: RagJobQueue | null = null;
+
+/**
+ * 获取任务队列单例实例
+ *
+ * @returns RagJobQueue 实例
+ */
+export function getRagJobQueue(): RagJobQueue {
+  if (!queueInstance) {
+    queueInstance = new RagJobQueue();
+  }
+  return queueInstance;
+}
@@ -1,103 +1,241 @@
-// @ts-nocheck
-import { DirectoryLoader } from "@langchain/classic/document_loaders/fs/directory";
-import { PDFLoader } from "@langchain/community/document_loaders/fs/pdf";
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
-import { OpenAIEmbeddings } from "@langchain/openai";
-import { MemoryVectorStore } from "@langchain/classic/vectorstores/memory";
 import path from "path";
 import { cwd } from "process";
-import { existsSync, readdirSync } from "fs";
+import { existsSync, mkdirSync, readFileSync, readdirSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { Document } from "@langchain/core/documents";
+import {
+  VECTOR_CACHE_PATH,
+  hashFile,
+  loadVectorCache,
+  saveVectorCache,
+  type CachedDocument,
+  type VectorCache,
+} from "./vectorStoreCache";
+import { getRagVectorStore, type ChunkFilter, type RagVectorStore, type VectorChunk } from "./vectorStore/ragVectorStore";
+import { MemoryVectorStore } from "./vectorStore/memoryVectorStore";
+import { KeywordIndex, countTerms } from "./keywordIndex";
+import { fuseResults, rerankResults } from "./hybridSearch";
+import type { KnowledgeContext } from "../types";
+import { getKnowledgeDocumentService, type KnowledgeDocumentRecord } from "./knowledgeDocumentService";
+import { dedupeRecipes, extractRecipesFromPage } from "./recipeExtractor";
+import { getRecipeCatalogService, type RecipeImportReport } from "./recipeCatalogService";
+import {
+  SUPPORTED_EXTENSIONS,
+  getDocumentType,
+  isKnowledgeFileName,
+  loadTextDocument,
+  type KnowledgeDocumentType,
+} from "./documentLoaders";
+import { embedWithRetry, getEmbeddingProvider, type EmbeddingProvider } from "./embeddings/embeddingProvider";
+import { PDFService } from "./pdfService";
 
 // Define paths and constants
-const PDFS_PATH = path.resolve(cwd(), "pdfs");
+// Knowledge-base directory; besides PDFs it holds .md, .txt, .html, .csv and .json files
+const KNOWLEDGE_PATH = path.resolve(cwd(), "pdfs");
 
 // In-memory state for the current RAG session
-let memoryStore: MemoryVectorStore | null = null;
+// Whether the configured vector store (RAG_VECTOR_STORE) holds the cached documents
+let vectorStoreReady = false;
 let lastDocsCount = 0;
 let lastChunksCount = 0;
-let loadingProgress = {
+// Persisted vector cache, the source of the vectors written to the vector store (see vectorStoreCache.ts)
+let vectorCache: VectorCache | null = null;
+let loadedFromDisk = false;
+let lastSyncReport: KnowledgeSyncReport | null = null;
+// BM25 index over the same chunks as the vector store, used by hybrid search
+const keywordIndex = new KeywordIndex();
+const loadingProgress = {
   totalFiles: 0,
   processedFiles: 0,
   currentFile: '',
-  status: 'idle' // idle, loading, processing, completed, error
+  status: 'idle', // idle, loading, processing, completed, error, cancelled
+  // Chunks of the file being embedded and how many of them are done
+  currentFileChunks: 0,
+  currentFileEmbeddedChunks: 0,
+  // Embedding batches of the file being embedded
+  embeddingBatches: { completed: 0, total: 0 },
+  // Chunks embedded since the run started
+  embeddedChunks: 0,
+  startedAt: null as number | null,
 };
 
 /**
- * Enhanced PDF document loader with better error handling and metadata extraction.
- * Based on LangChain PDFLoader documentation best practices.
+ * Chunks sent to the embeddings model per request; progress and cancellation are checked between batches
  */
-async function loadDocuments() {
-  console.log(`[RAG] Loading documents from: ${PDFS_PATH}`);
+const EMBEDDING_BATCH_SIZE = 32;
 
-  // Check if PDFs directory exists
-  if (!existsSync(PDFS_PATH)) {
-    console.warn(`[RAG] PDFs directory not found: ${PDFS_PATH}`);
-    return [];
-  }
+/**
+ * A document listed in the knowledge-base sync report.
+ */
+export interface SyncReportEntry {
+  fileName: string;
+  /** Path relative to the project root, e.g. "pdfs/cocktails.pdf" */
+  filePath: string;
+  /** Document type, e.g. "pdf", "markdown", "csv" (see documentLoaders.ts) */
+  documentType: string;
+  /** SHA-256 of the file content */
+  hash: string | null;
+  chunkCount: number;
+  /** Chunks that could not be embedded; the document is retried by the next sync */
+  failedChunkCount: number;
+  /** PDF pages without extractable text (empty, scanned or failed to parse); empty for other formats */
+  flaggedPages: number[];
+}
 
-  // Get list of PDF files for progress tracking
-  const pdfFiles = readdirSync(PDFS_PATH).filter((f: string) => f.toLowerCase().endsWith(".pdf"));
-  loadingProgress.totalFiles = pdfFiles.length;
-  loadingProgress.processedFiles = 0;
-  loadingProgress.status = 'loading';
+/**
+ * A chunk that could not be embedded after retrying.
+ */
+export interface ChunkEmbeddingFailure {
+  fileName: string;
+  chunkId: string;
+  error: string;
+  attempts: number;
+  /** Whether the last attempt was rate limited */
+  rateLimited: boolean;
+}
 
-  if (pdfFiles.length === 0) {
-    console.warn(`[RAG] No PDF files found in: ${PDFS_PATH}`);
-    loadingProgress.status = 'completed';
+/**
+ * Result of one knowledge-base sync.
+ */
+export interface KnowledgeSyncReport {
+  added: SyncReportEntry[];
+  updated: SyncReportEntry[];
+  removed: SyncReportEntry[];
+  unchanged: SyncReportEntry[];
+  /** Chunks that could not be embedded; their documents are marked partially processed */
+  failures: ChunkEmbeddingFailure[];
+  /** Whether change detection used the knowledge_documents table (false: fell back to the vector cache) */
+  tracked: boolean;
+  startedAt: string;
+  durationMs: number;
+}
+
+/**
+ * Options for queryVectorStore.
+ */
+export interface KnowledgeQueryOptions {
+  /** hybrid (default): vector + BM25 fused with RRF; vector / keyword: a single retriever */
+  mode?: "hybrid" | "vector" | "keyword";
+  /** Metadata filters (category, chunkType, hasIngredients) */
+  filters?: ChunkFilter;
+  /** Rerank the fused results locally by query term coverage and exact phrase matches */
+  rerank?: boolean;
+  /** Search this index instead of the live knowledge base (see buildKnowledgeIndex) */
+  index?: KnowledgeIndex;
+}
+
+/**
+ * How PDF pages are split into chunks.
+ */
+export interface ChunkingConfig {
+  chunkSize: number;
+  chunkOverlap: number;
+  /** Start a new chunk at every recipe title line before size-based splitting */
+  recipeBoundaries: boolean;
+}
+
+/**
+ * Chunking used by the sync pipeline
+ */
+export const DEFAULT_CHUNKING: ChunkingConfig = {
+  chunkSize: 800, // Smaller chunks for better recipe matching
+  chunkOverlap: 150, // Increased overlap for recipe continuity
+  recipeBoundaries: false,
+};
+
+/**
+ * A standalone in-memory index over the knowledge files, built with its own chunking and
+ * embeddings model. Used by the retrieval evaluation to compare configurations without
+ * touching the live vector store or the vector cache.
+ */
+export interface KnowledgeIndex {
+  store: RagVectorStore;
+  keywordIndex: KeywordIndex;
+  embeddings: EmbeddingProvider;
+  chunking: ChunkingConfig;
+  documents: number;
+  chunks: number;
+  /** Chunks left out because they could not be embedded */
+  failedChunks: number;
+}
+
+/**
+ * Each retriever fetches this many times k candidates before fusion
+ */
+const CANDIDATE_MULTIPLIER = 4;
+
+/**
+ * Lists the knowledge-base files in the ./pdfs directory, in any supported format.
+ * README files document the directory and are not indexed.
+ */
+function listKnowledgeFiles(): string[] {
+  if (!existsSync(KNOWLEDGE_PATH)) {
+    console.warn(`[RAG] Knowledge directory not found: ${KNOWLEDGE_PATH}`);
     return [];
   }
+  return readdirSync(KNOWLEDGE_PATH)
+    .filter((f: string) => isKnowledgeFileName(f))
+    .sort();
+}
 
-  console.log(`[RAG] Found ${pdfFiles.length} PDF files to process`);
+/**
+ * Returns the document type of a knowledge file, e.g. one listed by listKnowledgeFiles.
+ * @throws {Error} The file extension is not supported.
+ */
+function knowledgeFileType(fileName: string): KnowledgeDocumentType {
+  const documentType = getDocumentType(fileName);
+  if (!documentType) {
+    throw new Error(`Unsupported knowledge file: ${fileName}`);
+  }
+  return documentType;
+}
 
-  try {
-    // Enhanced DirectoryLoader with better error handling
-    const loader = new DirectoryLoader(PDFS_PATH, {
-      ".pdf": (filePath: string) => {
-        loadingProgress.currentFile = path.basename(filePath);
-        console.log(`[RAG] Loading PDF: ${loadingProgress.currentFile}`);
-
-        // Create PDFLoader with enhanced configuration
-        return new PDFLoader(filePath, {
-          // Optional: Add custom PDF parsing options here
-          // pdfjs: () => import("pdfjs-dist/legacy/build/pdf.js"), // Custom PDF.js build if needed
-        });
-      },
-    });
-
-    const docs = await loader.load();
-
-    // Process and enhance document metadata
-    const enhancedDocs = docs.map((doc, index) => {
-      // Extract additional metadata from PDF info
-      const pdfInfo = doc.metadata?.pdf;
-      const enhancedMetadata = {
-        ...doc.metadata,
-        documentId: `doc_${index}`,
-        fileName: path.basename(doc.metadata?.source || 'unknown'),
-        totalPages: pdfInfo?.totalPages || 0,
-        pdfVersion: pdfInfo?.version || 'unknown',
-        processedAt: new Date().toISOString(),
-        // Add recipe-specific metadata if available
-        recipeName: extractRecipeName(doc.pageContent),
-        ingredients: extractIngredients(doc.pageContent),
-        category: extractCategory(doc.pageContent)
-      };
+/**
+ * Parses a PDF page by page with PDFService and splits every page into chunks
+ * that keep their page number and character offsets in the document content.
+ * Empty, scanned and unparsable pages produce no chunks and are returned as flaggedPages.
+ * @param filePath - Absolute path of the PDF file.
+ * @param hash - SHA-256 of the file content, used as the document id.
+ * @param chunking - Chunk size, overlap and whether to split at recipe titles first.
+ */
+async function loadPdfDocument(filePath: string, hash: string, chunking: ChunkingConfig = DEFAULT_CHUNKING) {
+  const fileName = path.basename(filePath);
+  loadingProgress.currentFile = fileName;
+  console.log(`[RAG] Loading PDF: ${fileName}`);
 
-      return {
-        ...doc,
-        metadata: enhancedMetadata
-      };
-    });
+  const pdf = await new PDFService(KNOWLEDGE_PATH, chunking).processPDFFile(filePath);
+  if (!pdf) {
+    throw new Error(`Failed to parse PDF: ${fileName}`);
+  }
 
-    loadingProgress.status = 'completed';
-    console.log(`[RAG] Successfully loaded ${enhancedDocs.length} documents with enhanced metadata`);
-    return enhancedDocs;
+  const metadata = {
+    source: filePath,
+    documentId: hash,
+    fileName,
+    totalPages: pdf.pages.length,
+    processedAt: new Date().toISOString(),
+  };
+  const docs = pdf.pages.map((page) => new Document({
+    pageContent: pdf.content.slice(page.startOffset, page.endOffset),
+    metadata: {
+      ...metadata,
+      pageNumber: page.pageNumber,
+      pageStatus: page.status,
+      startOffset: page.startOffset,
+      endOffset: page.endOffset,
+    },
+  }));
+  const chunks = pdf.chunks.map((chunk) => new Document({
+    pageContent: chunk.content,
+    metadata: {
+      ...metadata,
+      ...chunk.metadata,
+      pageNumber: chunk.pageNumber,
+      startOffset: chunk.startOffset,
+      endOffset: chunk.endOffset,
+    },
+  }));
 
-  } catch (error) {
-    loadingProgress.status = 'error';
-    console.error(`[RAG] Error loading documents:`, error);
-    throw error;
-  }
+  return { docs, chunks, content: pdf.content, flaggedPages: pdf.metadata.flaggedPages };
 }
 
 /**
@@ -153,63 +291,43 @@ function extractCategory(content: string): string | null {
 }
 
 /**
- * Enhanced text splitting with recipe-specific chunking strategy.
- * Based on LangChain RecursiveCharacterTextSplitter best practices.
- * @param docs - An array of Document objects loaded by loadDocuments.
- */
-async function splitDocuments(docs: any[]) {
-  console.log("[RAG] Splitting documents into chunks...");
-
-  // Enhanced text splitter configuration for cocktail recipes
-  const textSplitter = new RecursiveCharacterTextSplitter({
-    chunkSize: 800, // Smaller chunks for better recipe matching
-    chunkOverlap: 150, // Increased overlap for recipe continuity
-    separators: [
-      "\n\n", // Paragraph breaks
-      "\n",   // Line breaks
-      "。",    // Chinese sentence endings
-      "！",    // Chinese exclamation
-      "？",    // Chinese question mark
-      "；",    // Chinese semicolon
-      "，",    // Chinese comma
-      " ",     // Space
-      ""       // Character level
-    ],
-    // Custom chunking function for recipe-specific content
-    chunkingFunction: async (text: string) => {
-      const chunks: string[] = [];
-      const lines = text.split('\n');
-      let currentChunk = '';
-
-      for (const line of lines) {
-        // If line contains recipe name, start a new chunk
-        if (line.trim() && !line.includes('原料') && !line.includes('制作') && !line.includes('步骤') && line.length < 50) {
-          if (currentChunk.trim()) {
-            chunks.push(currentChunk.trim());
-            currentChunk = '';
-          }
-        }
-
-        currentChunk += (currentChunk ? '\n' : '') + line;
-
-        // If chunk gets too large, split it
-        if (currentChunk.length > 800) {
-          chunks.push(currentChunk.trim());
-          currentChunk = '';
-        }
-      }
-
-      if (currentChunk.trim()) {
-        chunks.push(currentChunk.trim());
-      }
-
-      return chunks;
-    }
-  });
+ * Loads a knowledge-base file and splits it with the strategy for its format:
+ * PDFs go through PDFService (page-accurate chunks, see loadPdfDocument), other formats
+ * through documentLoaders.ts (e.g. one chunk per CSV row).
+ * @param filePath - Absolute path of the file.
+ * @param hash - SHA-256 of the file content, used as the document id.
+ * @param documentType - Type derived from the file extension.
+ * @param chunking - How PDF pages are split; other formats use their own splitting.
+ * @returns The loaded documents (one per PDF page, one per file otherwise), their chunks,
+ *   the full text and the PDF pages without extractable text.
+ */
+async function loadKnowledgeFile(filePath: string, hash: string, documentType: KnowledgeDocumentType, chunking: ChunkingConfig = DEFAULT_CHUNKING) {
+  if (documentType === "pdf") {
+    const { docs, chunks, content, flaggedPages } = await loadPdfDocument(filePath, hash, chunking);
+    return { docs, chunks: enhanceChunks(chunks), content, flaggedPages };
+  }
 
-  const chunks = await textSplitter.splitDocuments(docs);
+  const fileName = path.basename(filePath);
+  loadingProgress.currentFile = fileName;
+  console.log(`[RAG] Loading ${documentType} file: ${fileName}`);
+  const { docs, chunks } = await loadTextDocument(filePath, documentType);
+  return {
+    docs,
+    chunks: enhanceChunks(chunks.map((chunk) => ({
+      ...chunk,
+      metadata: { ...chunk.metadata, documentId: hash, fileName },
+    }))),
+    content: docs.map((doc) => doc.pageContent).join("\n\n"),
+    flaggedPages: [] as number[],
+  };
+}
 
-  // Enhance chunks with recipe-specific metadata
+/**
+ * Enhances chunks of any format with recipe-specific metadata and BM25 term frequencies.
+ * A chunkType set by the loader (e.g. "recipe" for CSV rows) is kept.
+ * @param chunks - Chunks from loadPdfDocument or loadTextDocument.
+ */
+function enhanceChunks(chunks: Document[]) {
   const enhancedChunks = chunks.map((chunk, index) => {
     const content = chunk.pageContent;
     const metadata = chunk.metadata;
@@ -221,6 +339,8 @@ async function splitDocuments(docs: any[]) {
 
     return {
       ...chunk,
+      // Term frequencies for the BM25 keyword index, built alongside the vectors
+      terms: countTerms(content),
       metadata: {
         ...metadata,
         chunkId: `chunk_${index}`,
@@ -228,7 +348,7 @@ async function splitDocuments(docs: any[]) {
         recipeName: recipeName || metadata.recipeName,
         ingredients: ingredients.length > 0 ? ingredients : metadata.ingredients,
         category: category || metadata.category,
-        chunkType: determineChunkType(content),
+        chunkType: metadata.chunkType ?? determineChunkType(content),
         wordCount: content.split(/\s+/).length,
         hasIngredients: content.includes('原料') || content.includes('材料'),
         hasSteps: content.includes('制作') || content.includes('步骤'),
@@ -259,136 +379,445 @@ function determineChunkType(content: string): string {
 }
 
 /**
- * Initializes embeddings model with multiple provider options.
- * Priority: OpenAI > HuggingFace > Local Xenova
+ * Embeds the chunks of one document in batches of EMBEDDING_BATCH_SIZE.
+ * Failed requests are retried with exponential backoff (see embeddingRetry.ts); chunks that still
+ * fail get a null vector and a failure entry instead of a placeholder vector.
+ * Updates loadingProgress after every batch.
+ * @param chunks - The document chunks from loadKnowledgeFile
+ * @param embeddings - The embeddings provider
+ * @param signal - Aborts between batches and retries when the sync is cancelled
  */
-function getEmbeddings() {
-  console.log("[RAG] Initializing embeddings model...");
+async function embedChunks(chunks: { pageContent: string }[], embeddings: EmbeddingProvider, signal?: AbortSignal) {
+  const vectors: (number[] | null)[] = [];
+  const failures: { index: number; error: string; attempts: number; rateLimited: boolean }[] = [];
+  const totalBatches = Math.ceil(chunks.length / EMBEDDING_BATCH_SIZE);
+  loadingProgress.currentFileChunks = chunks.length;
+  loadingProgress.currentFileEmbeddedChunks = 0;
+  loadingProgress.embeddingBatches = { completed: 0, total: totalBatches };
 
-  // 1. 优先使用 OpenAI Embeddings（最稳定）
-  if (process.env.OPENAI_API_KEY) {
-    console.log("[RAG] Using OpenAI embeddings (text-embedding-3-small)...");
-    const embeddings = new OpenAIEmbeddings({
-      model: "text-embedding-3-small", // 更小、更快、更便宜
-      maxRetries: 3,
-      timeout: 30000,
-    });
-    console.log('[RAG] OpenAI embeddings initialized successfully');
-    return embeddings;
-  }
+  for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+    signal?.throwIfAborted();
+    const batch = chunks.slice(start, start + EMBEDDING_BATCH_SIZE);
+    console.log(`[RAG] Embedding batch ${start / EMBEDDING_BATCH_SIZE + 1}/${totalBatches} (${batch.length} chunks)...`);
+    const result = await embedWithRetry(embeddings, batch.map((chunk) => chunk.pageContent), { signal });
+    vectors.push(...result.embeddings);
+    failures.push(...result.failures.map((failure) => ({ ...failure, index: failure.index + start })));
+    if (result.failures.length > 0) {
+      console.warn(`[RAG] ${result.failures.length}/${batch.length} chunks failed to embed: ${result.failures[0].error}`);
+    }
 
-  // 2. 备选：HuggingFace API
-  if (process.env.HUGGINGFACE_API_KEY) {
-    console.log("[RAG] Using HuggingFace API embeddings (sentence-transformers/all-MiniLM-L6-v2)...");
-    const { HuggingFaceInferenceEmbeddings } = require("@langchain/community/embeddings/hf");
-    const embeddings = new HuggingFaceInferenceEmbeddings({
-      model: "sentence-transformers/all-MiniLM-L6-v2",
-      apiKey: process.env.HUGGINGFACE_API_KEY,
-      maxRetries: 3,
-      timeout: 30000,
-    });
-    console.log('[RAG] HuggingFace embeddings initialized successfully');
-    return embeddings;
+    const embedded = batch.length - result.failures.length;
+    loadingProgress.currentFileEmbeddedChunks += embedded;
+    loadingProgress.embeddedChunks += embedded;
+    loadingProgress.embeddingBatches.completed++;
   }
+  return { vectors, failures };
+}
 
-  // 3. 最后备选：本地 Xenova 模型
-  console.log("[RAG] No API keys found, using local Xenova embeddings...");
-  const { HuggingFaceInferenceEmbeddings } = require("@langchain/community/embeddings/hf");
-  const embeddings = new HuggingFaceInferenceEmbeddings({
-    model: "Xenova/all-MiniLM-L6-v2", // 本地模型
+/**
+ * Converts a cached document into vector store chunks.
+ * documentId, chunkId, fileName and pageNumber are stored as separate fields by the
+ * Milvus and Postgres backends.
+ */
+function toVectorChunks(doc: CachedDocument): VectorChunk[] {
+  return doc.chunks.map((chunk, index) => {
+    const chunkId = String(chunk.metadata.chunkId ?? `${doc.hash.slice(0, 12)}_${index}`);
+    return {
+      id: chunkId,
+      content: chunk.content,
+      embedding: chunk.embedding,
+      metadata: {
+        ...chunk.metadata,
+        documentId: doc.hash,
+        chunkId,
+        fileName: doc.fileName,
+        pageNumber: chunk.metadata.pageNumber as number | undefined,
+      },
+    };
   });
-  console.log('[RAG] Local Xenova embeddings initialized successfully');
-  return embeddings;
 }
 
 /**
- * Creates a local in-memory vector store from the document chunks with retry mechanism.
- * @param chunks - The document chunks from splitDocuments
- * @param embeddings - The initialized embeddings model
+ * Brings the configured vector store in line with the vector cache: uploads the
+ * documents the store does not have yet and deletes documents no longer in the cache.
+ * Vectors come from the cache, so the embeddings model is not called again.
  */
-async function createVectorStore(chunks: any[], embeddings: any) {
-  console.log("[RAG] Building in-memory vector store...");
-  loadingProgress.status = 'processing';
+async function syncVectorStore(cache: VectorCache) {
+  const store = getRagVectorStore();
+  console.log(`[RAG] Syncing ${store.backend} vector store...`);
+  // Refuses to write into a store that holds vectors of another model or dimension
+  const dimension = cache.embeddingDimension ?? getEmbeddingProvider().dimension;
+  if (dimension !== null) {
+    await store.assertEmbeddingModel({ id: cache.embeddingModel, dimension });
+  }
+  const storedIds = new Set(await store.listDocumentIds());
+  const documents = Object.values(cache.documents);
 
-  const vectorStore = new MemoryVectorStore(embeddings);
+  const staleIds = Array.from(storedIds).filter((id) => !cache.documents[id]);
+  if (staleIds.length > 0) {
+    await store.deleteDocuments(staleIds);
+  }
+  for (const doc of documents) {
+    if (!storedIds.has(doc.hash)) {
+      await store.upsertChunks(toVectorChunks(doc));
+    }
+  }
 
-  // 添加重试机制
-  let retries = 3;
-  let lastError: any;
+  keywordIndex.clear();
+  for (const doc of documents) {
+    keywordIndex.add(toVectorChunks(doc).map((chunk, index) => ({
+      id: chunk.id,
+      content: chunk.content,
+      metadata: chunk.metadata,
+      terms: doc.chunks[index].terms,
+    })));
+  }
 
-  while (retries > 0) {
-    try {
-      console.log(`[RAG] Adding ${chunks.length} chunks to vector store (attempt ${4 - retries}/3)...`);
-      await vectorStore.addDocuments(chunks);
-      console.log("[RAG] Vector store ready (in-memory).");
-      return vectorStore;
-    } catch (error) {
-      lastError = error;
-      retries--;
-      console.warn(`[RAG] Failed to add documents to vector store. Retries left: ${retries}`, error);
+  vectorCache = cache;
+  vectorStoreReady = true;
+  lastDocsCount = documents.reduce((sum, doc) => sum + doc.pageCount, 0);
+  lastChunksCount = documents.reduce((sum, doc) => sum + doc.chunks.length, 0);
+  console.log(`[RAG] Vector store ready (${store.backend}, ${lastChunksCount} chunks, ${staleIds.length} stale documents removed).`);
+}
 
-      if (retries > 0) {
-        // 等待一段时间后重试
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
-    }
+/**
+ * Restores the vector store from the persisted cache, if available.
+ * Called lazily on first use so that a restart or cold start does not re-embed every PDF.
+ * @returns Whether a vector store is available after loading.
+ */
+export async function loadPersistedVectorStore(): Promise<boolean> {
+  if (vectorStoreReady) {
+    return true;
+  }
+
+  const cache = loadVectorCache(getEmbeddingProvider().id);
+  if (!cache) {
+    return false;
+  }
+
+  console.log(`[RAG] Restoring vector store from ${VECTOR_CACHE_PATH}`);
+  await syncVectorStore(cache);
+  loadedFromDisk = true;
+  return true;
+}
+
+/**
+ * Loads the previously synced documents, keyed by file path.
+ * Uses the knowledge_documents table; if the database is unavailable,
+ * falls back to the documents recorded in the vector cache.
+ */
+async function loadSyncedDocuments(previous: VectorCache | null) {
+  try {
+    const records = await getKnowledgeDocumentService().listDocuments();
+    return {
+      tracked: true,
+      records: new Map(records.map((record) => [record.filePath, record])),
+    };
+  } catch (error) {
+    console.warn("[RAG] Failed to read knowledge_documents, falling back to vector cache for change detection:", error);
+    const records = Object.values(previous?.documents ?? {}).map((doc): KnowledgeDocumentRecord => ({
+      id: doc.hash,
+      title: doc.fileName,
+      filePath: toRelativeKnowledgePath(doc.fileName),
+      documentType: doc.documentType ?? "pdf",
+      fileSize: 0,
+      contentHash: doc.hash,
+      milvusId: doc.hash,
+      chunkCount: doc.chunks.length,
+      isProcessed: !doc.failedChunkCount,
+      failedChunkCount: doc.failedChunkCount ?? 0,
+      processingStatus: doc.failedChunkCount ? "partial" : "processed",
+      updatedAt: doc.createdAt,
+    }));
+    return {
+      tracked: false,
+      records: new Map(records.map((record) => [record.filePath, record])),
+    };
   }
+}
 
-  // 如果所有重试都失败了，抛出错误
-  throw new Error(`Failed to create vector store after 3 attempts. Last error: ${lastError?.message || lastError}`);
+function toRelativeKnowledgePath(fileName: string): string {
+  return path.posix.join("pdfs", fileName);
+}
+
+/**
+ * Loads, splits and embeds one knowledge file.
+ * @param fileName - File name in ./pdfs.
+ * @param hash - SHA-256 of the file content, used as the document id.
+ * @param embeddings - The initialized embeddings model.
+ * @param signal - Aborts embedding when the sync is cancelled.
+ * @returns The document to store in the vector cache (only chunks that were embedded),
+ *   the full text for knowledge_documents and the chunks that failed to embed.
+ */
+async function buildCachedDocument(fileName: string, hash: string, embeddings: EmbeddingProvider, signal?: AbortSignal) {
+  const documentType = knowledgeFileType(fileName);
+  const { docs, chunks: loadedChunks, content, flaggedPages } = await loadKnowledgeFile(path.join(KNOWLEDGE_PATH, fileName), hash, documentType);
+  loadingProgress.status = 'processing';
+  const chunks = loadedChunks.map((chunk, index) => ({
+    ...chunk,
+    metadata: { ...chunk.metadata, chunkId: `${hash.slice(0, 12)}_${index}` },
+  }));
+  const { vectors, failures } = await embedChunks(chunks, embeddings, signal);
+  loadingProgress.status = 'loading';
+  const embedded = chunks
+    .map((chunk, index) => ({ chunk, embedding: vectors[index] }))
+    .filter((item): item is { chunk: typeof item.chunk; embedding: number[] } => item.embedding !== null);
+
+  const document: CachedDocument = {
+    hash,
+    fileName,
+    documentType,
+    pageCount: docs.length,
+    chunks: embedded.map(({ chunk, embedding }) => ({
+      content: chunk.pageContent,
+      metadata: chunk.metadata,
+      embedding,
+      terms: chunk.terms,
+    })),
+    failedChunkCount: failures.length,
+    flaggedPages,
+    createdAt: new Date().toISOString(),
+  };
+  return {
+    document,
+    content,
+    failures: failures.map((failure): ChunkEmbeddingFailure => ({
+      fileName,
+      chunkId: String(chunks[failure.index].metadata.chunkId),
+      error: failure.error,
+      attempts: failure.attempts,
+      rateLimited: failure.rateLimited,
+    })),
+  };
 }
 
 /**
  * The main function to orchestrate the RAG data processing pipeline.
- * It loads PDFs from the ./pdfs directory, splits them into chunks,
- * generates embeddings, and stores them in a Chroma vector store.
+ * It syncs the ./pdfs directory (PDF, Markdown, text, HTML, CSV and JSON files)
+ * incrementally: every file is hashed and
+ * compared with its knowledge_documents record, only added or changed files
+ * are loaded, split and embedded, and chunks of deleted files are dropped.
+ * Vectors are persisted per file content hash (see vectorStoreCache.ts).
+ * Usually run in the background through ragJobService.ts; progress is reported in loadingProgress.
+ * @param options - signal: cancels the sync between files and embedding batches. Vectors
+ *   embedded before cancellation are kept in the vector cache, so the next sync reuses them.
  */
-export async function runRagPipeline() {
+export async function runRagPipeline(options: { signal?: AbortSignal } = {}) {
+  const { signal } = options;
+  const startedAt = new Date();
+  if (isKnowledgeSyncInProgress()) {
+    return { success: false, message: "A knowledge-base sync is already running." };
+  }
+
+  let embeddingModel = "";
+  let previous: VectorCache | null = null;
+  const documents: Record<string, CachedDocument> = {};
   try {
     console.log("--- Starting RAG Pipeline ---");
-    const docs = await loadDocuments();
+    const knowledgeFiles = listKnowledgeFiles();
+    resetLoadingProgress(knowledgeFiles.length);
 
-    // If no documents are found, exit gracefully.
-    if (docs.length === 0) {
-      console.log("No documents found in the 'pdfs' directory. RAG pipeline finished.");
-      return { success: true, message: "No documents to process." };
+    console.log(`[RAG] Found ${knowledgeFiles.length} knowledge files to sync`);
+    const embeddings = getEmbeddingProvider();
+    embeddingModel = embeddings.id;
+    previous = loadVectorCache(embeddingModel);
+    const { tracked, records } = await loadSyncedDocuments(previous);
+    const knowledgeDocuments = getKnowledgeDocumentService();
+    const report: KnowledgeSyncReport = {
+      added: [],
+      updated: [],
+      removed: [],
+      unchanged: [],
+      failures: [],
+      tracked,
+      startedAt: startedAt.toISOString(),
+      durationMs: 0,
+    };
+
+    for (const fileName of knowledgeFiles) {
+      signal?.throwIfAborted();
+      loadingProgress.currentFile = fileName;
+      loadingProgress.currentFileChunks = 0;
+      loadingProgress.currentFileEmbeddedChunks = 0;
+      loadingProgress.embeddingBatches = { completed: 0, total: 0 };
+      const absolutePath = path.join(KNOWLEDGE_PATH, fileName);
+      const filePath = toRelativeKnowledgePath(fileName);
+      const documentType = knowledgeFileType(fileName);
+      const hash = hashFile(absolutePath);
+      const record = records.get(filePath);
+      records.delete(filePath);
+
+      // Partially embedded documents are rebuilt; chunks embedded before come from the embedding cache
+      const cached = previous?.documents[hash]?.failedChunkCount ? undefined : previous?.documents[hash];
+      if (record && record.isProcessed && record.contentHash === hash && cached) {
+        documents[hash] = { ...cached, fileName, documentType };
+        report.unchanged.push({
+          fileName,
+          filePath,
+          documentType,
+          hash,
+          chunkCount: cached.chunks.length,
+          failedChunkCount: 0,
+          flaggedPages: cached.flaggedPages ?? [],
+        });
+        loadingProgress.processedFiles++;
+        continue;
+      }
+
+      let document: CachedDocument | null = cached ? { ...cached, fileName, documentType } : null;
+      let content = "";
+      if (document) {
+        // Same content already embedded under another path or before a failed sync
+        console.log(`[RAG] Reusing cached vectors for ${fileName}`);
+        content = document.chunks.map((chunk) => chunk.content).join("\n\n");
+      } else {
+        let failures: ChunkEmbeddingFailure[];
+        ({ document, content, failures } = await buildCachedDocument(fileName, hash, embeddings, signal));
+        report.failures.push(...failures);
+        if (previous?.documents[hash]) {
+          // syncVectorStore only uploads documents missing from the store
+          await getRagVectorStore().deleteDocuments([hash]);
+        }
+      }
+      documents[hash] = document;
+
+      if (tracked) {
+        await knowledgeDocuments.saveProcessedDocument(record?.id ?? null, {
+          title: fileName,
+          filePath,
+          documentType,
+          fileSize: statSync(absolutePath).size,
+          contentHash: hash,
+          content,
+          pageCount: document.pageCount,
+          chunkCount: document.chunks.length,
+          failedChunkCount: document.failedChunkCount ?? 0,
+          milvusId: hash,
+        });
+      }
+
+      const entry = {
+        fileName,
+        filePath,
+        documentType,
+        hash,
+        chunkCount: document.chunks.length,
+        failedChunkCount: document.failedChunkCount ?? 0,
+        flaggedPages: document.flaggedPages ?? [],
+      };
+      if (record) {
+        report.updated.push(entry);
+      } else {
+        report.added.push(entry);
+      }
+      loadingProgress.processedFiles++;
     }
 
-    const chunks = await splitDocuments(docs);
-    const embeddings = getEmbeddings();
-    memoryStore = await createVectorStore(chunks, embeddings);
-    console.log('memoryStore', memoryStore);
+    // Records left over belong to files that were deleted from ./pdfs
+    report.removed = Array.from(records.values()).map((record) => ({
+      fileName: path.basename(record.filePath),
+      filePath: record.filePath,
+      documentType: record.documentType,
+      hash: record.contentHash,
+      chunkCount: record.chunkCount,
+      failedChunkCount: record.failedChunkCount,
+      flaggedPages: [],
+    }));
+    if (tracked) {
+      await knowledgeDocuments.deleteDocuments(Array.from(records.values()).map((record) => record.id));
+    }
+
+    const cache = saveVectorCache(embeddingModel, documents);
+    await syncVectorStore(cache);
+    loadedFromDisk = false;
+    report.durationMs = Date.now() - startedAt.getTime();
+    lastSyncReport = report;
+    loadingProgress.status = 'completed';
 
-    lastDocsCount = docs.length;
-    lastChunksCount = chunks.length;
+    const flaggedPageCount = [...report.added, ...report.updated, ...report.unchanged]
+      .reduce((sum, entry) => sum + entry.flaggedPages.length, 0);
     console.log("--- RAG Pipeline Completed Successfully ---");
-    return { success: true, message: `Successfully processed ${docs.length} documents and created ${chunks.length} chunks.` };
+    return {
+      success: true,
+      message: `Synced ${knowledgeFiles.length} documents (${lastChunksCount} chunks): ` +
+        `${report.added.length} added, ${report.updated.length} updated, ` +
+        `${report.removed.length} removed, ${report.unchanged.length} unchanged` +
+        (flaggedPageCount > 0 ? `; ${flaggedPageCount} PDF pages have no extractable text (empty or scanned)` : "") +
+        (report.failures.length > 0 ? `; ${report.failures.length} chunks failed to embed and will be retried by the next sync.` : "."),
+      report,
+    };
   } catch (error) {
+    if (signal?.aborted) {
+      // Keep the vectors embedded so far; the vector store is brought in line by the next sync
+      if (embeddingModel && Object.keys(documents).length > 0) {
+        saveVectorCache(embeddingModel, { ...(previous?.documents ?? {}), ...documents });
+      }
+      loadingProgress.status = 'cancelled';
+      console.warn(`--- RAG Pipeline Cancelled (${loadingProgress.processedFiles}/${loadingProgress.totalFiles} files) ---`);
+      return { success: false, cancelled: true, message: "The RAG pipeline was cancelled." };
+    }
+    loadingProgress.status = 'error';
     console.error("--- RAG Pipeline Failed ---", error);
     return { success: false, message: "An error occurred during the RAG pipeline.", error };
   }
 }
 
 /**
- * Queries the vector store to find relevant documents for a given query.
+ * Queries the knowledge base to find relevant documents for a given query.
+ * By default runs hybrid search: vector similarity and BM25 keyword search
+ * (which catches exact cocktail names and ingredient terms such as "金酒"),
+ * fused with reciprocal-rank fusion and optionally reranked locally.
  * @param query - The user's query string.
  * @param k - The number of top results to retrieve.
- * @returns A list of relevant documents with their scores.
+ * @param options - Search mode, metadata filters and reranking.
+ * @returns A list of relevant documents with their scores. Per-retriever scores
+ *   are available in metadata.retrieval.
  */
-export async function queryVectorStore(query: string, k: number = 5) {
+export async function queryVectorStore(query: string, k: number = 5, options: KnowledgeQueryOptions = {}) {
+  const { mode = "hybrid", filters, rerank = false, index } = options;
   try {
-    console.log(`[RAG] Querying vector store for: "${query}"`);
-    if (!memoryStore) {
+    console.log(`[RAG] Querying knowledge base (${mode}${rerank ? ", rerank" : ""}) for: "${query}"`);
+    if (!index && !vectorStoreReady && !(await loadPersistedVectorStore())) {
       console.warn("[RAG] Vector store not initialized. Running pipeline first...");
       const init = await runRagPipeline();
-      if (!init.success || !memoryStore) {
+      if (!init.success || !vectorStoreReady) {
         return { success: false, error: "Vector store not available" };
       }
     }
 
-    const results = await memoryStore.similaritySearchWithScore(query, k);
+    const store = index?.store ?? getRagVectorStore();
+    const embeddings = index?.embeddings ?? getEmbeddingProvider();
+    const keywords = index?.keywordIndex ?? keywordIndex;
+    const candidateK = k * CANDIDATE_MULTIPLIER;
+    const vectorMatches = mode === "keyword" || (index?.chunks ?? lastChunksCount) === 0
+      ? []
+      : await store.search(await embeddings.embedQuery(query), candidateK, filters);
+    const keywordMatches = mode === "vector" ? [] : keywords.search(query, candidateK, filters);
 
-    console.log(`[RAG] Found ${results.length} relevant documents.`);
+    let ranked = fuseResults(vectorMatches, keywordMatches);
+    if (rerank) {
+      ranked = rerankResults(query, ranked);
+    }
+
+    // Same [Document, score] shape as LangChain's similaritySearchWithScore;
+    // vector-only search keeps the cosine similarity as the score
+    const results = ranked.slice(0, k).map((match): [Document, number | null] => [
+      new Document({
+        pageContent: match.content,
+        metadata: {
+          ...match.metadata,
+          retrieval: {
+            vectorScore: match.vectorScore,
+            keywordScore: match.keywordScore,
+            fusedScore: match.fusedScore,
+            rerankScore: match.rerankScore,
+          },
+        },
+      }),
+      mode === "vector" && !rerank ? match.vectorScore : match.score,
+    ]);
+
+    console.log(`[RAG] Found ${results.length} relevant documents (${vectorMatches.length} vector, ${keywordMatches.length} keyword candidates).`);
     return { success: true, results };
   } catch (error) {
     console.error(`[RAG] Error querying vector store:`, error);
@@ -396,36 +825,473 @@ export async function queryVectorStore(query: string, k: number = 5) {
   }
 }
 
+/**
+ * Builds a standalone in-memory index over the current knowledge files.
+ * Files are loaded and split with the given chunking and embedded with the given
+ * provider; the live vector store, the vector cache and the sync progress are not touched.
+ * Repeated builds are cheap when the provider caches embeddings on disk (CachedEmbeddingProvider).
+ * @param options - chunking (default DEFAULT_CHUNKING), embeddings (default: the configured
+ *   provider) and signal to cancel between files and embedding batches.
+ */
+export async function buildKnowledgeIndex(options: {
+  chunking?: ChunkingConfig;
+  embeddings?: EmbeddingProvider;
+  signal?: AbortSignal;
+} = {}): Promise<KnowledgeIndex> {
+  const { chunking = DEFAULT_CHUNKING, embeddings = getEmbeddingProvider(), signal } = options;
+  const index: KnowledgeIndex = {
+    store: new MemoryVectorStore(),
+    keywordIndex: new KeywordIndex(),
+    embeddings,
+    chunking,
+    documents: 0,
+    chunks: 0,
+    failedChunks: 0,
+  };
+  console.log(`[RAG] Building evaluation index (${embeddings.id}, chunk ${chunking.chunkSize}/${chunking.chunkOverlap}${chunking.recipeBoundaries ? ", recipe boundaries" : ""})...`);
+
+  for (const fileName of listKnowledgeFiles()) {
+    signal?.throwIfAborted();
+    const absolutePath = path.join(KNOWLEDGE_PATH, fileName);
+    const hash = hashFile(absolutePath);
+    const { docs, chunks, flaggedPages } = await loadKnowledgeFile(absolutePath, hash, knowledgeFileType(fileName), chunking);
+
+    const chunkCache: CachedDocument["chunks"] = [];
+    let failedChunks = 0;
+    for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = chunks.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const result = await embedWithRetry(embeddings, batch.map((chunk) => chunk.pageContent), { signal });
+      batch.forEach((chunk, offset) => {
+        const embedding = result.embeddings[offset];
+        if (embedding) {
+          chunkCache.push({
+            content: chunk.pageContent,
+            metadata: { ...chunk.metadata, chunkId: `${hash.slice(0, 12)}_${start + offset}` },
+            embedding,
+            terms: chunk.terms,
+          });
+        }
+      });
+      failedChunks += result.failures.length;
+    }
+
+    const doc: CachedDocument = {
+      hash,
+      fileName,
+      documentType: knowledgeFileType(fileName),
+      pageCount: docs.length,
+      chunks: chunkCache,
+      failedChunkCount: failedChunks,
+      flaggedPages,
+      createdAt: new Date().toISOString(),
+    };
+    const vectorChunks = toVectorChunks(doc);
+    if (vectorChunks.length > 0) {
+      await index.store.assertEmbeddingModel({ id: embeddings.id, dimension: vectorChunks[0].embedding.length });
+      await index.store.upsertChunks(vectorChunks);
+    }
+    index.keywordIndex.add(vectorChunks.map((chunk, chunkIndex) => ({
+      id: chunk.id,
+      content: chunk.content,
+      metadata: chunk.metadata,
+      terms: doc.chunks[chunkIndex].terms,
+    })));
+    index.documents++;
+    index.chunks += vectorChunks.length;
+    index.failedChunks += failedChunks;
+  }
+
+  console.log(`[RAG] Evaluation index ready (${index.documents} documents, ${index.chunks} chunks, ${index.failedChunks} failed).`);
+  return index;
+}
+
+/**
+ * Retrieves knowledge-base chunks relevant to a query, ready to be cited in prompts.
+ * @param query - The user's query string.
+ * @param k - The number of top results to retrieve.
+ * @param options - Search mode, metadata filters and reranking (see queryVectorStore).
+ * @returns The chunks with source file, page, chunk id and score; empty if retrieval fails.
+ */
+export async function retrieveKnowledgeContext(
+  query: string,
+  k: number = 5,
+  options: KnowledgeQueryOptions = {}
+): Promise<KnowledgeContext[]> {
+  const result = await queryVectorStore(query, k, options);
+  if (!result.success || !result.results) {
+    return [];
+  }
+
+  return result.results.map(([doc, score]) => ({
+    chunkId: String(doc.metadata?.chunkId ?? ""),
+    source: doc.metadata?.fileName || path.basename(doc.metadata?.source || "unknown"),
+    page: doc.metadata?.pageNumber,
+    score: score ?? 0,
+    content: doc.pageContent,
+  }));
+}
+
+/**
+ * Whether a full sync or a single-document operation is running.
+ */
+export function isKnowledgeSyncInProgress(): boolean {
+  return loadingProgress.status === 'loading' || loadingProgress.status === 'processing';
+}
+
+/**
+ * Thrown when a document operation is requested while a sync or another document operation is running.
+ */
+export class KnowledgeSyncInProgressError extends Error {
+  constructor(message = "A knowledge-base sync or document operation is already running.") {
+    super(message);
+    this.name = "KnowledgeSyncInProgressError";
+  }
+}
+
+/**
+ * Starts progress reporting for a run over the given number of files.
+ */
+function resetLoadingProgress(totalFiles: number) {
+  loadingProgress.totalFiles = totalFiles;
+  loadingProgress.processedFiles = 0;
+  loadingProgress.currentFile = '';
+  loadingProgress.status = 'loading';
+  loadingProgress.currentFileChunks = 0;
+  loadingProgress.currentFileEmbeddedChunks = 0;
+  loadingProgress.embeddingBatches = { completed: 0, total: 0 };
+  loadingProgress.embeddedChunks = 0;
+  loadingProgress.startedAt = Date.now();
+}
+
+/**
+ * Runs a single-document operation, reporting it through loadingProgress like a sync.
+ * The knowledge base is claimed synchronously before the first await and held until the
+ * operation settles, so no sync or other document operation can start in between.
+ * @throws {KnowledgeSyncInProgressError} A sync or another document operation is running.
+ */
+async function runDocumentOperation<T>(fileName: string, operation: () => Promise<T>): Promise<T> {
+  if (isKnowledgeSyncInProgress()) {
+    throw new KnowledgeSyncInProgressError();
+  }
+  resetLoadingProgress(1);
+  loadingProgress.currentFile = fileName;
+  try {
+    const result = await operation();
+    loadingProgress.processedFiles = 1;
+    loadingProgress.status = 'completed';
+    return result;
+  } catch (error) {
+    loadingProgress.status = 'error';
+    throw error;
+  }
+}
+
+/**
+ * Returns the vector cache for the current embeddings model.
+ */
+function currentVectorCache(embeddingModel: string): VectorCache | null {
+  return vectorCache?.embeddingModel === embeddingModel ? vectorCache : loadVectorCache(embeddingModel);
+}
+
+/**
+ * Adds or updates one file in ./pdfs without scanning the whole directory,
+ * e.g. right after it was uploaded. Vectors of the file's previous content are removed.
+ * @param fileName - File name in ./pdfs.
+ * @param options - force: re-embed even if vectors for the same content are cached.
+ * @returns The knowledge_documents record of the file.
+ * @throws {KnowledgeSyncInProgressError} A sync or another document operation is running.
+ */
+export async function indexKnowledgeFile(
+  fileName: string,
+  options: { force?: boolean } = {}
+): Promise<KnowledgeDocumentRecord> {
+  return runDocumentOperation(fileName, () => indexFile(fileName, options));
+}
+
+/**
+ * Indexes one file in ./pdfs; the caller holds the knowledge base (see runDocumentOperation).
+ */
+async function indexFile(fileName: string, options: { force?: boolean }): Promise<KnowledgeDocumentRecord> {
+  const absolutePath = path.join(KNOWLEDGE_PATH, fileName);
+  const filePath = toRelativeKnowledgePath(fileName);
+  const documentType = knowledgeFileType(fileName);
+  const embeddingModel = getEmbeddingProvider().id;
+  const hash = hashFile(absolutePath);
+  const knowledgeDocuments = getKnowledgeDocumentService();
+  const record = await knowledgeDocuments.findByFilePath(filePath);
+
+  const documents = { ...(currentVectorCache(embeddingModel)?.documents ?? {}) };
+  for (const doc of Object.values(documents)) {
+    if (doc.fileName === fileName && doc.hash !== hash) {
+      delete documents[doc.hash];
+    }
+  }
+
+  let document: CachedDocument | null = documents[hash] ? { ...documents[hash], fileName, documentType } : null;
+  let content = "";
+  if (document && !document.failedChunkCount && !options.force) {
+    content = document.chunks.map((chunk) => chunk.content).join("\n\n");
+  } else {
+    console.log(`[RAG] Indexing ${fileName}...`);
+    ({ document, content } = await buildCachedDocument(fileName, hash, getEmbeddingProvider()));
+    // syncVectorStore only uploads documents missing from the store
+    await getRagVectorStore().deleteDocuments([hash]);
+  }
+  documents[hash] = document;
+
+  await syncVectorStore(saveVectorCache(embeddingModel, documents));
+  return knowledgeDocuments.saveProcessedDocument(record?.id ?? null, {
+    title: fileName,
+    filePath,
+    documentType,
+    fileSize: statSync(absolutePath).size,
+    contentHash: hash,
+    content,
+    pageCount: document.pageCount,
+    chunkCount: document.chunks.length,
+    failedChunkCount: document.failedChunkCount ?? 0,
+    milvusId: hash,
+  });
+}
+
+/**
+ * Saves an uploaded file to ./pdfs and indexes it. An existing file with the same name is replaced.
+ * If indexing fails, a new file is removed again and a replaced file gets its previous content
+ * back, so the file keeps matching its knowledge_documents record.
+ * The knowledge base is held from writing the file until indexing settles.
+ * @param fileName - File name without directories; the extension must be supported and README
+ *   files are not accepted (see isKnowledgeFileName in documentLoaders.ts).
+ * @param data - File content.
+ * @returns The knowledge_documents record and whether an existing file was replaced.
+ * @throws {KnowledgeSyncInProgressError} A sync or another document operation is running.
+ */
+export async function saveKnowledgeFile(fileName: string, data: Buffer) {
+  if (path.basename(fileName) !== fileName || !isKnowledgeFileName(fileName)) {
+    throw new Error(`Invalid knowledge file name: ${fileName}`);
+  }
+
+  return runDocumentOperation(fileName, async () => {
+    const absolutePath = path.join(KNOWLEDGE_PATH, fileName);
+    const previous = existsSync(absolutePath) ? readFileSync(absolutePath) : null;
+    mkdirSync(KNOWLEDGE_PATH, { recursive: true });
+    writeFileSync(absolutePath, data);
+    console.log(`[RAG] Saved uploaded file ${fileName} (${data.length} bytes)`);
+
+    try {
+      return { record: await indexFile(fileName, {}), replaced: previous !== null };
+    } catch (error) {
+      if (previous) {
+        writeFileSync(absolutePath, previous);
+        console.warn(`[RAG] Indexing ${fileName} failed, restored its previous content`);
+      } else {
+        unlinkSync(absolutePath);
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Re-embeds one knowledge document, e.g. after changing the splitting rules.
+ * @param id - knowledge_documents id.
+ * @returns The updated record, or null if the document does not exist.
+ * @throws {KnowledgeSyncInProgressError} A sync or another document operation is running.
+ */
+export async function reindexKnowledgeDocument(id: string): Promise<KnowledgeDocumentRecord | null> {
+  const record = await getKnowledgeDocumentService().getDocument(id);
+  if (!record) {
+    return null;
+  }
+
+  const fileName = path.basename(record.filePath);
+  if (!isKnowledgeFileName(fileName)) {
+    throw new Error(`Not a knowledge file: ${record.filePath}`);
+  }
+  if (!existsSync(path.join(KNOWLEDGE_PATH, fileName))) {
+    throw new Error(`Knowledge file not found: ${record.filePath}`);
+  }
+  return indexKnowledgeFile(fileName, { force: true });
+}
+
+/**
+ * Deletes one knowledge document: its file in ./pdfs, its vectors and its knowledge_documents record.
+ * @param id - knowledge_documents id.
+ * @returns The deleted record, or null if the document does not exist.
+ * @throws {KnowledgeSyncInProgressError} A sync or another document operation is running.
+ */
+export async function deleteKnowledgeDocument(id: string): Promise<KnowledgeDocumentRecord | null> {
+  const knowledgeDocuments = getKnowledgeDocumentService();
+  const record = await knowledgeDocuments.getDocument(id);
+  if (!record) {
+    return null;
+  }
+
+  const fileName = path.basename(record.filePath);
+  return runDocumentOperation(fileName, async () => {
+    const embeddingModel = getEmbeddingProvider().id;
+    const cache = currentVectorCache(embeddingModel);
+    if (cache) {
+      const documents = { ...cache.documents };
+      for (const doc of Object.values(documents)) {
+        if (doc.fileName === fileName || doc.hash === record.contentHash) {
+          delete documents[doc.hash];
+        }
+      }
+      // Documents no longer in the cache are removed from the vector store
+      await syncVectorStore(saveVectorCache(embeddingModel, documents));
+    } else if (record.contentHash) {
+      await getRagVectorStore().deleteDocuments([record.contentHash]);
+    }
+
+    const absolutePath = path.join(KNOWLEDGE_PATH, fileName);
+    // Records left over from indexing a README only drop their vectors; the README itself stays
+    if (isKnowledgeFileName(fileName) && existsSync(absolutePath)) {
+      unlinkSync(absolutePath);
+    }
+    await knowledgeDocuments.deleteDocuments([id]);
+    console.log(`[RAG] Deleted knowledge document ${record.filePath}`);
+    return record;
+  });
+}
+
+/**
+ * Recipe ingestion mode: parses the recipes in the PDFs page by page
+ * (see recipeExtractor.ts) and writes them to the recipes table,
+ * deduplicated by name, with the file name and page as the source.
+ * Independent of the vector store; nothing is embedded.
+ * @param fileNames - PDF files in ./pdfs to process; all files by default.
+ */
+export async function extractRecipesFromPdfs(fileNames?: string[]) {
+  const startedAt = Date.now();
+  try {
+    const available = listKnowledgeFiles().filter((fileName) => getDocumentType(fileName) === "pdf");
+    const files = fileNames ? available.filter((fileName) => fileNames.includes(fileName)) : available;
+    const missing = fileNames ? fileNames.filter((fileName) => !available.includes(fileName)) : [];
+    console.log(`[RAG] Extracting recipes from ${files.length} PDF files...`);
+
+    const extracted = [];
+    for (const fileName of files) {
+      const absolutePath = path.join(KNOWLEDGE_PATH, fileName);
+      const { docs } = await loadPdfDocument(absolutePath, hashFile(absolutePath));
+      for (const page of docs) {
+        if (page.metadata.pageStatus === "text") {
+          extracted.push(...extractRecipesFromPage(page.pageContent, { fileName, pageNumber: page.metadata.pageNumber }));
+        }
+      }
+    }
+
+    const recipes = dedupeRecipes(extracted);
+    const report: RecipeImportReport = await getRecipeCatalogService().upsertExtractedRecipes(recipes);
+    console.log(`[RAG] Extracted ${extracted.length} recipes (${recipes.length} unique) from ${files.length} files.`);
+    return {
+      success: true,
+      message: `Extracted ${recipes.length} recipes from ${files.length} documents: ` +
+        `${report.created.length} created, ${report.updated.length} updated.`,
+      report: {
+        files,
+        missing,
+        extracted: extracted.length,
+        ...report,
+        durationMs: Date.now() - startedAt,
+      },
+    };
+  } catch (error) {
+    console.error("[RAG] Recipe extraction failed:", error);
+    return { success: false, message: "An error occurred during recipe extraction.", error };
+  }
+}
+
 /**
  * Returns current RAG status for diagnostics with enhanced information.
  */
 export async function getRagStatus() {
-  const pdfCount = existsSync(PDFS_PATH)
-    ? readdirSync(PDFS_PATH).filter((f: string) => f.toLowerCase().endsWith(".pdf")).length
-    : 0;
+  const knowledgeFiles = existsSync(KNOWLEDGE_PATH) ? listKnowledgeFiles() : [];
+  const filesByType: Record<string, number> = {};
+  for (const fileName of knowledgeFiles) {
+    const documentType = knowledgeFileType(fileName);
+    filesByType[documentType] = (filesByType[documentType] || 0) + 1;
+  }
+
+  try {
+    await loadPersistedVectorStore();
+  } catch (error) {
+    console.warn("[RAG] Failed to restore persisted vector store:", error);
+  }
+
+  const store = getRagVectorStore();
+  const embeddingProvider = getEmbeddingProvider();
+  let storedChunks: number | null = null;
+  if (vectorStoreReady) {
+    try {
+      storedChunks = await store.count();
+    } catch (error) {
+      console.warn(`[RAG] Failed to count chunks in ${store.backend} vector store:`, error);
+    }
+  }
 
   return {
-    initialized: Boolean(memoryStore),
+    initialized: vectorStoreReady,
     docs: lastDocsCount,
     chunks: lastChunksCount,
     loadingProgress: {
       ...loadingProgress,
-      percentage: loadingProgress.totalFiles > 0
-        ? Math.round((loadingProgress.processedFiles / loadingProgress.totalFiles) * 100)
-        : 0
+      percentage: Math.round(getProgressFraction() * 100)
     },
     vectorStore: {
-      type: memoryStore ? "memory" : "none",
-      connected: Boolean(memoryStore),
+      type: store.backend,
+      connected: vectorStoreReady,
+      chunks: storedChunks,
+      persistence: {
+        type: "file",
+        path: VECTOR_CACHE_PATH,
+        persisted: Boolean(vectorCache),
+        loadedFromDisk,
+        documents: vectorCache
+          ? Object.values(vectorCache.documents).map((doc) => ({
+            hash: doc.hash,
+            fileName: doc.fileName,
+            documentType: doc.documentType ?? "pdf",
+            chunks: doc.chunks.length,
+            failedChunks: doc.failedChunkCount ?? 0,
+            createdAt: doc.createdAt,
+          }))
+          : [],
+        updatedAt: vectorCache?.updatedAt || null,
+      },
     },
+    keywordIndex: {
+      type: "bm25",
+      chunks: keywordIndex.size,
+    },
+    lastSync: lastSyncReport
+      ? {
+        added: lastSyncReport.added.length,
+        updated: lastSyncReport.updated.length,
+        removed: lastSyncReport.removed.length,
+        unchanged: lastSyncReport.unchanged.length,
+        failedChunks: lastSyncReport.failures.length,
+        tracked: lastSyncReport.tracked,
+        startedAt: lastSyncReport.startedAt,
+        durationMs: lastSyncReport.durationMs,
+      }
+      : null,
     embeddings: {
-      model: "Xenova/all-MiniLM-L6-v2",
-      provider: "@huggingface/inference",
+      provider: embeddingProvider.name,
+      model: embeddingProvider.model,
+      id: embeddingProvider.id,
+      dimension: vectorCache?.embeddingDimension ?? embeddingProvider.dimension,
+      cache: embeddingProvider.cache.getStats(),
     },
     pdf: {
-      path: PDFS_PATH,
-      files: pdfCount,
-      exists: existsSync(PDFS_PATH)
+      path: KNOWLEDGE_PATH,
+      files: filesByType.pdf || 0,
+      exists: existsSync(KNOWLEDGE_PATH)
+    },
+    knowledgeFiles: {
+      path: KNOWLEDGE_PATH,
+      files: knowledgeFiles.length,
+      byType: filesByType,
+      supportedExtensions: SUPPORTED_EXTENSIONS,
     },
     lastUpdated: new Date().toISOString()
   };
@@ -435,28 +1301,51 @@ export async function getRagStatus() {
  * Get detailed loading progress information
  */
 export function getLoadingProgress() {
+  const estimatedMs = estimateRemainingMs();
   return {
     ...loadingProgress,
-    percentage: loadingProgress.totalFiles > 0
-      ? Math.round((loadingProgress.processedFiles / loadingProgress.totalFiles) * 100)
-      : 0,
-    estimatedTimeRemaining: calculateEstimatedTime(),
+    percentage: Math.round(getProgressFraction() * 100),
+    elapsedMs: loadingProgress.startedAt ? Date.now() - loadingProgress.startedAt : null,
+    estimatedMsRemaining: estimatedMs,
+    estimatedTimeRemaining: formatDuration(estimatedMs),
     lastUpdated: new Date().toISOString()
   };
 }
 
 /**
- * Calculate estimated time remaining based on current progress
+ * Fraction of the current run that is done (0-1); the file being embedded
+ * counts by the share of its chunks already embedded.
+ */
+function getProgressFraction(): number {
+  if (loadingProgress.totalFiles === 0) {
+    return 0;
+  }
+  const currentFile = loadingProgress.currentFileChunks > 0
+    ? loadingProgress.currentFileEmbeddedChunks / loadingProgress.currentFileChunks
+    : 0;
+  return Math.min(1, (loadingProgress.processedFiles + currentFile) / loadingProgress.totalFiles);
+}
+
+/**
+ * Estimates the time remaining from the measured throughput of the current run
  */
-function calculateEstimatedTime(): string | null {
-  if (loadingProgress.status !== 'loading' || loadingProgress.processedFiles === 0) {
+function estimateRemainingMs(): number | null {
+  const fraction = getProgressFraction();
+  if (!isKnowledgeSyncInProgress() || !loadingProgress.startedAt || fraction === 0) {
     return null;
   }
 
-  const avgTimePerFile = 2000; // 2 seconds per file (rough estimate)
-  const remainingFiles = loadingProgress.totalFiles - loadingProgress.processedFiles;
-  const estimatedMs = remainingFiles * avgTimePerFile;
+  const elapsedMs = Date.now() - loadingProgress.startedAt;
+  return Math.round(elapsedMs * (1 - fraction) / fraction);
+}
 
+/**
+ * Formats an estimated duration for display
+ */
+function formatDuration(estimatedMs: number | null): string | null {
+  if (estimatedMs === null) {
+    return null;
+  }
   if (estimatedMs < 1000) {
     return '< 1 second';
   } else if (estimatedMs < 60000) {
@@ -464,4 +1353,4 @@ function calculateEstimatedTime(): string | null {
   } else {
     return `${Math.round(estimatedMs / 60000)} minutes`;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,120 @@
+/**
+ * 配方目录数据库服务
+ *
+ * 本文件封装了把 PDF 中提取的配方（见 recipeExtractor.ts）写入 recipes 表的 Prisma 操作，
+ * 配方按名称去重：同名配方（忽略大小写、空白和标点）只保留一行，再次导入时更新
+ */
+
+import { prisma } from '../lib/prisma';
+import { formatIngredient, normalizeRecipeName, type ExtractedRecipe } from './recipeExtractor';
+
+/**
+ * 去重时读取的 recipes 表字段
+ */
+interface RecipeNameRow {
+  id: string;
+  name: string;
+}
+
+/**
+ * 导入结果中的一条配方
+ */
+export interface RecipeImportEntry {
+  id: string;
+  name: string;
+  /** 来源，如 "经典鸡尾酒配方.pdf 第3页" */
+  source: string;
+}
+
+/**
+ * 配方导入结果
+ */
+export interface RecipeImportReport {
+  created: RecipeImportEntry[];
+  updated: RecipeImportEntry[];
+}
+
+/**
+ * RecipeCatalogService
+ *
+ * 负责把提取出的配方写入 recipes 表
+ */
+export class RecipeCatalogService {
+  /**
+   * 写入提取出的配方
+   * 已有同名配方时更新原料、步骤、杯型、技法、装饰和来源，否则新建
+   *
+   * @param recipes 提取出的配方（调用方应先用 dedupeRecipes 去重）
+   */
+  async upsertExtractedRecipes(recipes: ExtractedRecipe[]): Promise<RecipeImportReport> {
+    const report: RecipeImportReport = { created: [], updated: [] };
+    if (recipes.length === 0) {
+      return report;
+    }
+
+    const rows: RecipeNameRow[] = await prisma.recipe.findMany({
+      select: { id: true, name: true },
+    });
+    const existing = new Map(rows.map((row) => [normalizeRecipeName(row.name), row]));
+
+    for (const recipe of recipes) {
+      const source = formatRecipeSource(recipe);
+      const data = {
+        ingredients: recipe.ingredients.map(formatIngredient),
+        steps: recipe.steps,
+        source,
+        ...(recipe.glassType ? { glassType: recipe.glassType.slice(0, 50) } : {}),
+        ...(recipe.technique ? { technique: recipe.technique.slice(0, 50) } : {}),
+        ...(recipe.garnish ? { garnish: recipe.garnish } : {}),
+      };
+
+      const key = normalizeRecipeName(recipe.name);
+      const row = existing.get(key);
+      if (row) {
+        await prisma.recipe.update({ where: { id: row.id }, data });
+        report.updated.push({ id: row.id, name: row.name, source });
+        continue;
+      }
+
+      const created: RecipeNameRow = await prisma.recipe.create({
+        data: {
+          ...data,
+          name: recipe.name,
+          category: '鸡尾酒',
+          tags: ['pdf'],
+        },
+        select: { id: true, name: true },
+      });
+      existing.set(key, created);
+      report.created.push({ id: created.id, name: created.name, source });
+    }
+
+    console.log(`✅ 配方导入完成：新增 ${report.created.length} 个，更新 ${report.updated.length} 个`);
+    return report;
+  }
+}
+
+/**
+ * 配方来源：文件名 + 页码
+ */
+function formatRecipeSource(recipe: ExtractedRecipe): string {
+  const source = recipe.pageNumber ? `${recipe.fileName} 第${recipe.pageNumber}页` : recipe.fileName;
+  return source.slice(0, 255);
+}
+
+/**
+ * 单例实例
+ */
+let serviceInstance: RecipeCatalogService | null = null;
+
+/**
+ * 获取服务单例实例
+ *
+ * @returns RecipeCatalogService 实例
+ */
+export function getRecipeCatalogService(): RecipeCatalogService {
+  if (!serviceInstance) {
+    serviceInstance = new RecipeCatalogService();
+  }
+  return serviceInstance;
+}
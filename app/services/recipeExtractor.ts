@@ -0,0 +1,313 @@
+/**
+ * PDF 配方结构化提取
+ *
+ * 从调酒手册的单页文本中识别配方：配方名、带用量的原料、制作步骤、杯型、调制技法和装饰。
+ * 只做文本规则解析，不调用 LLM；提取结果由 RecipeCatalogService 写入 recipes 表。
+ *
+ * 识别规则：每个 "原料/材料/Ingredients" 小节代表一个配方，
+ * 小节之前最近的一行非字段文本（或 "配方：xxx" 行）作为配方名
+ */
+
+/**
+ * 提取出的原料
+ */
+export interface ExtractedIngredient {
+  name: string;
+  /** 用量，如 "45"、"6-8"、"1/2"；"适量"、"少许" 等没有数字的用量为 null */
+  amount: string | null;
+  /** 规范化后的单位，如 "ml"、"dash"、"片"，单个数值的 cl 和 oz 换算为 ml */
+  unit: string | null;
+  /** 用量无法解析时保留的原文，如 "适量" */
+  note: string | null;
+}
+
+/**
+ * 提取出的配方
+ */
+export interface ExtractedRecipe {
+  name: string;
+  ingredients: ExtractedIngredient[];
+  steps: string[];
+  glassType: string | null;
+  technique: string | null;
+  garnish: string | null;
+  /** 来源文件名 */
+  fileName: string;
+  /** 来源页码（从 1 开始） */
+  pageNumber: number | null;
+}
+
+/**
+ * 配方所在的页面
+ */
+export interface RecipePageSource {
+  fileName: string;
+  pageNumber: number | null;
+}
+
+type RecipeField = 'name' | 'ingredients' | 'steps' | 'glassType' | 'technique' | 'garnish';
+
+/**
+ * 字段标题，按顺序匹配（"调制方法" 需要在 "制作方法" 之前匹配为技法）
+ */
+const FIELD_PATTERNS: { field: RecipeField; pattern: RegExp }[] = [
+  { field: 'name', pattern: /^(?:配方名称|配方|名称|Recipe|Cocktail)\s*[:：]\s*/i },
+  { field: 'ingredients', pattern: /^(?:原料|材料|配料|Ingredients?)\s*[:：]?\s*/i },
+  { field: 'technique', pattern: /^(?:调制方法|调制技法|技法|Technique)\s*[:：]?\s*/i },
+  { field: 'steps', pattern: /^(?:制作方法|制作步骤|步骤|做法|Method|Steps|Instructions?)\s*[:：]?\s*/i },
+  { field: 'glassType', pattern: /^(?:杯型|杯具|载杯|酒杯|Glass(?:ware)?)\s*[:：]?\s*/i },
+  { field: 'garnish', pattern: /^(?:装饰物|装饰|Garnish)\s*[:：]?\s*/i },
+];
+
+/**
+ * 步骤中的关键词与调制技法的对应关系，没有 "调制方法" 字段时据此推断
+ */
+const TECHNIQUE_KEYWORDS: { technique: string; pattern: RegExp }[] = [
+  { technique: '搅和法', pattern: /搅拌机|blend/i },
+  { technique: '摇和法', pattern: /摇匀|摇和|摇酒壶|雪克壶|shake/i },
+  { technique: '调和法', pattern: /调和|搅拌|stir/i },
+  { technique: '兑和法', pattern: /兑和|直接倒入|依次倒入|build/i },
+];
+
+/**
+ * 单位别名 → [规范单位, 换算到规范单位的倍数]
+ */
+const UNIT_ALIASES: Record<string, [string, number]> = {
+  ml: ['ml', 1],
+  '毫升': ['ml', 1],
+  cl: ['ml', 10],
+  oz: ['ml', 30],
+  '盎司': ['ml', 30],
+  dash: ['dash', 1],
+  dashes: ['dash', 1],
+  '滴': ['滴', 1],
+  tsp: ['茶匙', 1],
+  '茶匙': ['茶匙', 1],
+  '吧匙': ['吧匙', 1],
+  'bar spoon': ['吧匙', 1],
+  '勺': ['勺', 1],
+  '片': ['片', 1],
+  '个': ['个', 1],
+  '颗': ['颗', 1],
+  '块': ['块', 1],
+  '枝': ['枝', 1],
+  '根': ['根', 1],
+};
+
+const AMOUNT_PATTERN = '(\\d+(?:\\.\\d+)?(?:\\s*[-~～]\\s*\\d+(?:\\.\\d+)?)?|\\d+\\s*/\\s*\\d+)';
+const UNIT_PATTERN = `(${Object.keys(UNIT_ALIASES).sort((a, b) => b.length - a.length).join('|')})`;
+/** "金酒 45ml"、"金酒：1.5 oz" */
+const TRAILING_QUANTITY = new RegExp(`^(.+?)\\s*[:：]?\\s*${AMOUNT_PATTERN}\\s*${UNIT_PATTERN}?$`, 'i');
+/** "45ml 金酒"、"2 dashes 安格斯图拉苦精" */
+const LEADING_QUANTITY = new RegExp(`^${AMOUNT_PATTERN}\\s*${UNIT_PATTERN}\\s*(.+)$`, 'i');
+/** "苏打水 适量" */
+const VAGUE_QUANTITY = /^(.+?)\s*[:：]?\s*(适量|少许|加满|少量|to top|top up)$/i;
+
+/** 列表项前缀，如 "- "、"• "、"1. "、"(2)" */
+const LIST_PREFIX = /^(?:[-•·*]|\d+[.、)）](?!\d)|[（(]\d+[)）])\s*/;
+
+/**
+ * 从一页文本中提取配方
+ */
+export function extractRecipesFromPage(text: string, source: RecipePageSource): ExtractedRecipe[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  // 每个原料小节代表一个配方，配方名在小节之前
+  const starts: { nameIndex: number; name: string }[] = [];
+  lines.forEach((line, index) => {
+    if (matchField(line)?.field !== 'ingredients') {
+      return;
+    }
+    const previousStart = starts.length > 0 ? starts[starts.length - 1].nameIndex : -1;
+    for (let i = index - 1; i > previousStart; i--) {
+      const field = matchField(lines[i]);
+      if (field?.field === 'name') {
+        starts.push({ nameIndex: i, name: field.value });
+        return;
+      }
+      if (!field && isRecipeName(lines[i])) {
+        starts.push({ nameIndex: i, name: lines[i] });
+        return;
+      }
+    }
+  });
+
+  return starts
+    .map((start, index) => {
+      const end = index + 1 < starts.length ? starts[index + 1].nameIndex : lines.length;
+      return parseRecipeBlock(cleanName(start.name), lines.slice(start.nameIndex + 1, end), source);
+    })
+    .filter((recipe): recipe is ExtractedRecipe => recipe !== null);
+}
+
+/**
+ * 合并同名配方（名称忽略大小写、空白和标点），保留原料更完整的一条
+ */
+export function dedupeRecipes(recipes: ExtractedRecipe[]): ExtractedRecipe[] {
+  const unique = new Map<string, ExtractedRecipe>();
+  for (const recipe of recipes) {
+    const key = normalizeRecipeName(recipe.name);
+    const existing = unique.get(key);
+    if (!existing || recipe.ingredients.length + recipe.steps.length > existing.ingredients.length + existing.steps.length) {
+      unique.set(key, recipe);
+    }
+  }
+  return Array.from(unique.values());
+}
+
+/**
+ * 配方名的去重键
+ */
+export function normalizeRecipeName(name: string): string {
+  return name.toLowerCase().replace(/[\s\-_·.,，。:：'"“”‘’()（）]/g, '');
+}
+
+/**
+ * 将原料格式化为 recipes.ingredients 中保存的字符串，如 "金酒 45ml"、"苏打水 适量"
+ */
+export function formatIngredient(ingredient: ExtractedIngredient): string {
+  if (ingredient.amount) {
+    // "45ml"、"6-8片"，英文单词单位前加空格，如 "2 dash"
+    const unit = ingredient.unit ?? '';
+    const separator = /^[a-z]{3,}/i.test(unit) ? ' ' : '';
+    return `${ingredient.name} ${ingredient.amount}${separator}${unit}`;
+  }
+  return ingredient.note ? `${ingredient.name} ${ingredient.note}` : ingredient.name;
+}
+
+/**
+ * 将一行原料解析为名称和用量
+ */
+export function parseIngredient(text: string): ExtractedIngredient | null {
+  const line = text.replace(LIST_PREFIX, '').trim();
+  if (!line) {
+    return null;
+  }
+
+  const leading = line.match(LEADING_QUANTITY);
+  if (leading) {
+    return toIngredient(leading[3], leading[1], leading[2]);
+  }
+  const trailing = line.match(TRAILING_QUANTITY);
+  if (trailing && trailing[1].trim()) {
+    return toIngredient(trailing[1], trailing[2], trailing[3]);
+  }
+  const vague = line.match(VAGUE_QUANTITY);
+  if (vague) {
+    return { name: vague[1].trim(), amount: null, unit: null, note: vague[2] };
+  }
+  return { name: line, amount: null, unit: null, note: null };
+}
+
+function toIngredient(name: string, amount: string, unit?: string): ExtractedIngredient {
+  const normalizedAmount = amount.replace(/\s+/g, '').replace(/[~～]/g, '-');
+  const alias = unit ? UNIT_ALIASES[unit.toLowerCase()] : undefined;
+  if (!alias) {
+    return { name: name.trim(), amount: normalizedAmount, unit: null, note: null };
+  }
+
+  const [normalizedUnit, factor] = alias;
+  const value = Number(normalizedAmount);
+  if (factor === 1) {
+    return { name: name.trim(), amount: normalizedAmount, unit: normalizedUnit, note: null };
+  }
+  // 只换算单个数值，范围和分数保留原单位
+  if (!Number.isFinite(value)) {
+    return { name: name.trim(), amount: normalizedAmount, unit: unit?.toLowerCase() ?? normalizedUnit, note: null };
+  }
+  return {
+    name: name.trim(),
+    amount: String(Math.round(value * factor * 10) / 10),
+    unit: normalizedUnit,
+    note: null,
+  };
+}
+
+/**
+ * 解析一个配方的字段
+ */
+function parseRecipeBlock(name: string, lines: string[], source: RecipePageSource): ExtractedRecipe | null {
+  const values: Record<Exclude<RecipeField, 'name'>, string[]> = {
+    ingredients: [],
+    steps: [],
+    glassType: [],
+    technique: [],
+    garnish: [],
+  };
+  let current: Exclude<RecipeField, 'name'> | null = null;
+
+  for (const line of lines) {
+    const field = matchField(line);
+    if (field && field.field !== 'name') {
+      current = field.field;
+      if (field.value) {
+        values[current].push(field.value);
+      }
+      continue;
+    }
+    if (current) {
+      values[current].push(line);
+    }
+  }
+
+  const ingredients = values.ingredients
+    .flatMap((line) => (LIST_PREFIX.test(line) ? [line] : line.split(/[,，;；、]/)))
+    .map(parseIngredient)
+    .filter((ingredient): ingredient is ExtractedIngredient => ingredient !== null);
+  if (!name || ingredients.length === 0) {
+    return null;
+  }
+
+  const steps = values.steps
+    .flatMap((line) => (LIST_PREFIX.test(line) ? [line] : line.split(/[。！；]/)))
+    .map((step) => step.replace(LIST_PREFIX, '').trim())
+    .filter((step) => step.length > 0);
+
+  return {
+    name,
+    ingredients,
+    steps,
+    glassType: joinValue(values.glassType),
+    technique: joinValue(values.technique) ?? inferTechnique(steps),
+    garnish: joinValue(values.garnish),
+    fileName: source.fileName,
+    pageNumber: source.pageNumber,
+  };
+}
+
+function matchField(line: string): { field: RecipeField; value: string } | null {
+  for (const { field, pattern } of FIELD_PATTERNS) {
+    const match = line.match(pattern);
+    if (match) {
+      return { field, value: line.slice(match[0].length).trim() };
+    }
+  }
+  return null;
+}
+
+/**
+ * 配方名：较短、不以标点结尾、不像用量或步骤
+ */
+function isRecipeName(line: string): boolean {
+  return line.length <= 40
+    && !/[。.！!？?；;，,:：]$/.test(line)
+    && !LIST_PREFIX.test(line)
+    && !/^\d/.test(line);
+}
+
+function cleanName(name: string): string {
+  return name.replace(/^[#*\s]+|[#*\s]+$/g, '').slice(0, 255);
+}
+
+function joinValue(values: string[]): string | null {
+  const value = values.join(' ').trim();
+  return value.length > 0 ? value : null;
+}
+
+function inferTechnique(steps: string[]): string | null {
+  const text = steps.join(' ');
+  return TECHNIQUE_KEYWORDS.find(({ pattern }) => pattern.test(text))?.technique ?? null;
+}
@@ -0,0 +1,161 @@
+/**
+ * LLM 推荐输出的 Zod Schema
+ *
+ * 本文件定义了菜品、酒品、搭配理由等推荐结果的结构约束，
+ * 供 structuredOutput 校验 LLM 输出并在校验失败时生成字段级错误
+ *
+ * 注意：这里描述的是 LLM 的原始输出，ID 等字段允许缺失或不规范，
+ * 由各节点在校验通过后再规范化为 types/foodPairing.ts 中的业务类型
+ */
+
+import { z } from 'zod';
+
+/**
+ * LLM 生成的 ID，允许数字或字符串，统一转换为字符串
+ */
+const LLMIdSchema = z.union([z.string(), z.number()]).transform(String);
+
+/**
+ * 难度等级，1-5
+ */
+const DifficultySchema = z.coerce
+  .number()
+  .int('难度必须是整数')
+  .min(1, '难度最小为 1')
+  .max(5, '难度最大为 5');
+
+/**
+ * 可选文本字段，LLM 经常用 null 表示缺失
+ */
+const OptionalTextSchema = z.string().nullish().transform((value) => value || undefined);
+
+/**
+ * 将顶层数组包装为 { [key]: 数组 }
+ * JSON 模式要求输出对象，但不支持 JSON 模式的模型仍可能直接返回数组
+ */
+function wrapArray(key: string) {
+  return (value: unknown) => (Array.isArray(value) ? { [key]: value } : value);
+}
+
+/**
+ * 菜品推荐 Schema
+ */
+export const DishRecommendationSchema = z.object({
+  id: LLMIdSchema.optional(),
+  name: z.string().min(1, '菜品名称不能为空'),
+  description: z.string().default(''),
+  cuisine: OptionalTextSchema,
+  requiredIngredients: z.array(z.string()).min(1, '至少需要一个食材'),
+  cookingTime: z.coerce.number().positive('烹饪时间必须大于 0').default(30),
+  difficulty: DifficultySchema.default(3),
+  steps: z.array(z.string()).min(1, '至少需要一个烹饪步骤'),
+  source: OptionalTextSchema,
+  tags: z.array(z.string()).default([]),
+});
+
+/**
+ * 酒品推荐 Schema
+ */
+export const BeverageRecommendationSchema = z.object({
+  id: LLMIdSchema.optional(),
+  name: z.string().min(1, '酒品名称不能为空'),
+  description: z.string().default(''),
+  ingredients: z.array(z.string()).min(1, '至少需要一个原料'),
+  steps: z.array(z.string()).min(1, '至少需要一个制作步骤'),
+  category: OptionalTextSchema,
+  glassType: OptionalTextSchema,
+  technique: OptionalTextSchema,
+  garnish: OptionalTextSchema,
+  difficulty: DifficultySchema.default(3),
+  estimatedTime: z.coerce.number().positive('制作时间必须大于 0').default(5),
+  source: OptionalTextSchema,
+  tags: z.array(z.string()).default([]),
+});
+
+/**
+ * 带知识库引用的酒品配方 Schema（/api/recommend、酒品搭配节点）
+ * citations 为配方参考的知识库片段编号，如 ["C1", "C3"]
+ */
+export const CocktailRecipeSchema = BeverageRecommendationSchema.extend({
+  citations: z.array(z.string()).default([]),
+});
+
+/**
+ * 搭配理由 Schema
+ * 配餐调酒流程的搭配理由不关联菜品，因此 dishId 可选
+ */
+export const PairingReasonSchema = z.object({
+  id: LLMIdSchema.optional(),
+  dishId: LLMIdSchema.optional(),
+  beverageId: LLMIdSchema,
+  reason: z.string().min(1, '搭配理由不能为空'),
+  pairingType: OptionalTextSchema,
+  score: z.coerce.number().min(1, '评分最小为 1').max(10, '评分最大为 10').optional(),
+});
+
+/**
+ * 菜品推荐节点输出：{ dishes: [...] }
+ */
+export const DishRecommendationListSchema = z.preprocess(
+  wrapArray('dishes'),
+  z.object({
+    dishes: z.array(DishRecommendationSchema).min(1, '至少需要推荐一个菜品'),
+  })
+);
+
+/**
+ * 酒品搭配节点输出
+ */
+export const BeveragePairingOutputSchema = z.object({
+  beverages: z.array(CocktailRecipeSchema).min(1, '至少需要推荐一个酒品'),
+  pairingReasons: z.array(PairingReasonSchema).default([]),
+  overallSuggestion: z.string().default(''),
+});
+
+/**
+ * 搭配汇总节点输出
+ */
+export const PairingSummaryOutputSchema = z.object({
+  overallSuggestion: z.string().trim().min(1, '整体搭配建议不能为空'),
+});
+
+/**
+ * 风味分析节点输出
+ */
+export const FlavorProfileOutputSchema = z.object({
+  cuisine: OptionalTextSchema,
+  flavors: z.array(z.string()).min(1, '至少需要一个风味特征'),
+  intensity: z.coerce
+    .number()
+    .int('风味强度必须是整数')
+    .min(1, '风味强度最小为 1')
+    .max(5, '风味强度最大为 5')
+    .default(3),
+  summary: z.string().default(''),
+});
+
+/**
+ * 鸡尾酒搭配节点输出
+ */
+export const CocktailPairingOutputSchema = z.object({
+  recommendations: z.array(BeverageRecommendationSchema).min(1, '至少需要推荐一款鸡尾酒'),
+  pairingReasons: z.array(PairingReasonSchema).default([]),
+  overallSuggestion: z.string().default(''),
+});
+
+/**
+ * 鸡尾酒配方推荐输出（/api/recommend）：{ recipes: [...] }
+ */
+export const CocktailRecipeListSchema = z.preprocess(
+  wrapArray('recipes'),
+  z.object({
+    recipes: z.array(CocktailRecipeSchema).min(1, '至少需要推荐一个配方'),
+  })
+);
+
+export type DishRecommendationOutput = z.infer<typeof DishRecommendationSchema>;
+export type BeverageRecommendationOutput = z.infer<typeof BeverageRecommendationSchema>;
+export type CocktailRecipeOutput = z.infer<typeof CocktailRecipeSchema>;
+export type PairingReasonOutput = z.infer<typeof PairingReasonSchema>;
+export type BeveragePairingOutput = z.infer<typeof BeveragePairingOutputSchema>;
+export type CocktailPairingOutput = z.infer<typeof CocktailPairingOutputSchema>;
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateResults, summarizeMetrics, validateGoldenSet, type RetrievedChunk } from './retrievalMetrics';
+
+function chunk(content: string, metadata: Record<string, unknown> = {}): RetrievedChunk {
+  return { content, metadata };
+}
+
+describe('evaluateResults', () => {
+  it('按配方名和来源页判断命中，计算 recall、倒数排名和 nDCG', () => {
+    const metrics = evaluateResults(
+      { recipes: ['尼格罗尼'], sources: [{ fileName: 'classic.pdf', page: 3 }] },
+      [
+        chunk('莫吉托的做法'),
+        chunk('Negroni 配方', { recipeName: '尼格罗尼' }),
+        chunk('第三页内容', { fileName: 'classic.pdf', pageNumber: 3 }),
+      ],
+      3
+    );
+
+    expect(metrics.hits).toEqual([null, '配方:尼格罗尼', '来源:classic.pdf#3']);
+    expect(metrics.recall).toBe(1);
+    expect(metrics.reciprocalRank).toBe(0.5);
+    const dcg = 1 / Math.log2(3) + 1 / Math.log2(4);
+    const idcg = 1 + 1 / Math.log2(3);
+    expect(metrics.ndcg).toBeCloseTo(dcg / idcg);
+    expect(metrics.matched).toEqual(['配方:尼格罗尼', '来源:classic.pdf#3']);
+    expect(metrics.missed).toEqual([]);
+  });
+
+  it('同一个期望目标只在第一次命中时计为相关', () => {
+    const metrics = evaluateResults(
+      { recipes: ['尼格罗尼', '莫吉托'] },
+      [chunk('尼格罗尼 原料'), chunk('尼格罗尼 步骤'), chunk('莫吉托 原料')],
+      3
+    );
+
+    expect(metrics.hits).toEqual(['配方:尼格罗尼', null, '配方:莫吉托']);
+    expect(metrics.recall).toBe(1);
+    expect(metrics.ndcg).toBeLessThan(1);
+  });
+
+  it('只统计前 k 条结果', () => {
+    const metrics = evaluateResults(
+      { recipes: ['莫吉托'] },
+      [chunk('尼格罗尼'), chunk('莫吉托')],
+      1
+    );
+
+    expect(metrics).toMatchObject({ recall: 0, reciprocalRank: 0, ndcg: 0, matched: [], missed: ['配方:莫吉托'] });
+  });
+
+  it('来源没有指定页码时匹配整个文件，配方名忽略大小写和空白', () => {
+    const metrics = evaluateResults(
+      { recipes: ['Gin Tonic'], sources: [{ fileName: 'modern.pdf' }] },
+      [chunk('gintonic 的做法', { fileName: 'modern.pdf', pageNumber: 7 })],
+      5
+    );
+
+    expect(metrics.hits).toEqual(['配方:Gin Tonic']);
+    expect(metrics.recall).toBe(0.5);
+    expect(metrics.ndcg).toBeCloseTo(1 / (1 + 1 / Math.log2(3)));
+  });
+});
+
+describe('summarizeMetrics', () => {
+  it('计算平均指标并保留四位小数', () => {
+    const metrics = [
+      evaluateResults({ recipes: ['a'] }, [chunk('a')], 5),
+      evaluateResults({ recipes: ['b'] }, [chunk('x'), chunk('x'), chunk('b')], 5),
+      evaluateResults({ recipes: ['c'] }, [], 5),
+    ];
+
+    expect(summarizeMetrics(metrics, 5)).toEqual({
+      queries: 3,
+      k: 5,
+      recallAtK: 0.6667,
+      mrr: 0.4444,
+      ndcgAtK: 0.5,
+    });
+  });
+
+  it('没有查询时返回 0', () => {
+    expect(summarizeMetrics([], 5)).toEqual({ queries: 0, k: 5, recallAtK: 0, mrr: 0, ndcgAtK: 0 });
+  });
+});
+
+describe('validateGoldenSet', () => {
+  const valid = {
+    name: 'golden',
+    queries: [{ id: 'q1', query: '金酒鸡尾酒', expected: { recipes: ['尼格罗尼'] } }],
+  };
+
+  it('接受格式正确的黄金集', () => {
+    expect(validateGoldenSet(valid)).toBe(valid);
+  });
+
+  it('指出第一处格式问题', () => {
+    expect(() => validateGoldenSet({ ...valid, queries: [] })).toThrow('queries 必须是非空数组');
+    expect(() => validateGoldenSet({ ...valid, queries: [...valid.queries, valid.queries[0]] })).toThrow('id 重复: q1');
+    expect(() => validateGoldenSet({ ...valid, queries: [{ id: 'q1', query: '金酒', expected: {} }] }))
+      .toThrow('queries[0] 至少需要一个期望的配方或来源');
+    expect(() => validateGoldenSet({
+      ...valid,
+      queries: [{ id: 'q1', query: '金酒', expected: { sources: [{ fileName: 'a.pdf', page: 0 }] } }],
+    })).toThrow('page 为正整数');
+  });
+});
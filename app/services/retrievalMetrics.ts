@@ -0,0 +1,220 @@
+/**
+ * 检索评估指标
+ *
+ * 黄金集（golden set）中每条查询标注了期望命中的配方名和/或来源页，
+ * 按检索结果判断每个位置是否相关，计算 recall@k、MRR 和 nDCG@k。
+ * 同一个期望目标只在第一次命中时计为相关，重复命中同一配方的文本块不会抬高分数
+ */
+
+import { normalizeRecipeName } from './recipeExtractor';
+import type { ChunkFilter } from './vectorStore/types';
+
+/**
+ * 期望命中的来源：文件名，可选页码（PDF 从 1 开始）
+ */
+export interface ExpectedSource {
+  fileName: string;
+  page?: number;
+}
+
+/**
+ * 黄金集中的一条查询
+ */
+export interface GoldenQuery {
+  id: string;
+  query: string;
+  expected: {
+    /** 期望命中的配方名，与文本块的 recipeName 或正文匹配 */
+    recipes?: string[];
+    /** 期望命中的来源文件 / 页 */
+    sources?: ExpectedSource[];
+  };
+  /** 检索时使用的元数据过滤条件 */
+  filters?: ChunkFilter;
+}
+
+/**
+ * 黄金集
+ */
+export interface GoldenSet {
+  name: string;
+  description?: string;
+  queries: GoldenQuery[];
+}
+
+/**
+ * 参与评估的一条检索结果
+ */
+export interface RetrievedChunk {
+  content: string;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * 单条查询的指标
+ */
+export interface QueryMetrics {
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+  /** 命中的期望目标 */
+  matched: string[];
+  /** 未命中的期望目标 */
+  missed: string[];
+  /** 每个位置命中的期望目标，未命中为 null */
+  hits: (string | null)[];
+}
+
+/**
+ * 多条查询的平均指标
+ */
+export interface MetricsSummary {
+  queries: number;
+  k: number;
+  recallAtK: number;
+  mrr: number;
+  ndcgAtK: number;
+}
+
+/**
+ * 校验黄金集格式
+ *
+ * @throws {Error} 格式不正确，错误信息指出第一处问题
+ */
+export function validateGoldenSet(value: unknown): GoldenSet {
+  const set = value as Partial<GoldenSet> | null;
+  if (!set || typeof set !== 'object') {
+    throw new Error('黄金集必须是对象');
+  }
+  if (typeof set.name !== 'string' || !set.name.trim()) {
+    throw new Error('黄金集缺少 name');
+  }
+  if (!Array.isArray(set.queries) || set.queries.length === 0) {
+    throw new Error('黄金集的 queries 必须是非空数组');
+  }
+
+  const ids = new Set<string>();
+  set.queries.forEach((query, index) => {
+    const label = `queries[${index}]`;
+    if (!query || typeof query.id !== 'string' || !query.id.trim()) {
+      throw new Error(`${label} 缺少 id`);
+    }
+    if (ids.has(query.id)) {
+      throw new Error(`${label} 的 id 重复: ${query.id}`);
+    }
+    ids.add(query.id);
+    if (typeof query.query !== 'string' || !query.query.trim()) {
+      throw new Error(`${label} 缺少 query`);
+    }
+
+    const { recipes, sources } = query.expected ?? {};
+    if (recipes !== undefined && (!Array.isArray(recipes) || recipes.some((name) => typeof name !== 'string' || !name.trim()))) {
+      throw new Error(`${label}.expected.recipes 必须是配方名数组`);
+    }
+    if (sources !== undefined && (!Array.isArray(sources) || sources.some((source) =>
+      !source || typeof source.fileName !== 'string' || !source.fileName.trim() ||
+      (source.page !== undefined && (!Number.isInteger(source.page) || source.page < 1))
+    ))) {
+      throw new Error(`${label}.expected.sources 必须是 { fileName, page? } 数组，page 为正整数`);
+    }
+    if (!recipes?.length && !sources?.length) {
+      throw new Error(`${label} 至少需要一个期望的配方或来源`);
+    }
+  });
+
+  return set as GoldenSet;
+}
+
+/**
+ * 期望目标的显示名称，如 "配方:尼格罗尼"、"来源:classic.pdf#3"
+ */
+function describeTargets(expected: GoldenQuery['expected']): string[] {
+  return [
+    ...(expected.recipes ?? []).map((name) => `配方:${name}`),
+    ...(expected.sources ?? []).map((source) => `来源:${source.fileName}${source.page ? `#${source.page}` : ''}`),
+  ];
+}
+
+/**
+ * 返回检索结果命中的期望目标（下标与 describeTargets 对应）
+ */
+function matchTargets(chunk: RetrievedChunk, expected: GoldenQuery['expected']): number[] {
+  const matches: number[] = [];
+  const recipeName = typeof chunk.metadata.recipeName === 'string' ? normalizeRecipeName(chunk.metadata.recipeName) : '';
+  const content = normalizeRecipeName(chunk.content);
+  const recipes = expected.recipes ?? [];
+
+  recipes.forEach((name, index) => {
+    const target = normalizeRecipeName(name);
+    if (target && (recipeName === target || content.includes(target))) {
+      matches.push(index);
+    }
+  });
+
+  const fileName = typeof chunk.metadata.fileName === 'string' ? chunk.metadata.fileName : undefined;
+  const pageNumber = Number(chunk.metadata.pageNumber);
+  (expected.sources ?? []).forEach((source, index) => {
+    if (fileName === source.fileName && (source.page === undefined || pageNumber === source.page)) {
+      matches.push(recipes.length + index);
+    }
+  });
+
+  return matches;
+}
+
+/**
+ * 计算单条查询的 recall@k、倒数排名和 nDCG@k（二元相关度）
+ *
+ * @param results 按相关度排序的检索结果，只取前 k 条
+ */
+export function evaluateResults(expected: GoldenQuery['expected'], results: RetrievedChunk[], k: number): QueryMetrics {
+  const targets = describeTargets(expected);
+  const found = new Set<number>();
+  const hits: (string | null)[] = [];
+
+  for (const chunk of results.slice(0, k)) {
+    const target = matchTargets(chunk, expected).find((index) => !found.has(index));
+    if (target === undefined) {
+      hits.push(null);
+    } else {
+      found.add(target);
+      hits.push(targets[target]);
+    }
+  }
+
+  const firstHit = hits.findIndex((hit) => hit !== null);
+  const dcg = hits.reduce((sum, hit, rank) => sum + (hit ? 1 / Math.log2(rank + 2) : 0), 0);
+  let idcg = 0;
+  for (let rank = 0; rank < Math.min(targets.length, k); rank++) {
+    idcg += 1 / Math.log2(rank + 2);
+  }
+
+  return {
+    recall: targets.length > 0 ? found.size / targets.length : 0,
+    reciprocalRank: firstHit === -1 ? 0 : 1 / (firstHit + 1),
+    ndcg: idcg > 0 ? dcg / idcg : 0,
+    matched: targets.filter((_, index) => found.has(index)),
+    missed: targets.filter((_, index) => !found.has(index)),
+    hits,
+  };
+}
+
+/**
+ * 计算多条查询的平均指标
+ */
+export function summarizeMetrics(metrics: QueryMetrics[], k: number): MetricsSummary {
+  const average = (pick: (item: QueryMetrics) => number) =>
+    metrics.length > 0 ? round(metrics.reduce((sum, item) => sum + pick(item), 0) / metrics.length) : 0;
+
+  return {
+    queries: metrics.length,
+    k,
+    recallAtK: average((item) => item.recall),
+    mrr: average((item) => item.reciprocalRank),
+    ndcgAtK: average((item) => item.ndcg),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
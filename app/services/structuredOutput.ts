@@ -0,0 +1,138 @@
+/**
+ * LLM 结构化输出服务
+ *
+ * 以 JSON 模式请求 LLM（Provider 支持时），使用 Zod Schema 校验输出；
+ * 校验失败时把字段级错误反馈给模型，自动重新生成（修复重试）
+ */
+
+import { z } from 'zod';
+import { getLLMProvider, type LLMMessage, type LLMProvider } from './llm/llmProvider';
+
+/**
+ * 结构化输出失败
+ * 多次修复后仍未通过校验时抛出，issues 为最后一次校验的字段级错误
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[],
+    public readonly rawContent: string
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * 结构化输出请求参数
+ */
+export interface StructuredOutputOptions<T extends z.ZodType> {
+  /** LLM Provider，缺省时使用当前配置的 Provider */
+  provider?: LLMProvider;
+  /** 模型名称，缺省时使用 Provider 的默认模型 */
+  model?: string;
+  /** 对话消息 */
+  messages: LLMMessage[];
+  /** 输出 Schema */
+  schema: T;
+  /** 任务标识，如 "dish_recommendation"，mock Provider 据此选择固定数据 */
+  task: string;
+  /** 用于日志的名称，如 "菜品推荐" */
+  label: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** 校验失败后的最大修复次数，默认 1 */
+  maxRepairAttempts?: number;
+  /** 提供时以流式方式请求，每收到一段文本回调一次 */
+  onDelta?: (delta: string, length: number) => void;
+}
+
+/**
+ * 请求 LLM 并返回通过 Schema 校验的结构化结果
+ *
+ * @throws {StructuredOutputError} 修复重试后仍未通过校验
+ */
+export async function generateStructuredOutput<T extends z.ZodType>(
+  options: StructuredOutputOptions<T>
+): Promise<z.infer<T>> {
+  const { schema, label, maxRepairAttempts = 1, onDelta } = options;
+  const provider = options.provider ?? getLLMProvider();
+  const messages = [...options.messages];
+  let issues: string[] = [];
+  let content = '';
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    if (attempt > 0) {
+      console.warn(`🔁 ${label}输出未通过校验，第 ${attempt} 次修复:`, issues);
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: buildRepairPrompt(issues) }
+      );
+    }
+
+    let length = 0;
+    content = await provider.chat({
+      messages,
+      model: options.model,
+      temperature: options.temperature ?? 0.7,
+      maxTokens: options.maxTokens ?? 2000,
+      jsonMode: true,
+      task: options.task,
+      onDelta: onDelta
+        ? (delta) => {
+          length += delta.length;
+          onDelta(delta, length);
+        }
+        : undefined,
+    });
+
+    let parsed: unknown;
+    try {
+      parsed = parseJsonContent(content);
+    } catch (error) {
+      issues = [`JSON 解析失败: ${(error as Error).message}`];
+      continue;
+    }
+
+    const result = schema.safeParse(parsed);
+    if (result.success) {
+      return result.data;
+    }
+    issues = formatIssues(result.error);
+  }
+
+  console.error(`❌ ${label}输出校验失败:`, issues);
+  throw new StructuredOutputError(`${label}结果格式无效: ${issues.join('; ')}`, issues, content);
+}
+
+/**
+ * 解析 LLM 输出的 JSON
+ * 非 JSON 模式下模型可能用 ```json 代码块包裹输出，这里先去掉代码块标记
+ */
+function parseJsonContent(content: string): unknown {
+  const trimmed = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+  return JSON.parse(trimmed);
+}
+
+/**
+ * 将 Zod 错误转换为字段级错误列表，如 "dishes.0.steps: 至少需要一个烹饪步骤"
+ */
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.map(String).join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
+
+/**
+ * 构建修复提示词
+ */
+function buildRepairPrompt(issues: string[]): string {
+  return `你上一次的输出没有通过格式校验，存在以下问题：
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+请修正以上问题，重新输出完整的结果。只返回有效的 JSON，不要包含任何其他内容。`;
+}
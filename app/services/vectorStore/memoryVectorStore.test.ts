@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { EmbeddingDimensionError } from '../embeddings/types';
+import { MemoryVectorStore } from './memoryVectorStore';
+import type { RagVectorStore, VectorChunk } from './types';
+
+const MODEL = { id: 'test:model-a', dimension: 3 };
+
+function chunk(id: string, documentId: string, embedding: number[], metadata: Record<string, unknown> = {}): VectorChunk {
+  return {
+    id,
+    content: `内容 ${id}`,
+    embedding,
+    metadata: { documentId, chunkId: id, fileName: `${documentId}.md`, ...metadata },
+  };
+}
+
+describe('MemoryVectorStore', () => {
+  let store: RagVectorStore;
+
+  beforeEach(async () => {
+    store = new MemoryVectorStore();
+    await store.assertEmbeddingModel(MODEL);
+  });
+
+  it('写入后按余弦相似度返回 topK', async () => {
+    await store.upsertChunks([
+      chunk('a-1', 'doc-a', [1, 0, 0]),
+      chunk('a-2', 'doc-a', [0, 1, 0]),
+      chunk('b-1', 'doc-b', [0.9, 0.1, 0]),
+    ]);
+
+    const results = await store.search([1, 0, 0], 2);
+
+    expect(results.map((result) => result.id)).toEqual(['a-1', 'b-1']);
+    expect(results[0].score).toBeCloseTo(1);
+    expect(results[0].metadata.documentId).toBe('doc-a');
+    expect(await store.count()).toBe(3);
+  });
+
+  it('相同 ID 重复写入时覆盖原有文本块', async () => {
+    await store.upsertChunks([chunk('a-1', 'doc-a', [1, 0, 0])]);
+    await store.upsertChunks([{ ...chunk('a-1', 'doc-a', [0, 1, 0]), content: '新内容' }]);
+
+    const [result] = await store.search([0, 1, 0], 1);
+
+    expect(await store.count()).toBe(1);
+    expect(result.content).toBe('新内容');
+    expect(result.score).toBeCloseTo(1);
+  });
+
+  it('按文档删除文本块', async () => {
+    await store.upsertChunks([
+      chunk('a-1', 'doc-a', [1, 0, 0]),
+      chunk('a-2', 'doc-a', [0, 1, 0]),
+      chunk('b-1', 'doc-b', [0, 0, 1]),
+    ]);
+
+    await store.deleteDocuments(['doc-a']);
+
+    expect(await store.listDocumentIds()).toEqual(['doc-b']);
+    expect((await store.search([1, 0, 0], 10)).map((result) => result.id)).toEqual(['b-1']);
+  });
+
+  it('按元数据过滤检索结果', async () => {
+    await store.upsertChunks([
+      chunk('a-1', 'doc-a', [1, 0, 0], { category: '经典', chunkType: 'ingredients', hasIngredients: true }),
+      chunk('a-2', 'doc-a', [0.9, 0.1, 0], { category: '经典', chunkType: 'instructions' }),
+      chunk('b-1', 'doc-b', [1, 0, 0], { category: '热带', chunkType: 'ingredients', hasIngredients: true }),
+    ]);
+
+    const classic = await store.search([1, 0, 0], 10, { category: '经典' });
+    const ingredients = await store.search([1, 0, 0], 10, { chunkType: 'ingredients', category: '热带' });
+    const withoutIngredients = await store.search([1, 0, 0], 10, { hasIngredients: false });
+
+    expect(classic.map((result) => result.id)).toEqual(['a-1', 'a-2']);
+    expect(ingredients.map((result) => result.id)).toEqual(['b-1']);
+    expect(withoutIngredients.map((result) => result.id)).toEqual(['a-2']);
+  });
+
+  it('拒绝维度与模型不一致的向量', async () => {
+    await expect(store.upsertChunks([chunk('a-1', 'doc-a', [1, 0])])).rejects.toBeInstanceOf(EmbeddingDimensionError);
+    await expect(store.search([1, 0, 0, 0], 1)).rejects.toBeInstanceOf(EmbeddingDimensionError);
+    expect(await store.count()).toBe(0);
+  });
+
+  it('切换向量模型时清空已有向量', async () => {
+    await store.upsertChunks([chunk('a-1', 'doc-a', [1, 0, 0])]);
+
+    await store.assertEmbeddingModel({ id: 'test:model-b', dimension: 2 });
+
+    expect(await store.count()).toBe(0);
+    await store.upsertChunks([chunk('a-1', 'doc-a', [1, 0])]);
+    expect(await store.count()).toBe(1);
+  });
+
+  it('未指定向量模型时拒绝写入和检索', async () => {
+    const empty = new MemoryVectorStore();
+
+    await expect(empty.upsertChunks([chunk('a-1', 'doc-a', [1, 0, 0])])).rejects.toThrow('未指定向量模型');
+    await expect(empty.search([1, 0, 0], 1)).rejects.toThrow('未指定向量模型');
+  });
+});
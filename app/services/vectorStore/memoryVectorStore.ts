@@ -0,0 +1,108 @@
+/**
+ * 内存向量库
+ *
+ * 在进程内保存文本块并按余弦相似度检索，不依赖外部服务（RAG_VECTOR_STORE=memory）。
+ * 实现与 Milvus / Postgres 后端相同的接口，也用于离线开发和测试
+ */
+
+import { assertDimension, type EmbeddingModelInfo } from '../embeddings/types';
+import type { ChunkFilter, RagVectorStore, VectorChunk, VectorChunkMetadata, VectorSearchResult } from './types';
+
+export class MemoryVectorStore implements RagVectorStore {
+  readonly backend = 'memory' as const;
+  private chunks = new Map<string, VectorChunk>();
+  private model: EmbeddingModelInfo | null = null;
+
+  async assertEmbeddingModel(model: EmbeddingModelInfo): Promise<void> {
+    if (this.model && (this.model.id !== model.id || this.model.dimension !== model.dimension)) {
+      // 内存中的向量都来自本地向量缓存，换模型后清空，由调用方重新写入
+      console.log(`🔄 向量模型从 ${this.model.id} 切换为 ${model.id}，清空内存向量库`);
+      this.chunks.clear();
+    }
+    this.model = model;
+  }
+
+  async upsertChunks(chunks: VectorChunk[]): Promise<void> {
+    const model = this.requireModel();
+    assertDimension(chunks.map((chunk) => chunk.embedding), model.dimension, model.id);
+    for (const chunk of chunks) {
+      this.chunks.set(chunk.id, chunk);
+    }
+  }
+
+  async deleteDocuments(documentIds: string[]): Promise<void> {
+    const ids = new Set(documentIds);
+    for (const [id, chunk] of this.chunks) {
+      if (ids.has(chunk.metadata.documentId)) {
+        this.chunks.delete(id);
+      }
+    }
+  }
+
+  async listDocumentIds(): Promise<string[]> {
+    return Array.from(new Set(Array.from(this.chunks.values(), (chunk) => chunk.metadata.documentId)));
+  }
+
+  async search(queryVector: number[], topK: number, filter?: ChunkFilter): Promise<VectorSearchResult[]> {
+    const model = this.requireModel();
+    assertDimension([queryVector], model.dimension, model.id);
+    return Array.from(this.chunks.values())
+      .filter((chunk) => matchesChunkFilter(chunk.metadata, filter))
+      .map((chunk) => ({
+        id: chunk.id,
+        content: chunk.content,
+        score: cosineSimilarity(queryVector, chunk.embedding),
+        metadata: chunk.metadata,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async count(): Promise<number> {
+    return this.chunks.size;
+  }
+
+  private requireModel(): EmbeddingModelInfo {
+    if (!this.model) {
+      throw new Error('未指定向量模型，请先调用 assertEmbeddingModel');
+    }
+    return this.model;
+  }
+}
+
+/**
+ * 判断文本块元数据是否满足过滤条件
+ */
+export function matchesChunkFilter(metadata: VectorChunkMetadata, filter?: ChunkFilter): boolean {
+  if (!filter) {
+    return true;
+  }
+  if (filter.category !== undefined && metadata.category !== filter.category) {
+    return false;
+  }
+  if (filter.chunkType !== undefined && metadata.chunkType !== filter.chunkType) {
+    return false;
+  }
+  if (filter.hasIngredients !== undefined && Boolean(metadata.hasIngredients) !== filter.hasIngredients) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 计算余弦相似度，任一向量为零向量时返回 0
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
@@ -0,0 +1,94 @@
+/**
+ * Milvus 向量库
+ *
+ * 通过 MilvusService 读写 cocktail_recipes 集合（IVF_FLAT / COSINE），RAG_VECTOR_STORE=milvus。
+ * 集合在指定向量模型时按模型维度创建
+ */
+
+import { MilvusService } from '../milvusService';
+import { assertDimension, type EmbeddingModelInfo } from '../embeddings/types';
+import type { ChunkFilter, RagVectorStore, VectorChunk, VectorSearchResult } from './types';
+
+export class MilvusVectorStore implements RagVectorStore {
+  readonly backend = 'milvus' as const;
+  private service: MilvusService;
+  private model: EmbeddingModelInfo | null = null;
+
+  constructor(service: MilvusService = new MilvusService()) {
+    this.service = service;
+  }
+
+  async assertEmbeddingModel(model: EmbeddingModelInfo): Promise<void> {
+    if (this.model?.id === model.id && this.model.dimension === model.dimension) {
+      return;
+    }
+    await this.service.createCollection(model.dimension, model.id);
+    this.model = model;
+  }
+
+  async upsertChunks(chunks: VectorChunk[]): Promise<void> {
+    if (chunks.length === 0) {
+      return;
+    }
+    const model = this.requireModel();
+    assertDimension(chunks.map((chunk) => chunk.embedding), model.dimension, model.id);
+
+    await this.service.insertVectors(
+      chunks.map((chunk) => chunk.embedding),
+      chunks.map((chunk) => chunk.content),
+      chunks.map((chunk) => chunk.metadata),
+      chunks.map((chunk) => chunk.id)
+    );
+  }
+
+  async deleteDocuments(documentIds: string[]): Promise<void> {
+    if (documentIds.length === 0 || !(await this.service.hasCollection())) {
+      return;
+    }
+    await this.service.deleteByDocumentIds(documentIds);
+  }
+
+  async listDocumentIds(): Promise<string[]> {
+    if (!(await this.service.hasCollection())) {
+      return [];
+    }
+    return this.service.listDocumentIds();
+  }
+
+  async search(queryVector: number[], topK: number, filter?: ChunkFilter): Promise<VectorSearchResult[]> {
+    const model = this.requireModel();
+    assertDimension([queryVector], model.dimension, model.id);
+    return this.service.search(queryVector, topK, toMilvusFilter(filter));
+  }
+
+  async count(): Promise<number> {
+    if (!(await this.service.hasCollection())) {
+      return 0;
+    }
+    return this.service.count();
+  }
+
+  private requireModel(): EmbeddingModelInfo {
+    if (!this.model) {
+      throw new Error('未指定向量模型，请先调用 assertEmbeddingModel');
+    }
+    return this.model;
+  }
+}
+
+/**
+ * 将过滤条件转换为 Milvus 布尔表达式，条件保存在 metadata（JSON）字段中
+ */
+function toMilvusFilter(filter?: ChunkFilter): string | undefined {
+  const conditions: string[] = [];
+  if (filter?.category !== undefined) {
+    conditions.push(`metadata["category"] == ${JSON.stringify(filter.category)}`);
+  }
+  if (filter?.chunkType !== undefined) {
+    conditions.push(`metadata["chunkType"] == ${JSON.stringify(filter.chunkType)}`);
+  }
+  if (filter?.hasIngredients !== undefined) {
+    conditions.push(`metadata["hasIngredients"] == ${filter.hasIngredients}`);
+  }
+  return conditions.length > 0 ? conditions.join(' and ') : undefined;
+}
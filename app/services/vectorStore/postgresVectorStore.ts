@@ -0,0 +1,157 @@
+/**
+ * PostgreSQL 向量库
+ *
+ * 使用 pgvector 扩展，把文本块保存在 rag_chunks 表中（RAG_VECTOR_STORE=postgres），
+ * 通过 DATABASE_URL 指向的数据库读写，不需要额外服务。
+ * 表和 pgvector 扩展由 Prisma 迁移创建（见 prisma/schema.prisma 中的 RagChunk）；
+ * 向量列不限定维度，因此不建立向量索引，适合中小规模的知识库。
+ * 每行记录生成向量的模型（embedding_model），表中已有其他模型或其他维度的向量时拒绝写入
+ */
+
+import { prisma } from '../../lib/prisma';
+import { assertDimension, EmbeddingDimensionError, type EmbeddingModelInfo } from '../embeddings/types';
+import type { ChunkFilter, RagVectorStore, VectorChunk, VectorChunkMetadata, VectorSearchResult } from './types';
+
+const TABLE_NAME = 'rag_chunks';
+
+/**
+ * rag_chunks 表的行结构
+ */
+interface ChunkRow {
+  id: string;
+  content: string;
+  metadata: VectorChunkMetadata;
+  score: number;
+}
+
+export class PostgresVectorStore implements RagVectorStore {
+  readonly backend = 'postgres' as const;
+  private model: EmbeddingModelInfo | null = null;
+
+  async assertEmbeddingModel(model: EmbeddingModelInfo): Promise<void> {
+    const rows: { embedding_model: string | null; dimension: number }[] = await prisma.$queryRawUnsafe(
+      `SELECT DISTINCT embedding_model, vector_dims(embedding) AS dimension FROM ${TABLE_NAME}`
+    );
+    const mismatched = rows.find((row) => row.embedding_model !== model.id || Number(row.dimension) !== model.dimension);
+    if (mismatched) {
+      throw new EmbeddingDimensionError(
+        `${TABLE_NAME} 中的向量由 ${mismatched.embedding_model ?? '未知模型'}（${mismatched.dimension} 维）生成，` +
+        `与当前模型 ${model.id}（${model.dimension} 维）不一致，请清空 ${TABLE_NAME} 后重新同步`
+      );
+    }
+    this.model = model;
+  }
+
+  async upsertChunks(chunks: VectorChunk[]): Promise<void> {
+    if (chunks.length === 0) {
+      return;
+    }
+    const model = this.requireModel();
+    assertDimension(chunks.map((chunk) => chunk.embedding), model.dimension, model.id);
+
+    await prisma.$transaction(
+      chunks.map((chunk) =>
+        prisma.$executeRawUnsafe(
+          `INSERT INTO ${TABLE_NAME} (id, document_id, chunk_id, file_name, page_number, content, metadata, embedding, embedding_model)
+           VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8::vector, $9)
+           ON CONFLICT (id) DO UPDATE SET
+             document_id = EXCLUDED.document_id,
+             chunk_id = EXCLUDED.chunk_id,
+             file_name = EXCLUDED.file_name,
+             page_number = EXCLUDED.page_number,
+             content = EXCLUDED.content,
+             metadata = EXCLUDED.metadata,
+             embedding = EXCLUDED.embedding,
+             embedding_model = EXCLUDED.embedding_model`,
+          chunk.id,
+          chunk.metadata.documentId,
+          chunk.metadata.chunkId,
+          chunk.metadata.fileName ?? null,
+          chunk.metadata.pageNumber ?? null,
+          chunk.content,
+          JSON.stringify(chunk.metadata),
+          toVectorLiteral(chunk.embedding),
+          model.id
+        )
+      )
+    );
+    console.log(`✅ 写入了 ${chunks.length} 个向量到 ${TABLE_NAME}`);
+  }
+
+  async deleteDocuments(documentIds: string[]): Promise<void> {
+    if (documentIds.length === 0) {
+      return;
+    }
+    await prisma.$executeRawUnsafe(
+      `DELETE FROM ${TABLE_NAME} WHERE document_id = ANY($1::text[])`,
+      documentIds
+    );
+  }
+
+  async listDocumentIds(): Promise<string[]> {
+    const rows: { document_id: string }[] = await prisma.$queryRawUnsafe(
+      `SELECT DISTINCT document_id FROM ${TABLE_NAME}`
+    );
+    return rows.map((row) => row.document_id);
+  }
+
+  async search(queryVector: number[], topK: number, filter?: ChunkFilter): Promise<VectorSearchResult[]> {
+    const model = this.requireModel();
+    assertDimension([queryVector], model.dimension, model.id);
+
+    // 过滤条件保存在 metadata（JSONB）中，参数从 $3 开始
+    const params: unknown[] = [toVectorLiteral(queryVector), topK];
+    const conditions: string[] = [];
+    if (filter?.category !== undefined) {
+      params.push(filter.category);
+      conditions.push(`metadata->>'category' = $${params.length}`);
+    }
+    if (filter?.chunkType !== undefined) {
+      params.push(filter.chunkType);
+      conditions.push(`metadata->>'chunkType' = $${params.length}`);
+    }
+    if (filter?.hasIngredients !== undefined) {
+      params.push(filter.hasIngredients);
+      conditions.push(`COALESCE((metadata->>'hasIngredients')::boolean, false) = $${params.length}`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // <=> 为余弦距离，相似度 = 1 - 距离
+    const rows: ChunkRow[] = await prisma.$queryRawUnsafe(
+      `SELECT id, content, metadata, 1 - (embedding <=> $1::vector) AS score
+       FROM ${TABLE_NAME}
+       ${where}
+       ORDER BY embedding <=> $1::vector
+       LIMIT $2`,
+      ...params
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      content: row.content,
+      score: Number(row.score),
+      metadata: row.metadata,
+    }));
+  }
+
+  async count(): Promise<number> {
+    const rows: { count: bigint }[] = await prisma.$queryRawUnsafe(
+      `SELECT COUNT(*) AS count FROM ${TABLE_NAME}`
+    );
+    return Number(rows[0]?.count ?? 0);
+  }
+
+  private requireModel(): EmbeddingModelInfo {
+    if (!this.model) {
+      throw new Error('未指定向量模型，请先调用 assertEmbeddingModel');
+    }
+    return this.model;
+  }
+}
+
+/**
+ * 将向量转换为 pgvector 的文本格式，如 "[0.1,0.2]"
+ */
+function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
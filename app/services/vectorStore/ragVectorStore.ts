@@ -0,0 +1,56 @@
+/**
+ * RAG 向量库工厂
+ *
+ * 根据环境变量 RAG_VECTOR_STORE 创建向量库，整个应用共享同一个实例
+ */
+
+import { env } from '../../lib/env';
+import { MemoryVectorStore } from './memoryVectorStore';
+import { MilvusVectorStore } from './milvusVectorStore';
+import { PostgresVectorStore } from './postgresVectorStore';
+import type { RagVectorStore, VectorStoreBackend } from './types';
+
+export type {
+  ChunkFilter,
+  RagVectorStore,
+  VectorChunk,
+  VectorChunkMetadata,
+  VectorSearchResult,
+  VectorStoreBackend,
+} from './types';
+
+/**
+ * 根据后端名称创建向量库
+ *
+ * @param backend 后端名称，缺省时使用 env.RAG_VECTOR_STORE
+ */
+export function createRagVectorStore(backend: VectorStoreBackend = env.RAG_VECTOR_STORE): RagVectorStore {
+  switch (backend) {
+    case 'memory':
+      return new MemoryVectorStore();
+    case 'milvus':
+      return new MilvusVectorStore();
+    case 'postgres':
+      return new PostgresVectorStore();
+    default:
+      throw new Error(`不支持的 RAG_VECTOR_STORE: ${backend}`);
+  }
+}
+
+/**
+ * 单例实例
+ */
+let storeInstance: RagVectorStore | null = null;
+
+/**
+ * 获取向量库单例实例
+ *
+ * @returns 当前配置的 RagVectorStore
+ */
+export function getRagVectorStore(): RagVectorStore {
+  if (!storeInstance) {
+    storeInstance = createRagVectorStore();
+    console.log(`🗄️ 使用 RAG 向量库: ${storeInstance.backend}`);
+  }
+  return storeInstance;
+}
@@ -0,0 +1,109 @@
+/**
+ * RAG 向量库接口定义
+ *
+ * ragService 通过 RagVectorStore 写入和检索文本块向量，
+ * 具体使用哪个后端由环境变量 RAG_VECTOR_STORE 决定
+ */
+
+import type { EmbeddingModelInfo } from '../embeddings/types';
+
+/**
+ * 支持的向量库后端
+ * - memory：进程内向量库，数据来自本地向量缓存文件，不依赖外部服务
+ * - milvus：Milvus 集合（cocktail_recipes）
+ * - postgres：PostgreSQL + pgvector（rag_chunks 表）
+ */
+export type VectorStoreBackend = 'memory' | 'milvus' | 'postgres';
+
+/**
+ * 文本块元数据
+ * documentId、chunkId、fileName、pageNumber 在 Milvus / Postgres 中保存为独立字段，可用于过滤
+ */
+export interface VectorChunkMetadata {
+  /** 所属文档 ID（文件内容哈希） */
+  documentId: string;
+  chunkId: string;
+  fileName?: string;
+  pageNumber?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * 检索过滤条件
+ * 按文本块元数据（ragService 切分时生成）过滤，未提供的条件不参与过滤
+ */
+export interface ChunkFilter {
+  /** 配方分类，如 "经典"、"热带" */
+  category?: string;
+  /** 文本块类型：ingredients / instructions / tips / title / description */
+  chunkType?: string;
+  /** 是否包含原料信息 */
+  hasIngredients?: boolean;
+}
+
+/**
+ * 待写入的文本块
+ */
+export interface VectorChunk {
+  id: string;
+  content: string;
+  embedding: number[];
+  metadata: VectorChunkMetadata;
+}
+
+/**
+ * 检索结果
+ */
+export interface VectorSearchResult {
+  id: string;
+  content: string;
+  /** 余弦相似度，越大越相关 */
+  score: number;
+  metadata: VectorChunkMetadata;
+}
+
+/**
+ * RAG 向量库
+ */
+export interface RagVectorStore {
+  /** 后端名称 */
+  readonly backend: VectorStoreBackend;
+
+  /**
+   * 指定写入和检索使用的向量模型，必须在 upsertChunks / search 之前调用。
+   * 向量库中已有其他模型或其他维度的向量时拒绝使用（内存向量库直接清空），避免不同模型的向量混在同一个索引中
+   *
+   * @throws {EmbeddingDimensionError} 向量库中的向量与模型不一致
+   */
+  assertEmbeddingModel(model: EmbeddingModelInfo): Promise<void>;
+
+  /**
+   * 写入文本块，ID 已存在时覆盖
+   *
+   * @throws {EmbeddingDimensionError} 向量维度与 assertEmbeddingModel 指定的模型不一致
+   */
+  upsertChunks(chunks: VectorChunk[]): Promise<void>;
+
+  /**
+   * 删除文档的全部文本块
+   */
+  deleteDocuments(documentIds: string[]): Promise<void>;
+
+  /**
+   * 列出向量库中已有的文档 ID
+   */
+  listDocumentIds(): Promise<string[]>;
+
+  /**
+   * 按向量检索最相似的文本块
+   *
+   * @param filter 元数据过滤条件，在向量检索时一并应用
+   * @throws {EmbeddingDimensionError} 检索向量维度与 assertEmbeddingModel 指定的模型不一致
+   */
+  search(queryVector: number[], topK: number, filter?: ChunkFilter): Promise<VectorSearchResult[]>;
+
+  /**
+   * 文本块总数
+   */
+  count(): Promise<number>;
+}
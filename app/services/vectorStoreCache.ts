@@ -0,0 +1,139 @@
+/**
+ * RAG 向量持久化
+ *
+ * 将 PDF 切分后的文本块及其向量保存到本地 JSON 文件，按文件内容哈希索引。
+ * 服务重启或冷启动时直接从文件恢复向量库，只有新增或修改过的 PDF 才需要重新生成向量。
+ */
+
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import path from "path";
+import { cwd } from "process";
+
+/**
+ * 缓存文件格式版本，结构不兼容时递增
+ * 2：PDF 文本块改为逐页解析，记录页码、字符位置和没有文本的页
+ */
+const CACHE_VERSION = 2;
+
+/**
+ * 缓存文件路径，可通过 RAG_STORE_PATH 覆盖
+ */
+export const VECTOR_CACHE_PATH = process.env.RAG_STORE_PATH
+  ? path.resolve(process.env.RAG_STORE_PATH)
+  : path.resolve(cwd(), ".rag-store", "vectors.json");
+
+/**
+ * 已生成向量的文本块
+ */
+export interface CachedChunk {
+  content: string;
+  metadata: Record<string, unknown>;
+  embedding: number[];
+  /** 关键词索引（BM25）使用的词频，旧缓存中可能缺失 */
+  terms?: Record<string, number>;
+}
+
+/**
+ * 单个文档（PDF 文件）的缓存
+ */
+export interface CachedDocument {
+  /** 文件内容的 SHA-256 */
+  hash: string;
+  fileName: string;
+  /** 文档类型，如 "pdf"、"markdown"、"csv"（见 documentLoaders.ts），旧缓存中缺省为 "pdf" */
+  documentType?: string;
+  /** 文档页数（PDF 按页解析，其他格式为 1） */
+  pageCount: number;
+  /** 只包含已生成向量的文本块 */
+  chunks: CachedChunk[];
+  /** 向量化失败的文本块数量，大于 0 时下次同步重新处理该文档 */
+  failedChunkCount?: number;
+  /** PDF 中没有可提取文本的页（空白页、扫描页、解析失败的页），旧缓存和其他格式中缺省 */
+  flaggedPages?: number[];
+  createdAt: string;
+}
+
+/**
+ * 缓存文件内容
+ */
+export interface VectorCache {
+  version: number;
+  /** 生成向量使用的模型标识（"<provider>:<model>"），模型变化后缓存失效 */
+  embeddingModel: string;
+  /** 向量维度，缓存为空时为 null；旧缓存中缺失时从文本块读取 */
+  embeddingDimension: number | null;
+  updatedAt: string;
+  /** 按文件哈希索引的文档 */
+  documents: Record<string, CachedDocument>;
+}
+
+/**
+ * 计算文件内容的 SHA-256
+ */
+export function hashFile(filePath: string): string {
+  return createHash("sha256").update(readFileSync(filePath)).digest("hex");
+}
+
+/**
+ * 读取缓存
+ *
+ * @param embeddingModel 当前使用的向量模型
+ * @returns 缓存；文件不存在、格式版本不一致或模型不一致时返回 null
+ */
+export function loadVectorCache(embeddingModel: string): VectorCache | null {
+  if (!existsSync(VECTOR_CACHE_PATH)) {
+    return null;
+  }
+
+  try {
+    const cache = JSON.parse(readFileSync(VECTOR_CACHE_PATH, "utf-8")) as VectorCache;
+    if (cache.version !== CACHE_VERSION) {
+      console.warn(`[RAG] Vector cache version ${cache.version} is outdated, ignoring cache`);
+      return null;
+    }
+    if (cache.embeddingModel !== embeddingModel) {
+      console.warn(`[RAG] Vector cache was built with ${cache.embeddingModel}, current model is ${embeddingModel}; ignoring cache`);
+      return null;
+    }
+    cache.embeddingDimension ??= getCacheDimension(cache.documents);
+    return cache;
+  } catch (error) {
+    console.warn(`[RAG] Failed to read vector cache: ${VECTOR_CACHE_PATH}`, error);
+    return null;
+  }
+}
+
+/**
+ * 保存缓存
+ * 先写入临时文件再重命名，避免进程中断时留下损坏的缓存文件
+ */
+export function saveVectorCache(embeddingModel: string, documents: Record<string, CachedDocument>): VectorCache {
+  const cache: VectorCache = {
+    version: CACHE_VERSION,
+    embeddingModel,
+    embeddingDimension: getCacheDimension(documents),
+    updatedAt: new Date().toISOString(),
+    documents,
+  };
+
+  mkdirSync(path.dirname(VECTOR_CACHE_PATH), { recursive: true });
+  const tempPath = `${VECTOR_CACHE_PATH}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(cache));
+  renameSync(tempPath, VECTOR_CACHE_PATH);
+
+  console.log(`[RAG] Vector cache saved: ${Object.keys(documents).length} documents -> ${VECTOR_CACHE_PATH}`);
+  return cache;
+}
+
+/**
+ * 取第一个文本块的向量维度，没有文本块时返回 null
+ */
+function getCacheDimension(documents: Record<string, CachedDocument>): number | null {
+  for (const doc of Object.values(documents)) {
+    if (doc.chunks.length > 0) {
+      return doc.chunks[0].embedding.length;
+    }
+  }
+  return null;
+}
@@ -4,6 +4,46 @@
  * 本文件定义了多 Agent 系统中 Agent 1 (菜品推荐) 和 Agent 2 (酒品搭配) 的接口规范
  */
 
+import type { RecipeCitation } from './index';
+
+/**
+ * 饮食限制
+ * - vegetarian：素食（不含肉类、禽类和海鲜）
+ * - vegan：纯素（不含任何动物制品）
+ * - halal：清真（不含猪肉制品和酒精，饮品也不含酒精）
+ * - gluten_free：无麸质
+ */
+export type DietaryRestriction = 'vegetarian' | 'vegan' | 'halal' | 'gluten_free';
+
+/**
+ * 需要排除的过敏原
+ */
+export type Allergen = 'nuts' | 'shellfish' | 'dairy';
+
+/**
+ * 用户的饮食偏好，菜品和酒品都需要遵守
+ */
+export interface DietaryPreferences {
+  restrictions: DietaryRestriction[];
+  allergens: Allergen[];
+  /** 无酒精模式：只推荐无酒精饮品（mocktail）；有清真限制时始终为 true */
+  nonAlcoholic: boolean;
+}
+
+/**
+ * 搭配推荐请求（POST /api/food-pairing、POST /api/food-pairing/stream 的请求体）
+ */
+export interface FoodPairingRequest {
+  cuisine?: string | null;
+  foodIngredients: string[];
+  drinkIngredients?: string[];
+  /** 是否在酒品搭配前由用户确认菜品 */
+  reviewDishes?: boolean;
+  dietaryRestrictions?: DietaryRestriction[];
+  allergens?: Allergen[];
+  nonAlcoholic?: boolean;
+}
+
 /**
  * Agent 1 输入接口
  * 菜品推荐 Agent 的输入参数
@@ -13,6 +53,10 @@ export interface DishRecommenderInput {
   cuisine?: string | null;
   /** 现有原料列表，必需，如 ["牛肉", "土豆", "洋葱"] */
   ingredients: string[];
+  /** 饮食限制，可选 */
+  dietaryRestrictions?: DietaryRestriction[];
+  /** 需要排除的过敏原，可选 */
+  allergens?: Allergen[];
 }
 
 /**
@@ -69,6 +113,12 @@ export interface BeveragePairingInput {
   dishes: DishRecommendation[];
   /** 用户输入的酒原料列表，可选，如 ["威士忌", "柠檬", "糖浆"] */
   drinkIngredients?: string[];
+  /** 饮食限制，可选 */
+  dietaryRestrictions?: DietaryRestriction[];
+  /** 需要排除的过敏原，可选 */
+  allergens?: Allergen[];
+  /** 无酒精模式，可选 */
+  nonAlcoholic?: boolean;
 }
 
 /**
@@ -102,6 +152,8 @@ export interface BeverageRecommendation {
   source?: string;
   /** 分类标签（可选） */
   tags?: string[];
+  /** 配方参考的知识库来源（可选） */
+  citations?: RecipeCitation[];
 }
 
 /**
@@ -148,6 +200,272 @@ export interface CompletePairingRecommendation {
     beverageCount: number;
     /** 搭配数量 */
     pairingCount: number;
+    /** 参考的知识库片段数量 */
+    knowledgeChunkCount?: number;
+    /** 生成推荐时遵守的饮食偏好 */
+    dietary?: DietaryPreferences;
+  };
+}
+
+
+/**
+ * 配餐调酒输入接口
+ * 根据菜系和/或菜品原料推荐与之搭配的鸡尾酒，菜系与原料至少提供一项
+ */
+export interface CocktailPairingInput {
+  /** 菜系类型，可选，如 "川菜"、"日料"、"西餐" 等 */
+  cuisine?: string | null;
+  /** 菜品原料列表，可选，如 ["牛肉", "花椒", "辣椒"] */
+  ingredients: string[];
+}
+
+/**
+ * 菜系风味画像
+ * 配餐调酒流程第一步的输出，描述待搭配菜系/菜品的风味特征
+ */
+export interface CuisineFlavorProfile {
+  /** 唯一标识符，搭配理由中的 dishId 指向该画像 */
+  id: string;
+  /** 菜系名称 */
+  cuisine: string;
+  /** 参与分析的菜品原料 */
+  ingredients: string[];
+  /** 主要风味，如 ["麻", "辣", "鲜"] */
+  flavors: string[];
+  /** 风味强度，1-5，1=清淡，5=浓烈 */
+  intensity: number;
+  /** 风味特征和配酒方向的简要说明 */
+  summary: string;
+}
+
+/**
+ * 配餐调酒推荐结果
+ * 复用 BeverageRecommendation 和 PairingReason，前端可以与菜品搭配使用同样的卡片渲染
+ */
+export interface CocktailPairingRecommendation {
+  /** 菜系风味画像 */
+  flavorProfile: CuisineFlavorProfile;
+  /** 推荐的鸡尾酒列表 */
+  recommendations: BeverageRecommendation[];
+  /** 每款鸡尾酒的搭配理由（dishId 为风味画像 ID） */
+  pairingReasons: PairingReason[];
+  /** 整体搭配建议 */
+  overallSuggestion: string;
+  /** 推荐元数据 */
+  metadata?: {
+    /** 推荐时间戳 */
+    timestamp: string;
+    /** 使用的模型 */
+    model?: string;
+    /** 鸡尾酒数量 */
+    beverageCount: number;
+    /** 搭配数量 */
+    pairingCount: number;
   };
 }
 
+/**
+ * 搭配推荐历史记录
+ * 对应 FoodPairingHistory 数据库模型，Json 字段已转换为业务类型
+ */
+export interface FoodPairingHistoryEntry {
+  /** 历史记录 ID */
+  id: string;
+  /** 会话 ID */
+  sessionId: string;
+  /** 用户输入的菜系 */
+  cuisine: string | null;
+  /** 用户输入的食品原料 */
+  foodIngredients: string[];
+  /** 用户输入的酒原料 */
+  drinkIngredients: string[];
+  /** 当次运行的完整推荐方案 */
+  recommendation: CompletePairingRecommendation;
+  /** 创建时间 */
+  createdAt: string;
+}
+
+/**
+ * 搭配推荐历史摘要
+ * 历史列表接口返回的精简信息，完整内容通过详情接口获取
+ */
+export interface FoodPairingHistorySummary {
+  /** 历史记录 ID */
+  id: string;
+  /** 用户输入的菜系 */
+  cuisine: string | null;
+  /** 用户输入的食品原料 */
+  foodIngredients: string[];
+  /** 用户输入的酒原料 */
+  drinkIngredients: string[];
+  /** 推荐的菜品名称 */
+  dishNames: string[];
+  /** 推荐的酒品名称 */
+  beverageNames: string[];
+  /** 整体搭配建议 */
+  overallSuggestion: string | null;
+  /** 创建时间 */
+  createdAt: string;
+}
+
+/**
+ * 菜品收藏记录
+ * 对应 DishFavorite 数据库模型（包含关联的菜品）
+ */
+export interface FavoriteDishEntry {
+  /** 收藏记录 ID */
+  id: string;
+  /** 会话 ID */
+  sessionId: string;
+  /** 菜品 ID */
+  dishId: string;
+  /** 收藏时间 */
+  createdAt: string;
+  /** 收藏的菜品 */
+  dish: DishRecommendation | null;
+}
+
+/**
+ * 搭配推荐图中的节点名称
+ */
+export type FoodPairingNodeName =
+  | 'dish_recommender'
+  | 'dish_critic'
+  | 'dish_selection'
+  | 'knowledge_retrieval'
+  | 'beverage_pairing'
+  | 'pairing_merger'
+  | 'beverage_critic';
+
+/**
+ * 用户对单个菜品的确认操作
+ * - accept：保留
+ * - reject：去掉，生成替换菜品时不会再推荐
+ * - edit：按 changes 修改后保留
+ */
+export interface DishSelectionDecision {
+  dishId: string;
+  action: 'accept' | 'reject' | 'edit';
+  changes?: Partial<Pick<
+    DishRecommendation,
+    'name' | 'description' | 'cuisine' | 'requiredIngredients' | 'cookingTime' | 'difficulty' | 'steps' | 'tags'
+  >>;
+}
+
+/**
+ * 用户的菜品确认结果
+ * 没有出现在 decisions 中的菜品视为保留；提供 replacements 时先生成替换菜品，再次等待确认
+ */
+export interface DishSelection {
+  decisions: DishSelectionDecision[];
+  replacements?: {
+    /** 需要补充的菜品数量 */
+    count: number;
+    /** 对替换菜品的要求，如 "清淡一些" */
+    hint?: string;
+  };
+}
+
+/**
+ * 等待用户确认菜品时图中断的内容
+ */
+export interface DishSelectionRequest {
+  type: 'dish_selection';
+  /** 第几轮确认（要求替换菜品后轮数加一） */
+  round: number;
+  dishes: DishRecommendation[];
+}
+
+/**
+ * 搭配推荐执行状态（按 threadId 保存的检查点）
+ * - completed：执行完成
+ * - awaiting_input：等待用户确认菜品（dishes 为待确认的菜品）
+ * - failed：节点执行失败（failedNode），可以恢复执行，只重新执行失败的节点
+ * - interrupted：执行中断（服务重启或仍在执行），next 为待执行的节点
+ */
+export type FoodPairingRunStatus = 'completed' | 'awaiting_input' | 'failed' | 'interrupted';
+
+/**
+ * 搭配推荐执行记录
+ */
+export interface FoodPairingRun {
+  threadId: string;
+  status: FoodPairingRunStatus;
+  /** 用户输入 */
+  input: {
+    cuisine: string | null;
+    foodIngredients: string[];
+    drinkIngredients: string[];
+    /** 是否在酒品搭配前由用户确认菜品 */
+    reviewDishes: boolean;
+    dietaryRestrictions: DietaryRestriction[];
+    allergens: Allergen[];
+    nonAlcoholic: boolean;
+  };
+  /** 待执行的节点 */
+  next: FoodPairingNodeName[];
+  failedNode: FoodPairingNodeName | null;
+  error: string | null;
+  /** 已生成的菜品推荐 */
+  dishes: DishRecommendation[];
+  /** 完整的搭配推荐，执行完成后才有 */
+  result: CompletePairingRecommendation | null;
+  /** 最新检查点的保存时间 */
+  updatedAt: string | null;
+}
+
+/**
+ * 流式搭配推荐事件
+ * /api/food-pairing/stream 以 Server-Sent Events 推送，event 字段即 type
+ */
+export type FoodPairingStreamEvent =
+  | {
+    /** 节点开始执行；酒品搭配节点按菜品并发执行，附带对应的菜品 ID */
+    type: 'node_start';
+    node: FoodPairingNodeName;
+    dishId?: string;
+  }
+  | {
+    /** 节点执行结束；菜品推荐节点结束时附带菜品列表，酒品搭配节点附带对应的菜品 ID */
+    type: 'node_end';
+    node: FoodPairingNodeName;
+    dishId?: string;
+    dishes?: DishRecommendation[];
+    error?: string | null;
+  }
+  | {
+    /** 酒品搭配节点（每个菜品一条输出，增量交错推送）和搭配汇总节点的 LLM 增量输出 */
+    type: 'partial';
+    node: 'beverage_pairing' | 'pairing_merger';
+    /** 酒品搭配节点对应的菜品 ID */
+    dishId?: string;
+    /** 本次新增的文本 */
+    delta: string;
+    /** 该次 LLM 调用已生成的文本总长度 */
+    length: number;
+  }
+  | {
+    /** 等待用户确认菜品，通过 POST /api/food-pairing/runs/:threadId（action 为 select_dishes）提交后继续 */
+    type: 'awaiting_input';
+    threadId: string;
+    dishes: DishRecommendation[];
+  }
+  | {
+    /** 最终推荐结果 */
+    type: 'result';
+    data: CompletePairingRecommendation;
+    /** 执行线程 ID，可通过 /api/food-pairing/runs/:id 查询 */
+    threadId?: string;
+    historyId?: string | null;
+    metadata?: {
+      executionTime: number;
+      timestamp: string;
+    };
+  }
+  | {
+    /** 执行失败 */
+    type: 'error';
+    error: string;
+    /** 执行线程 ID，图已开始执行时提供，可通过 /api/food-pairing/runs/:id 恢复执行 */
+    threadId?: string;
+  };
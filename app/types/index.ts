@@ -8,6 +8,7 @@ export interface Recipe {
   difficulty: number;
   estimatedTime: number;
   source?: string;
+  citations?: RecipeCitation[];
   createdAt: Date;
 }
 
@@ -36,25 +37,69 @@ export interface KnowledgeDocument {
   createdAt: Date;
 }
 
+// RAG检索到的知识库片段
+export interface KnowledgeContext {
+  chunkId: string;
+  // 来源文件名
+  source: string;
+  page?: number;
+  // 相似度
+  score: number;
+  content: string;
+}
+
+// 配方引用的知识库来源
+export interface RecipeCitation {
+  source: string;
+  page?: number;
+  chunkId: string;
+  score: number;
+}
+
 // PDF处理相关类型
 export interface PDFDocument {
   id: string;
   title: string;
+  // 各页文本依次拼接（页之间以 PDF_PAGE_SEPARATOR 分隔），文本块和页面的字符位置都相对于它
   content: string;
+  pages: PDFPage[];
   chunks: TextChunk[];
   metadata: {
     filePath: string;
     fileSize: number;
     lastModified: Date;
     pageCount: number;
+    // 没有可提取文本的页（空白页、扫描页、解析失败的页）
+    flaggedPages: number[];
   };
 }
 
+// PDF 页面的文本提取状态
+// text：有文本；empty：空白页；scanned：只有图片的扫描页，需要 OCR；error：页面解析失败
+export type PDFPageStatus = 'text' | 'empty' | 'scanned' | 'error';
+
+export interface PDFPage {
+  // 页码，从 1 开始
+  pageNumber: number;
+  status: PDFPageStatus;
+  // 页面文本在 PDFDocument.content 中的起止位置 [startOffset, endOffset)
+  startOffset: number;
+  endOffset: number;
+  // 页面中的图片数量
+  imageCount: number;
+  error?: string;
+}
+
 export interface TextChunk {
   id: string;
+  // 等于 PDFDocument.content.slice(startOffset, endOffset)
   content: string;
+  // 文本块所在页码，文本块不跨页
   pageNumber: number;
   chunkIndex: number;
+  // 文本块在 PDFDocument.content 中的起止位置 [startOffset, endOffset)
+  startOffset: number;
+  endOffset: number;
   metadata: {
     recipeName?: string;
     ingredients?: string[];
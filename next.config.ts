@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // 本地向量模型（onnxruntime-node）在服务端运行，不参与打包
+  serverExternalPackages: ["@xenova/transformers"],
 };
 
 export default nextConfig;
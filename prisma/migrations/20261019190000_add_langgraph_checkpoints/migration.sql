@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "langgraph_checkpoints" (
+    "threadId" VARCHAR(255) NOT NULL,
+    "checkpointNs" VARCHAR(255) NOT NULL DEFAULT '',
+    "checkpointId" VARCHAR(255) NOT NULL,
+    "parentCheckpointId" VARCHAR(255),
+    "type" VARCHAR(50) NOT NULL,
+    "checkpoint" BYTEA NOT NULL,
+    "metadata" BYTEA NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "langgraph_checkpoints_pkey" PRIMARY KEY ("threadId","checkpointNs","checkpointId")
+);
+
+-- CreateTable
+CREATE TABLE "langgraph_checkpoint_writes" (
+    "threadId" VARCHAR(255) NOT NULL,
+    "checkpointNs" VARCHAR(255) NOT NULL DEFAULT '',
+    "checkpointId" VARCHAR(255) NOT NULL,
+    "taskId" VARCHAR(255) NOT NULL,
+    "idx" INTEGER NOT NULL,
+    "channel" VARCHAR(255) NOT NULL,
+    "type" VARCHAR(50) NOT NULL,
+    "value" BYTEA NOT NULL,
+
+    CONSTRAINT "langgraph_checkpoint_writes_pkey" PRIMARY KEY ("threadId","checkpointNs","checkpointId","taskId","idx")
+);
@@ -0,0 +1,20 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- CreateTable
+CREATE TABLE "rag_chunks" (
+    "id" TEXT NOT NULL,
+    "document_id" TEXT NOT NULL,
+    "chunk_id" TEXT NOT NULL,
+    "file_name" TEXT,
+    "page_number" INTEGER,
+    "content" TEXT NOT NULL,
+    "metadata" JSONB NOT NULL DEFAULT '{}',
+    "embedding" vector NOT NULL,
+    "embedding_model" TEXT,
+
+    CONSTRAINT "rag_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rag_chunks_document_id_idx" ON "rag_chunks"("document_id");